@@ -7,7 +7,7 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { useKeepAwake } from 'expo-keep-awake';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { AppNavigator } from './src/navigation/AppNavigator';
-import { useNetworkStatus, useOrderNotifications, useHeartbeat, useAppUpdates, useVersionGate } from './src/hooks';
+import { useNetworkStatus, useOrderNotifications, useHeartbeat, useAppUpdates, useVersionGate, useRealtimeOrders } from './src/hooks';
 import { ThemeProvider, useTheme } from './src/theme';
 import { ErrorBoundary } from './src/components/ErrorBoundary';
 import { initSentry, setSentryContext, addBreadcrumb } from './src/config/sentry';
@@ -56,6 +56,9 @@ const AppContent: React.FC = () => {
   // Initialize heartbeat for device health reporting
   useHeartbeat();
 
+  // Realtime order push (polling covers for it while it's down)
+  useRealtimeOrders();
+
   // Version gate (force update if below minimum)
   const versionGate = useVersionGate();
 
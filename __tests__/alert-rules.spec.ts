@@ -0,0 +1,101 @@
+/**
+ * Alert keyword rules: whole-word matching, exclusions, saved/pushed rule
+ * merging and the kitchen ticket's alert sections.
+ */
+
+import { Order } from '../src/types';
+import { interpretEscPos, PaperLine } from '../src/services/escpos';
+import {
+  applyAlertRuleUpdates,
+  DEFAULT_ALERT_RULES,
+  generateKitchenTicket,
+  matchesAlertRule,
+  resolveAlertRules,
+} from '../src/services/tickets';
+
+const textLines = (lines: PaperLine[]) =>
+  lines.flatMap((line) => (line.type === 'text' ? [line.segments.map((s) => s.text).join('').trim()] : []));
+
+describe('matchesAlertRule', () => {
+  const { urgent, allergy, dietary } = DEFAULT_ALERT_RULES;
+
+  it('matches whole words only when asked', () => {
+    expect(matchesAlertRule('Breakfast sandwich', urgent)).toBe(false);
+    expect(matchesAlertRule('Make it FAST please', urgent)).toBe(true);
+    expect(matchesAlertRule('Bigfoot combo', dietary)).toBe(false);
+    expect(matchesAlertRule('GF bun', dietary)).toBe(true);
+    expect(matchesAlertRule('Kid has peanuts issue', allergy)).toBe(true); // Substring for allergies
+  });
+
+  it('ignores excluded phrases but still sees keywords elsewhere', () => {
+    expect(matchesAlertRule('No rush, pickup at 6', urgent)).toBe(false);
+    expect(matchesAlertRule('No rush on the fries, but the burger is URGENT', urgent)).toBe(true);
+    expect(matchesAlertRule('No known allergies', allergy)).toBe(false);
+  });
+
+  it('handles empty text and punctuation in keywords', () => {
+    expect(matchesAlertRule(undefined, urgent)).toBe(false);
+    expect(matchesAlertRule('bring the epi-pen', allergy)).toBe(true);
+    expect(matchesAlertRule('plant-based patty', dietary)).toBe(true);
+  });
+});
+
+describe('rule sets', () => {
+  it('fills categories missing from saved settings with the defaults', () => {
+    expect(resolveAlertRules(null)).toEqual(DEFAULT_ALERT_RULES);
+    const saved = resolveAlertRules({ urgent: { keywords: [' Rush ', ''], exclusions: [], wholeWord: true } });
+    expect(saved.urgent.keywords).toEqual(['rush']);
+    expect(saved.allergy).toEqual(DEFAULT_ALERT_RULES.allergy);
+  });
+
+  it('applies only the categories and fields the server pushes', () => {
+    const next = applyAlertRuleUpdates(DEFAULT_ALERT_RULES, {
+      allergy: { keywords: ['raw fish', 'Shellfish'] },
+      dietary: { whole_word: false },
+    });
+    expect(next.allergy).toEqual({ ...DEFAULT_ALERT_RULES.allergy, keywords: ['raw fish', 'shellfish'] });
+    expect(next.dietary).toEqual({ ...DEFAULT_ALERT_RULES.dietary, wholeWord: false });
+    expect(next.urgent).toBe(DEFAULT_ALERT_RULES.urgent);
+    expect(applyAlertRuleUpdates(DEFAULT_ALERT_RULES, undefined)).toEqual(DEFAULT_ALERT_RULES);
+  });
+});
+
+describe('kitchen ticket alerts', () => {
+  const order: Order = {
+    id: '1',
+    numeric_id: 101,
+    order_number: 'ORD-2025-004821',
+    restaurant_id: 'r1',
+    status: 'pending',
+    order_type: 'pickup',
+    items: [{ id: 'i1', name: 'Salmon Nigiri', quantity: 2, price: 6, notes: 'Cooked, no raw fish please' }],
+    customer: { name: 'Sam', phone: '5555550100' },
+    notes: 'Breakfast for the team, no rush',
+    subtotal: 12,
+    tax: 1.56,
+    total: 13.56,
+    created_at: '2025-12-17T13:50:00Z',
+    updated_at: '2025-12-17T13:50:00Z',
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('raises no false alarms with the default rules', () => {
+    const lines = textLines(interpretEscPos(generateKitchenTicket(order)).lines);
+    expect(lines).not.toContain('>>> URGENT <<<');
+    expect(lines).not.toContain('!! ALLERGY !!');
+  });
+
+  it("uses the restaurant's own keywords", () => {
+    const sushiBar = applyAlertRuleUpdates(DEFAULT_ALERT_RULES, { allergy: { keywords: ['raw fish'] } });
+    const lines = textLines(interpretEscPos(generateKitchenTicket(order, undefined, undefined, undefined, sushiBar)).lines);
+    expect(lines).toContain('!! ALLERGY !!');
+    expect(lines).toContain('Salmon Nigiri:');
+  });
+});
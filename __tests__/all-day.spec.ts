@@ -0,0 +1,104 @@
+/**
+ * All Day: item / size / modifier counts across the open orders and the
+ * printed prep summary.
+ */
+
+import { Order, OrderItem } from '../src/types';
+import { interpretEscPos, lineWidth, PaperLine } from '../src/services/escpos';
+import { buildAllDaySummary, generatePrepSummary, PAPER_PROFILES } from '../src/services/tickets';
+import { makeOrder } from './helpers/orders';
+
+const textLines = (lines: PaperLine[]) =>
+  lines.flatMap((line) => (line.type === 'text' ? [line.segments.map((s) => s.text).join('').trim()] : []));
+
+const pepperoni = (quantity: number, modifiers: OrderItem['modifiers'] = []): OrderItem => ({
+  id: `p${quantity}`,
+  name: 'Pepperoni Pizza',
+  quantity,
+  price: 14,
+  modifiers: [{ id: 's', name: 'Large', price: 0, group_name: 'Choose your size' }, ...(modifiers || [])],
+});
+
+const orders: Order[] = [
+  makeOrder({ id: 'a', status: 'pending', items: [pepperoni(2), { id: 'f', name: 'Fries', quantity: 1, price: 4 }] }),
+  makeOrder({
+    id: 'b',
+    status: 'preparing',
+    items: [
+      pepperoni(1, [{ id: 'x', name: 'Extra Cheese', price: 2, group_name: 'Toppings' }]),
+      { id: 'f', name: 'Fries ', quantity: 2, price: 4 },
+    ],
+  }),
+  makeOrder({ id: 'c', status: 'confirmed', items: [pepperoni(1, [{ id: 'x', name: 'Extra Cheese', price: 2, group_name: 'Toppings' }])] }),
+  makeOrder({ id: 'd', status: 'ready', items: [pepperoni(5)] }),
+  makeOrder({ id: 'e', status: 'cancelled', items: [pepperoni(5)] }),
+];
+
+describe('buildAllDaySummary', () => {
+  const summary = buildAllDaySummary(orders);
+
+  it('counts items on pending, confirmed and preparing orders only', () => {
+    expect(summary.order_count).toBe(3);
+    expect(summary.item_count).toBe(7);
+  });
+
+  it('adds up each item and size with its modifier combinations', () => {
+    expect(summary.items.map((item) => [item.quantity, item.size, item.name, item.order_count])).toEqual([
+      [4, 'Large', 'Pepperoni Pizza', 3],
+      [3, null, 'Fries', 2],
+    ]);
+    expect(summary.items[0].variants).toEqual([
+      { modifiers: [], quantity: 2 },
+      { modifiers: ['Extra Cheese'], quantity: 2 },
+    ]);
+  });
+
+  it('labels 2-for-1 pizza halves and placements', () => {
+    const [item] = buildAllDaySummary([
+      makeOrder({
+        id: 'f',
+        status: 'pending',
+        items: [
+          {
+            id: 'two',
+            name: '2 Medium Pizzas',
+            quantity: 1,
+            price: 20,
+            modifiers: [
+              { id: 'm1', name: 'Mushrooms', price: 1, placement: 'left', instance_index: 0 },
+              { id: 'm2', name: 'Olives', price: 1, quantity: 2, instance_index: 1 },
+            ],
+          },
+        ],
+      }),
+    ]).items;
+    expect(item.variants[0].modifiers).toEqual(['Pizza 1: Mushrooms (LEFT)', 'Pizza 2: Olives x2']);
+  });
+});
+
+describe('prep summary ticket', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('prints counts with the modifier breakdown', () => {
+    const lines = textLines(interpretEscPos(generatePrepSummary(buildAllDaySummary(orders))).lines);
+
+    expect(lines).toContain('ALL DAY');
+    expect(lines).toContain('Open orders: 3   Items: 7');
+    expect(lines).toContain('4x LARGE PEPPERONI PIZZA');
+    expect(lines).toContain('2x As is');
+    expect(lines).toContain('2x Extra Cheese');
+    expect(lines).toContain('3x FRIES');
+  });
+
+  it('fits 58mm paper', () => {
+    const paper = PAPER_PROFILES['58mm'];
+    const data = generatePrepSummary(buildAllDaySummary(orders), paper);
+    expect(Math.max(...interpretEscPos(data, 1000).lines.map(lineWidth))).toBeLessThanOrEqual(paper.columns);
+  });
+});
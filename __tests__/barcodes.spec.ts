@@ -0,0 +1,160 @@
+/**
+ * QR code (GS ( k) and Code128 (GS k 73) encoders, checked byte for byte,
+ * and the receipt's scannable footer read back by the interpreter.
+ */
+
+import { Order } from '../src/types';
+import {
+  code128Command,
+  code128Modules,
+  fitCode128ModuleWidth,
+  GS,
+  interpretEscPos,
+  PaperLine,
+  qrCodeCommand,
+  renderEscPos,
+  renderPlainText,
+  TicketBuilder,
+} from '../src/services/escpos';
+import { generateReceiptText, getOrderStatusUrl, getPaperProfile } from '../src/services/tickets';
+
+const bytes = (text: string) => Array.from(text).map((char) => char.charCodeAt(0));
+
+const codeLines = (lines: PaperLine[]) =>
+  lines.flatMap((line) => (line.type === 'code' ? [`${line.kind}:${line.data}`] : []));
+
+describe('qrCodeCommand', () => {
+  it('sets model, size and error correction, stores the data and prints it', () => {
+    expect(bytes(qrCodeCommand('ABC'))).toEqual([
+      0x1d, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00, // Model 2
+      0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, 0x06,       // Module size 6
+      0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31,       // Error correction M
+      0x1d, 0x28, 0x6b, 0x06, 0x00, 0x31, 0x50, 0x30, 0x41, 0x42, 0x43, // Store "ABC"
+      0x1d, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30,       // Print
+    ]);
+  });
+
+  it('applies size and error correction, clamping the size', () => {
+    expect(qrCodeCommand('A', { size: 3, errorCorrection: 'H' })).toContain(`${GS}(k\x03\x001C\x03${GS}(k\x03\x001E3`);
+    expect(qrCodeCommand('A', { size: 40 })).toContain(`${GS}(k\x03\x001C\x10`);
+  });
+
+  it('splits long data lengths across pL and pH', () => {
+    const data = 'x'.repeat(300); // 300 + 3 = 303 = 0x012F
+    expect(qrCodeCommand(data)).toContain(`${GS}(k\x2F\x011P0${data}`);
+  });
+
+  it('rejects empty or oversized data', () => {
+    expect(() => qrCodeCommand('')).toThrow('empty');
+    expect(() => qrCodeCommand('x'.repeat(7090))).toThrow('max 7089');
+  });
+});
+
+describe('code128Command', () => {
+  it('sets height, module width and HRI, then prints in code set B', () => {
+    expect(code128Command('ORD-1')).toBe(`${GS}hP${GS}w\x02${GS}H\x02${GS}f\x00${GS}kI\x07{BORD-1`);
+  });
+
+  it('applies options', () => {
+    expect(code128Command('1', { height: 40, moduleWidth: 3, hri: false })).toBe(
+      `${GS}h(${GS}w\x03${GS}H\x00${GS}f\x00${GS}kI\x03{B1`
+    );
+  });
+
+  it('doubles "{" and drops characters outside printable ASCII', () => {
+    expect(code128Command('A{1}é\n')).toMatch(/I\x07\{BA\{\{1\}$/);
+  });
+
+  it('rejects empty or oversized data', () => {
+    expect(() => code128Command('é')).toThrow('empty');
+    expect(() => code128Command('x'.repeat(254))).toThrow('too long');
+  });
+});
+
+describe('fitCode128ModuleWidth', () => {
+  it('counts modules for start, data, checksum and stop', () => {
+    expect(code128Modules('ORD-2025-004821')).toBe(11 * 17 + 13);
+  });
+
+  it('narrows the bars until the barcode fits, or gives up', () => {
+    const data = 'ORD-2025-004821'; // 200 modules
+    expect(fitCode128ModuleWidth(data, 576)).toBe(2);
+    expect(fitCode128ModuleWidth(data, 384)).toBe(1);
+    expect(fitCode128ModuleWidth(data, 150)).toBe(0);
+  });
+});
+
+describe('TicketBuilder codes', () => {
+  it('renders QR codes and barcodes as ESC/POS and as placeholders in plain text', () => {
+    const b = new TicketBuilder();
+    b.qr('https://example.com');
+    b.barcode('123');
+    const doc = b.build();
+    expect(renderEscPos(doc)).toBe(qrCodeCommand('https://example.com') + code128Command('123'));
+    expect(renderPlainText(doc)).toBe('[QR: https://example.com]\n[BARCODE: 123]\n');
+  });
+});
+
+describe('receipt codes', () => {
+  const order: Order = {
+    id: 'o-1',
+    numeric_id: 101,
+    order_number: 'ORD-2025-004821',
+    restaurant_id: 'r1',
+    status: 'pending',
+    order_type: 'pickup',
+    items: [{ id: 'i1', name: 'Burger', quantity: 1, price: 12 }],
+    customer: { name: 'Sam', phone: '5555550100' },
+    subtotal: 12,
+    tax: 1.56,
+    total: 13.56,
+    created_at: '2025-12-17T13:50:00Z',
+    updated_at: '2025-12-17T13:50:00Z',
+  };
+  const codes = { statusUrl: 'https://example.com/order-status/o-1', orderBarcode: true };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('prints the order barcode and status QR when asked', () => {
+    const paper = interpretEscPos(generateReceiptText(order, undefined, undefined, codes));
+    expect(codeLines(paper.lines)).toEqual(['barcode:ORD-2025-004821', 'qr:https://example.com/order-status/o-1']);
+  });
+
+  it('prints neither by default', () => {
+    expect(codeLines(interpretEscPos(generateReceiptText(order)).lines)).toEqual([]);
+  });
+
+  it('narrows the barcode on 58mm paper', () => {
+    const data = generateReceiptText(order, getPaperProfile('58mm'), undefined, codes);
+    expect(data).toContain(`${GS}w\x01`);
+    expect(data).toContain(`${GS}(k\x03\x001C\x04`);
+  });
+
+  it('skips a barcode too wide for the paper', () => {
+    const long = { ...order, order_number: 'ORD-2025-004821-REORDER-0000000000000000' }; // 40 chars: 475 modules
+    const paper = interpretEscPos(generateReceiptText(long, getPaperProfile('58mm'), undefined, codes));
+    expect(codeLines(paper.lines)).toEqual(['qr:https://example.com/order-status/o-1']);
+  });
+});
+
+describe('getOrderStatusUrl', () => {
+  const order = { id: 'o 1', order_number: 'ORD-7' } as Order;
+
+  it('fills the order id and number into the configured link', () => {
+    expect(getOrderStatusUrl('https://shop.example/track/{order_number}?id={order_id}', order)).toBe(
+      'https://shop.example/track/ORD-7?id=o%201'
+    );
+  });
+
+  it('gives no link when none is configured', () => {
+    expect(getOrderStatusUrl('', order)).toBeNull();
+    expect(getOrderStatusUrl('   ', order)).toBeNull();
+    expect(getOrderStatusUrl(undefined, order)).toBeNull();
+  });
+});
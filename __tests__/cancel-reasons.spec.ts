@@ -0,0 +1,96 @@
+/**
+ * Cancel / reject reasons: reading them from the API, the note staff type,
+ * the day report breakdown and the printed cancellation slip.
+ */
+
+process.env.TZ = 'UTC';
+
+import { Order } from '../src/types';
+import { interpretEscPos, lineWidth, PaperLine } from '../src/services/escpos';
+import { generateCancellationSlip, PAPER_PROFILES } from '../src/services/tickets';
+import { getCancelReasonLabel, normalizeCancelNote, parseCancelReason } from '../src/utils/cancelReasons';
+import { buildSalesReport, getBusinessDayRange } from '../src/utils/salesReport';
+import { makeOrder } from './helpers/orders';
+
+const textLines = (lines: PaperLine[]) =>
+  lines.flatMap((line) => (line.type === 'text' ? [line.segments.map((s) => s.text).join('').trim()] : []));
+
+// A paid pickup for two pizzas and garlic fingers, cancelled
+const cancelled: Partial<Order> = {
+  numeric_id: 4821,
+  status: 'cancelled',
+  items: [
+    { id: 'i1', name: 'Large Pepperoni Pizza', quantity: 2, price: 18, modifiers: [] },
+    { id: 'i2', name: 'Garlic Fingers', quantity: 1, price: 9, modifiers: [] },
+  ],
+  customer: { name: 'Kim Wexler', phone: '' },
+  subtotal: 45,
+  tax: 5.85,
+  total: 50.85,
+  payment_status: 'paid',
+  created_at: '2025-12-17T13:50:00.000Z',
+  updated_at: '2025-12-17T13:55:00.000Z',
+};
+
+describe('reason codes', () => {
+  it('keeps known codes from the API and drops anything else', () => {
+    expect(parseCancelReason('item_unavailable')).toBe('item_unavailable');
+    expect(parseCancelReason('bored')).toBeNull();
+    expect(parseCancelReason(undefined)).toBeNull();
+  });
+
+  it('labels orders cancelled without a reason', () => {
+    expect(getCancelReasonLabel('suspected_fraud')).toBe('Suspected fraud');
+    expect(getCancelReasonLabel(null)).toBe('No reason given');
+    expect(getCancelReasonLabel('none')).toBe('No reason given');
+  });
+
+  it('sends the note trimmed, or nothing when blank', () => {
+    expect(normalizeCancelNote('  out of dough ')).toBe('out of dough');
+    expect(normalizeCancelNote('   ')).toBeNull();
+    expect(normalizeCancelNote('x'.repeat(500))).toHaveLength(200);
+  });
+});
+
+describe('day report', () => {
+  it('groups cancelled orders by reason', () => {
+    const orders = [
+      makeOrder({ ...cancelled, id: '1', cancel_reason: 'too_busy', total: 20 }),
+      makeOrder({ ...cancelled, id: '2', cancel_reason: 'too_busy', total: 10 }),
+      makeOrder({ ...cancelled, id: '3', cancel_reason: 'customer_request', total: 5 }),
+      makeOrder({ ...cancelled, id: '4', total: 7 }),
+      makeOrder({ ...cancelled, id: '5', status: 'completed', cancel_reason: 'closed' }),
+    ];
+    const report = buildSalesReport(orders, getBusinessDayRange(new Date('2025-12-17T15:00:00.000Z'), 4));
+    expect(report.by_cancel_reason).toEqual({
+      too_busy: { count: 2, total: 30 },
+      customer_request: { count: 1, total: 5 },
+      none: { count: 1, total: 7 },
+    });
+  });
+});
+
+describe('cancellation slip', () => {
+  const order = makeOrder({ ...cancelled, id: '4821', order_number: 'ORD-04821', cancel_reason: 'item_unavailable', cancel_note: 'Out of pepperoni' });
+
+  it('prints the order, the reason and what to pull', () => {
+    const lines = textLines(interpretEscPos(generateCancellationSlip(order)).lines);
+    expect(lines).toContain('CANCELLED');
+    expect(lines).toContain('#04821');
+    expect(lines).toContain('ITEM UNAVAILABLE');
+    expect(lines).toContain('Out of pepperoni');
+    expect(lines).toContain('2x Large Pepperoni Pizza');
+    expect(lines.some((line) => /^Total \(PAID\):\s+\$50\.85$/.test(line))).toBe(true);
+  });
+
+  it('still prints for an order cancelled without a reason', () => {
+    const lines = textLines(interpretEscPos(generateCancellationSlip(makeOrder({ ...cancelled, id: '4822', order_number: 'ORD-04822' }))).lines);
+    expect(lines).toContain('NO REASON GIVEN');
+  });
+
+  it('fits 58mm paper', () => {
+    const paper = PAPER_PROFILES['58mm'];
+    const data = generateCancellationSlip({ ...order, cancel_note: 'x '.repeat(80) }, paper);
+    expect(Math.max(...interpretEscPos(data, 1000).lines.map(lineWidth))).toBeLessThanOrEqual(paper.columns);
+  });
+});
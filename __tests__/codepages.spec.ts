@@ -0,0 +1,109 @@
+/**
+ * Printer codepages: transcoding, ASCII fallback, ESC t selection and the
+ * interpreter reading accents back off the paper.
+ */
+
+import { Order } from '../src/types';
+import {
+  encodeText,
+  ESC,
+  interpretEscPos,
+  PaperLine,
+  renderEscPos,
+  selectCodepageCommand,
+  TicketBuilder,
+} from '../src/services/escpos';
+import { generateKitchenTicket, generateReceiptText, sanitizeForPrinter } from '../src/services/tickets';
+
+const bytes = (text: string) => Array.from(text).map((char) => char.charCodeAt(0));
+
+const textLines = (lines: PaperLine[]) =>
+  lines.map((line) => (line.type === 'text' ? line.segments.map((s) => s.text).join('') : '<cut>'));
+
+describe('encodeText', () => {
+  it('transcodes accents into the codepage', () => {
+    expect(bytes(encodeText('crème brûlée', 'cp850'))).toEqual(bytes('cr\x8Ame br\x96l\x82e'));
+    expect(bytes(encodeText('Québec', 'cp863'))).toEqual(bytes('Qu\x82bec'));
+    expect(bytes(encodeText('Crème', 'cp1252'))).toEqual(bytes('Cr\xE8me'));
+  });
+
+  it('folds to ASCII when the codepage lacks a character', () => {
+    expect(encodeText('Œuf à la crème', 'ascii')).toBe('OEuf a la creme');
+    expect(encodeText('Œuf', 'cp850')).toBe('OEuf');
+    expect(encodeText('« oui »', 'cp1252')).toBe('\xAB oui \xBB');
+    expect(encodeText('« oui »', 'cp863')).toBe('\xAE oui \xAF');
+  });
+
+  it('prints "?" for characters with no ASCII equivalent', () => {
+    expect(encodeText('5€', 'cp850')).toBe('5?');
+    expect(encodeText('5€', 'cp1252')).toBe('5\x80');
+  });
+});
+
+describe('renderEscPos', () => {
+  const doc = () => {
+    const b = new TicketBuilder();
+    b.init();
+    b.line('Crème brûlée');
+    return b.build();
+  };
+
+  it('selects the codepage after ESC @', () => {
+    expect(renderEscPos(doc(), 'cp863').startsWith(`${ESC}@${selectCodepageCommand('cp863')}`)).toBe(true);
+    expect(selectCodepageCommand('cp863')).toBe(`${ESC}t\x04`);
+  });
+
+  it('sends no ESC t for ASCII and keeps the folded bytes', () => {
+    expect(renderEscPos(doc())).toBe(`${ESC}@  Creme brulee\n`);
+  });
+
+  it('selects the codepage up front when the document has no init', () => {
+    const b = new TicketBuilder();
+    b.line('été');
+    expect(renderEscPos(b.build(), 'cp850')).toBe(`${ESC}t\x02  \x82t\x82\n`);
+  });
+});
+
+describe('printed accents', () => {
+  const order: Order = {
+    id: '1',
+    numeric_id: 101,
+    order_number: 'ORD-2025-004821',
+    restaurant_id: 'r1',
+    status: 'pending',
+    order_type: 'pickup',
+    items: [{ id: 'i1', name: 'Crème brûlée', quantity: 1, price: 7.5, notes: 'Sans noix 🥜' }],
+    customer: { name: 'Hélène Côté', phone: '5145550100' },
+    subtotal: 7.5,
+    tax: 0.98,
+    total: 8.48,
+    created_at: '2025-12-17T13:50:00Z',
+    updated_at: '2025-12-17T13:50:00Z',
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads accents back off the paper in every codepage', () => {
+    (['cp850', 'cp863', 'cp1252'] as const).forEach((codepage) => {
+      const lines = textLines(interpretEscPos(generateReceiptText(order, undefined, codepage)).lines);
+      expect(lines).toContain('  Customer: Hélène Côté');
+      expect(lines.some((line) => line.includes('Crème brûlée'))).toBe(true);
+    });
+  });
+
+  it('folds accents on an ASCII printer', () => {
+    const lines = textLines(interpretEscPos(generateKitchenTicket(order)).lines);
+    expect(lines.some((line) => line.includes('1x Creme brulee'))).toBe(true);
+    expect(lines.join('\n')).not.toMatch(/[^\x00-\x7F]/);
+  });
+
+  it('sanitizeForPrinter keeps accents and drops what no printer can print', () => {
+    expect(sanitizeForPrinter('Hélène “Côté” — 🥜 拉面')).toBe('Hélène "Côté" -  ');
+  });
+});
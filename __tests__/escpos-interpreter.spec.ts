@@ -0,0 +1,97 @@
+/**
+ * ESC/POS interpreter: printer state, wrapping and skipped commands.
+ */
+
+import {
+  code128Command,
+  COMMANDS,
+  ESC,
+  GS,
+  interpretEscPos,
+  lineWidth,
+  PaperLine,
+  qrCodeCommand,
+  renderPaperText,
+} from '../src/services/escpos';
+
+const textLines = (lines: PaperLine[]) =>
+  lines.map((line) => (line.type === 'text' ? line.segments.map((s) => s.text).join('') : '<cut>'));
+
+describe('interpretEscPos', () => {
+  it('splits text into lines', () => {
+    const paper = interpretEscPos('one\ntwo\n\nthree');
+    expect(textLines(paper.lines)).toEqual(['one', 'two', '', 'three']);
+  });
+
+  it('tracks bold, underline and size as segments', () => {
+    const paper = interpretEscPos(
+      `plain ${COMMANDS.BOLD_ON}bold${COMMANDS.BOLD_OFF} ${COMMANDS.UNDERLINE_ON}under${COMMANDS.UNDERLINE_OFF}\n` +
+      `${COMMANDS.DOUBLE_SIZE}BIG${COMMANDS.NORMAL_SIZE}\n${COMMANDS.DOUBLE_HEIGHT}tall\n`
+    );
+    const [first, big, tall] = paper.lines;
+    if (first.type !== 'text' || big.type !== 'text' || tall.type !== 'text') throw new Error('expected text');
+
+    expect(first.segments.map((s) => [s.text, s.bold, s.underline])).toEqual([
+      ['plain ', false, false],
+      ['bold', true, false],
+      [' ', false, false],
+      ['under', false, true],
+    ]);
+    expect(big.segments[0]).toMatchObject({ text: 'BIG', doubleWidth: true, doubleHeight: true });
+    expect(lineWidth(big)).toBe(6);
+    expect(tall.segments[0]).toMatchObject({ doubleWidth: false, doubleHeight: true });
+  });
+
+  it('latches alignment per line', () => {
+    const paper = interpretEscPos(`${COMMANDS.ALIGN_CENTER}mid\n${COMMANDS.ALIGN_RIGHT}end\n${COMMANDS.ALIGN_LEFT}start\n`);
+    expect(paper.lines.map((line) => line.type === 'text' && line.align)).toEqual(['center', 'right', 'left']);
+  });
+
+  it('resets state on ESC @', () => {
+    const paper = interpretEscPos(`${COMMANDS.BOLD_ON}${COMMANDS.ALIGN_CENTER}${COMMANDS.INIT}reset\n`);
+    expect(paper.lines[0]).toMatchObject({ align: 'left', segments: [{ text: 'reset', bold: false }] });
+  });
+
+  it('wraps at the paper width, counting double-width characters twice', () => {
+    expect(textLines(interpretEscPos('abcdefghij', 4).lines)).toEqual(['abcd', 'efgh', 'ij']);
+    expect(textLines(interpretEscPos(`${COMMANDS.DOUBLE_WIDTH}abcde`, 4).lines)).toEqual(['ab', 'cd', 'e']);
+  });
+
+  it('shows feeds and cuts', () => {
+    const paper = interpretEscPos(`end\n${COMMANDS.FEED_LINES(2)}${COMMANDS.CUT_PAPER}`);
+    expect(textLines(paper.lines)).toEqual(['end', '', '', '<cut>']);
+  });
+
+  it('skips commands it cannot show, including their parameters', () => {
+    const graphics = `${GS}(L\x02\x0002`;
+    const drawerKick = `${ESC}p\x00\x19\xFA`;
+    const paper = interpretEscPos(`${ESC}t\x02${graphics}${drawerKick}${COMMANDS.CHAR_SPACING_WIDE}text\n`);
+    expect(textLines(paper.lines)).toEqual(['text']);
+  });
+
+  it('shows QR codes and barcodes as code lines with their data', () => {
+    const paper = interpretEscPos(
+      `${COMMANDS.ALIGN_CENTER}${qrCodeCommand('https://example.com/o/1')}${code128Command('ORD-{1}')}after\n`
+    );
+    expect(paper.lines).toEqual([
+      { type: 'code', kind: 'qr', align: 'center', data: 'https://example.com/o/1' },
+      { type: 'code', kind: 'barcode', align: 'center', data: 'ORD-{1}' },
+      expect.objectContaining({ type: 'text', segments: [expect.objectContaining({ text: 'after' })] }),
+    ]);
+  });
+
+  it('shows raster images as image lines, joining bands of the same image', () => {
+    const band = (rows: number) => `${GS}v0\x00\x02\x00${String.fromCharCode(rows)}\x00${'\xFF\x0A'.repeat(rows)}`;
+    const paper = interpretEscPos(`${COMMANDS.ALIGN_CENTER}${band(3)}${band(2)}${COMMANDS.ALIGN_LEFT}text\n`);
+    expect(paper.lines.slice(0, 1)).toEqual([{ type: 'image', align: 'center', width: 16, height: 5 }]);
+    expect(textLines(paper.lines.slice(1))).toEqual(['text']);
+  });
+});
+
+describe('renderPaperText', () => {
+  it('applies alignment and marks styles in the gutter', () => {
+    const paper = interpretEscPos(`${COMMANDS.ALIGN_CENTER}${COMMANDS.BOLD_ON}hi${COMMANDS.BOLD_OFF}\n${COMMANDS.ALIGN_RIGHT}${COMMANDS.DOUBLE_SIZE}X\n`, 10);
+    expect(renderPaperText(paper)).toBe('    hi\n        X');
+    expect(renderPaperText(paper, { gutter: true })).toBe('B   |    hi\nWH  |        X');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * In-memory stand-in for the backend's realtime order channel.
+ *
+ * Hand `server.createSocket` to startRealtime() and drive the connection from
+ * the test: accept or refuse sockets, push events, send pings, drop the line.
+ */
+
+import { RealtimeSocket, RealtimeSocketFactory } from '../../src/api/realtime';
+
+export interface MockRealtimeConnection extends RealtimeSocket {
+  url: string;
+  token: string;
+  closed: boolean;
+}
+
+export interface MockRealtimeServer {
+  createSocket: RealtimeSocketFactory;
+  connections: MockRealtimeConnection[];
+  current: () => MockRealtimeConnection | undefined;
+  /** Accept the newest socket (fires onopen) - refused if the token is wrong */
+  accept: () => void;
+  /** Send a JSON event to the open socket */
+  push: (message: object) => void;
+  ping: () => void;
+  /** Server side close - the client should back off and reconnect */
+  drop: (code?: number, reason?: string) => void;
+}
+
+export const createMockRealtimeServer = (validToken: string): MockRealtimeServer => {
+  const connections: MockRealtimeConnection[] = [];
+  const current = () => connections[connections.length - 1];
+
+  const createSocket: RealtimeSocketFactory = (url, token) => {
+    const connection: MockRealtimeConnection = {
+      url,
+      token,
+      closed: false,
+      onopen: null,
+      onmessage: null,
+      onclose: null,
+      onerror: null,
+      close: () => {
+        connection.closed = true;
+      },
+    };
+    connections.push(connection);
+    return connection;
+  };
+
+  const drop = (code = 1006, reason = '') => {
+    const connection = current();
+    if (!connection || connection.closed) return;
+    connection.closed = true;
+    connection.onclose?.({ code, reason });
+  };
+
+  return {
+    createSocket,
+    connections,
+    current,
+    accept: () => {
+      const connection = current();
+      if (!connection || connection.closed) return;
+      if (connection.token !== validToken) {
+        drop(4401, 'Unauthorized');
+        return;
+      }
+      connection.onopen?.();
+    },
+    push: (message) => current()?.onmessage?.({ data: JSON.stringify(message) }),
+    ping: () => current()?.onmessage?.({ data: JSON.stringify({ type: 'ping' }) }),
+    drop,
+  };
+};
@@ -0,0 +1,28 @@
+/**
+ * Order fixture shared by the specs.
+ *
+ * A bare pickup order with no items - pass whatever the test cares about.
+ * The order number follows the id unless it's overridden.
+ */
+
+import { Order } from '../../src/types';
+
+export const makeOrder = (overrides: Partial<Order> = {}): Order => {
+  const id = overrides.id ?? 'o1';
+  return {
+    id,
+    numeric_id: 1,
+    order_number: `ORD-${id}`,
+    restaurant_id: 'r1',
+    status: 'pending',
+    order_type: 'pickup',
+    items: [],
+    customer: { name: 'Test', phone: '' },
+    subtotal: 0,
+    tax: 0,
+    total: 0,
+    created_at: '2025-12-17T12:00:00.000Z',
+    updated_at: '2025-12-17T12:00:00.000Z',
+    ...overrides,
+  };
+};
@@ -0,0 +1,182 @@
+/**
+ * Offline action queue: idempotency keys, per-order ordering, backoff, the
+ * dead-letter list and conflicts with changes made on the server.
+ */
+
+import { OrderStatus, QueuedAction } from '../src/types';
+import {
+  applyQueueFailure,
+  createQueuedAction,
+  getDueActions,
+  getNextAttemptDelayMs,
+  getQueueRetryDelayMs,
+  isRetryableFailure,
+  markQueueConflict,
+  MAX_QUEUE_ATTEMPTS,
+  normalizeQueuedAction,
+  resolveQueueConflict,
+  resolveQueuedAction,
+  restoreDeadLetter,
+} from '../src/utils/offlineQueue';
+
+const now = new Date('2025-12-17T12:00:00.000Z');
+const at = (ms: number) => new Date(now.getTime() + ms);
+
+const accept = (orderId: string, createdAt = now) =>
+  createQueuedAction({ type: 'acknowledge', order_id: orderId, payload: {} }, createdAt);
+const markReady = (orderId: string, createdAt = now) =>
+  createQueuedAction({ type: 'status_update', order_id: orderId, payload: { status: 'ready' } }, createdAt);
+
+describe('createQueuedAction', () => {
+  it('gives each action its own idempotency key unless one is passed in', () => {
+    const a = accept('o1');
+    const b = accept('o1');
+    expect(a.idempotency_key).toMatch(/^acknowledge:o1:/);
+    expect(a.idempotency_key).not.toBe(b.idempotency_key);
+    expect(createQueuedAction({ type: 'acknowledge', order_id: 'o1', payload: {}, idempotency_key: 'k1' }).idempotency_key).toBe('k1');
+  });
+
+  it('starts backing off when the first attempt already failed', () => {
+    const action = createQueuedAction({ type: 'acknowledge', order_id: 'o1', payload: {}, last_error: 'Network Error' }, now);
+    expect(action).toMatchObject({ retry_count: 1, last_error: 'Network Error', next_attempt_at: at(2000).toISOString() });
+  });
+
+  it('fills in keys for actions queued by older versions', () => {
+    const legacy = { id: 'x1', type: 'acknowledge', order_id: 'o1', payload: {}, created_at: now.toISOString(), retry_count: 2 } as QueuedAction;
+    expect(normalizeQueuedAction(legacy)).toMatchObject({
+      idempotency_key: 'acknowledge:o1:x1',
+      next_attempt_at: null,
+      last_error: null,
+    });
+  });
+});
+
+describe('queue ordering', () => {
+  it('only sends the oldest action of each order', () => {
+    const a1 = accept('o1');
+    const a2 = markReady('o1', at(1000));
+    const b1 = accept('o2');
+    expect(getDueActions({ queuedActions: [a1, a2, b1], deadLetters: [] }, now.getTime())).toEqual([a1, b1]);
+  });
+
+  it('holds an order back while its head action is backing off', () => {
+    const head = accept('o1');
+    const next = markReady('o1', at(1000));
+    const backingOff = applyQueueFailure({ queuedActions: [head, next], deadLetters: [] }, head.id, 'Network Error', undefined, now);
+
+    expect(backingOff.deadLetters).toEqual([]);
+    expect(getDueActions(backingOff, at(1000).getTime())).toEqual([]);
+    expect(getDueActions(backingOff, at(2000).getTime()).map((a) => a.id)).toEqual([head.id]);
+    expect(getNextAttemptDelayMs(backingOff, now.getTime())).toBe(2000);
+  });
+});
+
+describe('failures', () => {
+  it('backs off 2s, 4s, 8s... up to 5 minutes', () => {
+    expect([1, 2, 3, 10].map(getQueueRetryDelayMs)).toEqual([2000, 4000, 8000, 300000]);
+  });
+
+  it('retries network and server errors but not refusals', () => {
+    expect([undefined, 401, 408, 429, 500, 503].every(isRetryableFailure)).toBe(true);
+    expect([400, 404, 409, 422].some(isRetryableFailure)).toBe(false);
+  });
+
+  it('dead-letters a refused action straight away', () => {
+    const head = accept('o1');
+    const next = markReady('o1', at(1000));
+    const result = applyQueueFailure({ queuedActions: [head, next], deadLetters: [] }, head.id, 'Order not found (HTTP 404)', 404, now);
+    expect(result.queuedActions).toEqual([next]);
+    expect(result.deadLetters).toEqual([
+      { ...head, retry_count: 1, last_error: 'Order not found (HTTP 404)', next_attempt_at: null, failed_at: now.toISOString() },
+    ]);
+  });
+
+  it('holds the rest of the order while its dead letter waits for staff', () => {
+    const head = accept('o1');
+    const next = markReady('o1', at(1000));
+    const other = accept('o2', at(500));
+    const dead = applyQueueFailure({ queuedActions: [head, next, other], deadLetters: [] }, head.id, 'Conflict', 409, now);
+
+    expect(getDueActions(dead, at(60000).getTime()).map((a) => a.id)).toEqual([other.id]);
+    expect(getNextAttemptDelayMs({ ...dead, queuedActions: [next] }, now.getTime())).toBeNull();
+
+    const discarded = { ...dead, deadLetters: [] };
+    expect(getDueActions(discarded, now.getTime()).map((a) => a.id)).toEqual([next.id, other.id]);
+  });
+
+  it('dead-letters after the last attempt instead of dropping it', () => {
+    let lists = { queuedActions: [accept('o1')], deadLetters: [] as ReturnType<typeof applyQueueFailure>['deadLetters'] };
+    const id = lists.queuedActions[0].id;
+    for (let i = 0; i < MAX_QUEUE_ATTEMPTS - 1; i++) {
+      lists = applyQueueFailure(lists, id, 'Network Error');
+    }
+    expect(lists.queuedActions).toHaveLength(1);
+    lists = applyQueueFailure(lists, id, 'Network Error');
+    expect(lists.queuedActions).toHaveLength(0);
+    expect(lists.deadLetters[0].retry_count).toBe(MAX_QUEUE_ATTEMPTS);
+  });
+
+  it('puts a retried dead letter back ahead of later actions for its order, same key', () => {
+    const head = accept('o1');
+    const next = markReady('o1', at(1000));
+    const other = accept('o2', at(500));
+    const dead = applyQueueFailure({ queuedActions: [head, next, other], deadLetters: [] }, head.id, 'Conflict', 409, now);
+
+    const restored = restoreDeadLetter(dead, head.id);
+    expect(restored.deadLetters).toEqual([]);
+    expect(restored.queuedActions.map((a) => a.id)).toEqual([head.id, next.id, other.id]);
+    expect(restored.queuedActions[0]).toMatchObject({ idempotency_key: head.idempotency_key, retry_count: 0, next_attempt_at: null });
+  });
+});
+
+describe('conflicts with the server', () => {
+  const baseUpdatedAt = '2025-12-17T11:50:00.000Z';
+  const laterUpdatedAt = '2025-12-17T11:58:00.000Z';
+  const change = (from: OrderStatus, to: OrderStatus) =>
+    createQueuedAction(
+      { type: 'status_update', order_id: 'o1', payload: { status: to }, base: { status: from, updated_at: baseUpdatedAt } },
+      now
+    );
+  const server = (status: OrderStatus, updatedAt = laterUpdatedAt) => ({ status, updated_at: updatedAt });
+
+  it('applies when the server has not touched the order', () => {
+    expect(resolveQueuedAction(change('preparing', 'ready'), server('preparing'))).toBe('apply');
+    expect(resolveQueuedAction(change('preparing', 'ready'), server('confirmed', baseUpdatedAt))).toBe('apply');
+  });
+
+  it('skips when the server already has it or is past it', () => {
+    expect(resolveQueuedAction(change('preparing', 'ready'), server('ready'))).toBe('skip');
+    expect(resolveQueuedAction(change('preparing', 'ready'), server('completed'))).toBe('skip');
+  });
+
+  it('applies when the server only moved partway in the same direction', () => {
+    expect(resolveQueuedAction(change('confirmed', 'ready'), server('preparing'))).toBe('apply');
+  });
+
+  it('flags cancels, moves back and recalls that collide', () => {
+    expect(resolveQueuedAction(change('preparing', 'ready'), server('cancelled'))).toBe('conflict');
+    expect(resolveQueuedAction(change('preparing', 'ready'), server('pending'))).toBe('conflict');
+    expect(resolveQueuedAction(change('ready', 'preparing'), server('completed'))).toBe('conflict');
+  });
+
+  it('only skips an accept when there is nothing left to accept', () => {
+    expect(resolveQueuedAction(accept('o1'), server('preparing'))).toBe('apply');
+    expect(resolveQueuedAction(accept('o1'), server('cancelled'))).toBe('skip');
+  });
+
+  it('parks a conflict, holding back the rest of its order, until staff choose', () => {
+    const head = change('preparing', 'ready');
+    const next = markReady('o1', at(1000));
+    const parked = markQueueConflict([head, next], head.id, server('cancelled'), now);
+
+    expect(parked[0].conflict).toEqual({ server_status: 'cancelled', server_updated_at: laterUpdatedAt, detected_at: now.toISOString() });
+    expect(getDueActions({ queuedActions: parked, deadLetters: [] }, at(60000).getTime())).toEqual([]);
+    expect(getNextAttemptDelayMs({ queuedActions: parked, deadLetters: [] }, now.getTime())).toBeNull();
+
+    const mine = resolveQueueConflict(parked, head.id, 'mine');
+    expect(mine[0]).toMatchObject({ conflict: null, payload: { status: 'ready', force: true } });
+    expect(resolveQueuedAction(mine[0], server('cancelled'))).toBe('apply');
+
+    expect(resolveQueueConflict(parked, head.id, 'server')).toEqual([next]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Order history browser: date ranges, status/type filters and merging the
+ * live board, server pages and local cache.
+ */
+
+import { Order } from '../src/types';
+import {
+  collectHistoryOrders,
+  getHistoryRange,
+  getServerStatusFilter,
+  HistoryFilters,
+} from '../src/utils/orderHistoryFilters';
+import { makeOrder } from './helpers/orders';
+
+// Local times so the business day boundary matches whatever timezone the tests run in
+const NOW = new Date(2025, 11, 17, 14, 0);
+const at = (day: number, hours: number) => new Date(2025, 11, day, hours, 0).toISOString();
+
+// Finished at noon today
+const finished: Partial<Order> = { status: 'completed', subtotal: 12, total: 12, created_at: at(17, 12), updated_at: at(17, 12) };
+
+const filters = (overrides: Partial<HistoryFilters> = {}): HistoryFilters => ({
+  range: getHistoryRange('week', NOW, 4),
+  status: 'all',
+  type: 'all',
+  ...overrides,
+});
+
+describe('getHistoryRange', () => {
+  it('covers whole business days', () => {
+    const today = getHistoryRange('today', NOW, 4);
+    expect(today.start).toEqual(new Date(2025, 11, 17, 4, 0));
+    expect(today.end).toEqual(new Date(2025, 11, 18, 4, 0));
+
+    const yesterday = getHistoryRange('yesterday', NOW, 4);
+    expect(yesterday.start).toEqual(new Date(2025, 11, 16, 4, 0));
+    expect(yesterday.end).toEqual(today.start);
+  });
+
+  it('runs longer ranges up to the end of today', () => {
+    const week = getHistoryRange('week', NOW, 4);
+    expect(week.start).toEqual(new Date(2025, 11, 11, 4, 0));
+    expect(week.end).toEqual(new Date(2025, 11, 18, 4, 0));
+  });
+
+  it('counts after-midnight orders in the previous business day', () => {
+    const lateNight = new Date(2025, 11, 18, 1, 30);
+    expect(getHistoryRange('today', lateNight, 4).start).toEqual(new Date(2025, 11, 17, 4, 0));
+  });
+});
+
+describe('collectHistoryOrders', () => {
+  it('keeps orders inside the range, newest first', () => {
+    const orders = [
+      makeOrder({ ...finished, id: 'a', created_at: at(15, 12) }),
+      makeOrder({ ...finished, id: 'b', created_at: at(17, 9) }),
+      makeOrder({ ...finished, id: 'old', created_at: at(1, 12) }),
+    ];
+    expect(collectHistoryOrders([orders], filters()).map((o) => o.id)).toEqual(['b', 'a']);
+  });
+
+  it('filters by status group and order type', () => {
+    const orders = [
+      makeOrder({ ...finished, id: 'done', status: 'completed' }),
+      makeOrder({ ...finished, id: 'delivered', status: 'delivered', order_type: 'delivery' }),
+      makeOrder({ ...finished, id: 'cancelled', status: 'cancelled' }),
+      makeOrder({ ...finished, id: 'cooking', status: 'preparing', order_type: 'delivery' }),
+    ];
+    const ids = (f: Partial<HistoryFilters>) => collectHistoryOrders([orders], filters(f)).map((o) => o.id).sort();
+
+    expect(ids({ status: 'completed' })).toEqual(['delivered', 'done']);
+    expect(ids({ status: 'open' })).toEqual(['cooking']);
+    expect(ids({ type: 'delivery' })).toEqual(['cooking', 'delivered']);
+    expect(ids({ status: 'completed', type: 'delivery' })).toEqual(['delivered']);
+  });
+
+  it('takes each order from the first list it appears in', () => {
+    const live = [makeOrder({ ...finished, id: 'a', status: 'preparing' })];
+    const cached = [makeOrder({ ...finished, id: 'a', status: 'completed' }), makeOrder({ ...finished, id: 'b' })];
+
+    const result = collectHistoryOrders([live, cached], filters());
+    expect(result.map((o) => [o.id, o.status])).toEqual([
+      ['a', 'preparing'],
+      ['b', 'completed'],
+    ]);
+    // The live copy decides, even when it no longer matches
+    expect(collectHistoryOrders([live, cached], filters({ status: 'completed' })).map((o) => o.id)).toEqual(['b']);
+  });
+});
+
+describe('getServerStatusFilter', () => {
+  it('only narrows the server query for a single status', () => {
+    expect(getServerStatusFilter('cancelled')).toBe('cancelled');
+    expect(getServerStatusFilter('completed')).toBeUndefined();
+    expect(getServerStatusFilter('all')).toBeUndefined();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Order search: matching across fields, phone digits, times, highlighting,
+ * and the local history cache it searches.
+ */
+
+import { Order } from '../src/types';
+import { searchOrders, splitHighlights } from '../src/utils/orderSearch';
+import { MAX_CACHED_ORDERS, mergeOrderHistory } from '../src/services/orderHistory';
+import { makeOrder } from './helpers/orders';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Local times so the clock matches whatever timezone the tests run in
+const localTime = (hours: number, minutes: number) => new Date(2025, 11, 17, hours, minutes).toISOString();
+
+// A finished Margherita from lunch
+const lunch: Partial<Order> = {
+  status: 'completed',
+  items: [{ id: 'p1', name: 'Margherita Pizza', quantity: 1, price: 12 }],
+  subtotal: 12,
+  total: 12,
+  created_at: localTime(12, 0),
+  updated_at: localTime(12, 0),
+};
+
+const sarah = makeOrder({
+  ...lunch,
+  id: '1040',
+  customer: { name: 'Sarah Connor', phone: '(613) 555-0199' },
+  created_at: localTime(18, 40),
+  notes: 'Leave at side door',
+});
+const sara = makeOrder({ ...lunch, id: '1041', customer: { name: 'Sara Lee', phone: '613-555-7777' }, created_at: localTime(18, 45) });
+const bob = makeOrder({
+  ...lunch,
+  id: '1042',
+  customer: { name: 'Bob', phone: '' },
+  items: [{ id: 'b1', name: 'Caesar Salad', quantity: 1, price: 9, notes: 'No croutons' }],
+});
+
+const search = (query: string, orders: Order[] = [sarah, sara, bob]) =>
+  searchOrders([{ source: 'live', orders }], query);
+
+describe('searchOrders', () => {
+  it('needs every word to match - "sarah 6:40" finds Sarah\'s 6:40 order', () => {
+    expect(search('sarah 6:40').map((r) => r.order.id)).toEqual(['1040']);
+    expect(search('sara').map((r) => r.order.id)).toEqual(['1041', '1040']);
+    expect(search('sarah 6:45')).toEqual([]);
+  });
+
+  it('matches 24h times against the 12h clock, from the start only', () => {
+    expect(search('18:40').map((r) => r.order.id)).toEqual(['1040']);
+    expect(search('8:40')).toEqual([]);
+  });
+
+  it('matches phone numbers by digits and highlights the formatted number', () => {
+    const [result] = search('5550199');
+    expect(result.order.id).toBe('1040');
+    const phone = result.matches.find((m) => m.field === 'phone')!;
+    expect(phone.text.slice(phone.ranges[0][0], phone.ranges[0][1])).toBe('555-0199');
+    expect(search('613 555').map((r) => r.order.id).sort()).toEqual(['1040', '1041']);
+  });
+
+  it('matches order numbers, items and notes, best match first', () => {
+    expect(search('1042')[0].order.id).toBe('1042');
+    expect(search('croutons').map((r) => r.order.id)).toEqual(['1042']);
+    expect(search('side door').map((r) => r.order.id)).toEqual(['1040']);
+    expect(search('pizza').map((r) => r.order.id)).toEqual(['1041', '1040']);
+  });
+
+  it('lists an order once, from the first list that has it', () => {
+    const olderSarah = { ...sarah, customer: { ...sarah.customer, name: 'Sarah Old' } };
+    const results = searchOrders(
+      [
+        { source: 'live', orders: [sarah] },
+        { source: 'history', orders: [olderSarah, bob] },
+      ],
+      'sarah'
+    );
+    expect(results.map((r) => [r.order.customer.name, r.source])).toEqual([['Sarah Connor', 'live']]);
+  });
+
+  it('ignores queries that are too short', () => {
+    expect(search('s')).toEqual([]);
+    expect(search('  ')).toEqual([]);
+  });
+});
+
+describe('splitHighlights', () => {
+  it('splits text around the matched ranges', () => {
+    expect(splitHighlights('Sarah Connor', [[0, 5]])).toEqual([
+      { text: 'Sarah', highlighted: true },
+      { text: ' Connor', highlighted: false },
+    ]);
+    expect(splitHighlights('abcabc', [[1, 2], [4, 5]]).map((p) => p.text)).toEqual(['a', 'b', 'ca', 'b', 'c']);
+  });
+});
+
+describe('mergeOrderHistory', () => {
+  const now = new Date(2025, 11, 17, 20, 0).getTime();
+
+  it('keeps the newest copy of each order, newest orders first', () => {
+    const updated = { ...sarah, status: 'ready' as const, updated_at: localTime(18, 50) };
+    const merged = mergeOrderHistory([sarah, bob], [updated, sara], now);
+    expect(merged.map((o) => [o.id, o.status])).toEqual([
+      ['1041', 'completed'],
+      ['1040', 'ready'],
+      ['1042', 'completed'],
+    ]);
+    expect(mergeOrderHistory(merged, [sarah], now).find((o) => o.id === '1040')?.status).toBe('ready');
+  });
+
+  it('returns the same list when nothing changed', () => {
+    const cached = [sarah, bob];
+    expect(mergeOrderHistory(cached, [{ ...sarah }], now)).toBe(cached);
+  });
+
+  it('drops orders older than two weeks and caps the size', () => {
+    const old = makeOrder({ ...lunch, id: 'old', created_at: new Date(now - 15 * 24 * 60 * 60 * 1000).toISOString() });
+    expect(mergeOrderHistory([old], [sarah], now).map((o) => o.id)).toEqual(['1040']);
+
+    const many = Array.from({ length: MAX_CACHED_ORDERS + 5 }, (_, i) =>
+      makeOrder({ ...lunch, id: `m${i}`, created_at: new Date(now - i * 60000).toISOString() })
+    );
+    const capped = mergeOrderHistory([], many, now);
+    expect(capped).toHaveLength(MAX_CACHED_ORDERS);
+    expect(capped[0].id).toBe('m0');
+  });
+});
+
+describe('loadOrderHistory', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('keeps the stored cache when orders arrive before the load finished', async () => {
+    jest.useFakeTimers();
+    jest.resetModules();
+    const storage = require('@react-native-async-storage/async-storage');
+    const history: typeof import('../src/services/orderHistory') = require('../src/services/orderHistory');
+    const now = new Date().toISOString();
+    await storage.setItem('@order_history', JSON.stringify([makeOrder({ id: 'stored', created_at: now, updated_at: now })]));
+
+    history.cacheOrders([makeOrder({ id: 'early', created_at: now, updated_at: now })]);
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(JSON.parse(await storage.getItem('@order_history')).map((o: Order) => o.id)).toEqual(['stored']);
+
+    await history.loadOrderHistory();
+    await jest.advanceTimersByTimeAsync(10000);
+    expect(JSON.parse(await storage.getItem('@order_history')).map((o: Order) => o.id).sort()).toEqual(['early', 'stored']);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Incremental order sync: when to do a full fetch, the next cursor, and
+ * merging deltas (removals, stale copies, unchanged orders kept as is).
+ */
+
+import { FULL_SYNC_INTERVAL_MS, mergeOrders, needsFullSync, nextSyncCursor } from '../src/utils/orderSync';
+import { makeOrder } from './helpers/orders';
+
+const a = makeOrder({ id: 'a', status: 'preparing', created_at: '2025-12-17T12:00:00.000Z', updated_at: '2025-12-17T12:05:00.000Z' });
+const b = makeOrder({ id: 'b', status: 'completed', created_at: '2025-12-17T12:10:00.000Z', updated_at: '2025-12-17T12:20:00.000Z' });
+const current = [b, a];
+
+describe('needsFullSync', () => {
+  const now = new Date('2025-12-17T13:00:00.000Z').getTime();
+
+  it('runs a full sync first, when asked and when the last one is old', () => {
+    expect(needsFullSync({ cursor: null, lastFullSyncAt: null }, now)).toBe(true);
+    expect(needsFullSync({ cursor: 'c', lastFullSyncAt: new Date(now - 1000).toISOString() }, now)).toBe(false);
+    expect(needsFullSync({ cursor: 'c', lastFullSyncAt: new Date(now - 1000).toISOString() }, now, true)).toBe(true);
+    expect(needsFullSync({ cursor: 'c', lastFullSyncAt: new Date(now - FULL_SYNC_INTERVAL_MS).toISOString() }, now)).toBe(true);
+  });
+});
+
+describe('nextSyncCursor', () => {
+  it('prefers the server cursor', () => {
+    expect(nextSyncCursor(null, [a], '2025-12-17T13:00:00.000Z')).toBe('2025-12-17T13:00:00.000Z');
+  });
+
+  it('falls back to the newest updated_at and never goes back', () => {
+    expect(nextSyncCursor(null, [a, b])).toBe(b.updated_at);
+    expect(nextSyncCursor('2025-12-17T12:30:00.000Z', [a])).toBe('2025-12-17T12:30:00.000Z');
+    expect(nextSyncCursor('2025-12-17T12:30:00.000Z', [])).toBe('2025-12-17T12:30:00.000Z');
+  });
+});
+
+describe('mergeOrders', () => {
+  it('merges a delta by id and keeps the rest', () => {
+    const readyA = { ...a, status: 'ready' as const, updated_at: '2025-12-17T12:25:00.000Z' };
+    const c = makeOrder({ id: 'c', status: 'pending', created_at: '2025-12-17T12:30:00.000Z', updated_at: '2025-12-17T12:30:00.000Z' });
+    const result = mergeOrders(current, [readyA, c], { full: false });
+
+    expect(result.changed).toBe(true);
+    expect(result.orders.map((o) => [o.id, o.status])).toEqual([
+      ['c', 'pending'],
+      ['b', 'completed'],
+      ['a', 'ready'],
+    ]);
+    expect(result.orders[1]).toBe(b);
+  });
+
+  it('drops deleted orders on a delta and missing orders on a full sync', () => {
+    expect(mergeOrders(current, [], { full: false, deletedIds: ['a'] }).orders).toEqual([b]);
+    expect(mergeOrders(current, [a], { full: true }).orders).toEqual([a]);
+  });
+
+  it('ignores a delta copy older than the one it has', () => {
+    const olderA = { ...a, status: 'pending' as const, updated_at: '2025-12-17T12:01:00.000Z' };
+    const result = mergeOrders(current, [olderA], { full: false });
+    expect(result.stale).toEqual(['a']);
+    expect(result.changed).toBe(false);
+    expect(result.orders).toBe(current);
+  });
+
+  it('takes the server copy on a full sync even when ours is newer', () => {
+    const olderA = { ...a, status: 'pending' as const, updated_at: '2025-12-17T12:01:00.000Z' };
+    const result = mergeOrders(current, [olderA, b], { full: true });
+    expect(result.stale).toEqual([]);
+    expect(result.changed).toBe(true);
+    expect(result.orders.find((order) => order.id === 'a')).toBe(olderA);
+  });
+
+  it('takes a newer copy even when the status goes back', () => {
+    const reopened = { ...b, status: 'preparing' as const, updated_at: '2025-12-17T12:40:00.000Z' };
+    expect(mergeOrders(current, [reopened], { full: false }).orders[0].status).toBe('preparing');
+  });
+
+  it('returns the same list when nothing changed', () => {
+    const result = mergeOrders(current, [{ ...a }, { ...b }], { full: true });
+    expect(result.changed).toBe(false);
+    expect(result.orders).toBe(current);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Order updates: diffing what the kitchen ticket printed against the order
+ * now, reporting each edit once, and the ORDER UPDATED / REPRINT tickets.
+ */
+
+import { Order } from '../src/types';
+import { interpretEscPos, PaperLine } from '../src/services/escpos';
+import { generateKitchenTicket, generateOrderUpdateTicket } from '../src/services/tickets';
+import {
+  createPrintedOrderRecord,
+  describeOrderChange,
+  detectOrderUpdates,
+  diffOrderItems,
+  fingerprintItems,
+  snapshotOrderItems,
+} from '../src/utils/orderChanges';
+
+const textLines = (lines: PaperLine[]) =>
+  lines.flatMap((line) => (line.type === 'text' ? [line.segments.map((s) => s.text).join('').trim()] : []));
+
+const order: Order = {
+  id: 'o1',
+  numeric_id: 2041,
+  order_number: 'ORD-2025-002041',
+  restaurant_id: 'r1',
+  status: 'preparing',
+  order_type: 'pickup',
+  items: [
+    { id: 'i1', name: 'Classic Burger', quantity: 1, price: 12, modifiers: [{ id: 'm1', name: 'Bacon', price: 2 }] },
+    { id: 'i2', name: 'Fries', quantity: 1, price: 4, size: 'Large' },
+  ],
+  customer: { name: 'Kim Wexler', phone: '5055550100' },
+  subtotal: 18,
+  tax: 2.34,
+  total: 20.34,
+  payment_status: 'paid',
+  created_at: '2025-12-17T13:50:00.000Z',
+  updated_at: '2025-12-17T14:05:00.000Z',
+};
+
+const edited: Order = {
+  ...order,
+  items: [
+    { id: 'i1', name: 'Classic Burger', quantity: 2, price: 12, modifiers: [{ id: 'm2', name: 'Cheese', price: 1 }] },
+    { id: 'i3', name: 'Onion Rings', quantity: 1, price: 5 },
+  ],
+};
+
+describe('diffOrderItems', () => {
+  it('finds added, removed and changed items', () => {
+    const changes = diffOrderItems(snapshotOrderItems(order), snapshotOrderItems(edited));
+
+    expect(changes.map((change) => [change.type, change.item.name])).toEqual([
+      ['changed', 'Classic Burger'],
+      ['added', 'Onion Rings'],
+      ['removed', 'Fries'],
+    ]);
+    expect(changes.map(describeOrderChange)).toEqual([
+      '~ Classic Burger (1x → 2x)',
+      '+ 1x Onion Rings',
+      '- 1x Fries',
+    ]);
+  });
+
+  it('sees nothing when the items are the same', () => {
+    expect(diffOrderItems(snapshotOrderItems(order), snapshotOrderItems({ ...order }))).toEqual([]);
+  });
+
+  it('tells apart lines without ids by position', () => {
+    const items = snapshotOrderItems({
+      items: [
+        { id: '', name: 'Taco', quantity: 1, price: 3 },
+        { id: '', name: 'Taco', quantity: 1, price: 3, notes: 'no onion' },
+      ],
+    });
+    expect(items.map((item) => item.key)).toEqual(['taco|', 'taco|#2']);
+  });
+});
+
+describe('fingerprintItems', () => {
+  it('is stable and changes with the items', () => {
+    const printed = fingerprintItems(snapshotOrderItems(order));
+    expect(fingerprintItems(snapshotOrderItems({ ...order }))).toBe(printed);
+    expect(fingerprintItems(snapshotOrderItems(edited))).not.toBe(printed);
+  });
+});
+
+describe('detectOrderUpdates', () => {
+  const printed = { o1: createPrintedOrderRecord(order, '2025-12-17T13:51:00.000Z') };
+
+  it('reports an edit once', () => {
+    const first = detectOrderUpdates([edited], printed);
+    expect(first.updates).toHaveLength(1);
+    expect(first.updates[0]).toMatchObject({ order_id: 'o1', order_number: order.order_number });
+    expect(first.updates[0].changes).toHaveLength(3);
+
+    expect(detectOrderUpdates([edited], first.records).updates).toEqual([]);
+  });
+
+  it('stays quiet when an order is edited back to what printed', () => {
+    const { records } = detectOrderUpdates([edited], printed);
+    const back = detectOrderUpdates([order], records);
+    expect(back.updates).toEqual([]);
+    expect(back.records.o1.fingerprint).toBe(printed.o1.fingerprint);
+  });
+
+  it('ignores unprinted orders and forgets orders the server dropped', () => {
+    const result = detectOrderUpdates([{ ...edited, id: 'o2' }], printed);
+    expect(result.updates).toEqual([]);
+    expect(result.records).toEqual({});
+  });
+});
+
+describe('tickets', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('prints only the changes on an ORDER UPDATED ticket', () => {
+    const changes = diffOrderItems(snapshotOrderItems(order), snapshotOrderItems(edited));
+    const lines = textLines(interpretEscPos(generateOrderUpdateTicket(edited, changes)).lines);
+
+    expect(lines).toContain('ORDER UPDATED');
+    expect(lines).toContain('CHANGES: (3)');
+    expect(lines).toContain('* CHANGE 2x Classic Burger');
+    expect(lines).toContain('QTY 2 (was 1)');
+    expect(lines).toContain('ADD Cheese');
+    expect(lines).toContain('NO Bacon');
+    expect(lines).toContain('+ ADD 1x Onion Rings');
+    expect(lines).toContain('- REMOVE 1x Fries');
+  });
+
+  it('marks a second kitchen ticket as a reprint', () => {
+    const reprint = textLines(interpretEscPos(generateKitchenTicket(order, undefined, undefined, undefined, undefined, true)).lines);
+    expect(reprint).toContain('** REPRINT **');
+    expect(textLines(interpretEscPos(generateKitchenTicket(order)).lines)).not.toContain('** REPRINT **');
+  });
+});
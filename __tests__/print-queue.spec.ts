@@ -0,0 +1,250 @@
+/**
+ * Print job queue: dedupe, backoff, retry/cancel and the held backlog.
+ */
+
+import { makeOrder } from './helpers/orders';
+
+const mockSettings = {
+  printerMacAddress: '192.168.1.60:9100',
+  printerType: 'network',
+  printerConnected: true,
+  kitchenStations: [],
+};
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('../src/store/useStore', () => ({
+  useStore: {
+    getState: () => ({
+      settings: mockSettings,
+      orders: { orders: [] },
+      updateSettings: (changes: object) => Object.assign(mockSettings, changes),
+    }),
+  },
+}));
+
+const mockPrinterStatus = { state: 'ok', checked_at: null };
+
+jest.mock('../src/services/printService', () => ({
+  ensureConnected: jest.fn(async () => true),
+  printKitchenTicket: jest.fn(async () => true),
+  printCustomerReceipt: jest.fn(async () => true),
+  printBoth: jest.fn(async () => true),
+  printOrderUpdateTicket: jest.fn(async () => true),
+  printDriverSlip: jest.fn(async () => true),
+  getPrinterStatus: () => mockPrinterStatus,
+  isPrinterHealthy: () => ['ok', 'paper_low', 'unknown'].includes(mockPrinterStatus.state),
+  refreshPrinterStatus: jest.fn(async () => mockPrinterStatus),
+  PRINTER_STATE_MESSAGES: { paper_out: 'Printer out of paper' },
+}));
+
+type PrintQueueModule = typeof import('../src/services/printQueue');
+type PrintServiceMock = Record<'ensureConnected' | 'printKitchenTicket' | 'printOrderUpdateTicket' | 'printDriverSlip' | 'refreshPrinterStatus', any>;
+
+let queue: PrintQueueModule;
+let printService: PrintServiceMock;
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  jest.resetModules();
+  mockSettings.printerConnected = true;
+  mockPrinterStatus.state = 'ok';
+  queue = require('../src/services/printQueue');
+  printService = require('../src/services/printService');
+  await queue.loadPrintQueue();
+});
+
+afterEach(() => {
+  jest.clearAllTimers();
+  jest.useRealTimers();
+});
+
+describe('getRetryDelayMs', () => {
+  it('doubles each attempt and caps at two minutes', () => {
+    expect(queue.getRetryDelayMs(1)).toBe(5000);
+    expect(queue.getRetryDelayMs(2)).toBe(10000);
+    expect(queue.getRetryDelayMs(3)).toBe(20000);
+    expect(queue.getRetryDelayMs(10)).toBe(120000);
+  });
+});
+
+describe('enqueuePrintJob', () => {
+  it('refuses a second job for the same order and ticket type', () => {
+    const order = makeOrder({ id: '1' });
+    expect(queue.enqueuePrintJob(order, { type: 'kitchen' })).not.toBeNull();
+    expect(queue.enqueuePrintJob(order, { type: 'kitchen' })).toBeNull();
+    expect(queue.enqueuePrintJob(order, { type: 'receipt' })).not.toBeNull();
+  });
+
+  it('refuses to auto-print an order that already printed', async () => {
+    const order = makeOrder({ id: '1' });
+    queue.enqueuePrintJob(order, { type: 'kitchen' });
+    await queue.processPrintQueue();
+
+    expect(queue.getPrintCount('1')).toBe(1);
+    expect(queue.enqueuePrintJob(order, { type: 'kitchen', source: 'auto' })).toBeNull();
+    expect(queue.enqueuePrintJob(order, { type: 'kitchen', source: 'manual' })).not.toBeNull();
+  });
+
+  it('auto-prints an update ticket for a printed order without counting it as a print', async () => {
+    const order = makeOrder({ id: '1' });
+    queue.enqueuePrintJob(order, { type: 'kitchen' });
+    await queue.processPrintQueue();
+
+    const update = queue.enqueuePrintJob(order, { type: 'update', source: 'auto' })!;
+    expect(update).not.toBeNull();
+    await queue.processPrintQueue();
+
+    expect(printService.printOrderUpdateTicket).toHaveBeenCalledWith(expect.objectContaining({ id: '1' }), 1);
+    expect(queue.getPrintJob(update.id)?.state).toBe('printed');
+    expect(queue.getPrintCount('1')).toBe(1);
+  });
+
+  it('prints one driver slip per order however often it is asked for', async () => {
+    const order = makeOrder({ id: '1' });
+    queue.enqueuePrintJob(order, { type: 'kitchen' });
+    await queue.processPrintQueue();
+
+    expect(queue.enqueuePrintJob(order, { type: 'driver', source: 'auto' })).not.toBeNull();
+    await queue.processPrintQueue();
+
+    expect(printService.printDriverSlip).toHaveBeenCalledTimes(1);
+    expect(queue.enqueuePrintJob(order, { type: 'driver', source: 'auto' })).toBeNull();
+    expect(queue.enqueuePrintJob(order, { type: 'driver', source: 'manual' })).not.toBeNull();
+    expect(queue.getPrintCount('1')).toBe(1);
+  });
+});
+
+describe('processPrintQueue', () => {
+  it('prints queued jobs with their copies', async () => {
+    const job = queue.enqueuePrintJob(makeOrder({ id: '1' }), { type: 'kitchen', copies: 2 })!;
+    await queue.processPrintQueue();
+
+    expect(printService.printKitchenTicket).toHaveBeenCalledWith(expect.objectContaining({ id: '1' }), [], 2);
+    expect(queue.getPrintJob(job.id)?.state).toBe('printed');
+  });
+
+  it('backs off after a failure and gives up after the last attempt', async () => {
+    printService.printKitchenTicket.mockResolvedValue(false);
+    const job = queue.enqueuePrintJob(makeOrder({ id: '1' }), { type: 'kitchen' })!;
+    await queue.processPrintQueue();
+
+    const failed = queue.getPrintJob(job.id)!;
+    expect(failed.state).toBe('retrying');
+    expect(failed.attempts).toBe(1);
+    expect(failed.last_error).toBeTruthy();
+    expect(new Date(failed.next_attempt_at!).getTime()).toBeGreaterThan(Date.now());
+    expect(mockSettings.printerConnected).toBe(false);
+
+    for (let i = 1; i < queue.MAX_AUTO_ATTEMPTS; i++) {
+      await queue.resumePrintQueue();
+    }
+    expect(queue.getPrintJob(job.id)?.state).toBe('failed');
+    expect(queue.getPrintJob(job.id)?.attempts).toBe(queue.MAX_AUTO_ATTEMPTS);
+  });
+
+  it('leaves jobs waiting while the printer cannot connect', async () => {
+    printService.ensureConnected.mockResolvedValue(false);
+    const job = queue.enqueuePrintJob(makeOrder({ id: '1' }), { type: 'kitchen' })!;
+    await queue.processPrintQueue();
+
+    expect(printService.printKitchenTicket).not.toHaveBeenCalled();
+    expect(queue.getPrintJob(job.id)?.state).toBe('retrying');
+  });
+
+  it('holds jobs without using attempts while the printer is out of paper', async () => {
+    mockPrinterStatus.state = 'paper_out';
+    const job = queue.enqueuePrintJob(makeOrder({ id: '1' }), { type: 'kitchen', source: 'auto' })!;
+    await queue.processPrintQueue();
+
+    expect(printService.refreshPrinterStatus).toHaveBeenCalled();
+    expect(printService.printKitchenTicket).not.toHaveBeenCalled();
+    expect(queue.getPrintJob(job.id)).toMatchObject({ state: 'queued', attempts: 0, last_error: 'Printer out of paper' });
+
+    // Paper loaded - the status poll resumes the queue
+    mockPrinterStatus.state = 'ok';
+    await queue.resumePrintQueue();
+    expect(queue.getPrintJob(job.id)).toMatchObject({ state: 'printed', last_error: null });
+  });
+});
+
+describe('printOrderNow', () => {
+  it('sends the job to the printer and returns it printed', async () => {
+    const job = await queue.printOrderNow(makeOrder({ id: '1' }), { type: 'kitchen', copies: 2 });
+
+    expect(printService.printKitchenTicket).toHaveBeenCalledWith(expect.objectContaining({ id: '1' }), [], 2);
+    expect(job?.state).toBe('printed');
+  });
+
+  it('returns the job with its error when the printer refuses it', async () => {
+    printService.printKitchenTicket.mockResolvedValueOnce(false);
+    const job = await queue.printOrderNow(makeOrder({ id: '1' }), { type: 'kitchen' });
+
+    expect(printService.printKitchenTicket).toHaveBeenCalledTimes(1);
+    expect(job).toMatchObject({ state: 'retrying', last_error: 'Printer did not accept the job' });
+  });
+});
+
+describe('retry, cancel and backlog', () => {
+  it('retries a failed job on demand', async () => {
+    printService.printKitchenTicket.mockResolvedValueOnce(false);
+    const job = queue.enqueuePrintJob(makeOrder({ id: '1' }), { type: 'kitchen' })!;
+    await queue.processPrintQueue();
+
+    await queue.retryPrintJob(job.id);
+    expect(queue.getPrintJob(job.id)?.state).toBe('printed');
+  });
+
+  it('cancels a job that has not printed', () => {
+    const job = queue.enqueuePrintJob(makeOrder({ id: '1' }), { type: 'kitchen', hold: true })!;
+    queue.cancelPrintJob(job.id);
+
+    expect(queue.getPrintJob(job.id)?.state).toBe('cancelled');
+    expect(queue.enqueuePrintJob(makeOrder({ id: '1' }), { type: 'kitchen' })).not.toBeNull();
+  });
+
+  it('keeps held jobs out of the print run until the backlog is released', async () => {
+    const held = queue.enqueuePrintJob(makeOrder({ id: '1' }), { type: 'kitchen', source: 'auto', hold: true })!;
+    await queue.processPrintQueue();
+    expect(queue.getPrintJob(held.id)?.state).toBe('held');
+    expect(queue.isBacklogJob(queue.getPrintJob(held.id)!)).toBe(true);
+
+    await queue.releaseBacklog(['1']);
+    expect(queue.getPrintJob(held.id)?.state).toBe('printed');
+  });
+
+  it('a manual print of a held order sends the held job instead of adding another', () => {
+    const held = queue.enqueuePrintJob(makeOrder({ id: '1' }), { type: 'kitchen', hold: true })!;
+    const manual = queue.enqueuePrintJob(makeOrder({ id: '1' }), { type: 'kitchen' });
+
+    expect(manual?.id).toBe(held.id);
+    expect(manual?.state).toBe('queued');
+    expect(queue.getPrintQueueSnapshot().jobs).toHaveLength(1);
+  });
+});
+
+describe('loadPrintQueue', () => {
+  it('keeps jobs queued before the load finished alongside the stored queue', async () => {
+    jest.resetModules();
+    const storage = require('@react-native-async-storage/async-storage');
+    const now = new Date().toISOString();
+    const storedJob = { ...queue.enqueuePrintJob(makeOrder({ id: '1' }), { type: 'kitchen', hold: true })!, updated_at: now };
+    await storage.setItem('@print_queue', JSON.stringify({
+      jobs: [storedJob],
+      history: { '2': { count: 1, last_printed_at: now } },
+    }));
+    queue = require('../src/services/printQueue');
+
+    const loading = queue.loadPrintQueue();
+    const early = queue.enqueuePrintJob(makeOrder({ id: '3' }), { type: 'kitchen', hold: true })!;
+    await loading;
+
+    expect(queue.getPrintQueueSnapshot().jobs.map((job) => job.id)).toEqual([storedJob.id, early.id]);
+    expect(queue.getPrintCount('2')).toBe(1);
+    const saved = JSON.parse(await storage.getItem('@print_queue'));
+    expect(saved.jobs).toHaveLength(2);
+    expect(saved.history['2'].count).toBe(1);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Printer status: DLE EOT / GS a bytes, decoding into a printer state and
+ * reading the reply from a network printer.
+ */
+
+import {
+  AUTOMATIC_STATUS_ENABLE,
+  decodeAutomaticStatus,
+  decodePrinterStatus,
+  decodeRealtimeStatus,
+  getPrinterState,
+  isPrinterStateHealthy,
+  PrinterStatusFlags,
+  REALTIME_STATUS_REQUEST,
+} from '../src/services/escpos';
+
+const bytes = (...values: number[]) => String.fromCharCode(...values);
+
+// Fixed bits only - nothing to report
+const REALTIME_OK = bytes(0x12, 0x12, 0x12, 0x12);
+const AUTOMATIC_OK = bytes(0x10, 0x00, 0x00, 0x00);
+
+const NO_PROBLEMS: PrinterStatusFlags = {
+  offline: false,
+  coverOpen: false,
+  paperLow: false,
+  paperOut: false,
+  cutterError: false,
+  unrecoverableError: false,
+  recoverableError: false,
+};
+
+describe('status requests', () => {
+  it('asks for all four real-time statuses in one write', () => {
+    expect(REALTIME_STATUS_REQUEST).toBe('\x10\x04\x01\x10\x04\x02\x10\x04\x03\x10\x04\x04');
+    expect(AUTOMATIC_STATUS_ENABLE).toBe('\x1Da\x0F');
+  });
+});
+
+describe('decodeRealtimeStatus', () => {
+  it('reads a healthy printer', () => {
+    expect(decodeRealtimeStatus(REALTIME_OK)).toEqual(NO_PROBLEMS);
+  });
+
+  it('reads offline, cover, cutter and paper bits', () => {
+    // Offline; cover open + stopped on paper end; cutter error; paper near end + end
+    expect(decodeRealtimeStatus(bytes(0x1a, 0x36, 0x16, 0x7e))).toEqual({
+      ...NO_PROBLEMS,
+      offline: true,
+      coverOpen: true,
+      paperOut: true,
+      paperLow: true,
+      cutterError: true,
+    });
+    expect(decodeRealtimeStatus(bytes(0x12, 0x12, 0x12, 0x1e))).toEqual({ ...NO_PROBLEMS, paperLow: true });
+    expect(decodeRealtimeStatus(bytes(0x12, 0x12, 0x3a, 0x12))).toEqual({
+      ...NO_PROBLEMS,
+      unrecoverableError: true,
+      recoverableError: true,
+    });
+  });
+
+  it('rejects short or malformed replies', () => {
+    expect(decodeRealtimeStatus(bytes(0x12, 0x12))).toBeNull();
+    expect(decodeRealtimeStatus(bytes(0x12, 0x12, 0x12, 0x13))).toBeNull();
+    expect(decodeRealtimeStatus(AUTOMATIC_OK)).toBeNull();
+  });
+});
+
+describe('decodeAutomaticStatus', () => {
+  it('reads the four ASB bytes', () => {
+    expect(decodeAutomaticStatus(AUTOMATIC_OK)).toEqual(NO_PROBLEMS);
+    expect(decodeAutomaticStatus(bytes(0x38, 0x04, 0x0c, 0x00))).toEqual({
+      ...NO_PROBLEMS,
+      offline: true,
+      coverOpen: true,
+      cutterError: true,
+      paperOut: true,
+    });
+    expect(decodeAutomaticStatus(bytes(0x10, 0x00, 0x03, 0x00))).toEqual({ ...NO_PROBLEMS, paperLow: true });
+  });
+
+  it('is told apart from a real-time reply', () => {
+    expect(decodeAutomaticStatus(REALTIME_OK)).toBeNull();
+    expect(decodePrinterStatus(REALTIME_OK)).toEqual(NO_PROBLEMS);
+    expect(decodePrinterStatus(bytes(0x10, 0x00, 0x0c, 0x00))?.paperOut).toBe(true);
+    expect(decodePrinterStatus('nope')).toBeNull();
+  });
+});
+
+describe('getPrinterState', () => {
+  it('reports the worst problem, with the cause before "offline"', () => {
+    expect(getPrinterState(NO_PROBLEMS)).toBe('ok');
+    expect(getPrinterState({ ...NO_PROBLEMS, paperLow: true })).toBe('paper_low');
+    expect(getPrinterState({ ...NO_PROBLEMS, offline: true })).toBe('offline');
+    expect(getPrinterState({ ...NO_PROBLEMS, offline: true, coverOpen: true })).toBe('cover_open');
+    expect(getPrinterState({ ...NO_PROBLEMS, offline: true, paperOut: true, paperLow: true })).toBe('paper_out');
+    expect(getPrinterState({ ...NO_PROBLEMS, cutterError: true })).toBe('cutter_error');
+    expect(getPrinterState({ ...NO_PROBLEMS, recoverableError: true })).toBe('error');
+  });
+
+  it('keeps printing on low paper or an unknown status', () => {
+    expect(isPrinterStateHealthy('ok')).toBe(true);
+    expect(isPrinterStateHealthy('paper_low')).toBe(true);
+    expect(isPrinterStateHealthy('unknown')).toBe(true);
+    expect(isPrinterStateHealthy('paper_out')).toBe(false);
+    expect(isPrinterStateHealthy('cover_open')).toBe(false);
+    expect(isPrinterStateHealthy('offline')).toBe(false);
+  });
+});
+
+describe('network status query', () => {
+  type Handler = (value?: any) => void;
+
+  // Minimal stand-in for a react-native-tcp-socket connection
+  const mockSockets: Array<{ handlers: Record<string, Handler>; written: string[]; destroy: ReturnType<typeof jest.fn> }> = [];
+  let mockReply: string | null = null;
+
+  jest.mock('react-native-tcp-socket', () => ({
+    default: {
+      createConnection: (_options: object, onConnect: () => void) => {
+        const socket = {
+          handlers: {} as Record<string, Handler>,
+          written: [] as string[],
+          destroy: jest.fn(),
+          setEncoding: () => socket,
+          on: (event: string, handler: Handler) => {
+            socket.handlers[event] = handler;
+            return socket;
+          },
+          write: (data: string) => {
+            socket.written.push(data);
+            // The printer answers in two chunks
+            if (mockReply !== null) {
+              setTimeout(() => socket.handlers.data?.(mockReply!.slice(0, 1)), 0);
+              setTimeout(() => socket.handlers.data?.(mockReply!.slice(1)), 0);
+            }
+          },
+        };
+        mockSockets.push(socket);
+        setTimeout(onConnect, 0);
+        return socket;
+      },
+    },
+  }));
+
+  let transport: ReturnType<typeof import('../src/services/printerTransport').getTransport>;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockSockets.length = 0;
+    transport = require('../src/services/printerTransport').getTransport('network');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('sends the request and collects the reply', async () => {
+    mockReply = REALTIME_OK;
+    const query = transport.queryStatus('192.168.1.60:9100', REALTIME_STATUS_REQUEST, 4);
+    await jest.runAllTimersAsync();
+
+    expect(await query).toBe(REALTIME_OK);
+    expect(mockSockets[0].written).toEqual([REALTIME_STATUS_REQUEST]);
+    expect(mockSockets[0].destroy).toHaveBeenCalled();
+  });
+
+  it('gives up when the printer does not answer', async () => {
+    mockReply = null;
+    const query = transport.queryStatus('192.168.1.60:9100', REALTIME_STATUS_REQUEST, 4);
+    await jest.advanceTimersByTimeAsync(2000);
+
+    expect(await query).toBeNull();
+    expect(mockSockets[0].destroy).toHaveBeenCalled();
+  });
+
+  it('cannot read back over Bluetooth or USB', async () => {
+    const bluetooth = require('../src/services/printerTransport').getTransport('bluetooth');
+    expect(await bluetooth.queryStatus('66:32:8D:1A:2B:3C', REALTIME_STATUS_REQUEST, 4)).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Ready time quoted on Accept: the default quote, the countdown, aging
+ * against the promise and the "Ready by" line on the kitchen ticket.
+ */
+
+import { Order } from '../src/types';
+import {
+  DEFAULT_PREP_MINUTES,
+  formatCountdown,
+  getAgingLevel,
+  getDefaultPrepMinutes,
+  getEtaChoices,
+  getMinutesUntilPromised,
+} from '../src/utils/readyTime';
+import { getQuotedReadyLine, getScheduledTime } from '../src/services/tickets';
+import { makeOrder } from './helpers/orders';
+
+const NOW = Date.parse('2025-12-17T17:00:00Z');
+const MINUTE = 60 * 1000;
+const iso = (offsetMinutes: number) => new Date(NOW + offsetMinutes * MINUTE).toISOString();
+
+// Placed 20 minutes ago and on the line
+const cooking: Partial<Order> = { status: 'preparing', subtotal: 12, total: 12, created_at: iso(-20), updated_at: iso(-20) };
+
+describe('getDefaultPrepMinutes', () => {
+  const config = { takeout_time_minutes: 20, busy_takeout_time_minutes: 45, busy_mode_enabled: false };
+
+  it('quotes the busy takeout time while busy mode is on', () => {
+    expect(getDefaultPrepMinutes(config)).toBe(20);
+    expect(getDefaultPrepMinutes({ ...config, busy_mode_enabled: true })).toBe(45);
+    expect(getDefaultPrepMinutes({ ...config, busy_mode_enabled: true, busy_takeout_time_minutes: null })).toBe(20);
+  });
+
+  it('falls back when no takeout time is set', () => {
+    expect(getDefaultPrepMinutes(null)).toBe(DEFAULT_PREP_MINUTES);
+    expect(getDefaultPrepMinutes({ ...config, takeout_time_minutes: 0 })).toBe(DEFAULT_PREP_MINUTES);
+  });
+
+  it('offers choices around the default, never zero or less', () => {
+    expect(getEtaChoices(20)).toEqual([15, 20, 25, 30, 40]);
+    expect(getEtaChoices(5)).toEqual([5, 10, 15, 25]);
+  });
+});
+
+describe('countdown', () => {
+  it('counts whole minutes down to the promise, then up once late', () => {
+    const order = makeOrder({ ...cooking, estimated_ready_time: iso(12) });
+    expect(getMinutesUntilPromised(order, NOW)).toBe(12);
+    expect(getMinutesUntilPromised(order, NOW + 11.5 * MINUTE)).toBe(1);
+    expect(getMinutesUntilPromised(order, NOW + 12 * MINUTE)).toBe(0);
+    expect(getMinutesUntilPromised(order, NOW + 15 * MINUTE)).toBe(-3);
+    expect(getMinutesUntilPromised(makeOrder(cooking), NOW)).toBeNull();
+  });
+
+  it('uses the due time of a scheduled order', () => {
+    const order = makeOrder({ ...cooking, scheduled_for: iso(90), estimated_ready_time: iso(10) });
+    expect(getMinutesUntilPromised(order, NOW)).toBe(90);
+  });
+
+  it('reads as minutes left, due or late', () => {
+    expect(formatCountdown(8)).toBe('8 min');
+    expect(formatCountdown(0)).toBe('Due now');
+    expect(formatCountdown(-4)).toBe('4 min late');
+  });
+});
+
+describe('getAgingLevel', () => {
+  it('colors a quoted order by how close it is to the promise', () => {
+    // Placed 20 minutes ago, promised 10 minutes from now
+    const order = makeOrder({ ...cooking, estimated_ready_time: iso(10) });
+    expect(getAgingLevel(order, 5, 10, 30, NOW)).toBeNull();
+    expect(getAgingLevel(order, 5, 10, 30, NOW + 5 * MINUTE)).toBe('yellow');
+    expect(getAgingLevel(order, 5, 10, 30, NOW + 10 * MINUTE)).toBe('red');
+  });
+
+  it('still counts from placement when nothing was quoted', () => {
+    expect(getAgingLevel(makeOrder({ ...cooking, created_at: iso(-3) }), 5, 10, 30, NOW)).toBeNull();
+    expect(getAgingLevel(makeOrder({ ...cooking, created_at: iso(-6) }), 5, 10, 30, NOW)).toBe('yellow');
+    expect(getAgingLevel(makeOrder(cooking), 5, 10, 30, NOW)).toBe('red');
+  });
+});
+
+describe('ticket ready time', () => {
+  it('prints the quoted time and how long the kitchen was given', () => {
+    const order = makeOrder({ ...cooking, acknowledged_at: iso(-5), estimated_ready_time: iso(25) });
+    expect(getQuotedReadyLine(order)).toMatch(/^Ready by: \d{1,2}:\d{2} [AP]M \(30 min\)$/);
+    expect(getQuotedReadyLine(makeOrder(cooking))).toBeNull();
+  });
+
+  it('does not treat a long quote as a scheduled order', () => {
+    const order = makeOrder({ ...cooking, estimated_ready_time: iso(60) });
+    expect(getScheduledTime(order).time).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Realtime order channel: auth, event delivery, reconnect backoff, the quiet
+ * socket timeout and stopping - driven through the in-memory mock server.
+ */
+
+import {
+  getRealtimeStatus,
+  getRealtimeUrl,
+  getReconnectDelayMs,
+  parseRealtimeMessage,
+  startRealtime,
+  stopRealtime,
+} from '../src/api/realtime';
+import { RealtimeOrderEvent } from '../src/types';
+import { createMockRealtimeServer, MockRealtimeServer } from './helpers/mockRealtimeServer';
+
+let mockSessionToken: string | null = 'session-1';
+
+jest.mock('../src/api/client', () => ({
+  DEFAULT_API_BASE_URL: 'https://orders.menu.ca',
+  apiClient: {
+    getSessionToken: () => mockSessionToken,
+    parseOrder: (raw: any) => ({ ...raw, id: String(raw.id) }),
+  },
+}));
+
+describe('realtime helpers', () => {
+  it('builds the socket URL from the API base URL', () => {
+    expect(getRealtimeUrl('https://orders.menu.ca/')).toBe('wss://orders.menu.ca/api/tablet/realtime');
+    expect(getRealtimeUrl('http://10.0.2.2:3000')).toBe('ws://10.0.2.2:3000/api/tablet/realtime');
+  });
+
+  it('backs off 1s, 2s, 4s... up to a minute', () => {
+    expect([1, 2, 3, 4, 10].map(getReconnectDelayMs)).toEqual([1000, 2000, 4000, 8000, 60000]);
+  });
+
+  it('parses order events and ignores pings and junk', () => {
+    expect(parseRealtimeMessage(JSON.stringify({ type: 'order.created', order: { id: 7 } }))).toEqual({
+      type: 'order.created',
+      order: { id: '7' },
+    });
+    expect(parseRealtimeMessage(JSON.stringify({ event: 'order_deleted', order_id: 7 }))).toEqual({
+      type: 'order.deleted',
+      order_id: '7',
+    });
+    expect(parseRealtimeMessage(JSON.stringify({ type: 'ping' }))).toBeNull();
+    expect(parseRealtimeMessage('not json')).toBeNull();
+    expect(parseRealtimeMessage(JSON.stringify({ type: 'order.updated' }))).toBeNull();
+  });
+});
+
+describe('realtime channel', () => {
+  let server: MockRealtimeServer;
+  let events: RealtimeOrderEvent[];
+  let onConnected: ReturnType<typeof jest.fn>;
+
+  const start = () =>
+    startRealtime({
+      onEvent: (event) => events.push(event),
+      onConnected,
+      url: 'ws://localhost/api/tablet/realtime',
+      createSocket: server.createSocket,
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockSessionToken = 'session-1';
+    server = createMockRealtimeServer('session-1');
+    events = [];
+    onConnected = jest.fn();
+  });
+
+  afterEach(() => {
+    stopRealtime();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('connects with the session token and delivers pushed events', () => {
+    start();
+    expect(getRealtimeStatus().state).toBe('connecting');
+    expect(server.current()?.token).toBe('session-1');
+
+    server.accept();
+    expect(getRealtimeStatus().state).toBe('connected');
+    expect(onConnected).toHaveBeenCalledTimes(1);
+
+    server.push({ type: 'order.updated', order: { id: 1, status: 'ready' } });
+    server.ping();
+    expect(events).toEqual([{ type: 'order.updated', order: { id: '1', status: 'ready' } }]);
+  });
+
+  it('does not open a second socket when started again', () => {
+    start();
+    start();
+    expect(server.connections).toHaveLength(1);
+  });
+
+  it('reconnects with backoff after a drop and catches up on reconnect', () => {
+    start();
+    server.accept();
+    server.drop();
+    expect(getRealtimeStatus()).toMatchObject({ state: 'reconnecting', attempts: 1, last_error: 'Closed (1006)' });
+
+    jest.advanceTimersByTime(999);
+    expect(server.connections).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(server.connections).toHaveLength(2);
+
+    server.drop();
+    jest.advanceTimersByTime(1999);
+    expect(server.connections).toHaveLength(2);
+    jest.advanceTimersByTime(1);
+    expect(server.connections).toHaveLength(3);
+
+    server.accept();
+    expect(getRealtimeStatus()).toMatchObject({ state: 'connected', attempts: 0 });
+    expect(onConnected).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps retrying when the server refuses the token or there is none', () => {
+    mockSessionToken = 'expired';
+    start();
+    server.accept();
+    expect(getRealtimeStatus()).toMatchObject({ state: 'reconnecting', last_error: 'Closed (4401 Unauthorized)' });
+
+    mockSessionToken = null;
+    jest.advanceTimersByTime(1000);
+    expect(server.connections).toHaveLength(1);
+    expect(getRealtimeStatus()).toMatchObject({ attempts: 2, last_error: 'No session token' });
+  });
+
+  it('treats a socket that goes quiet as dead', () => {
+    start();
+    server.accept();
+    jest.advanceTimersByTime(40 * 1000);
+    server.ping();
+    jest.advanceTimersByTime(40 * 1000);
+    expect(getRealtimeStatus().state).toBe('connected');
+
+    jest.advanceTimersByTime(5 * 1000);
+    expect(getRealtimeStatus().state).toBe('reconnecting');
+    expect(server.connections[0].closed).toBe(true);
+  });
+
+  it('stops cleanly and does not reconnect', () => {
+    start();
+    server.accept();
+    stopRealtime();
+    expect(getRealtimeStatus()).toMatchObject({ state: 'off', attempts: 0 });
+    expect(server.connections[0].closed).toBe(true);
+
+    jest.advanceTimersByTime(2 * 60 * 1000);
+    expect(server.connections).toHaveLength(1);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Receipt logo: dithering and scaling to the paper, GS v 0 raster bytes,
+ * PNG/JPEG decoding and the converted-bitmap cache.
+ */
+
+import { encode as encodeJpeg } from 'jpeg-js';
+import UPNG from 'upng-js';
+import { Order } from '../src/types';
+import {
+  GS,
+  imageToMonoBitmap,
+  interpretEscPos,
+  isBitmapDotSet,
+  MonoBitmap,
+  rasterImageCommand,
+  RgbaImage,
+} from '../src/services/escpos';
+import { generateReceiptText, getPaperProfile } from '../src/services/tickets';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+type ReceiptLogoModule = typeof import('../src/services/receiptLogo');
+
+const LOGO_URL = 'https://cdn.example.com/logo.png';
+const paper80 = getPaperProfile('80mm');
+
+const solidImage = (width: number, height: number, rgba: number[]): RgbaImage => {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) data.set(rgba, i * 4);
+  return { width, height, data };
+};
+
+const countDots = (bitmap: MonoBitmap) => {
+  let dots = 0;
+  for (let y = 0; y < bitmap.height; y++) {
+    for (let x = 0; x < bitmap.width; x++) {
+      if (isBitmapDotSet(bitmap, x, y)) dots++;
+    }
+  }
+  return dots;
+};
+
+describe('imageToMonoBitmap', () => {
+  it('scales to fit the width and height limits, keeping proportions', () => {
+    const wide = imageToMonoBitmap(solidImage(1000, 100, [0, 0, 0, 255]), 576, 160);
+    expect([wide.width, wide.height, wide.bytesPerRow]).toEqual([576, 58, 72]);
+
+    const tall = imageToMonoBitmap(solidImage(100, 400, [0, 0, 0, 255]), 576, 160);
+    expect([tall.width, tall.height]).toEqual([40, 160]);
+  });
+
+  it('prints black as dots and leaves white and transparent areas blank', () => {
+    const image = solidImage(4, 1, [255, 255, 255, 255]);
+    image.data.set([0, 0, 0, 255], 0);  // Black
+    image.data.set([0, 0, 0, 0], 8);    // Transparent black
+    const bitmap = imageToMonoBitmap(image, 8);
+    expect([bitmap.width, bitmap.height]).toEqual([8, 2]);
+    expect([0, 1, 2, 3, 4, 5, 6, 7].map((x) => isBitmapDotSet(bitmap, x, 0))).toEqual([
+      true, true, false, false, false, false, false, false,
+    ]);
+  });
+
+  it('dithers gray into a mix of dots', () => {
+    const bitmap = imageToMonoBitmap(solidImage(32, 32, [128, 128, 128, 255]), 32);
+    const coverage = countDots(bitmap) / (32 * 32);
+    expect(coverage).toBeGreaterThan(0.4);
+    expect(coverage).toBeLessThan(0.6);
+  });
+});
+
+describe('rasterImageCommand', () => {
+  it('sends GS v 0 with the width in bytes, the height in rows, then the dots', () => {
+    const bitmap: MonoBitmap = { width: 10, height: 2, bytesPerRow: 2, data: new Uint8Array([0xff, 0xc0, 0x0a, 0x3c]) };
+    expect(rasterImageCommand(bitmap)).toBe(`${GS}v0\x00\x02\x00\x02\x00\xFF\xC0\x0A\x3C`);
+  });
+
+  it('splits tall images into bands', () => {
+    const bitmap: MonoBitmap = { width: 8, height: 130, bytesPerRow: 1, data: new Uint8Array(130) };
+    const command = rasterImageCommand(bitmap);
+    expect(command.startsWith(`${GS}v0\x00\x01\x00\x80\x00`)).toBe(true);
+    expect(command.substring(8 + 128)).toBe(`${GS}v0\x00\x01\x00\x02\x00\x00\x00`);
+  });
+});
+
+describe('receipt logo', () => {
+  const order: Order = {
+    id: 'o-1',
+    numeric_id: 101,
+    order_number: 'ORD-2025-004821',
+    restaurant_id: 'r1',
+    status: 'pending',
+    order_type: 'pickup',
+    items: [{ id: 'i1', name: 'Burger', quantity: 1, price: 12 }],
+    customer: { name: 'Sam', phone: '5555550100' },
+    subtotal: 12,
+    tax: 1.56,
+    total: 13.56,
+    created_at: '2025-12-17T13:50:00Z',
+    updated_at: '2025-12-17T13:50:00Z',
+  };
+
+  const png = new Uint8Array(UPNG.encode([Uint8Array.from(solidImage(200, 50, [0, 0, 0, 255]).data).buffer], 200, 50, 0));
+
+  let logo: ReceiptLogoModule;
+  let fetchSpy: ReturnType<typeof jest.spyOn>;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  beforeEach(async () => {
+    jest.resetModules();
+    logo = require('../src/services/receiptLogo');
+    await logo.clearReceiptLogoCache();
+    jest.resetModules();
+    logo = require('../src/services/receiptLogo');
+    fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(async () => new Response(png.slice().buffer));
+  });
+
+  it('decodes PNG and JPEG files', () => {
+    const fromPng = logo.decodeImage(png);
+    expect([fromPng.width, fromPng.height]).toEqual([200, 50]);
+    expect(Array.from(fromPng.data.slice(0, 4))).toEqual([0, 0, 0, 255]);
+
+    const jpeg = encodeJpeg({ width: 16, height: 8, data: solidImage(16, 8, [20, 20, 20, 255]).data }, 90).data;
+    const fromJpeg = logo.decodeImage(new Uint8Array(jpeg));
+    expect([fromJpeg.width, fromJpeg.height]).toEqual([16, 8]);
+    expect(fromJpeg.data[0]).toBeLessThan(40);
+
+    expect(() => logo.decodeImage(new Uint8Array([0x47, 0x49, 0x46, 0x38]))).toThrow('Unsupported');
+  });
+
+  it('converts the logo once and serves it from cache after that', async () => {
+    const first = await logo.loadReceiptLogo(LOGO_URL, paper80);
+    expect(first && [first.width, first.height]).toEqual([576, 144]);
+    expect(logo.getCachedReceiptLogo(LOGO_URL, paper80)).toBe(first);
+
+    await logo.loadReceiptLogo(LOGO_URL, paper80);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    // Fresh app start: the bitmap comes back from storage, not the network
+    jest.resetModules();
+    const restarted: ReceiptLogoModule = require('../src/services/receiptLogo');
+    const restored = await restarted.loadReceiptLogo(LOGO_URL, paper80);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(restored && Array.from(restored.data)).toEqual(Array.from(first!.data));
+  });
+
+  it('converts again for different paper or a new logo URL', async () => {
+    const narrow = await logo.loadReceiptLogo(LOGO_URL, getPaperProfile('58mm'));
+    expect(narrow?.width).toBe(384);
+    await logo.loadReceiptLogo(`${LOGO_URL}?v=2`, paper80);
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('prints without a logo when it cannot be downloaded, and does not retry right away', async () => {
+    fetchSpy.mockImplementation(async () => new Response('nope', { status: 404 }));
+    expect(await logo.loadReceiptLogo(LOGO_URL, paper80)).toBeNull();
+    expect(await logo.loadReceiptLogo(LOGO_URL, paper80)).toBeNull();
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(await logo.loadReceiptLogo(null, paper80)).toBeNull();
+  });
+
+  it('puts the logo centered at the top of the receipt', async () => {
+    const bitmap = await logo.loadReceiptLogo(LOGO_URL, paper80);
+    const paper = interpretEscPos(generateReceiptText(order, paper80, undefined, { logo: bitmap }));
+    expect(paper.lines[0]).toEqual({ type: 'image', align: 'center', width: 576, height: 144 });
+    expect(generateReceiptText(order, paper80, undefined, { logo: bitmap })).toContain(rasterImageCommand(bitmap!));
+  });
+});
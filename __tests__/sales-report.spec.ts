@@ -0,0 +1,140 @@
+/**
+ * End-of-day sales report: the business day boundary, the totals and
+ * breakdowns, accept / ready timings and the printed Z REPORT.
+ */
+
+process.env.TZ = 'UTC';
+
+import { Order } from '../src/types';
+import { interpretEscPos, lineWidth, PaperLine } from '../src/services/escpos';
+import { generateZReport, PAPER_PROFILES } from '../src/services/tickets';
+import { buildSalesReport, getBusinessDayRange, markOrderTime, trackOrderTimes } from '../src/utils/salesReport';
+import { makeOrder } from './helpers/orders';
+
+const textLines = (lines: PaperLine[]) =>
+  lines.flatMap((line) => (line.type === 'text' ? [line.segments.map((s) => s.text).join('').trim()] : []));
+
+// Paid and completed unless the test says otherwise
+const sale: Partial<Order> = { status: 'completed', subtotal: 10, tax: 1.3, total: 11.3, payment_status: 'paid' };
+
+const orders: Order[] = [
+  makeOrder({ ...sale, id: 'a' }),
+  makeOrder({
+    ...sale,
+    id: 'b',
+    order_type: 'delivery',
+    subtotal: 20,
+    tax: 2.6,
+    tip: 3,
+    delivery_fee: 4,
+    total: 29.6,
+    payment_status: 'unpaid',
+    created_at: '2025-12-18T01:30:00.000Z', // After midnight, before the 4 AM rollover
+  }),
+  makeOrder({ ...sale, id: 'c', status: 'cancelled', cancel_reason: 'too_busy', total: 15, created_at: '2025-12-17T18:00:00.000Z' }),
+  makeOrder({ ...sale, id: 'd', created_at: '2025-12-17T03:59:00.000Z' }), // Previous business day
+  makeOrder({ ...sale, id: 'e', created_at: '2025-12-18T04:00:00.000Z' }), // Next business day
+];
+
+const range = getBusinessDayRange(new Date('2025-12-17T15:00:00.000Z'), 4);
+
+describe('getBusinessDayRange', () => {
+  it('runs from the start hour to the same hour the next day', () => {
+    expect(range.start.toISOString()).toBe('2025-12-17T04:00:00.000Z');
+    expect(range.end.toISOString()).toBe('2025-12-18T04:00:00.000Z');
+  });
+
+  it('puts the small hours on the previous day', () => {
+    expect(getBusinessDayRange(new Date('2025-12-18T01:30:00.000Z'), 4).start.toISOString()).toBe('2025-12-17T04:00:00.000Z');
+    expect(getBusinessDayRange(new Date('2025-12-18T01:30:00.000Z'), 0).start.toISOString()).toBe('2025-12-18T00:00:00.000Z');
+  });
+
+  it('steps back whole days', () => {
+    expect(getBusinessDayRange(new Date('2025-12-17T15:00:00.000Z'), 4, -1).start.toISOString()).toBe('2025-12-16T04:00:00.000Z');
+  });
+});
+
+describe('buildSalesReport', () => {
+  const times = {
+    a: { accepted_at: '2025-12-17T12:02:00.000Z', ready_at: '2025-12-17T12:15:00.000Z' },
+    b: { accepted_at: '2025-12-18T01:34:00.000Z' },
+  };
+  const report = buildSalesReport(orders, range, times, new Date('2025-12-18T03:00:00.000Z'));
+
+  it('counts only orders placed in the business day', () => {
+    expect(report.order_count).toBe(3);
+    expect(report.by_status).toEqual({ completed: 2, cancelled: 1 });
+  });
+
+  it('totals sales without cancelled orders', () => {
+    expect(report.sale_count).toBe(2);
+    expect(report.sales).toEqual({ subtotal: 30, tax: 3.9, tips: 3, delivery_fees: 4, total: 40.9 });
+    expect(report.cancelled).toEqual({ count: 1, total: 15 });
+    expect(report.by_cancel_reason).toEqual({ too_busy: { count: 1, total: 15 } });
+    expect(report.average_order_value).toBe(20.45);
+  });
+
+  it('breaks sales down by order type and payment', () => {
+    expect(report.by_order_type).toEqual({ pickup: { count: 1, total: 11.3 }, delivery: { count: 1, total: 29.6 } });
+    expect(report.by_payment_status).toEqual({ paid: { count: 1, total: 11.3 }, unpaid: { count: 1, total: 29.6 } });
+  });
+
+  it('averages the accept and ready times it has', () => {
+    expect(report.average_accept_minutes).toBe(3);
+    expect(report.average_ready_minutes).toBe(15);
+    expect(buildSalesReport(orders, range).average_accept_minutes).toBeNull();
+  });
+});
+
+describe('order times', () => {
+  it('keeps the first accept', () => {
+    const first = markOrderTime({}, 'a', 'accepted_at', '2025-12-17T12:02:00.000Z');
+    expect(markOrderTime(first, 'a', 'accepted_at', '2025-12-17T12:09:00.000Z')).toBe(first);
+  });
+
+  it('marks ready only on a transition it saw', () => {
+    const now = new Date('2025-12-17T12:20:00.000Z');
+    const next = trackOrderTimes(
+      {},
+      [{ id: 'a', status: 'preparing' }, { id: 'b', status: 'completed' }],
+      [{ id: 'a', status: 'ready' }, { id: 'b', status: 'completed' }, { id: 'c', status: 'completed' }],
+      now
+    );
+    expect(next).toEqual({ a: { ready_at: now.toISOString() } });
+  });
+
+  it('forgets orders after two days', () => {
+    const times = { old: { accepted_at: '2025-12-14T12:00:00.000Z' }, recent: { accepted_at: '2025-12-17T11:00:00.000Z' } };
+    expect(Object.keys(trackOrderTimes(times, [], [], new Date('2025-12-17T12:00:00.000Z')))).toEqual(['recent']);
+  });
+});
+
+describe('Z report ticket', () => {
+  const report = buildSalesReport(orders, range, {}, new Date('2025-12-18T03:00:00.000Z'));
+
+  it('prints the totals and breakdowns', () => {
+    const lines = textLines(interpretEscPos(generateZReport(report, 'Test Kitchen')).lines);
+
+    expect(lines).toContain('Z REPORT');
+    expect(lines).toContain('Test Kitchen');
+    expect(lines).toContain('From: Dec 17, 2025, 4:00 AM');
+    expect(lines.some((line) => /^Tips:\s+\$3\.00$/.test(line))).toBe(true);
+    expect(lines.some((line) => /^Delivery \(1\)\s+\$29\.60$/.test(line))).toBe(true);
+    expect(lines.some((line) => /^Unpaid \(1\)\s+\$29\.60$/.test(line))).toBe(true);
+    expect(lines.some((line) => /^Orders \(1\)\s+\$15\.00$/.test(line))).toBe(true);
+    expect(lines.some((line) => /^Too busy \(1\)\s+\$15\.00$/.test(line))).toBe(true);
+    expect(lines.some((line) => /^Avg time to ready:\s+--$/.test(line))).toBe(true);
+  });
+
+  it('warns when the day could not be loaded in full', () => {
+    expect(textLines(interpretEscPos(generateZReport(report)).lines).some((line) => line.startsWith('INCOMPLETE'))).toBe(false);
+    const lines = textLines(interpretEscPos(generateZReport({ ...report, incomplete: true })).lines);
+    expect(lines).toContain('INCOMPLETE - some orders not loaded');
+  });
+
+  it('fits 58mm paper', () => {
+    const paper = PAPER_PROFILES['58mm'];
+    const data = generateZReport(report, 'Test Kitchen', paper);
+    expect(Math.max(...interpretEscPos(data, 1000).lines.map(lineWidth))).toBeLessThanOrEqual(paper.columns);
+  });
+});
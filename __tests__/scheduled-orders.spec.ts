@@ -0,0 +1,117 @@
+/**
+ * Scheduled (future) orders: parsing the due time, holding them until the
+ * lead time, and keeping them out of stuck-order reports until they fire.
+ */
+
+import { Order } from '../src/types';
+import {
+  getBoardTime,
+  getNextFireDelayMs,
+  isScheduledHold,
+  parseScheduledFor,
+  splitScheduledOrders,
+} from '../src/utils/scheduledOrders';
+import { detectStuckOrders } from '../src/utils/stuckOrderDetection';
+import { getScheduledTime } from '../src/services/tickets';
+import { makeOrder } from './helpers/orders';
+
+const NOW = Date.parse('2025-12-17T17:00:00Z');
+const MINUTE = 60 * 1000;
+const iso = (offsetMinutes: number) => new Date(NOW + offsetMinutes * MINUTE).toISOString();
+
+// Placed two hours ago, not accepted yet
+const placed: Partial<Order> = { subtotal: 12, total: 12, created_at: iso(-120), updated_at: iso(-120) };
+
+describe('parseScheduledFor', () => {
+  it('prefers the API field and normalises it', () => {
+    expect(parseScheduledFor('2025-12-17T18:30:00-05:00', 'Scheduled for: 2025-12-18T12:00:00Z')).toBe(
+      '2025-12-17T23:30:00.000Z'
+    );
+  });
+
+  it('falls back to a "Scheduled for:" note', () => {
+    expect(parseScheduledFor(undefined, 'Extra napkins | Scheduled for: 2025-12-17T23:30:00Z')).toBe(
+      '2025-12-17T23:30:00.000Z'
+    );
+  });
+
+  it('ignores missing and unreadable times', () => {
+    expect(parseScheduledFor(null, 'No onions')).toBeNull();
+    expect(parseScheduledFor('soon', undefined)).toBeNull();
+  });
+});
+
+describe('holding scheduled orders', () => {
+  const later = makeOrder({ ...placed, id: 'later', scheduled_for: iso(120) });
+  const soon = makeOrder({ ...placed, id: 'soon', scheduled_for: iso(20) });
+  const regular = makeOrder({ ...placed, id: 'regular' });
+
+  it('holds pending orders until the lead time before due', () => {
+    expect(isScheduledHold(later, 30, NOW)).toBe(true);
+    expect(isScheduledHold(soon, 30, NOW)).toBe(false);
+    expect(isScheduledHold(regular, 30, NOW)).toBe(false);
+  });
+
+  it('lets an order staff already accepted through', () => {
+    expect(isScheduledHold({ ...later, status: 'confirmed' }, 30, NOW)).toBe(false);
+  });
+
+  it('splits the held orders out, soonest due first', () => {
+    const latest = makeOrder({ ...placed, id: 'latest', scheduled_for: iso(240) });
+    const { scheduled, board } = splitScheduledOrders([latest, regular, soon, later], 30, NOW);
+    expect(scheduled.map((o) => o.id)).toEqual(['later', 'latest']);
+    expect(board.map((o) => o.id)).toEqual(['regular', 'soon']);
+  });
+
+  it('knows when the next held order fires', () => {
+    expect(getNextFireDelayMs([regular, soon, later], 30, NOW)).toBe(90 * MINUTE);
+    expect(getNextFireDelayMs([regular, soon], 30, NOW)).toBeNull();
+  });
+
+  it('counts board time from when the order fired', () => {
+    expect(getBoardTime(soon, 30)).toBe(NOW - 10 * MINUTE);
+    expect(getBoardTime(regular, 30)).toBe(NOW - 120 * MINUTE);
+  });
+});
+
+describe('detectStuckOrders with scheduled orders', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('skips orders still waiting to fire', () => {
+    const held = makeOrder({ ...placed, id: 'held', scheduled_for: iso(120) });
+    expect(detectStuckOrders([held], 30)).toEqual([]);
+    expect(detectStuckOrders([makeOrder({ ...placed, id: 'regular' })], 30).map((o) => o.order_id)).toEqual(['regular']);
+  });
+
+  it('times a fired order from its fire time, not when it was placed', () => {
+    const justFired = makeOrder({ ...placed, id: 'fired', scheduled_for: iso(27) });
+    expect(detectStuckOrders([justFired], 30)).toEqual([]);
+
+    const ignored = makeOrder({ ...placed, id: 'ignored', scheduled_for: iso(20) });
+    expect(detectStuckOrders([ignored], 30)).toEqual([
+      expect.objectContaining({ order_id: 'ignored', minutes_stuck: 10 }),
+    ]);
+  });
+});
+
+describe('getScheduledTime', () => {
+  it('uses scheduled_for and still strips the note it came from', () => {
+    const order = makeOrder({
+      ...placed,
+      id: '1',
+      scheduled_for: '2025-12-17T23:30:00.000Z',
+      notes: 'Scheduled for: 2025-12-17T23:30:00Z',
+    });
+    const scheduled = getScheduledTime(order);
+    expect(scheduled.time).not.toBeNull();
+    expect(scheduled.fromNotes).toBe(true);
+    expect(getScheduledTime({ ...order, notes: '' }).fromNotes).toBe(false);
+  });
+});
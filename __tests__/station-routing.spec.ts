@@ -0,0 +1,188 @@
+/**
+ * Kitchen station routing: which items land on which station's ticket,
+ * and retrying only the station tickets that failed to print.
+ */
+
+import { KitchenStation, Order, OrderItem } from '../src/types';
+import { itemMatchesStation, routeOrderToStations } from '../src/services/stationRouting';
+import { connectPrinter, getConnectedPrinterAddress, getConnectedPrinterType, printKitchenTicket } from '../src/services/printService';
+import { makeOrder } from './helpers/orders';
+
+const mockTransport = {
+  type: 'network',
+  isAvailable: () => true,
+  connect: jest.fn(async () => undefined),
+  disconnect: jest.fn(async () => undefined),
+  printText: jest.fn(async (_text: string) => undefined),
+  canPrintRaw: () => false,
+};
+const mockStationTransport = {
+  ...mockTransport,
+  type: 'bluetooth',
+  connect: jest.fn(async () => undefined),
+  printText: jest.fn(async (_text: string) => undefined),
+};
+
+jest.mock('../src/services/printerTransport', () => ({
+  getTransport: (type: string) => (type === 'bluetooth' ? mockStationTransport : mockTransport),
+}));
+jest.mock('../src/services/receiptLogo', () => ({ getCachedReceiptLogo: () => null, loadReceiptLogo: jest.fn() }));
+jest.mock('../src/api/client', () => ({ DEFAULT_API_BASE_URL: '' }));
+jest.mock('../src/store/useStore', () => ({
+  useStore: {
+    getState: () => ({ settings: {}, printedOrders: {}, recordPrintedOrder: jest.fn() }),
+  },
+}));
+
+const kitchenItems: OrderItem[] = [
+  {
+    id: 'i1',
+    name: 'Pepperoni Pizza',
+    size: 'Large',
+    quantity: 1,
+    price: 18.5,
+    modifiers: [{ id: 'm1', name: 'Extra Cheese', price: 2, group_name: 'Toppings' }],
+  },
+  { id: 'i2', name: 'Cheeseburger', quantity: 2, price: 12 },
+  { id: 'i3', name: 'Caesar Salad', quantity: 1, price: 9 },
+];
+
+const makeStation = (overrides: Partial<KitchenStation> = {}): KitchenStation => ({
+  id: 's1',
+  name: 'Station',
+  isExpo: false,
+  rules: [],
+  printerType: 'network',
+  printerAddress: null,
+  ...overrides,
+});
+
+const pizza = makeStation({ id: 'pizza', name: 'Pizza Oven', rules: [{ field: 'item_name', value: 'pizza' }] });
+const grill = makeStation({ id: 'grill', name: 'Grill', rules: [{ field: 'item_name', value: 'BURGER' }] });
+const expo = makeStation({ id: 'expo', name: 'Expo', isExpo: true });
+
+const itemIds = (order: Order) => order.items.map((item) => item.id);
+
+describe('itemMatchesStation', () => {
+  const [pizzaItem, burger] = kitchenItems;
+
+  it('matches item names case-insensitively', () => {
+    expect(itemMatchesStation(pizzaItem, pizza)).toBe(true);
+    expect(itemMatchesStation(burger, grill)).toBe(true);
+    expect(itemMatchesStation(burger, pizza)).toBe(false);
+  });
+
+  it('matches sizes and modifier groups', () => {
+    expect(itemMatchesStation(pizzaItem, makeStation({ rules: [{ field: 'size', value: 'large' }] }))).toBe(true);
+    expect(itemMatchesStation(pizzaItem, makeStation({ rules: [{ field: 'modifier_group', value: 'topping' }] }))).toBe(true);
+    expect(itemMatchesStation(burger, makeStation({ rules: [{ field: 'modifier_group', value: 'topping' }] }))).toBe(false);
+  });
+
+  it('ignores blank rule values', () => {
+    expect(itemMatchesStation(burger, makeStation({ rules: [{ field: 'item_name', value: '  ' }] }))).toBe(false);
+  });
+
+  it('expo matches everything', () => {
+    expect(itemMatchesStation(burger, expo)).toBe(true);
+  });
+});
+
+describe('routeOrderToStations', () => {
+  it('prints the whole order on the main printer when no stations are set', () => {
+    const order = makeOrder({ items: kitchenItems });
+    expect(routeOrderToStations(order, [])).toEqual([{ station: null, order }]);
+  });
+
+  it('gives each station only its items and expo the whole order', () => {
+    const order = makeOrder({ items: kitchenItems });
+    const tickets = routeOrderToStations(order, [pizza, grill, expo]);
+
+    expect(tickets.map((t) => t.station?.id)).toEqual(['pizza', 'grill', 'expo']);
+    expect(itemIds(tickets[0].order)).toEqual(['i1']);
+    expect(itemIds(tickets[1].order)).toEqual(['i2']);
+    expect(tickets[2].order).toBe(order);
+  });
+
+  it('sends unmatched items to the main printer when there is no expo', () => {
+    const tickets = routeOrderToStations(makeOrder({ items: kitchenItems }), [pizza, grill]);
+
+    expect(tickets.map((t) => t.station?.id ?? null)).toEqual(['pizza', 'grill', null]);
+    expect(itemIds(tickets[2].order)).toEqual(['i3']);
+  });
+
+  it('skips stations with no matching items', () => {
+    const order = makeOrder({ items: [kitchenItems[1]] });
+    const tickets = routeOrderToStations(order, [pizza, grill]);
+
+    expect(tickets.map((t) => t.station?.id)).toEqual(['grill']);
+  });
+
+  it('an item matching two stations prints on both', () => {
+    const cheese = makeStation({ id: 'cheese', rules: [{ field: 'item_name', value: 'cheese' }] });
+    const order = makeOrder({ items: [kitchenItems[1]] });
+    const tickets = routeOrderToStations(order, [grill, cheese]);
+
+    expect(tickets.map((t) => t.station?.id)).toEqual(['grill', 'cheese']);
+  });
+
+  it('still prints one ticket for an order without items', () => {
+    const order = makeOrder({ items: [] });
+    expect(routeOrderToStations(order, [pizza])).toEqual([{ station: null, order }]);
+  });
+});
+
+describe('printKitchenTicket', () => {
+  beforeAll(async () => {
+    jest.useFakeTimers({ now: new Date('2025-12-17T14:00:00Z') });
+    await connectPrinter('192.168.1.60:9100', 'network');
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  it('retries only the station tickets that did not print', async () => {
+    const order = makeOrder({ id: 'partial', items: kitchenItems });
+    const printedStations = () =>
+      mockTransport.printText.mock.calls.map((call: unknown[]) =>
+        [pizza, grill, expo].find((station) => String(call[0]).toUpperCase().includes(station.name.toUpperCase()))?.name
+      );
+    mockTransport.printText.mockClear();
+    mockTransport.printText
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Paper jam'));
+
+    expect(await printKitchenTicket(order, [pizza, grill, expo])).toBe(false);
+    expect(printedStations()).toEqual(['Pizza Oven', 'Grill']);
+
+    // The failure dropped the connection - reconnect once the retry delay is over
+    jest.setSystemTime(new Date('2025-12-17T14:01:00Z'));
+    await connectPrinter('192.168.1.60:9100', 'network');
+    mockTransport.printText.mockClear();
+    expect(await printKitchenTicket(order, [pizza, grill, expo])).toBe(true);
+    expect(printedStations()).toEqual(['Grill', 'Expo']);
+  });
+
+  it('falls back to the main printer when a station on the same printer fails', async () => {
+    jest.setSystemTime(new Date('2025-12-17T14:02:00Z'));
+    await connectPrinter('192.168.1.60:9100', 'network');
+    const sameAsMain = makeStation({ id: 'same', name: 'Pass', isExpo: true, printerAddress: '192.168.1.60:9100' });
+    mockTransport.printText.mockClear();
+    mockTransport.printText.mockRejectedValueOnce(new Error('Socket closed'));
+
+    await expect(printKitchenTicket(makeOrder({ id: 'same-printer', items: kitchenItems }), [sameAsMain])).resolves.toBe(true);
+    expect(mockTransport.printText).toHaveBeenCalledTimes(2);
+  });
+
+  it('leaves the main printer disconnected, not on the station, when it will not reconnect', async () => {
+    jest.setSystemTime(new Date('2025-12-17T14:03:00Z'));
+    await connectPrinter('192.168.1.60:9100', 'network');
+    const bar = makeStation({ id: 'bar', name: 'Bar', isExpo: true, printerType: 'bluetooth', printerAddress: 'AA:BB:CC' });
+    mockTransport.connect.mockRejectedValueOnce(new Error('Host unreachable'));
+
+    expect(await printKitchenTicket(makeOrder({ id: 'other-printer', items: kitchenItems }), [bar])).toBe(true);
+    expect(mockStationTransport.printText).toHaveBeenCalledTimes(1);
+    expect(getConnectedPrinterType()).toBe('network');
+    expect(getConnectedPrinterAddress()).toBeNull();
+  });
+});
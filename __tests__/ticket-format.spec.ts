@@ -0,0 +1,319 @@
+/**
+ * Print format regression tests.
+ *
+ * The snapshots in __snapshots__/ticket-format.spec.ts.snap were captured from
+ * the hand-concatenated generators that match docs/PRINT-FORMAT-REFERENCE.md.
+ * Any change to ticket bytes (ESC/POS commands, padding, wrapping) fails here,
+ * so a format change has to be a deliberate snapshot update.
+ *
+ * The "printed paper" snapshots run the same bytes through the ESC/POS
+ * interpreter, so a diff there reads like the paper that changed.
+ *
+ * Everything here renders with the default ASCII codepage; codepages.spec.ts
+ * covers CP850/CP863/CP1252.
+ */
+
+process.env.TZ = 'UTC';
+
+import { Order } from '../src/types';
+import {
+  generateDriverSlip,
+  generateItemLabels,
+  generateKitchenTicket,
+  generateReceiptText,
+  generateReceiptData,
+  generateTestReceipt,
+  generateTestPage,
+  getNavigationUrl,
+  PAPER_PROFILES,
+} from '../src/services/tickets';
+import { interpretEscPos, lineWidth, renderPaperText } from '../src/services/escpos';
+import { makeOrder } from './helpers/orders';
+
+// ── Fixtures ─────────────────────────────────────────────────────────────────
+
+// Saul's pepperoni pizza - each fixture changes what it's testing
+const saulsOrder: Partial<Order> = {
+  id: 'a1b2c3',
+  numeric_id: 4821,
+  order_number: 'ORD-2025-004821',
+  items: [
+    { id: 'i1', name: 'Large Pepperoni Pizza', quantity: 1, price: 18.5 },
+  ],
+  customer: { name: 'Saul Goodman', phone: '6138367722' },
+  subtotal: 18.5,
+  tax: 2.41,
+  total: 20.91,
+  created_at: '2025-12-17T13:50:00Z',
+  updated_at: '2025-12-17T13:50:00Z',
+};
+
+const FIXTURES: Record<string, Order> = {
+  simplePickupPaid: makeOrder({ ...saulsOrder, payment_status: 'paid' }),
+
+  guestWithModifiers: makeOrder({
+    ...saulsOrder,
+    customer: { name: 'Guest', phone: '' },
+    items: [
+      {
+        id: 'i1',
+        name: '2 Small Halifax Donairs',
+        size: 'Small',
+        quantity: 2,
+        price: 12,
+        notes: 'Please place 1 cheese per Donair and keep the sauce on the side thanks',
+        modifiers: [
+          { id: 'm1', name: 'Cheese', price: 1.5, quantity: 2, group_name: 'Toppings' },
+          { id: 'm2', name: 'Onions', price: 0, placement: 'left', group_name: 'Toppings' },
+          { id: 'm3', name: 'Pepsi', price: 0 },
+          { id: 'm4', name: 'Iced Tea', price: 0 },
+        ],
+      },
+      { id: 'i2', name: 'Poutine Québécoise', quantity: 1, price: 9.25 },
+    ],
+    subtotal: 33.25,
+    tax: 4.32,
+    tip: 3,
+    total: 40.57,
+  }),
+
+  twoForOnePizza: makeOrder({
+    ...saulsOrder,
+    items: [
+      {
+        id: 'i1',
+        name: '2 for 1 Medium Pizzas',
+        quantity: 1,
+        price: 24,
+        modifiers: [
+          { id: 'm0', name: 'Medium', price: 0, group_name: 'Choose your size', instance_index: 0 },
+          { id: 'm1', name: 'Mushrooms', price: 1.25, placement: 'right', group_name: 'Toppings', instance_index: 0 },
+          { id: 'm2', name: 'Bacon', price: 1.75, quantity: 3, group_name: 'Toppings', instance_index: 1 },
+          { id: 'm3', name: 'Extra Sauce', price: 0, instance_index: 1 },
+        ],
+      },
+    ],
+    notes: 'RUSH please, customer is waiting | Vegan cheese if possible',
+  }),
+
+  deliveryScheduledAllergy: makeOrder({
+    ...saulsOrder,
+    order_type: 'delivery',
+    customer: { name: 'Kim Wexler', phone: '613-555-0199' },
+    delivery_address: {
+      street: '422 Bronson Avenue',
+      unit: '3B',
+      city: 'Ottawa',
+      province: 'ON',
+      postal_code: 'K1R6J6',
+      instructions: 'Dog is sick please leave pizza at front door',
+    },
+    items: [
+      {
+        id: 'i1',
+        name: 'Pad Thai',
+        quantity: 1,
+        price: 15,
+        notes: 'Severe peanut allergy - no nuts at all',
+      },
+      { id: 'i2', name: 'Spring Rolls', quantity: 3, price: 2.5, notes: 'Diabetic, no sweet sauce' },
+    ],
+    notes: 'Scheduled for: 2025-12-17T16:00:00Z | Gluten free if possible | TWILIO_FALLBACK_CALL placed',
+    subtotal: 22.5,
+    tax: 2.93,
+    delivery_fee: 4.99,
+    tip: 5,
+    total: 35.42,
+    estimated_ready_time: '2025-12-17T16:00:00Z',
+    payment_status: 'unpaid',
+  }),
+
+  notesMatchDeliveryInstructions: makeOrder({
+    ...saulsOrder,
+    order_type: 'delivery',
+    delivery_address: {
+      street: '1 Rideau St',
+      city: 'Ottawa',
+      postalCode: 'K1N8S7',
+      delivery_instructions: 'Buzz 204 at the side door',
+    },
+    notes: 'Buzz 204 at the side door',
+  }),
+
+  dineInAllergyOnOrder: makeOrder({
+    ...saulsOrder,
+    order_type: 'dine_in',
+    customer: { name: 'Jimmy “Slippin” McGill…', phone: '6135550000' },
+    notes: 'Shellfish allergy — table 4, anaphylaxis risk. Needs the EpiPen kept nearby at all times.',
+    estimated_ready_time: '2025-12-17T14:05:00Z',
+  }),
+};
+
+// ── Tests ────────────────────────────────────────────────────────────────────
+
+describe('ticket format (byte-identical to PRINT-FORMAT-REFERENCE)', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  Object.entries(FIXTURES).forEach(([name, order]) => {
+    describe(name, () => {
+      it('kitchen ticket', () => {
+        expect(JSON.stringify(generateKitchenTicket(order))).toMatchSnapshot();
+      });
+
+      it('customer receipt', () => {
+        expect(JSON.stringify(generateReceiptText(order))).toMatchSnapshot();
+      });
+
+      it('receipt data', () => {
+        expect(JSON.stringify(generateReceiptData(order))).toMatchSnapshot();
+      });
+    });
+  });
+
+  describe('test prints', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.setSystemTime(new Date('2025-12-17T13:50:00Z'));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('test receipt', () => {
+      expect(JSON.stringify(generateTestReceipt())).toMatchSnapshot();
+    });
+
+    it('test page', () => {
+      expect(JSON.stringify(generateTestPage())).toMatchSnapshot();
+    });
+  });
+});
+
+describe('printed paper (ESC/POS interpreter)', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  Object.entries(FIXTURES).forEach(([name, order]) => {
+    describe(name, () => {
+      it('kitchen ticket', () => {
+        expect(renderPaperText(interpretEscPos(generateKitchenTicket(order)), { gutter: true })).toMatchSnapshot();
+      });
+
+      it('customer receipt', () => {
+        expect(renderPaperText(interpretEscPos(generateReceiptText(order)), { gutter: true })).toMatchSnapshot();
+      });
+    });
+  });
+});
+
+describe('58mm paper profile', () => {
+  const paper = PAPER_PROFILES['58mm'];
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Interpret without wrapping so an over-long line shows up instead of folding
+  const widestLine = (data: string): number =>
+    Math.max(...interpretEscPos(data, 1000).lines.map(lineWidth));
+
+  Object.entries(FIXTURES).forEach(([name, order]) => {
+    it(`${name} fits on 32 columns`, () => {
+      expect(widestLine(generateKitchenTicket(order, undefined, paper))).toBeLessThanOrEqual(paper.columns);
+      expect(widestLine(generateKitchenTicket(order, 'Pizza Oven', paper))).toBeLessThanOrEqual(paper.columns);
+      expect(widestLine(generateReceiptText(order, paper))).toBeLessThanOrEqual(paper.columns);
+    });
+  });
+
+  it('tears instead of cutting', () => {
+    const lines = interpretEscPos(generateKitchenTicket(FIXTURES.dineInAllergyOnOrder, undefined, paper), paper.columns).lines;
+    expect(lines.some((line) => line.type === 'cut')).toBe(false);
+  });
+
+  it('kitchen ticket', () => {
+    const data = generateKitchenTicket(FIXTURES.dineInAllergyOnOrder, undefined, paper);
+    expect(renderPaperText(interpretEscPos(data, paper.columns), { gutter: true })).toMatchSnapshot();
+  });
+
+  it('customer receipt', () => {
+    const data = generateReceiptText(FIXTURES.dineInAllergyOnOrder, paper);
+    expect(renderPaperText(interpretEscPos(data, paper.columns), { gutter: true })).toMatchSnapshot();
+  });
+});
+
+describe('item labels', () => {
+  const label = PAPER_PROFILES.label;
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('prints one label per item unit, each the height of the label', () => {
+    const data = generateItemLabels(FIXTURES.guestWithModifiers, label);
+    const lines = interpretEscPos(data, 1000).lines.filter((line) => line.type === 'text');
+
+    // 2x donairs + 1x poutine = 3 labels of 7 rows - the two double-height lines take 2 rows each
+    expect(lines).toHaveLength(3 * (label.labelLines! - 2));
+    expect(Math.max(...lines.map(lineWidth))).toBeLessThanOrEqual(label.columns);
+  });
+
+  it('label stock', () => {
+    const data = generateItemLabels(FIXTURES.guestWithModifiers, label);
+    expect(renderPaperText(interpretEscPos(data, label.columns), { gutter: true })).toMatchSnapshot();
+  });
+
+  it('roll paper', () => {
+    const data = generateItemLabels(FIXTURES.twoForOnePizza, PAPER_PROFILES['80mm']);
+    expect(renderPaperText(interpretEscPos(data), { gutter: true })).toMatchSnapshot();
+  });
+});
+
+describe('driver slip', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('cash to collect', () => {
+    const data = generateDriverSlip(FIXTURES.deliveryScheduledAllergy);
+    expect(renderPaperText(interpretEscPos(data), { gutter: true })).toMatchSnapshot();
+  });
+
+  it('paid, on 58mm', () => {
+    const paper = PAPER_PROFILES['58mm'];
+    const order = { ...FIXTURES.notesMatchDeliveryInstructions, payment_status: 'paid' };
+    const data = generateDriverSlip(order, paper);
+    expect(Math.max(...interpretEscPos(data, 1000).lines.map(lineWidth))).toBeLessThanOrEqual(paper.columns);
+    expect(renderPaperText(interpretEscPos(data, paper.columns), { gutter: true })).toMatchSnapshot();
+  });
+
+  it('links the QR code to directions to the address', () => {
+    expect(getNavigationUrl(FIXTURES.deliveryScheduledAllergy.delivery_address!)).toBe(
+      'https://www.google.com/maps/dir/?api=1&destination=422%20Bronson%20Avenue%2C%20Ottawa%2C%20ON%2C%20K1R6J6'
+    );
+    expect(generateDriverSlip(FIXTURES.deliveryScheduledAllergy)).toContain('destination=422%20Bronson%20Avenue');
+  });
+});
@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+/**
+ * Fake network receipt printer (raw TCP, port 9100)
+ *
+ * Lets you test the Network (LAN) printer path without an Epson on the desk:
+ *   node scripts/fake-printer.js [port]
+ *
+ * Then in the app: Settings → Printer Connection → Network (LAN),
+ * enter this machine's IP and the port. Every job is saved to
+ * printer-captures/<timestamp>.bin (raw bytes) and dumped to the terminal
+ * with ESC/POS commands shown as <TAGS> so you can eyeball the ticket.
+ *
+ * An Android emulator reaches the host machine at 10.0.2.2.
+ */
+
+const net = require('net');
+const fs = require('fs');
+const path = require('path');
+
+const PORT = Number(process.argv[2] || process.env.PRINTER_PORT || 9100);
+const CAPTURE_DIR = path.join(__dirname, '..', 'printer-captures');
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+// Readable names for the commands printService sends
+const describeCommand = (bytes, i) => {
+  const cmd = bytes[i];
+  const next = bytes[i + 1];
+  if (cmd === ESC) {
+    switch (next) {
+      case 0x40: return ['<INIT>', 2];
+      case 0x61: return [`<ALIGN ${['LEFT', 'CENTER', 'RIGHT'][bytes[i + 2]] || bytes[i + 2]}>`, 3];
+      case 0x45: return [bytes[i + 2] ? '<BOLD>' : '</BOLD>', 3];
+      case 0x2d: return [bytes[i + 2] ? '<UNDERLINE>' : '</UNDERLINE>', 3];
+      case 0x20: return [`<CHAR_SPACING ${bytes[i + 2]}>`, 3];
+      case 0x64: return [`<FEED ${bytes[i + 2]}>`, 3];
+      case 0x74: return [`<CODEPAGE ${bytes[i + 2]}>`, 3];
+      default: return [`<ESC 0x${(next ?? 0).toString(16)}>`, 2];
+    }
+  }
+  if (cmd === GS) {
+    switch (next) {
+      case 0x21: return [`<SIZE 0x${(bytes[i + 2] ?? 0).toString(16).padStart(2, '0')}>`, 3];
+      case 0x56: return ['<CUT>', 3];
+      default: return [`<GS 0x${(next ?? 0).toString(16)}>`, 2];
+    }
+  }
+  return null;
+};
+
+const dump = (bytes) => {
+  let out = '';
+  let i = 0;
+  while (i < bytes.length) {
+    const command = describeCommand(bytes, i);
+    if (command) {
+      out += command[0];
+      i += command[1];
+      continue;
+    }
+    const b = bytes[i];
+    out += b === 0x0a || (b >= 0x20 && b < 0x7f) ? String.fromCharCode(b) : `<0x${b.toString(16).padStart(2, '0')}>`;
+    i += 1;
+  }
+  return out;
+};
+
+fs.mkdirSync(CAPTURE_DIR, { recursive: true });
+
+// The app keeps its socket open between tickets, so a job ends when the
+// connection goes quiet rather than when it closes.
+const JOB_IDLE_MS = 750;
+
+const saveJob = (peer, bytes) => {
+  const file = path.join(CAPTURE_DIR, `${new Date().toISOString().replace(/[:.]/g, '-')}.bin`);
+  fs.writeFileSync(file, bytes);
+  console.log(`[FakePrinter] 🧾 ${bytes.length} bytes from ${peer} → ${path.relative(process.cwd(), file)}`);
+  console.log('-'.repeat(48));
+  console.log(dump(bytes));
+  console.log('-'.repeat(48));
+};
+
+const server = net.createServer((socket) => {
+  const peer = `${socket.remoteAddress}:${socket.remotePort}`;
+  let chunks = [];
+  let idleTimer = null;
+  console.log(`[FakePrinter] 🔗 Connection from ${peer}`);
+
+  const flush = () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = null;
+    if (chunks.length === 0) return;
+    saveJob(peer, Buffer.concat(chunks));
+    chunks = [];
+  };
+
+  socket.on('data', (chunk) => {
+    chunks.push(chunk);
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = setTimeout(flush, JOB_IDLE_MS);
+  });
+
+  socket.on('close', () => {
+    flush();
+    console.log(`[FakePrinter] 🔌 ${peer} disconnected`);
+  });
+
+  socket.on('error', (error) => {
+    console.warn(`[FakePrinter] ⚠️ ${peer} error:`, error.message);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`[FakePrinter] 🖨️ Listening on port ${PORT} - captures go to ${CAPTURE_DIR}`);
+});
@@ -4,10 +4,12 @@ import * as SecureStore from 'expo-secure-store';
 import {
   ApiResponse,
   AuthResponse,
+  CancelReason,
   DeviceCredentials,
   Order,
   OrdersListResponse,
   OrderStatus,
+  OrderType,
   HeartbeatPayload,
   HeartbeatResponse,
   DispatchAvailabilityResponse,
@@ -16,6 +18,8 @@ import {
   TabletServiceConfig,
   RecoveryCommand,
 } from '../types';
+import { parseScheduledFor } from '../utils/scheduledOrders';
+import { parseCancelReason } from '../utils/cancelReasons';
 
 const addBreadcrumb = (_msg: string, _cat?: string, _data?: Record<string, unknown>) => {};
 const captureException = (_err: unknown, _extra?: Record<string, unknown>) => {};
@@ -214,6 +218,13 @@ class ApiClient {
     console.log(`[API] Base URL set: ${DEFAULT_API_BASE_URL}`);
   }
 
+  /**
+   * Current session token (realtime channel auth) - null when logged out
+   */
+  getSessionToken(): string | null {
+    return this.sessionToken;
+  }
+
   async getBaseUrl(): Promise<string> {
     return DEFAULT_API_BASE_URL;
   }
@@ -522,6 +533,13 @@ class ApiClient {
     return null;
   }
 
+  /**
+   * Order from a raw server payload (realtime events use the same shape as the REST API)
+   */
+  parseOrder(rawOrder: any): Order {
+    return this.mapOrder(rawOrder);
+  }
+
   private mapOrder(rawOrder: any): Order {
     const normalizedId = rawOrder?.id?.toString?.() || '';
     const normalizedNumericId =
@@ -567,7 +585,13 @@ class ApiClient {
       notes: rawOrder?.notes || rawOrder?.special_instructions || '',
       delivery_address: rawOrder?.delivery_address,
       estimated_ready_time: rawOrder?.estimated_ready_time,
+      scheduled_for: parseScheduledFor(
+        rawOrder?.scheduled_for ?? rawOrder?.scheduledFor,
+        rawOrder?.notes || rawOrder?.special_instructions
+      ),
       payment_status: rawOrder?.payment_status || null,
+      cancel_reason: parseCancelReason(rawOrder?.cancel_reason),
+      cancel_note: rawOrder?.cancel_note || null,
     };
   }
 
@@ -575,8 +599,12 @@ class ApiClient {
 
   async getOrders(params?: {
     status?: OrderStatus;
-    since?: string;
+    order_type?: OrderType;
+    since?: string;        // Updated since (delta sync cursor)
+    created_from?: string; // Placed at or after (reports, history)
+    created_to?: string;   // Placed before
     limit?: number;
+    cursor?: string;  // next_cursor from the previous page
   }): Promise<ApiResponse<OrdersListResponse>> {
     try {
       const response = await this.client.get<any>(
@@ -609,6 +637,11 @@ class ApiClient {
             orders: transformedOrders,
             total: rawData.total_count || transformedOrders.length,
             has_more: Boolean(rawData.has_more ?? rawData.hasMore ?? false),
+            cursor: rawData.cursor ?? rawData.next_since ?? rawData.server_time ?? null,
+            next_cursor: rawData.next_cursor ?? rawData.nextCursor ?? null,
+            deleted_ids: Array.isArray(rawData.deleted_ids ?? rawData.deletedIds)
+              ? (rawData.deleted_ids ?? rawData.deletedIds).map(String)
+              : [],
           },
         };
       }
@@ -636,6 +669,7 @@ class ApiClient {
         return {
           success: false,
           error: response.data?.error || 'Failed to fetch order',
+          status: response.status,
         };
       }
       const rawData = response.data?.order || response.data?.data || response.data;
@@ -650,33 +684,81 @@ class ApiClient {
       return {
         success: false,
         error: axiosError.response?.data?.error || 'Failed to fetch order',
+        status: axiosError.response?.status,
       };
     }
   }
 
-  async acknowledgeOrder(orderId: string, acknowledgedAt?: string): Promise<ApiResponse<{ acknowledged_at?: string }>> {
+  /**
+   * Search older orders on the server (order number, customer, phone, items, notes)
+   */
+  async searchOrders(query: string, params?: { limit?: number; before?: string }): Promise<ApiResponse<Order[]>> {
     try {
-      const payload = acknowledgedAt ? { acknowledged_at: acknowledgedAt } : undefined;
+      const response = await this.client.get<any>('/api/tablet/orders/search', {
+        params: { q: query, ...params },
+      });
+      const rawOrders = response.data?.orders ?? response.data?.data;
+      if (Array.isArray(rawOrders)) {
+        return { success: true, data: rawOrders.map((order: any) => this.mapOrder(order)) };
+      }
+      return {
+        success: false,
+        error: response.data?.error || 'Invalid response from server',
+        status: response.status,
+      };
+    } catch (error) {
+      const axiosError = error as AxiosError<any>;
+      return {
+        success: false,
+        error: axiosError.response?.data?.error || 'Failed to search orders',
+        status: axiosError.response?.status,
+      };
+    }
+  }
+
+  async acknowledgeOrder(
+    orderId: string,
+    acknowledgedAt?: string,
+    idempotencyKey?: string,
+    estimatedReadyTime?: string
+  ): Promise<ApiResponse<{ acknowledged_at?: string; estimated_ready_time?: string }>> {
+    try {
+      // The quoted ready time goes along so the customer sees the same time staff promised
+      const payload =
+        acknowledgedAt || estimatedReadyTime
+          ? {
+              ...(acknowledgedAt && { acknowledged_at: acknowledgedAt }),
+              ...(estimatedReadyTime && { estimated_ready_time: estimatedReadyTime }),
+            }
+          : undefined;
       const response = await this.client.post<any>(
         `/api/tablet/orders/${orderId}`,
-        payload
+        payload,
+        idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined
       );
       const rawData = response.data;
       if (rawData?.success) {
         return {
           success: true,
-          data: { acknowledged_at: rawData.acknowledged_at || acknowledgedAt },
+          data: {
+            acknowledged_at: rawData.acknowledged_at || acknowledgedAt,
+            ...((rawData.estimated_ready_time || estimatedReadyTime) && {
+              estimated_ready_time: rawData.estimated_ready_time || estimatedReadyTime,
+            }),
+          },
         };
       }
       return {
         success: false,
         error: rawData?.error || 'Failed to acknowledge order',
+        status: response.status,
       };
     } catch (error) {
       const axiosError = error as AxiosError<any>;
       return {
         success: false,
         error: axiosError.response?.data?.error || 'Failed to acknowledge order',
+        status: axiosError.response?.status,
       };
     }
   }
@@ -684,7 +766,8 @@ class ApiClient {
   async updateOrderStatus(
     orderId: string,
     status: OrderStatus,
-    force: boolean = false
+    force: boolean = false,
+    idempotencyKey?: string
   ): Promise<ApiResponse<Order>> {
     const endpoint = `/api/tablet/orders/${orderId}/status`;
     console.log(`[API] ====== STATUS UPDATE REQUEST ======`);
@@ -696,7 +779,11 @@ class ApiClient {
     try {
       const payload: any = { status };
       if (force) payload.force = true;
-      const response = await this.client.patch<any>(endpoint, payload);
+      const response = await this.client.patch<any>(
+        endpoint,
+        payload,
+        idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined
+      );
       
       console.log(`[API] ====== STATUS UPDATE RESPONSE ======`);
       console.log(`[API] HTTP Status: ${response.status}`);
@@ -715,6 +802,7 @@ class ApiClient {
       return {
         success: false,
         error: response.data?.error || 'Unknown error',
+        status: response.status,
       };
     } catch (error) {
       const axiosError = error as AxiosError<any>;
@@ -730,6 +818,42 @@ class ApiClient {
       return {
         success: false,
         error: `${errorMsg} (HTTP ${axiosError.response?.status || '?'})`,
+        status: axiosError.response?.status,
+      };
+    }
+  }
+
+  /**
+   * Cancel (or reject) an order with the reason staff picked
+   */
+  async cancelOrder(
+    orderId: string,
+    reason: CancelReason,
+    idempotencyKey?: string
+  ): Promise<ApiResponse<Order>> {
+    try {
+      const response = await this.client.post<any>(
+        `/api/tablet/orders/${orderId}/cancel`,
+        { reason: reason.code, note: reason.note },
+        idempotencyKey ? { headers: { 'Idempotency-Key': idempotencyKey } } : undefined
+      );
+      if (response.data?.success) {
+        return {
+          success: true,
+          data: response.data.order ? this.mapOrder(response.data.order) : undefined,
+        };
+      }
+      return {
+        success: false,
+        error: response.data?.error || 'Failed to cancel order',
+        status: response.status,
+      };
+    } catch (error) {
+      const axiosError = error as AxiosError<any>;
+      return {
+        success: false,
+        error: axiosError.response?.data?.error || 'Failed to cancel order',
+        status: axiosError.response?.status,
       };
     }
   }
@@ -0,0 +1,243 @@
+/**
+ * Realtime Order Channel
+ *
+ * A WebSocket to the backend that pushes order-created / order-updated /
+ * order-deleted events the moment they happen, instead of waiting for the
+ * next poll. Authenticated with the session token (Authorization header).
+ *
+ * - Drops are retried with exponential backoff (1s, 2s, 4s... up to 1 minute)
+ * - A socket that goes quiet (no event or ping for 45s) is treated as dead
+ * - While it's down the polling loop carries on as before; while it's up,
+ *   polling drops to a once-a-minute safety net (and the full reconcile)
+ * - Every (re)connect asks for a delta sync to catch what was missed
+ */
+
+import { apiClient, DEFAULT_API_BASE_URL } from './client';
+import { RealtimeOrderEvent, RealtimeStatus } from '../types';
+
+const REALTIME_PATH = '/api/tablet/realtime';
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60 * 1000;
+const STALE_AFTER_MS = 45 * 1000; // Server pings every 20s
+
+/**
+ * The bits of a WebSocket the channel uses (tests swap in a mock server's sockets)
+ */
+export interface RealtimeSocket {
+  onopen: (() => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: ((event: { code?: number; reason?: string }) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  close: (code?: number, reason?: string) => void;
+}
+
+export type RealtimeSocketFactory = (url: string, token: string) => RealtimeSocket;
+
+export interface RealtimeOptions {
+  onEvent: (event: RealtimeOrderEvent) => void;
+  onConnected?: () => void;
+  url?: string;
+  createSocket?: RealtimeSocketFactory;
+}
+
+// React Native's WebSocket takes headers as a third argument
+const createWebSocket: RealtimeSocketFactory = (url, token) => {
+  const NativeWebSocket = WebSocket as unknown as new (
+    url: string,
+    protocols: string[] | undefined,
+    options: { headers: Record<string, string> }
+  ) => RealtimeSocket;
+  return new NativeWebSocket(url, undefined, { headers: { Authorization: `Bearer ${token}` } });
+};
+
+let status: RealtimeStatus = { state: 'off', connected_at: null, retry_at: null, attempts: 0, last_error: null };
+const listeners = new Set<() => void>();
+let options: RealtimeOptions | null = null;
+let socket: RealtimeSocket | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let staleTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ==================== Pure helpers ====================
+
+/**
+ * ws(s):// URL of the channel for an http(s):// API base URL
+ */
+export const getRealtimeUrl = (baseUrl: string = DEFAULT_API_BASE_URL): string =>
+  `${baseUrl.replace(/\/+$/, '').replace(/^http/, 'ws')}${REALTIME_PATH}`;
+
+/**
+ * Backoff before reconnect attempt N: 1s, 2s, 4s... capped at 1 minute
+ */
+export const getReconnectDelayMs = (attempts: number): number =>
+  Math.min(RECONNECT_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RECONNECT_MAX_DELAY_MS);
+
+/**
+ * Event from a socket message - null for pings and anything it doesn't know
+ */
+export const parseRealtimeMessage = (data: unknown): RealtimeOrderEvent | null => {
+  if (typeof data !== 'string') return null;
+  let message: any;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+
+  const type = String(message?.type || message?.event || '').replace('_', '.');
+  if ((type === 'order.created' || type === 'order.updated') && message.order) {
+    return { type, order: apiClient.parseOrder(message.order) };
+  }
+  const orderId = message?.order_id ?? message?.order?.id;
+  if (type === 'order.deleted' && orderId != null) {
+    return { type, order_id: String(orderId) };
+  }
+  return null;
+};
+
+// ==================== Status ====================
+
+const setStatus = (changes: Partial<RealtimeStatus>) => {
+  const next = { ...status, ...changes };
+  if (next.state !== status.state) {
+    console.log(`[Realtime] ${status.state} → ${next.state}`);
+  }
+  status = next;
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Current channel state
+ */
+export const getRealtimeStatus = (): RealtimeStatus => status;
+
+/**
+ * Listen for channel state changes
+ */
+export const subscribeRealtimeStatus = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+/**
+ * Is the channel up? (polling can stand down)
+ */
+export const isRealtimeConnected = (): boolean => status.state === 'connected';
+
+// ==================== Connection ====================
+
+const clearTimers = () => {
+  if (reconnectTimer) clearTimeout(reconnectTimer);
+  if (staleTimer) clearTimeout(staleTimer);
+  reconnectTimer = null;
+  staleTimer = null;
+};
+
+const detachSocket = () => {
+  if (!socket) return;
+  const closing = socket;
+  socket = null;
+  closing.onopen = null;
+  closing.onmessage = null;
+  closing.onclose = null;
+  closing.onerror = null;
+  try {
+    closing.close();
+  } catch {
+    // Already closed
+  }
+};
+
+const scheduleReconnect = (error: string) => {
+  detachSocket();
+  clearTimers();
+  if (!options) return;
+
+  const attempts = status.attempts + 1;
+  const delay = getReconnectDelayMs(attempts);
+  console.warn(`[Realtime] ⚠️ ${error} - reconnecting in ${Math.round(delay / 1000)}s (polling meanwhile)`);
+  setStatus({
+    state: 'reconnecting',
+    connected_at: null,
+    attempts,
+    last_error: error,
+    retry_at: new Date(Date.now() + delay).toISOString(),
+  });
+  reconnectTimer = setTimeout(connect, delay);
+};
+
+// Quiet for too long - the connection is gone even if the socket hasn't noticed
+const armStaleTimer = () => {
+  if (staleTimer) clearTimeout(staleTimer);
+  staleTimer = setTimeout(() => scheduleReconnect('No events or pings'), STALE_AFTER_MS);
+};
+
+const connect = () => {
+  reconnectTimer = null;
+  if (!options) return;
+
+  const token = apiClient.getSessionToken();
+  if (!token) {
+    scheduleReconnect('No session token');
+    return;
+  }
+
+  setStatus({ state: status.attempts > 0 ? 'reconnecting' : 'connecting', retry_at: null });
+  const url = options.url ?? getRealtimeUrl();
+  let next: RealtimeSocket;
+  try {
+    next = (options.createSocket ?? createWebSocket)(url, token);
+  } catch (error: any) {
+    scheduleReconnect(error?.message || 'Could not open socket');
+    return;
+  }
+  socket = next;
+
+  next.onopen = () => {
+    console.log('[Realtime] ✓ Connected');
+    setStatus({ state: 'connected', connected_at: new Date().toISOString(), attempts: 0, last_error: null, retry_at: null });
+    armStaleTimer();
+    options?.onConnected?.();
+  };
+  next.onmessage = (message) => {
+    armStaleTimer();
+    const event = parseRealtimeMessage(message.data);
+    if (event) {
+      options?.onEvent(event);
+    }
+  };
+  next.onerror = () => {
+    // onclose follows with the code
+  };
+  next.onclose = (event) => {
+    scheduleReconnect(`Closed${event?.code ? ` (${event.code}${event.reason ? ` ${event.reason}` : ''})` : ''}`);
+  };
+};
+
+/**
+ * Open the channel (no-op if it's already running)
+ */
+export const startRealtime = (realtimeOptions: RealtimeOptions): void => {
+  options = realtimeOptions;
+  if (socket || reconnectTimer) return;
+  setStatus({ attempts: 0 });
+  connect();
+};
+
+/**
+ * Close the channel - logged out or offline; polling takes over
+ */
+export const stopRealtime = (): void => {
+  options = null;
+  clearTimers();
+  detachSocket();
+  setStatus({ state: 'off', connected_at: null, retry_at: null, attempts: 0, last_error: null });
+};
+
+export default {
+  startRealtime,
+  stopRealtime,
+  getRealtimeStatus,
+  subscribeRealtimeStatus,
+  isRealtimeConnected,
+  getRealtimeUrl,
+};
@@ -0,0 +1,224 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Switch,
+  Alert,
+} from 'react-native';
+import { useTheme, type Theme } from '../theme';
+import { AlertCategory, AlertKeywordRule, AlertKeywordRules } from '../types';
+import { ALERT_CATEGORIES, resolveAlertRules } from '../services/tickets';
+
+interface AlertKeywordsEditorProps {
+  rules: AlertKeywordRules | null; // null = built-in defaults
+  onChange: (rules: AlertKeywordRules | null) => void;
+}
+
+const CATEGORY_INFO: Record<AlertCategory, { label: string; hint: string }> = {
+  urgent: { label: '🚨 URGENT', hint: 'Rush requests' },
+  allergy: { label: '⚠️ ALLERGY', hint: 'True allergies - printed first and biggest' },
+  dietary: { label: '🌿 DIETARY', hint: 'Vegan, gluten-free, halal...' },
+  important: { label: '❗ IMPORTANT', hint: 'Health conditions and special requests' },
+};
+
+// Keywords are edited as one comma-separated list
+const listToText = (values: string[]): string => values.join(', ');
+
+const textToList = (text: string): string[] =>
+  text
+    .split(',')
+    .map((value) => value.trim().toLowerCase())
+    .filter(Boolean);
+
+interface RuleCardProps {
+  category: AlertCategory;
+  rule: AlertKeywordRule;
+  onUpdate: (rule: AlertKeywordRule) => void;
+  styles: ReturnType<typeof createStyles>;
+  theme: Theme;
+  isDarkMode: boolean;
+}
+
+const RuleCard: React.FC<RuleCardProps> = ({ category, rule, onUpdate, styles, theme, isDarkMode }) => {
+  // Text inputs keep a local draft and save on blur so typing isn't re-parsed per keystroke
+  const [keywords, setKeywords] = useState(listToText(rule.keywords));
+  const [exclusions, setExclusions] = useState(listToText(rule.exclusions));
+
+  return (
+    <View style={styles.ruleCard}>
+      <View style={styles.headerRow}>
+        <View style={styles.headerInfo}>
+          <Text style={styles.title}>{CATEGORY_INFO[category].label}</Text>
+          <Text style={styles.hint}>{CATEGORY_INFO[category].hint}</Text>
+        </View>
+        <View style={styles.wholeWord}>
+          <Text style={styles.hint}>Whole words</Text>
+          <Switch
+            value={rule.wholeWord}
+            onValueChange={(value) => onUpdate({ ...rule, wholeWord: value })}
+            trackColor={{ false: isDarkMode ? '#374151' : '#d1d5db', true: '#10b981' }}
+            thumbColor={rule.wholeWord ? '#fff' : isDarkMode ? '#9ca3af' : '#f8fafc'}
+          />
+        </View>
+      </View>
+
+      <View style={styles.field}>
+        <Text style={styles.label}>Keywords</Text>
+        <TextInput
+          style={[styles.input, styles.multiline]}
+          value={keywords}
+          onChangeText={setKeywords}
+          onBlur={() => onUpdate({ ...rule, keywords: textToList(keywords) })}
+          placeholder="rush, asap"
+          placeholderTextColor={theme.textMuted}
+          autoCapitalize="none"
+          autoCorrect={false}
+          multiline
+        />
+      </View>
+
+      <View style={styles.field}>
+        <Text style={styles.label}>Ignore phrases</Text>
+        <TextInput
+          style={styles.input}
+          value={exclusions}
+          onChangeText={setExclusions}
+          onBlur={() => onUpdate({ ...rule, exclusions: textToList(exclusions) })}
+          placeholder="no rush, not urgent"
+          placeholderTextColor={theme.textMuted}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+    </View>
+  );
+};
+
+/**
+ * Alert keyword editor (Settings)
+ * Notes matching a category's keywords print in that alert section of the
+ * kitchen ticket. Ignore phrases are removed before matching.
+ */
+export const AlertKeywordsEditor: React.FC<AlertKeywordsEditorProps> = ({ rules, onChange }) => {
+  const { theme, themeMode } = useTheme();
+  const isDarkMode = themeMode === 'dark';
+  const styles = useMemo(() => createStyles(theme, isDarkMode), [theme, isDarkMode]);
+  const resolved = resolveAlertRules(rules);
+
+  const updateRule = (category: AlertCategory, rule: AlertKeywordRule) => {
+    onChange({ ...resolved, [category]: rule });
+  };
+
+  const confirmReset = () => {
+    Alert.alert(
+      'Reset Alert Keywords',
+      'Go back to the built-in keyword lists? Your changes will be lost.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Reset', style: 'destructive', onPress: () => onChange(null) },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.hint}>
+        Order and item notes containing these words get an alert section on the kitchen ticket.
+        Separate keywords with commas.
+      </Text>
+
+      {ALERT_CATEGORIES.map((category) => (
+        <RuleCard
+          // Remount when the rule changes elsewhere (reset, server push) so drafts start fresh
+          key={`${category}:${JSON.stringify(resolved[category])}`}
+          category={category}
+          rule={resolved[category]}
+          onUpdate={(rule) => updateRule(category, rule)}
+          styles={styles}
+          theme={theme}
+          isDarkMode={isDarkMode}
+        />
+      ))}
+
+      {rules && (
+        <TouchableOpacity style={styles.resetButton} onPress={confirmReset}>
+          <Text style={styles.resetButtonText}>Reset to Defaults</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme, isDarkMode: boolean) =>
+  StyleSheet.create({
+    container: {
+      padding: 16,
+      gap: 12,
+    },
+    ruleCard: {
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      borderRadius: 10,
+      padding: 12,
+      gap: 10,
+      backgroundColor: isDarkMode ? '#1e293b' : '#f8fafc',
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    headerInfo: {
+      flex: 1,
+      marginRight: 16,
+    },
+    wholeWord: {
+      alignItems: 'center',
+      gap: 2,
+    },
+    title: {
+      fontSize: 15,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    field: {
+      gap: 6,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    hint: {
+      fontSize: 13,
+      color: theme.textSecondary,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 15,
+      color: theme.text,
+      backgroundColor: theme.surface,
+    },
+    multiline: {
+      minHeight: 64,
+      textAlignVertical: 'top',
+    },
+    resetButton: {
+      alignItems: 'center',
+      padding: 14,
+      borderRadius: 10,
+      backgroundColor: isDarkMode ? '#374151' : '#e2e8f0',
+    },
+    resetButtonText: {
+      color: '#ef4444',
+      fontWeight: '600',
+      fontSize: 15,
+    },
+  });
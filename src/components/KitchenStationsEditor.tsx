@@ -0,0 +1,376 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Switch,
+  Alert,
+} from 'react-native';
+import { useTheme, type Theme } from '../theme';
+import { KitchenStation, PrinterTransportType, StationRule, StationRuleField } from '../types';
+import { getPaperProfile, ROLL_PAPER_PROFILES } from '../services/tickets';
+import { CODEPAGES, getCodepage } from '../services/escpos';
+
+interface KitchenStationsEditorProps {
+  stations: KitchenStation[];
+  onChange: (stations: KitchenStation[]) => void;
+}
+
+export type StationPrinterOption = 'main' | PrinterTransportType;
+
+export const PRINTER_OPTIONS: Array<{ value: StationPrinterOption; label: string }> = [
+  { value: 'main', label: 'Main' },
+  { value: 'network', label: '🌐 LAN' },
+  { value: 'bluetooth', label: '📶 BT' },
+  { value: 'usb', label: '🔌 USB' },
+];
+
+export const ADDRESS_PLACEHOLDERS: Record<PrinterTransportType, string> = {
+  network: '192.168.1.60:9100',
+  bluetooth: '00:11:22:33:44:55',
+  usb: 'vendorId:productId',
+};
+
+const RULE_FIELDS: Array<{ field: StationRuleField; label: string; placeholder: string }> = [
+  { field: 'item_name', label: 'Item names', placeholder: 'pizza, calzone' },
+  { field: 'size', label: 'Sizes', placeholder: 'large, party' },
+  { field: 'modifier_group', label: 'Modifier groups', placeholder: 'toppings, crust' },
+];
+
+// Rules are edited as one comma-separated list per field
+const rulesToText = (rules: StationRule[], field: StationRuleField): string =>
+  rules.filter((rule) => rule.field === field).map((rule) => rule.value).join(', ');
+
+const textToRules = (text: string, field: StationRuleField): StationRule[] =>
+  text
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean)
+    .map((value) => ({ field, value }));
+
+const createStation = (): KitchenStation => ({
+  id: Math.random().toString(36).substring(7),
+  name: '',
+  isExpo: false,
+  rules: [],
+  printerType: 'network',
+  printerAddress: null,
+});
+
+interface StationCardProps {
+  station: KitchenStation;
+  onUpdate: (station: KitchenStation) => void;
+  onRemove: () => void;
+  styles: ReturnType<typeof createStyles>;
+  theme: Theme;
+  isDarkMode: boolean;
+}
+
+const StationCard: React.FC<StationCardProps> = ({ station, onUpdate, onRemove, styles, theme, isDarkMode }) => {
+  // Text inputs keep a local draft and save on blur so typing isn't re-parsed per keystroke
+  const [name, setName] = useState(station.name);
+  const [address, setAddress] = useState(station.printerAddress ?? '');
+  const [ruleDrafts, setRuleDrafts] = useState<Record<StationRuleField, string>>({
+    item_name: rulesToText(station.rules, 'item_name'),
+    size: rulesToText(station.rules, 'size'),
+    modifier_group: rulesToText(station.rules, 'modifier_group'),
+  });
+  const [usesMainPrinter, setUsesMainPrinter] = useState(!station.printerAddress);
+
+  const selectedPrinter: StationPrinterOption = usesMainPrinter ? 'main' : station.printerType;
+
+  const saveRules = (drafts: Record<StationRuleField, string>) => {
+    const rules = RULE_FIELDS.flatMap(({ field }) => textToRules(drafts[field], field));
+    onUpdate({ ...station, rules });
+  };
+
+  const selectPrinter = (option: StationPrinterOption) => {
+    if (option === 'main') {
+      setUsesMainPrinter(true);
+      setAddress('');
+      onUpdate({ ...station, printerAddress: null });
+      return;
+    }
+    setUsesMainPrinter(false);
+    onUpdate({ ...station, printerType: option, printerAddress: address.trim() || null });
+  };
+
+  const confirmRemove = () => {
+    Alert.alert(
+      'Remove Station',
+      `Remove "${station.name || 'Untitled station'}"? Its items will print on the expo or main printer.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: onRemove },
+      ]
+    );
+  };
+
+  return (
+    <View style={styles.stationCard}>
+      <View style={styles.stationHeader}>
+        <TextInput
+          style={[styles.input, styles.stationNameInput]}
+          value={name}
+          onChangeText={setName}
+          onBlur={() => onUpdate({ ...station, name: name.trim() })}
+          placeholder="Station name (e.g. Pizza Oven)"
+          placeholderTextColor={theme.textMuted}
+        />
+        <TouchableOpacity style={styles.removeButton} onPress={confirmRemove}>
+          <Text style={styles.removeButtonText}>Remove</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.expoRow}>
+        <View style={styles.expoInfo}>
+          <Text style={styles.label}>Expo station</Text>
+          <Text style={styles.hint}>Gets every item on the order</Text>
+        </View>
+        <Switch
+          value={station.isExpo}
+          onValueChange={(value) => onUpdate({ ...station, isExpo: value })}
+          trackColor={{ false: isDarkMode ? '#374151' : '#d1d5db', true: '#10b981' }}
+          thumbColor={station.isExpo ? '#fff' : isDarkMode ? '#9ca3af' : '#f8fafc'}
+        />
+      </View>
+
+      {!station.isExpo && RULE_FIELDS.map(({ field, label, placeholder }) => (
+        <View key={field} style={styles.ruleRow}>
+          <Text style={styles.label}>{label}</Text>
+          <TextInput
+            style={styles.input}
+            value={ruleDrafts[field]}
+            onChangeText={(text) => setRuleDrafts((prev) => ({ ...prev, [field]: text }))}
+            onBlur={() => saveRules(ruleDrafts)}
+            placeholder={placeholder}
+            placeholderTextColor={theme.textMuted}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+        </View>
+      ))}
+
+      <Text style={[styles.label, styles.printerLabel]}>Printer</Text>
+      <View style={styles.optionRow}>
+        {PRINTER_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.option, selectedPrinter === option.value && styles.optionSelected]}
+            onPress={() => selectPrinter(option.value)}
+          >
+            <Text style={[styles.optionText, selectedPrinter === option.value && styles.optionTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {selectedPrinter !== 'main' && (
+        <>
+          <TextInput
+            style={[styles.input, styles.addressInput]}
+            value={address}
+            onChangeText={setAddress}
+            onBlur={() => onUpdate({ ...station, printerAddress: address.trim() || null })}
+            placeholder={ADDRESS_PLACEHOLDERS[selectedPrinter]}
+            placeholderTextColor={theme.textMuted}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType={selectedPrinter === 'network' ? 'numbers-and-punctuation' : 'default'}
+          />
+
+          <Text style={[styles.label, styles.printerLabel]}>Paper</Text>
+          <View style={styles.optionRow}>
+            {ROLL_PAPER_PROFILES.map((paper) => {
+              const selected = getPaperProfile(station.paperProfile).id === paper.id;
+              return (
+                <TouchableOpacity
+                  key={paper.id}
+                  style={[styles.option, selected && styles.optionSelected]}
+                  onPress={() => onUpdate({ ...station, paperProfile: paper.id })}
+                >
+                  <Text style={[styles.optionText, selected && styles.optionTextSelected]}>{paper.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <Text style={[styles.label, styles.printerLabel]}>Accents</Text>
+          <View style={styles.optionRow}>
+            {Object.values(CODEPAGES).map((codepage) => {
+              const selected = getCodepage(station.codepage).id === codepage.id;
+              return (
+                <TouchableOpacity
+                  key={codepage.id}
+                  style={[styles.option, selected && styles.optionSelected]}
+                  onPress={() => onUpdate({ ...station, codepage: codepage.id })}
+                >
+                  <Text style={[styles.optionText, selected && styles.optionTextSelected]}>{codepage.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+/**
+ * Kitchen station editor (Settings)
+ * Each station gets a kitchen ticket with only the items its rules match;
+ * the expo station gets the whole order.
+ */
+export const KitchenStationsEditor: React.FC<KitchenStationsEditorProps> = ({ stations, onChange }) => {
+  const { theme, themeMode } = useTheme();
+  const isDarkMode = themeMode === 'dark';
+  const styles = useMemo(() => createStyles(theme, isDarkMode), [theme, isDarkMode]);
+
+  const updateStation = (updated: KitchenStation) => {
+    onChange(stations.map((station) => (station.id === updated.id ? updated : station)));
+  };
+
+  const removeStation = (id: string) => {
+    onChange(stations.filter((station) => station.id !== id));
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.hint}>
+        {stations.length === 0
+          ? 'Kitchen tickets print the whole order on the main printer. Add stations to send each printer only its items.'
+          : 'Items no station matches print on the expo station (or the main printer if there is no expo).'}
+      </Text>
+
+      {stations.map((station) => (
+        <StationCard
+          key={station.id}
+          station={station}
+          onUpdate={updateStation}
+          onRemove={() => removeStation(station.id)}
+          styles={styles}
+          theme={theme}
+          isDarkMode={isDarkMode}
+        />
+      ))}
+
+      <TouchableOpacity style={styles.addButton} onPress={() => onChange([...stations, createStation()])}>
+        <Text style={styles.addButtonText}>+ Add Station</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme, isDarkMode: boolean) =>
+  StyleSheet.create({
+    container: {
+      padding: 16,
+      gap: 12,
+    },
+    stationCard: {
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      borderRadius: 10,
+      padding: 12,
+      gap: 10,
+      backgroundColor: isDarkMode ? '#1e293b' : '#f8fafc',
+    },
+    stationHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    stationNameInput: {
+      flex: 1,
+      fontWeight: '600',
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 15,
+      color: theme.text,
+      backgroundColor: theme.surface,
+    },
+    addressInput: {
+      fontFamily: 'monospace',
+    },
+    removeButton: {
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderRadius: 8,
+      backgroundColor: isDarkMode ? '#374151' : '#e2e8f0',
+    },
+    removeButtonText: {
+      color: '#ef4444',
+      fontWeight: '600',
+      fontSize: 14,
+    },
+    expoRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    expoInfo: {
+      flex: 1,
+      marginRight: 16,
+    },
+    ruleRow: {
+      gap: 6,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    printerLabel: {
+      marginTop: 2,
+    },
+    hint: {
+      fontSize: 13,
+      color: theme.textSecondary,
+    },
+    optionRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    option: {
+      flex: 1,
+      paddingVertical: 8,
+      borderRadius: 8,
+      alignItems: 'center',
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      backgroundColor: theme.surface,
+    },
+    optionSelected: {
+      backgroundColor: isDarkMode ? '#0f3460' : '#dbeafe',
+      borderColor: '#3b82f6',
+    },
+    optionText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+    },
+    optionTextSelected: {
+      color: theme.text,
+    },
+    addButton: {
+      alignItems: 'center',
+      padding: 14,
+      borderRadius: 10,
+      borderWidth: 1,
+      borderStyle: 'dashed',
+      borderColor: '#3b82f6',
+    },
+    addButtonText: {
+      color: '#3b82f6',
+      fontWeight: '600',
+      fontSize: 15,
+    },
+  });
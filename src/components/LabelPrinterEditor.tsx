@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { useTheme, type Theme } from '../theme';
+import { LabelPrinter } from '../types';
+import { DEFAULT_LABEL_PAPER_PROFILE, getPaperProfile, PAPER_PROFILES } from '../services/tickets';
+import { CODEPAGES, getCodepage } from '../services/escpos';
+import { ADDRESS_PLACEHOLDERS, PRINTER_OPTIONS, StationPrinterOption } from './KitchenStationsEditor';
+
+interface LabelPrinterEditorProps {
+  printer: LabelPrinter;
+  onChange: (printer: LabelPrinter) => void;
+}
+
+// Label stock first - roll paper works too, labels print one after another
+const LABEL_PAPER = [DEFAULT_LABEL_PAPER_PROFILE, ...Object.values(PAPER_PROFILES).filter((paper) => paper.id !== 'label')];
+
+/**
+ * Label printer settings (Settings)
+ * Item labels go to this printer; with none set they print on the main printer.
+ */
+export const LabelPrinterEditor: React.FC<LabelPrinterEditorProps> = ({ printer, onChange }) => {
+  const { theme, themeMode } = useTheme();
+  const isDarkMode = themeMode === 'dark';
+  const styles = useMemo(() => createStyles(theme, isDarkMode), [theme, isDarkMode]);
+
+  // Address keeps a local draft and saves on blur
+  const [address, setAddress] = useState(printer.printerAddress ?? '');
+  const [usesMainPrinter, setUsesMainPrinter] = useState(!printer.printerAddress);
+
+  const selectedPrinter: StationPrinterOption = usesMainPrinter ? 'main' : printer.printerType;
+  const selectedPaper = printer.paperProfile ? getPaperProfile(printer.paperProfile).id : DEFAULT_LABEL_PAPER_PROFILE.id;
+
+  const selectPrinter = (option: StationPrinterOption) => {
+    if (option === 'main') {
+      setUsesMainPrinter(true);
+      setAddress('');
+      onChange({ ...printer, printerAddress: null });
+      return;
+    }
+    setUsesMainPrinter(false);
+    onChange({ ...printer, printerType: option, printerAddress: address.trim() || null });
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.hint}>
+        {usesMainPrinter
+          ? 'Item labels print on the main printer. Pick a label printer to send them to sticker stock.'
+          : 'One label per item: order number, customer, item, size, modifiers and "3 of 7".'}
+      </Text>
+
+      <Text style={styles.label}>Printer</Text>
+      <View style={styles.optionRow}>
+        {PRINTER_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.option, selectedPrinter === option.value && styles.optionSelected]}
+            onPress={() => selectPrinter(option.value)}
+          >
+            <Text style={[styles.optionText, selectedPrinter === option.value && styles.optionTextSelected]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {selectedPrinter !== 'main' && (
+        <>
+          <TextInput
+            style={[styles.input, styles.addressInput]}
+            value={address}
+            onChangeText={setAddress}
+            onBlur={() => onChange({ ...printer, printerAddress: address.trim() || null })}
+            placeholder={ADDRESS_PLACEHOLDERS[selectedPrinter]}
+            placeholderTextColor={theme.textMuted}
+            autoCapitalize="none"
+            autoCorrect={false}
+            keyboardType={selectedPrinter === 'network' ? 'numbers-and-punctuation' : 'default'}
+          />
+
+          <Text style={styles.label}>Paper</Text>
+          <View style={styles.optionRow}>
+            {LABEL_PAPER.map((paper) => (
+              <TouchableOpacity
+                key={paper.id}
+                style={[styles.option, selectedPaper === paper.id && styles.optionSelected]}
+                onPress={() => onChange({ ...printer, paperProfile: paper.id })}
+              >
+                <Text style={[styles.optionText, selectedPaper === paper.id && styles.optionTextSelected]}>{paper.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Accents</Text>
+          <View style={styles.optionRow}>
+            {Object.values(CODEPAGES).map((codepage) => {
+              const selected = getCodepage(printer.codepage).id === codepage.id;
+              return (
+                <TouchableOpacity
+                  key={codepage.id}
+                  style={[styles.option, selected && styles.optionSelected]}
+                  onPress={() => onChange({ ...printer, codepage: codepage.id })}
+                >
+                  <Text style={[styles.optionText, selected && styles.optionTextSelected]}>{codepage.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </>
+      )}
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme, isDarkMode: boolean) =>
+  StyleSheet.create({
+    container: {
+      padding: 16,
+      gap: 10,
+    },
+    input: {
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      fontSize: 15,
+      color: theme.text,
+      backgroundColor: theme.surface,
+    },
+    addressInput: {
+      fontFamily: 'monospace',
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.text,
+      marginTop: 2,
+    },
+    hint: {
+      fontSize: 13,
+      color: theme.textSecondary,
+    },
+    optionRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    option: {
+      flex: 1,
+      paddingVertical: 8,
+      borderRadius: 8,
+      alignItems: 'center',
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      backgroundColor: theme.surface,
+    },
+    optionSelected: {
+      backgroundColor: isDarkMode ? '#0f3460' : '#dbeafe',
+      borderColor: '#3b82f6',
+    },
+    optionText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+    },
+    optionTextSelected: {
+      color: theme.text,
+    },
+  });
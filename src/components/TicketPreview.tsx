@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView, Platform } from 'react-native';
+import { useTheme, type Theme } from '../theme';
+import { interpretEscPos, lineWidth, PaperLine, PAPER_COLUMNS_80MM } from '../services/escpos';
+
+// Monospace glyphs are ~0.6em wide; the paper is sized from the character cell
+const FONT_SIZE = 12;
+const CHAR_WIDTH = FONT_SIZE * 0.6;
+const LINE_HEIGHT = FONT_SIZE * 1.35;
+const DOT_SIZE = CHAR_WIDTH / 12; // Font A is 12 dots wide
+const MONOSPACE = Platform.OS === 'ios' ? 'Menlo' : 'monospace';
+
+export interface PreviewTicket {
+  label: string;
+  data: string; // The ESC/POS string that would be sent to the printer
+  columns?: number; // Paper width in characters (defaults to 80mm)
+}
+
+interface TicketPreviewProps {
+  data: string;
+  columns?: number;
+}
+
+const PaperRow: React.FC<{ line: PaperLine; columns: number }> = ({ line, columns }) => {
+  if (line.type === 'cut') {
+    return (
+      <View style={styles.cutRow}>
+        <Text style={styles.cutText}>✂</Text>
+        <View style={styles.cutLine} />
+      </View>
+    );
+  }
+
+  if (line.type === 'code') {
+    // The printer draws the symbol - show where it goes and what it holds
+    const justify = line.align === 'center' ? 'center' : line.align === 'right' ? 'flex-end' : 'flex-start';
+    return (
+      <View style={[styles.codeRow, { alignItems: justify }]}>
+        <View style={line.kind === 'qr' ? styles.qrBox : styles.barcodeBox}>
+          <Text style={styles.codeLabel}>{line.kind === 'qr' ? 'QR' : '||||||||||||'}</Text>
+        </View>
+        <Text style={styles.codeData} numberOfLines={2}>{line.data}</Text>
+      </View>
+    );
+  }
+
+  if (line.type === 'image') {
+    // Raster images (the receipt logo) keep their printed size
+    const justify = line.align === 'center' ? 'center' : line.align === 'right' ? 'flex-end' : 'flex-start';
+    return (
+      <View style={[styles.codeRow, { alignItems: justify }]}>
+        <View style={[styles.imageBox, { width: line.width * DOT_SIZE, height: line.height * DOT_SIZE }]}>
+          <Text style={styles.codeLabel}>IMAGE</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const tall = line.segments.some((segment) => segment.doubleHeight);
+  const padding = Math.max(0, columns - lineWidth(line));
+  const offset = line.align === 'center' ? Math.floor(padding / 2) : line.align === 'right' ? padding : 0;
+
+  return (
+    <Text style={[styles.line, { height: LINE_HEIGHT * (tall ? 2 : 1), paddingLeft: offset * CHAR_WIDTH }]}>
+      {line.segments.map((segment, index) => {
+        const fontSize = FONT_SIZE * (segment.doubleHeight ? 2 : 1);
+        return (
+          <Text
+            key={index}
+            style={{
+              fontSize,
+              lineHeight: LINE_HEIGHT * (tall ? 2 : 1),
+              // Hold every glyph to its printer cell, 1 or 2 columns wide
+              letterSpacing: CHAR_WIDTH * (segment.doubleWidth ? 2 : 1) - fontSize * 0.6,
+              fontWeight: segment.bold ? '700' : '400',
+              textDecorationLine: segment.underline ? 'underline' : 'none',
+            }}
+          >
+            {segment.text}
+          </Text>
+        );
+      })}
+    </Text>
+  );
+};
+
+/**
+ * Virtual thermal paper showing what an ESC/POS string will print
+ */
+export const TicketPreview: React.FC<TicketPreviewProps> = ({ data, columns = PAPER_COLUMNS_80MM }) => {
+  const paper = useMemo(() => interpretEscPos(data, columns), [data, columns]);
+
+  return (
+    <View style={[styles.paper, { width: columns * CHAR_WIDTH + 24 }]}>
+      {paper.lines.map((line, index) => (
+        <PaperRow key={index} line={line} columns={paper.columns} />
+      ))}
+    </View>
+  );
+};
+
+interface TicketPreviewModalProps {
+  visible: boolean;
+  tickets: PreviewTicket[];
+  onClose: () => void;
+}
+
+/**
+ * Modal preview of one or more tickets (tabs when there's more than one)
+ */
+export const TicketPreviewModal: React.FC<TicketPreviewModalProps> = ({ visible, tickets, onClose }) => {
+  const { theme } = useTheme();
+  const modalStyles = useMemo(() => createModalStyles(theme), [theme]);
+  const [selected, setSelected] = useState(0);
+
+  useEffect(() => {
+    if (visible) setSelected(0);
+  }, [visible]);
+
+  const ticket = tickets[Math.min(selected, tickets.length - 1)];
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={modalStyles.overlay}>
+        <View style={modalStyles.content}>
+          <View style={modalStyles.header}>
+            <Text style={modalStyles.title}>👁 Print Preview</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={modalStyles.close}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {tickets.length > 1 && (
+            <View style={modalStyles.tabs}>
+              {tickets.map((t, index) => (
+                <TouchableOpacity
+                  key={`${t.label}-${index}`}
+                  style={[modalStyles.tab, index === selected && modalStyles.tabSelected]}
+                  onPress={() => setSelected(index)}
+                >
+                  <Text style={[modalStyles.tabText, index === selected && modalStyles.tabTextSelected]}>{t.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <ScrollView contentContainerStyle={modalStyles.scrollContent}>
+            {ticket && <TicketPreview data={ticket.data} columns={ticket.columns} />}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  paper: {
+    backgroundColor: '#ffffff',
+    paddingVertical: 16,
+    paddingHorizontal: 12,
+    borderRadius: 2,
+    shadowColor: '#000',
+    shadowOpacity: 0.2,
+    shadowRadius: 6,
+    shadowOffset: { width: 0, height: 2 },
+    elevation: 3,
+  },
+  line: {
+    fontFamily: MONOSPACE,
+    fontSize: FONT_SIZE,
+    color: '#111111',
+  },
+  cutRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: LINE_HEIGHT * 1.5,
+  },
+  cutText: {
+    fontSize: FONT_SIZE,
+    color: '#9ca3af',
+    marginRight: 4,
+  },
+  cutLine: {
+    flex: 1,
+    borderTopWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#9ca3af',
+  },
+  codeRow: {
+    paddingVertical: 6,
+  },
+  qrBox: {
+    width: LINE_HEIGHT * 6,
+    height: LINE_HEIGHT * 6,
+    borderWidth: 2,
+    borderColor: '#111111',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  barcodeBox: {
+    width: CHAR_WIDTH * 24,
+    height: LINE_HEIGHT * 3,
+    borderWidth: 1,
+    borderColor: '#111111',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  imageBox: {
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#111111',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  codeLabel: {
+    fontFamily: MONOSPACE,
+    fontSize: FONT_SIZE,
+    fontWeight: '700',
+    color: '#111111',
+  },
+  codeData: {
+    fontFamily: MONOSPACE,
+    fontSize: FONT_SIZE * 0.8,
+    color: '#6b7280',
+    marginTop: 2,
+  },
+});
+
+const createModalStyles = (theme: Theme) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: theme.overlay,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    content: {
+      maxWidth: '95%',
+      maxHeight: '90%',
+      borderRadius: 12,
+      padding: 20,
+      backgroundColor: theme.surface,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 12,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    close: {
+      fontSize: 20,
+      padding: 4,
+      color: theme.text,
+    },
+    tabs: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 12,
+    },
+    tab: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+    },
+    tabSelected: {
+      backgroundColor: '#3b82f6',
+      borderColor: '#3b82f6',
+    },
+    tabText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+    },
+    tabTextSelected: {
+      color: '#fff',
+    },
+    scrollContent: {
+      alignItems: 'center',
+      paddingVertical: 8,
+      backgroundColor: '#e5e7eb',
+      borderRadius: 8,
+      padding: 12,
+    },
+  });
+
+export default TicketPreview;
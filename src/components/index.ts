@@ -1 +1,5 @@
 export { OrderCard } from './OrderCard';
+export { KitchenStationsEditor } from './KitchenStationsEditor';
+export { LabelPrinterEditor } from './LabelPrinterEditor';
+export { AlertKeywordsEditor } from './AlertKeywordsEditor';
+export { TicketPreview, TicketPreviewModal, type PreviewTicket } from './TicketPreview';
@@ -0,0 +1,190 @@
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { useTheme, type Theme } from '../../theme';
+import { AllDaySummary } from '../../types';
+import { getAllDayItemLabel } from '../../services/tickets';
+import { printPrepSummary } from '../../services/printService';
+
+interface AllDayPanelProps {
+  visible: boolean;
+  summary: AllDaySummary;
+  onClose: () => void;
+}
+
+/**
+ * All Day (opened from the bottom dock)
+ * Item counts across every open order - updates as orders come in and move on.
+ */
+export const AllDayPanel: React.FC<AllDayPanelProps> = ({ visible, summary, onClose }) => {
+  const { theme, themeMode } = useTheme();
+  const isDarkMode = themeMode === 'dark';
+  const styles = useMemo(() => createStyles(theme, isDarkMode), [theme, isDarkMode]);
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  const handlePrint = async () => {
+    setIsPrinting(true);
+    const printed = await printPrepSummary(summary);
+    setIsPrinting(false);
+    if (!printed) {
+      Alert.alert('Print Failed', 'No printer connected. Connect a printer in Settings and try again.');
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <View>
+              <Text style={styles.title}>🍕 All Day</Text>
+              <Text style={styles.subtitle}>
+                {summary.item_count} item{summary.item_count === 1 ? '' : 's'} across {summary.order_count} open order
+                {summary.order_count === 1 ? '' : 's'}
+              </Text>
+            </View>
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                style={[styles.printBtn, (isPrinting || summary.items.length === 0) && styles.printBtnDisabled]}
+                onPress={handlePrint}
+                disabled={isPrinting || summary.items.length === 0}
+              >
+                {isPrinting ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.printText}>🖨️ Print</Text>}
+              </TouchableOpacity>
+              <TouchableOpacity onPress={onClose}>
+                <Text style={styles.close}>✕</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          {summary.items.length === 0 ? (
+            <Text style={styles.empty}>No open orders</Text>
+          ) : (
+            <ScrollView style={styles.list}>
+              {summary.items.map((item) => {
+                const plainOnly = item.variants.length === 1 && item.variants[0].modifiers.length === 0;
+                return (
+                  <View key={item.key} style={styles.item}>
+                    <View style={styles.itemRow}>
+                      <Text style={styles.count}>{item.quantity}×</Text>
+                      <Text style={styles.itemName}>{getAllDayItemLabel(item)}</Text>
+                      <Text style={styles.orders}>
+                        {item.order_count} order{item.order_count === 1 ? '' : 's'}
+                      </Text>
+                    </View>
+                    {!plainOnly &&
+                      item.variants.map((variant) => (
+                        <Text key={variant.modifiers.join('|') || 'plain'} style={styles.variant}>
+                          {variant.quantity}× {variant.modifiers.length > 0 ? variant.modifiers.join(', ') : 'As is'}
+                        </Text>
+                      ))}
+                  </View>
+                );
+              })}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: Theme, isDarkMode: boolean) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: theme.overlay,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    content: {
+      width: '90%',
+      maxWidth: 640,
+      maxHeight: '80%',
+      borderRadius: 12,
+      padding: 20,
+      backgroundColor: theme.surface,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 16,
+    },
+    headerActions: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    subtitle: {
+      fontSize: 13,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    close: {
+      fontSize: 20,
+      padding: 4,
+      color: theme.text,
+    },
+    printBtn: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 8,
+      backgroundColor: '#3b82f6',
+    },
+    printBtnDisabled: {
+      opacity: 0.5,
+    },
+    printText: {
+      color: '#fff',
+      fontSize: 13,
+      fontWeight: '600',
+    },
+    empty: {
+      fontSize: 14,
+      color: theme.textMuted,
+      textAlign: 'center',
+      paddingVertical: 24,
+    },
+    list: {
+      flexGrow: 0,
+    },
+    item: {
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.cardBorder,
+    },
+    itemRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+    },
+    count: {
+      minWidth: 44,
+      fontSize: 22,
+      fontWeight: '800',
+      color: isDarkMode ? '#fbbf24' : '#b45309',
+    },
+    itemName: {
+      flex: 1,
+      fontSize: 17,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    orders: {
+      fontSize: 12,
+      color: theme.textSecondary,
+    },
+    variant: {
+      fontSize: 14,
+      color: theme.textSecondary,
+      marginLeft: 54,
+      marginTop: 4,
+    },
+  });
+
+export default AllDayPanel;
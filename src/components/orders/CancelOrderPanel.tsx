@@ -0,0 +1,223 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, TextInput, ActivityIndicator, Alert } from 'react-native';
+import { useTheme, type Theme } from '../../theme';
+import { CancelReason, CancelReasonCode, Order } from '../../types';
+import { CANCEL_REASONS, MAX_CANCEL_NOTE_LENGTH, normalizeCancelNote } from '../../utils/cancelReasons';
+
+interface CancelOrderPanelProps {
+  order: Order | null;
+  onConfirm: (order: Order, reason: CancelReason) => Promise<boolean>;
+  onClose: () => void;
+}
+
+/**
+ * Cancel / reject an order (detail panel "Cancel Order", Reject on a new order)
+ * Staff pick a reason and can add a note - both go to the server and the slip.
+ */
+export const CancelOrderPanel: React.FC<CancelOrderPanelProps> = ({ order, onConfirm, onClose }) => {
+  const { theme, themeMode } = useTheme();
+  const isDarkMode = themeMode === 'dark';
+  const styles = useMemo(() => createStyles(theme, isDarkMode), [theme, isDarkMode]);
+  const [code, setCode] = useState<CancelReasonCode | null>(null);
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  // A new order starts with a clean form
+  useEffect(() => {
+    setCode(null);
+    setNote('');
+    setSubmitting(false);
+  }, [order?.id]);
+
+  // Not accepted yet = turning it down rather than cancelling it
+  const isReject = order?.status === 'pending';
+  const action = isReject ? 'Reject' : 'Cancel';
+
+  const handleConfirm = async () => {
+    if (!order || !code) return;
+    setSubmitting(true);
+    const success = await onConfirm(order, { code, note: normalizeCancelNote(note) });
+    setSubmitting(false);
+    if (success) {
+      onClose();
+    } else {
+      Alert.alert('Error', `Failed to ${action.toLowerCase()} order. Please try again.`);
+    }
+  };
+
+  return (
+    <Modal visible={!!order} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <View>
+              <Text style={styles.title}>❌ {action} Order</Text>
+              {order && (
+                <Text style={styles.subtitle}>
+                  #{order.order_number.slice(-4)} for {order.customer?.name || 'Walk-in'} - this cannot be undone
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={onClose} disabled={submitting}>
+              <Text style={styles.close}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>Reason</Text>
+          <View style={styles.reasons}>
+            {CANCEL_REASONS.map((reason) => (
+              <TouchableOpacity
+                key={reason.code}
+                style={[styles.reason, code === reason.code && styles.reasonSelected]}
+                onPress={() => setCode(reason.code)}
+                disabled={submitting}
+                testID={`cancel-reason-${reason.code}`}
+              >
+                <Text style={[styles.reasonText, code === reason.code && styles.reasonTextSelected]}>{reason.label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>Note (optional)</Text>
+          <TextInput
+            style={styles.note}
+            value={note}
+            onChangeText={setNote}
+            placeholder="e.g. out of dough, customer called"
+            placeholderTextColor={theme.textMuted}
+            maxLength={MAX_CANCEL_NOTE_LENGTH}
+            multiline
+            editable={!submitting}
+          />
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.button, styles.keepButton]} onPress={onClose} disabled={submitting}>
+              <Text style={styles.keepText}>Keep Order</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, styles.confirmButton, (!code || submitting) && styles.buttonDisabled]}
+              onPress={handleConfirm}
+              disabled={!code || submitting}
+            >
+              {submitting ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.confirmText}>{action} Order</Text>}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: Theme, isDarkMode: boolean) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: theme.overlay,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    content: {
+      width: '90%',
+      maxWidth: 560,
+      borderRadius: 12,
+      padding: 20,
+      backgroundColor: theme.surface,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 16,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    subtitle: {
+      fontSize: 13,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    close: {
+      fontSize: 20,
+      padding: 4,
+      color: theme.text,
+    },
+    label: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.textSecondary,
+      marginBottom: 8,
+    },
+    reasons: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 16,
+    },
+    reason: {
+      paddingVertical: 10,
+      paddingHorizontal: 14,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      backgroundColor: isDarkMode ? 'rgba(255,255,255,0.06)' : '#f3f4f6',
+    },
+    reasonSelected: {
+      borderColor: '#ef4444',
+      backgroundColor: '#ef4444',
+    },
+    reasonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    reasonTextSelected: {
+      color: '#fff',
+    },
+    note: {
+      minHeight: 64,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      padding: 10,
+      fontSize: 14,
+      color: theme.text,
+      textAlignVertical: 'top',
+      marginBottom: 16,
+    },
+    actions: {
+      flexDirection: 'row',
+      justifyContent: 'flex-end',
+      gap: 10,
+    },
+    button: {
+      paddingVertical: 10,
+      paddingHorizontal: 16,
+      borderRadius: 8,
+      minWidth: 120,
+      alignItems: 'center',
+    },
+    keepButton: {
+      backgroundColor: isDarkMode ? 'rgba(255,255,255,0.1)' : '#e5e7eb',
+    },
+    keepText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    confirmButton: {
+      backgroundColor: '#ef4444',
+    },
+    buttonDisabled: {
+      opacity: 0.5,
+    },
+    confirmText: {
+      color: '#fff',
+      fontSize: 14,
+      fontWeight: '600',
+    },
+  });
+
+export default CancelOrderPanel;
@@ -26,7 +26,10 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { Order } from '../../types';
 import { apiClient } from '../../api/client';
+import { queueDriverSlip } from '../../services/printQueue';
 import { useStore } from '../../store/useStore';
+import { DEFAULT_SCHEDULED_LEAD_MINUTES } from '../../utils/scheduledOrders';
+import { AgingLevel, formatCountdown, getAgingLevel, getMinutesUntilPromised } from '../../utils/readyTime';
 
 const BRAND_PURPLE = '#7c3aed';
 const HEADER_ACTION_BORDER = '#c4b5fd';
@@ -47,6 +50,7 @@ interface ExpandableOrderCardProps {
   onTap: (orderId: string) => void;
   onStatusChange: (orderId: string, targetStatus: string) => void;
   onAccept?: (orderId: string) => void;
+  onReject?: (orderId: string) => void;
   onPrint?: (order: Order) => void;
   containerWidth: number;
   containerHeight?: number;
@@ -110,16 +114,19 @@ const getShortOrderNumber = (orderNumber: string): string => {
   return orderNumber.slice(-4).toUpperCase();
 };
 
-const getOrderAgeMinutes = (createdAt: string): number => {
-  const created = new Date(createdAt);
-  const now = new Date();
-  return Math.floor((now.getTime() - created.getTime()) / (1000 * 60));
+// Scheduled orders show when they're due rather than when they were placed,
+// followed by the countdown to the promised time while it's being made
+const getCardTime = (order: Order, countdownMinutes: number | null): string => {
+  const time = order.scheduled_for ? `📅 ${formatTime(order.scheduled_for)}` : formatTime(order.created_at);
+  return countdownMinutes === null ? time : `${time}  ⏱ ${formatCountdown(countdownMinutes)}`;
 };
 
-const getAgingAccent = (ageMinutes: number, yellowMin: number, redMin: number): string | null => {
-  if (ageMinutes >= redMin) return '#ef4444';
-  if (ageMinutes >= yellowMin) return '#eab308';
-  return null;
+const COUNTDOWN_STATUSES = ['pending', 'confirmed', 'preparing'];
+const COUNTDOWN_TICK_MS = 30 * 1000;
+
+const AGING_ACCENTS: Record<AgingLevel, string> = {
+  yellow: '#eab308',
+  red: '#ef4444',
 };
 
 const formatPrice = (price: number): string => {
@@ -136,6 +143,7 @@ export const ExpandableOrderCard: React.FC<ExpandableOrderCardProps> = ({
   onTap,
   onStatusChange,
   onAccept,
+  onReject,
   onPrint,
   containerWidth,
   containerHeight,
@@ -146,6 +154,7 @@ export const ExpandableOrderCard: React.FC<ExpandableOrderCardProps> = ({
   const orderAgingEnabled = useStore((state) => state.settings.orderAgingEnabled);
   const orderAgingYellowMin = useStore((state) => state.settings.orderAgingYellowMin);
   const orderAgingRedMin = useStore((state) => state.settings.orderAgingRedMin);
+  const scheduledLeadMinutes = useStore((state) => state.settings.scheduledLeadMinutes ?? DEFAULT_SCHEDULED_LEAD_MINUTES);
   const viewMode = useStore((state) => state.settings.viewMode ?? 'three');
   const printerConnected = useStore((state) => state.settings.printerConnected ?? false);
   const showPricesInExpanded = useStore((state) => state.settings.showPricesInExpanded ?? true);
@@ -227,11 +236,14 @@ export const ExpandableOrderCard: React.FC<ExpandableOrderCardProps> = ({
   const agingRedMin = Math.max(agingYellowMin + 1, orderAgingRedMin ?? 10);
   const isAgingEligible =
     order.status !== 'completed' && order.status !== 'cancelled';
-  const orderAgeMinutes = getOrderAgeMinutes(order.created_at);
-  const agingAccent =
+  const [now, setNow] = useState(() => Date.now());
+  const countdownMinutes = COUNTDOWN_STATUSES.includes(order.status) ? getMinutesUntilPromised(order, now) : null;
+  const agingLevel =
     orderAgingEnabled && isAgingEligible
-      ? getAgingAccent(orderAgeMinutes, agingYellowMin, agingRedMin)
+      ? getAgingLevel(order, agingYellowMin, agingRedMin, scheduledLeadMinutes, now)
       : null;
+  const agingAccent = agingLevel ? AGING_ACCENTS[agingLevel] : null;
+  const isTicking = countdownMinutes !== null || (orderAgingEnabled && isAgingEligible);
 
   const [dispatchInfo, setDispatchInfo] = useState<{
     dispatch_available: boolean;
@@ -270,6 +282,7 @@ export const ExpandableOrderCard: React.FC<ExpandableOrderCardProps> = ({
       if (response.success && response.data) {
         setDriverDispatched(true);
         setDispatchInfo(null);
+        void queueDriverSlip(order);
         if (response.data.used_backup_email) {
           Alert.alert('Driver Requested (Backup)', 'Driver request sent via backup email.');
         } else {
@@ -285,6 +298,14 @@ export const ExpandableOrderCard: React.FC<ExpandableOrderCardProps> = ({
     }
   };
 
+  // Keep the countdown and aging color current between board updates
+  useEffect(() => {
+    if (!isTicking) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), COUNTDOWN_TICK_MS);
+    return () => clearInterval(interval);
+  }, [isTicking]);
+
   useEffect(() => {
     opacity.setValue(1);
     pan.setValue({ x: 0, y: 0 });
@@ -453,6 +474,7 @@ export const ExpandableOrderCard: React.FC<ExpandableOrderCardProps> = ({
       if (response.success && response.data) {
         setDriverDispatched(true);
         setDispatchInfo(null);
+        void queueDriverSlip(order);
         Alert.alert('Order Complete', 'Driver has been requested.');
       } else {
         Alert.alert('Order Completed', 'Note: Driver request failed - ' + (response.error || 'please try manually.'));
@@ -540,7 +562,7 @@ export const ExpandableOrderCard: React.FC<ExpandableOrderCardProps> = ({
               <View style={styles.collapsedRight}>
                 <View style={styles.collapsedMeta}>
                   <Text style={[styles.collapsedTime, { color: collapsedMutedColor }]}>
-                    {formatTime(order.created_at)}
+                    {getCardTime(order, countdownMinutes)}
                   </Text>
                   <Text style={[styles.collapsedOrder, { color: collapsedMutedColor }]}>
                     #{getShortOrderNumber(order.order_number)}
@@ -645,7 +667,7 @@ export const ExpandableOrderCard: React.FC<ExpandableOrderCardProps> = ({
                 )}
               </View>
               <Text style={styles.headerMetaCompact}>
-                {formatTime(order.created_at)} • #{getShortOrderNumber(order.order_number)}
+                {getCardTime(order, countdownMinutes)} • #{getShortOrderNumber(order.order_number)}
               </Text>
               <View style={styles.headerBadgeRowCompact}>
                 <View style={[styles.headerBadgeCompact, { backgroundColor: 'rgba(0,0,0,0.15)' }]}>
@@ -664,7 +686,7 @@ export const ExpandableOrderCard: React.FC<ExpandableOrderCardProps> = ({
                 </Text>
                 <View style={styles.headerBadgeRow}>
                   <Text style={styles.headerMeta}>
-                    {formatTime(order.created_at)}  •  #{getShortOrderNumber(order.order_number)}
+                    {getCardTime(order, countdownMinutes)}  •  #{getShortOrderNumber(order.order_number)}
                   </Text>
                   <View style={[styles.headerBadge, { backgroundColor: 'rgba(0,0,0,0.15)' }]}>
                     <Text style={styles.headerBadgeText}>{getStatusLabel(order.status)}</Text>
@@ -697,6 +719,24 @@ export const ExpandableOrderCard: React.FC<ExpandableOrderCardProps> = ({
                     )}
                   </TouchableOpacity>
                 </View>
+              ) : showAcceptButton && onReject ? (
+                <View style={styles.headerActionGroup}>
+                  <TouchableOpacity
+                    style={[styles.headerActionBtnSmall, styles.headerActionBtnReject]}
+                    testID="order-reject-button"
+                    onPress={(e) => { e.stopPropagation(); onReject(order.id); }}
+                  >
+                    <Text style={styles.headerActionTextSmall}>Reject</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.headerActionBtn}
+                    testID="order-accept-button"
+                    nativeID="order-accept-button"
+                    onPress={(e) => { e.stopPropagation(); handleAcceptPress(); }}
+                  >
+                    <Text style={styles.headerActionText}>{nextActionLabel}</Text>
+                  </TouchableOpacity>
+                </View>
               ) : (
                 <TouchableOpacity 
                   style={styles.headerActionBtn}
@@ -1030,6 +1070,7 @@ const styles = StyleSheet.create({
     elevation: 2,
   },
   headerActionBtnDispatch: { backgroundColor: '#10b981' },
+  headerActionBtnReject: { backgroundColor: '#ef4444' },
   headerActionTextSmall: { color: '#ffffff', fontSize: 12, fontWeight: '600' },
   headerBadge: { paddingHorizontal: 8, paddingVertical: 4, borderRadius: 5 },
   headerBadgeText: { color: '#ffffff', fontSize: 11, fontWeight: '600' },
@@ -16,11 +16,13 @@ interface KanbanBoardProps {
   newOrders: Order[];
   completeOrders: Order[];
   archivedCompleteOrders?: Order[];
+  scheduledOrders?: Order[]; // future orders held until their lead time
   selectedOrderId: string | null;
   onMoveToComplete: (orderId: string) => void;
   onMoveToNew: (orderId: string) => void;
   onOrderSelect: (orderId: string | null) => void;
   onAccept: (orderId: string) => void;
+  onReject?: (orderId: string) => void;
   onPrint?: (order: Order) => void;
   onRefresh?: () => void;
   refreshing?: boolean;
@@ -30,11 +32,13 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
   newOrders,
   completeOrders,
   archivedCompleteOrders = [],
+  scheduledOrders = [],
   selectedOrderId,
   onMoveToComplete,
   onMoveToNew,
   onOrderSelect,
   onAccept,
+  onReject,
   onPrint,
   onRefresh,
   refreshing = false,
@@ -120,6 +124,15 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
   const completeCount = completeOrdersToRender.length;
   const showRecallToggle = showRecall || archivedCompleteOrders.length > 0;
 
+  const [showScheduled, setShowScheduled] = useState(false);
+  useEffect(() => {
+    if (showScheduled && scheduledOrders.length === 0) {
+      setShowScheduled(false);
+    }
+  }, [showScheduled, scheduledOrders.length]);
+  const newOrdersToRender = showScheduled ? scheduledOrders : newOrders;
+  const showScheduledToggle = showScheduled || scheduledOrders.length > 0;
+
   return (
     <View style={[styles.container, { backgroundColor: colors.bg }]}>
       {/* New Orders Column */}
@@ -127,9 +140,21 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
         <View style={[styles.columnHeader, { backgroundColor: colors.headerBg }]}>
           <View style={styles.headerLeft}>
             <View style={[styles.statusDot, { backgroundColor: colors.newDot }]} />
-            <Text style={[styles.columnTitle, { color: colors.text }]}>New</Text>
+            <Text style={[styles.columnTitle, { color: colors.text }]}>{showScheduled ? 'Scheduled' : 'New'}</Text>
           </View>
           <View style={styles.headerRight}>
+            {showScheduledToggle && (
+              <TouchableOpacity
+                style={[styles.recallBtn, { backgroundColor: colors.countBadge }]}
+                onPress={() => setShowScheduled((prev) => !prev)}
+                testID="scheduled-lane-button"
+                nativeID="scheduled-lane-button"
+              >
+                <Text style={[styles.recallBtnText, { color: colors.textMuted }]}>
+                  {showScheduled ? 'Back' : `📅 ${scheduledOrders.length}`}
+                </Text>
+              </TouchableOpacity>
+            )}
             {onRefresh && (
               <TouchableOpacity 
                 style={[styles.refreshBtn, { backgroundColor: colors.countBadge }]} 
@@ -140,7 +165,7 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
             )}
             <View style={[styles.countBadge, { backgroundColor: colors.countBadge }]}>
               <Text style={[styles.countText, { color: colors.textMuted }]}>
-                {newOrders.length}
+                {newOrdersToRender.length}
               </Text>
             </View>
           </View>
@@ -159,14 +184,22 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
               ));
             }}
           >
-            {newOrders.length === 0 ? (
+            {newOrdersToRender.length === 0 ? (
               <View style={styles.emptyState}>
                 <Text style={[styles.emptyText, { color: colors.textMuted }]}>
-                  No new orders
+                  {showScheduled ? 'No scheduled orders' : 'No new orders'}
                 </Text>
               </View>
             ) : (
-              newOrders.map((order) => (
+              <>
+              {showScheduled && (
+                <View style={styles.recallBanner} testID="scheduled-lane-banner" nativeID="scheduled-lane-banner">
+                  <Text style={[styles.recallBannerText, { color: colors.textMuted }]}>
+                    Scheduled — these move to New as they come due
+                  </Text>
+                </View>
+              )}
+              {newOrdersToRender.map((order) => (
                 <ExpandableOrderCard
                   key={order.id}
                   order={order}
@@ -182,6 +215,7 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
                   onTap={handleOrderTap}
                   onStatusChange={() => handleStatusChange(order.id, 'new')}
                   onAccept={onAccept}
+                  onReject={onReject}
                   onPrint={onPrint}
                   onScrollLock={() => {
                     newScrollRef.current?.setNativeProps({ scrollEnabled: false });
@@ -191,7 +225,8 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
                   }}
                   simultaneousHandlers={newScrollRef.current || undefined}
                 />
-              ))
+              ))}
+              </>
             )}
           </ScrollView>
         </View>
@@ -269,6 +304,7 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
                   onTap={handleOrderTap}
                   onStatusChange={() => handleStatusChange(order.id, 'complete')}
                   onAccept={onAccept}
+                  onReject={onReject}
                   onPrint={onPrint}
                   onScrollLock={() => {
                     completeScrollRef.current?.setNativeProps({ scrollEnabled: false });
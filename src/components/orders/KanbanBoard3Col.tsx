@@ -19,10 +19,12 @@ interface KanbanBoard3ColProps {
   activeOrders: Order[];    // confirmed, preparing
   completeOrders: Order[];  // ready, completed, cancelled
   archivedCompleteOrders: Order[];
+  scheduledOrders?: Order[]; // future orders held until their lead time
   selectedOrderId: string | null;
   onStatusChange: (orderId: string, newStatus: string) => void;
   onOrderSelect: (orderId: string | null) => void;
   onAccept: (orderId: string) => void;
+  onReject?: (orderId: string) => void;
   onPrint?: (order: Order) => void;
   onRefresh?: () => void;
   refreshing?: boolean;
@@ -41,10 +43,12 @@ export const KanbanBoard3Col: React.FC<KanbanBoard3ColProps> = ({
   activeOrders,
   completeOrders,
   archivedCompleteOrders,
+  scheduledOrders = [],
   selectedOrderId,
   onStatusChange,
   onOrderSelect,
   onAccept,
+  onReject,
   onPrint,
   onRefresh,
   refreshing = false,
@@ -56,6 +60,7 @@ export const KanbanBoard3Col: React.FC<KanbanBoard3ColProps> = ({
   // Track which column has an active drag (for zIndex only)
   const [draggingColumn, setDraggingColumn] = useState<ColumnType | null>(null);
   const [showRecall, setShowRecall] = useState(false);
+  const [showScheduled, setShowScheduled] = useState(false);
   const [scrollHeights, setScrollHeights] = useState<Record<ColumnType, number>>({});
 
   // ScrollView refs for instant native-level scroll lock via setNativeProps.
@@ -83,7 +88,7 @@ export const KanbanBoard3Col: React.FC<KanbanBoard3ColProps> = ({
 
   const getOrdersForColumn = (column: ColumnType): Order[] => {
     switch (column) {
-      case 'new': return newOrders;
+      case 'new': return showScheduled ? scheduledOrders : newOrders;
       case 'active': return activeOrders;
       case 'complete': return showRecall ? archivedCompleteOrders : completeOrders;
     }
@@ -92,7 +97,7 @@ export const KanbanBoard3Col: React.FC<KanbanBoard3ColProps> = ({
   const handleDragEnd = useCallback(
     (orderId: string, translationX: number, fromColumn: ColumnType) => {
       // Find the order's current status to determine valid transitions
-      const allOrders = [...newOrders, ...activeOrders, ...completeOrders];
+      const allOrders = [...newOrders, ...scheduledOrders, ...activeOrders, ...completeOrders];
       const order = allOrders.find(o => o.id === orderId);
       if (!order) return;
 
@@ -110,7 +115,7 @@ export const KanbanBoard3Col: React.FC<KanbanBoard3ColProps> = ({
         onStatusChange(orderId, STATUS_FLOW[currentIdx - 1]);
       }
     },
-    [onStatusChange, newOrders, activeOrders, completeOrders]
+    [onStatusChange, newOrders, scheduledOrders, activeOrders, completeOrders]
   );
 
   const handleOrderTap = useCallback(
@@ -154,12 +159,20 @@ export const KanbanBoard3Col: React.FC<KanbanBoard3ColProps> = ({
     }
   }, [showRecall, archivedCompleteOrders.length]);
 
+  useEffect(() => {
+    if (showScheduled && scheduledOrders.length === 0) {
+      setShowScheduled(false);
+    }
+  }, [showScheduled, scheduledOrders.length]);
+
   const renderColumn = (config: typeof COLUMN_CONFIG[0], index: number) => {
     const orders = getOrdersForColumn(config.key);
     const isLastColumn = index === COLUMN_CONFIG.length - 1;
     const isCompleteColumn = config.key === 'complete';
     const recallCount = archivedCompleteOrders.length;
     const showRecallToggle = isCompleteColumn && (showRecall || recallCount > 0);
+    const isScheduledLane = config.key === 'new' && showScheduled;
+    const showScheduledToggle = config.key === 'new' && (showScheduled || scheduledOrders.length > 0);
 
     return (
       <View
@@ -173,7 +186,7 @@ export const KanbanBoard3Col: React.FC<KanbanBoard3ColProps> = ({
         <View style={[styles.columnHeader, { backgroundColor: colors.headerBg }]}> 
           <View style={styles.headerLeft}>
             <View style={[styles.statusDot, { backgroundColor: config.color }]} />
-            <Text style={[styles.columnTitle, { color: colors.text }]}>{config.title}</Text>
+            <Text style={[styles.columnTitle, { color: colors.text }]}>{isScheduledLane ? 'Scheduled' : config.title}</Text>
           </View>
           <View style={styles.headerRight}>
             {index === 0 && onRefresh && (
@@ -184,6 +197,18 @@ export const KanbanBoard3Col: React.FC<KanbanBoard3ColProps> = ({
                 <Text style={[styles.refreshBtnText, { color: colors.textMuted }]}>↻</Text>
               </TouchableOpacity>
             )}
+            {showScheduledToggle && (
+              <TouchableOpacity
+                style={[styles.recallBtn, { backgroundColor: colors.countBadge }]}
+                onPress={() => setShowScheduled((prev) => !prev)}
+                testID="scheduled-lane-button"
+                nativeID="scheduled-lane-button"
+              >
+                <Text style={[styles.recallBtnText, { color: colors.textMuted }]}>
+                  {showScheduled ? 'Back' : `📅 ${scheduledOrders.length}`}
+                </Text>
+              </TouchableOpacity>
+            )}
             {showRecallToggle && (
               <TouchableOpacity
                 style={[styles.recallBtn, { backgroundColor: colors.countBadge }]}
@@ -219,11 +244,18 @@ export const KanbanBoard3Col: React.FC<KanbanBoard3ColProps> = ({
           {orders.length === 0 ? (
             <View style={styles.emptyState}>
               <Text style={[styles.emptyText, { color: colors.textMuted }]}> 
-                {showRecall && isCompleteColumn ? 'No archived orders' : 'Empty'}
+                {showRecall && isCompleteColumn ? 'No archived orders' : isScheduledLane ? 'No scheduled orders' : 'Empty'}
               </Text>
             </View>
           ) : (
             <>
+              {isScheduledLane && (
+                <View style={styles.recallBanner} testID="scheduled-lane-banner" nativeID="scheduled-lane-banner">
+                  <Text style={[styles.recallBannerText, { color: colors.textMuted }]}>
+                    Scheduled — these move to New as they come due
+                  </Text>
+                </View>
+              )}
               {showRecall && isCompleteColumn && (
                 <View style={styles.recallBanner} testID="completed-recall-banner" nativeID="completed-recall-banner">
                   <Text style={[styles.recallBannerText, { color: colors.textMuted }]}>
@@ -247,6 +279,7 @@ export const KanbanBoard3Col: React.FC<KanbanBoard3ColProps> = ({
                 onTap={handleOrderTap}
                 onStatusChange={onStatusChange}
                 onAccept={onAccept}
+                onReject={onReject}
                 onPrint={onPrint}
                 onScrollLock={() => {
                   scrollRefs.current[config.key]?.setNativeProps({ scrollEnabled: false });
@@ -20,10 +20,12 @@ interface KanbanBoard4ColProps {
   readyOrders: Order[];     // ready
   completeOrders: Order[];  // completed
   archivedCompleteOrders: Order[];
+  scheduledOrders?: Order[]; // future orders held until their lead time
   selectedOrderId: string | null;
   onStatusChange: (orderId: string, newStatus: string) => void;
   onOrderSelect: (orderId: string | null) => void;
   onAccept: (orderId: string) => void;
+  onReject?: (orderId: string) => void;
   onPrint?: (order: Order) => void;
   onRefresh?: () => void;
   refreshing?: boolean;
@@ -44,10 +46,12 @@ export const KanbanBoard4Col: React.FC<KanbanBoard4ColProps> = ({
   readyOrders,
   completeOrders,
   archivedCompleteOrders,
+  scheduledOrders = [],
   selectedOrderId,
   onStatusChange,
   onOrderSelect,
   onAccept,
+  onReject,
   onPrint,
   onRefresh,
   refreshing = false,
@@ -59,6 +63,7 @@ export const KanbanBoard4Col: React.FC<KanbanBoard4ColProps> = ({
   // Track which column has an active drag (for zIndex only)
   const [draggingColumn, setDraggingColumn] = useState<ColumnType | null>(null);
   const [showRecall, setShowRecall] = useState(false);
+  const [showScheduled, setShowScheduled] = useState(false);
   const [scrollHeights, setScrollHeights] = useState<Record<ColumnType, number>>({});
 
   // ScrollView refs for instant native-level scroll lock via setNativeProps.
@@ -86,7 +91,7 @@ export const KanbanBoard4Col: React.FC<KanbanBoard4ColProps> = ({
 
   const getOrdersForColumn = (column: ColumnType): Order[] => {
     switch (column) {
-      case 'new': return newOrders;
+      case 'new': return showScheduled ? scheduledOrders : newOrders;
       case 'active': return activeOrders;
       case 'ready': return readyOrders;
       case 'complete': return showRecall ? archivedCompleteOrders : completeOrders;
@@ -182,12 +187,20 @@ export const KanbanBoard4Col: React.FC<KanbanBoard4ColProps> = ({
     }
   }, [showRecall, archivedCompleteOrders.length]);
 
+  useEffect(() => {
+    if (showScheduled && scheduledOrders.length === 0) {
+      setShowScheduled(false);
+    }
+  }, [showScheduled, scheduledOrders.length]);
+
   const renderColumn = (config: typeof COLUMN_CONFIG[0], index: number) => {
     const orders = getOrdersForColumn(config.key);
     const isLastColumn = index === COLUMN_CONFIG.length - 1;
     const isCompleteColumn = config.key === 'complete';
     const recallCount = archivedCompleteOrders.length;
     const showRecallToggle = isCompleteColumn && (showRecall || recallCount > 0);
+    const isScheduledLane = config.key === 'new' && showScheduled;
+    const showScheduledToggle = config.key === 'new' && (showScheduled || scheduledOrders.length > 0);
 
     return (
       <View 
@@ -201,7 +214,7 @@ export const KanbanBoard4Col: React.FC<KanbanBoard4ColProps> = ({
         <View style={[styles.columnHeader, { backgroundColor: colors.headerBg }]}>
           <View style={styles.headerLeft}>
             <View style={[styles.statusDot, { backgroundColor: config.color }]} />
-            <Text style={[styles.columnTitle, { color: colors.text }]}>{config.title}</Text>
+            <Text style={[styles.columnTitle, { color: colors.text }]}>{isScheduledLane ? 'Scheduled' : config.title}</Text>
           </View>
           <View style={styles.headerRight}>
             {index === 0 && onRefresh && (
@@ -212,6 +225,18 @@ export const KanbanBoard4Col: React.FC<KanbanBoard4ColProps> = ({
                 <Text style={[styles.refreshBtnText, { color: colors.textMuted }]}>↻</Text>
               </TouchableOpacity>
             )}
+            {showScheduledToggle && (
+              <TouchableOpacity
+                style={[styles.recallBtn, { backgroundColor: colors.countBadge }]}
+                onPress={() => setShowScheduled((prev) => !prev)}
+                testID="scheduled-lane-button"
+                nativeID="scheduled-lane-button"
+              >
+                <Text style={[styles.recallBtnText, { color: colors.textMuted }]}>
+                  {showScheduled ? 'Back' : `📅 ${scheduledOrders.length}`}
+                </Text>
+              </TouchableOpacity>
+            )}
             {showRecallToggle && (
               <TouchableOpacity
                 style={[styles.recallBtn, { backgroundColor: colors.countBadge }]}
@@ -247,11 +272,18 @@ export const KanbanBoard4Col: React.FC<KanbanBoard4ColProps> = ({
           {orders.length === 0 ? (
             <View style={styles.emptyState}>
               <Text style={[styles.emptyText, { color: colors.textMuted }]}>
-                {showRecall && isCompleteColumn ? 'No archived orders' : 'Empty'}
+                {showRecall && isCompleteColumn ? 'No archived orders' : isScheduledLane ? 'No scheduled orders' : 'Empty'}
               </Text>
             </View>
           ) : (
             <>
+              {isScheduledLane && (
+                <View style={styles.recallBanner} testID="scheduled-lane-banner" nativeID="scheduled-lane-banner">
+                  <Text style={[styles.recallBannerText, { color: colors.textMuted }]}>
+                    Scheduled — these move to New as they come due
+                  </Text>
+                </View>
+              )}
               {showRecall && isCompleteColumn && (
                 <View style={styles.recallBanner} testID="completed-recall-banner" nativeID="completed-recall-banner">
                   <Text style={[styles.recallBannerText, { color: colors.textMuted }]}>
@@ -275,6 +307,7 @@ export const KanbanBoard4Col: React.FC<KanbanBoard4ColProps> = ({
                 onTap={handleOrderTap}
                 onStatusChange={() => handleStatusButtonPress(order.id, config.key)}
                 onAccept={onAccept}
+                onReject={onReject}
                 onPrint={onPrint}
                 onScrollLock={() => {
                   scrollRefs.current[config.key]?.setNativeProps({ scrollEnabled: false });
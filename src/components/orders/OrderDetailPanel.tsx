@@ -11,22 +11,39 @@ import {
   Linking,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Order } from '../../types';
+import { CancelReason, KitchenStation, Order } from '../../types';
 import { useTheme } from '../../theme';
 import {
   printKitchenTicket,
   printCustomerReceipt,
   printBoth,
+  printItemLabels,
+  printDriverSlip,
   stripTwilioLogs,
+  getMainPaperProfile,
+  getMainCodepage,
+  getAlertRules,
+  getLabelPrinterProfile,
+  getReceiptOptions,
+  prepareReceiptLogo,
 } from '../../services/printService';
+import { generateDriverSlip, generateItemLabels, generateKitchenTicket, generateReceiptText, getPaperProfile } from '../../services/tickets';
+import { queueDriverSlip } from '../../services/printQueue';
+import { getCodepage } from '../../services/escpos';
+import { routeOrderToStations } from '../../services/stationRouting';
+import { TicketPreviewModal, type PreviewTicket } from '../TicketPreview';
 import { apiClient } from '../../api/client';
+import { getCancelReasonLabel } from '../../utils/cancelReasons';
+import { CancelOrderPanel } from './CancelOrderPanel';
 
 interface OrderDetailPanelProps {
   order: Order | null;
   onStatusChange?: (orderId: string, status: string) => Promise<void>;
+  onCancelOrder?: (order: Order, reason: CancelReason) => Promise<boolean>;
   onPrinted?: (orderId: string) => void;
   onClose?: () => void;
   printerConnected: boolean;
+  kitchenStations?: KitchenStation[];
   simplifiedView?: boolean;
 }
 
@@ -114,9 +131,11 @@ const getShortOrderNumber = (orderNumber: string): string => {
 export const OrderDetailPanel: React.FC<OrderDetailPanelProps> = ({
   order,
   onStatusChange,
+  onCancelOrder,
   onPrinted,
   onClose,
   printerConnected,
+  kitchenStations = [],
   simplifiedView = false,
 }) => {
   const { theme, themeMode } = useTheme();
@@ -125,8 +144,9 @@ export const OrderDetailPanel: React.FC<OrderDetailPanelProps> = ({
   const [changingStatus, setChangingStatus] = useState(false);
   const [showStatusModal, setShowStatusModal] = useState(false);
   const [showPrintMenu, setShowPrintMenu] = useState(false);
+  const [previewTickets, setPreviewTickets] = useState<PreviewTicket[] | null>(null);
   const [showMoreMenu, setShowMoreMenu] = useState(false);
-  const [cancellingOrder, setCancellingOrder] = useState(false);
+  const [showCancelPanel, setShowCancelPanel] = useState(false);
   const [dispatchInfo, setDispatchInfo] = useState<{
     dispatch_available: boolean;
     provider: { code: string; name: string; external_id: string } | null;
@@ -190,7 +210,7 @@ export const OrderDetailPanel: React.FC<OrderDetailPanelProps> = ({
     );
   }
 
-  const handlePrint = async (type: 'kitchen' | 'receipt' | 'both') => {
+  const handlePrint = async (type: 'kitchen' | 'receipt' | 'both' | 'labels' | 'driver') => {
     setShowPrintMenu(false);
     setShowMoreMenu(false);
     if (!printerConnected) {
@@ -203,13 +223,19 @@ export const OrderDetailPanel: React.FC<OrderDetailPanelProps> = ({
       let success = false;
       switch (type) {
         case 'kitchen':
-          success = await printKitchenTicket(order);
+          success = await printKitchenTicket(order, kitchenStations);
           break;
         case 'receipt':
           success = await printCustomerReceipt(order);
           break;
         case 'both':
-          success = await printBoth(order);
+          success = await printBoth(order, kitchenStations);
+          break;
+        case 'labels':
+          success = await printItemLabels(order);
+          break;
+        case 'driver':
+          success = await printDriverSlip(order);
           break;
       }
 
@@ -225,6 +251,43 @@ export const OrderDetailPanel: React.FC<OrderDetailPanelProps> = ({
     }
   };
 
+  // Preview works without a printer - it renders the same ESC/POS the printer would get
+  const handlePreview = async () => {
+    setShowPrintMenu(false);
+    await prepareReceiptLogo();
+    const mainPaper = getMainPaperProfile();
+    const mainCodepage = getMainCodepage();
+    const alertRules = getAlertRules();
+    const kitchenTickets = routeOrderToStations(order, kitchenStations).map((ticket) => {
+      // Stations with their own printer print on their own paper and codepage
+      const ownPrinter = !!ticket.station?.printerAddress;
+      const paper = ownPrinter ? getPaperProfile(ticket.station?.paperProfile) : mainPaper;
+      const codepage = ownPrinter ? getCodepage(ticket.station?.codepage).id : mainCodepage;
+      return {
+        label: ticket.station ? `🍳 ${ticket.station.name || 'Station'}` : '🍳 Kitchen',
+        data: generateKitchenTicket(ticket.order, ticket.station?.name, paper, codepage, alertRules),
+        columns: paper.columns,
+      };
+    });
+    const labels = getLabelPrinterProfile();
+    setPreviewTickets([
+      ...kitchenTickets,
+      {
+        label: '🧾 Receipt',
+        data: generateReceiptText(order, mainPaper, mainCodepage, getReceiptOptions(order)),
+        columns: mainPaper.columns,
+      },
+      {
+        label: '🏷️ Labels',
+        data: generateItemLabels(order, labels.paper, labels.codepage),
+        columns: labels.paper.columns,
+      },
+      ...(order.order_type === 'delivery'
+        ? [{ label: '🚗 Driver', data: generateDriverSlip(order, mainPaper, mainCodepage), columns: mainPaper.columns }]
+        : []),
+    ]);
+  };
+
   const handleStatusChange = async (newStatus: string) => {
     if (!onStatusChange) return;
     
@@ -266,30 +329,10 @@ export const OrderDetailPanel: React.FC<OrderDetailPanelProps> = ({
     }
   };
 
+  // Asks for a reason first - see CancelOrderPanel
   const handleCancelOrder = () => {
     setShowMoreMenu(false);
-    Alert.alert(
-      'Cancel Order',
-      `Are you sure you want to cancel order #${getShortOrderNumber(order.order_number)}? This cannot be undone.`,
-      [
-        { text: 'No, Keep Order', style: 'cancel' },
-        { 
-          text: 'Yes, Cancel Order', 
-          style: 'destructive',
-          onPress: async () => {
-            if (!onStatusChange) return;
-            setCancellingOrder(true);
-            try {
-              await onStatusChange(order.id, 'cancelled');
-            } catch (error) {
-              Alert.alert('Error', 'Failed to cancel order');
-            } finally {
-              setCancellingOrder(false);
-            }
-          }
-        },
-      ]
-    );
+    setShowCancelPanel(true);
   };
 
   const handleCallCustomer = () => {
@@ -315,6 +358,7 @@ export const OrderDetailPanel: React.FC<OrderDetailPanelProps> = ({
       if (response.success && response.data) {
         setDriverDispatched(true);
         setDispatchInfo(null);
+        void queueDriverSlip(order);
         
         // Show appropriate message based on backup email usage
         if (response.data.used_backup_email) {
@@ -448,6 +492,20 @@ export const OrderDetailPanel: React.FC<OrderDetailPanelProps> = ({
             <Text style={styles.printMenuIcon}>📋</Text>
             <Text style={[styles.printMenuText, { color: colors.text }]}>Print Both</Text>
           </TouchableOpacity>
+          <TouchableOpacity style={styles.printMenuItem} onPress={() => handlePrint('labels')}>
+            <Text style={styles.printMenuIcon}>🏷️</Text>
+            <Text style={[styles.printMenuText, { color: colors.text }]}>Print Labels</Text>
+          </TouchableOpacity>
+          {order.order_type === 'delivery' && (
+            <TouchableOpacity style={styles.printMenuItem} onPress={() => handlePrint('driver')}>
+              <Text style={styles.printMenuIcon}>🚗</Text>
+              <Text style={[styles.printMenuText, { color: colors.text }]}>Driver Slip</Text>
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.printMenuItem} onPress={handlePreview}>
+            <Text style={styles.printMenuIcon}>👁</Text>
+            <Text style={[styles.printMenuText, { color: colors.text }]}>Preview</Text>
+          </TouchableOpacity>
         </View>
       )}
 
@@ -470,13 +528,9 @@ export const OrderDetailPanel: React.FC<OrderDetailPanelProps> = ({
           <TouchableOpacity 
             style={styles.printMenuItem} 
             onPress={handleCancelOrder}
-            disabled={cancellingOrder || order.status === 'cancelled'}
+            disabled={!onCancelOrder || order.status === 'cancelled'}
           >
-            {cancellingOrder ? (
-              <ActivityIndicator size="small" color="#ef4444" />
-            ) : (
-              <Text style={styles.printMenuIcon}>❌</Text>
-            )}
+            <Text style={styles.printMenuIcon}>❌</Text>
             <Text style={[styles.printMenuText, { color: order.status === 'cancelled' ? colors.textMuted : '#ef4444' }]}>
               {order.status === 'cancelled' ? 'Order Cancelled' : 'Cancel Order'}
             </Text>
@@ -631,6 +685,18 @@ export const OrderDetailPanel: React.FC<OrderDetailPanelProps> = ({
           </View>
         </View>
 
+        {/* Why it was cancelled */}
+        {order.status === 'cancelled' && (
+          <View style={[styles.notesSection, styles.cancelSection]}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              Cancelled: {getCancelReasonLabel(order.cancel_reason)}
+            </Text>
+            {!!order.cancel_note && (
+              <Text style={[styles.notesText, { color: colors.text }]}>{order.cancel_note}</Text>
+            )}
+          </View>
+        )}
+
         {/* Order Notes (strip Twilio call logs) */}
         {order.notes && stripTwilioLogs(order.notes) !== '' && (
           <View style={styles.notesSection}>
@@ -706,6 +772,20 @@ export const OrderDetailPanel: React.FC<OrderDetailPanelProps> = ({
           </View>
         </TouchableOpacity>
       </Modal>
+
+      <TicketPreviewModal
+        visible={!!previewTickets}
+        tickets={previewTickets ?? []}
+        onClose={() => setPreviewTickets(null)}
+      />
+
+      {onCancelOrder && (
+        <CancelOrderPanel
+          order={showCancelPanel ? order : null}
+          onConfirm={onCancelOrder}
+          onClose={() => setShowCancelPanel(false)}
+        />
+      )}
     </View>
   );
 };
@@ -966,6 +1046,9 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 20,
   },
+  cancelSection: {
+    backgroundColor: '#fee2e2',
+  },
   // Modal Styles
   modalOverlay: {
     flex: 1,
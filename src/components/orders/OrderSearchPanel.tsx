@@ -0,0 +1,337 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, Modal, ScrollView, ActivityIndicator, StyleProp, TextStyle } from 'react-native';
+import { useTheme, type Theme } from '../../theme';
+import { Order } from '../../types';
+import { apiClient } from '../../api/client';
+import { useOrderHistory } from '../../hooks/useOrderHistory';
+import { cacheOrders } from '../../services/orderHistory';
+import {
+  formatSearchTime,
+  MIN_QUERY_LENGTH,
+  OrderSearchResult,
+  SearchField,
+  SearchMatch,
+  searchOrders,
+  splitHighlights,
+} from '../../utils/orderSearch';
+
+interface OrderSearchPanelProps {
+  visible: boolean;
+  orders: Order[];
+  isOnline: boolean;
+  onSelect: (order: Order) => void;
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<OrderSearchResult['source'], string | null> = {
+  live: null,
+  history: 'History',
+  server: 'Server',
+};
+
+// Shown under the headline when the match was somewhere less obvious
+const DETAIL_LABELS: Partial<Record<SearchField, string>> = {
+  phone: '📞',
+  item: '🍽',
+  notes: '📝',
+};
+
+const formatDay = (dateString: string): string => {
+  const date = new Date(dateString);
+  return date.toDateString() === new Date().toDateString()
+    ? 'Today'
+    : date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+};
+
+const Highlight: React.FC<{
+  text: string;
+  match?: SearchMatch;
+  style: StyleProp<TextStyle>;
+  highlightStyle: StyleProp<TextStyle>;
+}> = ({ text, match, style, highlightStyle }) => (
+  <Text style={style} numberOfLines={1}>
+    {match
+      ? splitHighlights(text, match.ranges).map((part, index) => (
+          <Text key={index} style={part.highlighted ? highlightStyle : undefined}>{part.text}</Text>
+        ))
+      : text}
+  </Text>
+);
+
+/**
+ * Order search (opened from the bottom dock)
+ * Searches the live board and the local history as you type; older orders
+ * can be looked up on the server. Tapping a result opens the order.
+ */
+export const OrderSearchPanel: React.FC<OrderSearchPanelProps> = ({ visible, orders, isOnline, onSelect, onClose }) => {
+  const { theme, themeMode } = useTheme();
+  const isDarkMode = themeMode === 'dark';
+  const styles = useMemo(() => createStyles(theme, isDarkMode), [theme, isDarkMode]);
+  const history = useOrderHistory();
+
+  const [query, setQuery] = useState('');
+  const [serverOrders, setServerOrders] = useState<Order[]>([]);
+  const [serverState, setServerState] = useState<'idle' | 'loading' | 'done' | 'error'>('idle');
+  const latestQuery = useRef(query);
+  latestQuery.current = query;
+
+  // Server results belong to the query they were fetched for
+  useEffect(() => {
+    setServerOrders([]);
+    setServerState('idle');
+  }, [query]);
+
+  useEffect(() => {
+    if (!visible) setQuery('');
+  }, [visible]);
+
+  const results = useMemo(
+    () =>
+      searchOrders(
+        [
+          { source: 'live', orders },
+          { source: 'history', orders: history.orders },
+          { source: 'server', orders: serverOrders },
+        ],
+        query
+      ),
+    [orders, history.orders, serverOrders, query]
+  );
+
+  const searchServer = async () => {
+    const searchedFor = query;
+    setServerState('loading');
+    const result = await apiClient.searchOrders(searchedFor.trim(), { limit: 50 });
+    if (searchedFor !== latestQuery.current) return; // Typed on while it was loading
+    if (result.success && result.data) {
+      cacheOrders(result.data);
+      setServerOrders(result.data);
+      setServerState('done');
+    } else {
+      setServerState('error');
+    }
+  };
+
+  const canSearchServer = isOnline && query.trim().length >= MIN_QUERY_LENGTH && serverState !== 'loading';
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <TextInput
+              style={styles.input}
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Order #, name, phone, item, 6:40…"
+              placeholderTextColor={theme.textMuted}
+              autoFocus
+              autoCorrect={false}
+              returnKeyType="search"
+              onSubmitEditing={() => results.length === 0 && canSearchServer && searchServer()}
+            />
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.close}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {query.trim().length < MIN_QUERY_LENGTH ? (
+            <Text style={styles.empty}>Search today's board and the last two weeks of orders</Text>
+          ) : (
+            <ScrollView style={styles.list} keyboardShouldPersistTaps="handled">
+              {results.length === 0 && <Text style={styles.empty}>No matching orders on this tablet</Text>}
+              {results.map((result) => {
+                const { order } = result;
+                const matchFor = (field: SearchField) => result.matches.find((match) => match.field === field);
+                const details = result.matches.filter((match) => DETAIL_LABELS[match.field]).slice(0, 2);
+                const sourceLabel = SOURCE_LABELS[result.source];
+                return (
+                  <TouchableOpacity key={order.id} style={styles.row} onPress={() => onSelect(order)}>
+                    <View style={styles.info}>
+                      <View style={styles.headline}>
+                        <Highlight
+                          text={order.order_number}
+                          match={matchFor('order_number')}
+                          style={styles.orderNumber}
+                          highlightStyle={styles.highlight}
+                        />
+                        <Highlight
+                          text={order.customer?.name || 'Guest'}
+                          match={matchFor('customer')}
+                          style={styles.customer}
+                          highlightStyle={styles.highlight}
+                        />
+                      </View>
+                      <Highlight
+                        text={formatSearchTime(order.created_at)}
+                        match={matchFor('time')}
+                        style={styles.meta}
+                        highlightStyle={styles.highlight}
+                      />
+                      {details.map((match, index) => (
+                        <View key={index} style={styles.detail}>
+                          <Text style={styles.meta}>{DETAIL_LABELS[match.field]} </Text>
+                          <Highlight text={match.text} match={match} style={styles.meta} highlightStyle={styles.highlight} />
+                        </View>
+                      ))}
+                    </View>
+                    <View style={styles.badges}>
+                      <Text style={styles.day}>{formatDay(order.created_at)}</Text>
+                      <Text style={styles.status}>{order.status.replace(/_/g, ' ')}</Text>
+                      {sourceLabel && <Text style={styles.source}>{sourceLabel}</Text>}
+                    </View>
+                  </TouchableOpacity>
+                );
+              })}
+
+              <TouchableOpacity
+                style={[styles.serverBtn, !canSearchServer && styles.serverBtnDisabled]}
+                onPress={searchServer}
+                disabled={!canSearchServer}
+              >
+                {serverState === 'loading' ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.serverText}>
+                    {!isOnline
+                      ? 'Offline - showing orders saved on this tablet'
+                      : serverState === 'done'
+                        ? `Searched older orders (${serverOrders.length} found)`
+                        : serverState === 'error'
+                          ? 'Server search failed - tap to retry'
+                          : '🔍 Search older orders on the server'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: Theme, isDarkMode: boolean) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: theme.overlay,
+      justifyContent: 'flex-start',
+      alignItems: 'center',
+      paddingTop: 48,
+    },
+    content: {
+      width: '90%',
+      maxWidth: 720,
+      maxHeight: '85%',
+      borderRadius: 12,
+      padding: 20,
+      backgroundColor: theme.surface,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      marginBottom: 12,
+    },
+    input: {
+      flex: 1,
+      fontSize: 16,
+      paddingHorizontal: 12,
+      paddingVertical: 10,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      color: theme.text,
+      backgroundColor: isDarkMode ? '#111827' : '#f8fafc',
+    },
+    close: {
+      fontSize: 20,
+      padding: 4,
+      color: theme.text,
+    },
+    empty: {
+      fontSize: 14,
+      color: theme.textMuted,
+      textAlign: 'center',
+      paddingVertical: 24,
+    },
+    list: {
+      flexGrow: 0,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.cardBorder,
+    },
+    info: {
+      flex: 1,
+    },
+    headline: {
+      flexDirection: 'row',
+      alignItems: 'baseline',
+      gap: 10,
+    },
+    orderNumber: {
+      fontSize: 15,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    customer: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.text,
+      flexShrink: 1,
+    },
+    meta: {
+      fontSize: 12,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    detail: {
+      flexDirection: 'row',
+    },
+    highlight: {
+      backgroundColor: isDarkMode ? '#854d0e' : '#fef08a',
+      color: theme.text,
+      fontWeight: '700',
+    },
+    badges: {
+      alignItems: 'flex-end',
+      gap: 2,
+    },
+    day: {
+      fontSize: 12,
+      color: theme.textSecondary,
+    },
+    status: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: theme.text,
+      textTransform: 'capitalize',
+    },
+    source: {
+      fontSize: 11,
+      color: theme.textMuted,
+    },
+    serverBtn: {
+      marginTop: 12,
+      paddingVertical: 12,
+      borderRadius: 8,
+      alignItems: 'center',
+      backgroundColor: '#3b82f6',
+    },
+    serverBtnDisabled: {
+      backgroundColor: isDarkMode ? '#374151' : '#94a3b8',
+    },
+    serverText: {
+      color: '#fff',
+      fontSize: 14,
+      fontWeight: '600',
+    },
+  });
+
+export default OrderSearchPanel;
@@ -2,6 +2,7 @@ import React from 'react';
 import { View, Text, Image, TouchableOpacity, StyleSheet } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '../../theme';
+import { RealtimeState } from '../../types';
 
 interface OrdersBottomDockProps {
   restaurantName: string;
@@ -9,31 +10,66 @@ interface OrdersBottomDockProps {
   viewMode?: string;
   counts?: Record<string, number>;
   isOnline?: boolean;
+  realtimeState?: RealtimeState;
   printerConnected?: boolean;
   onOpenSettings?: () => void;
   onRefresh?: () => void;
+  onOpenReports?: () => void;
+  onOpenHistory?: () => void;
+  onOpenSearch?: () => void;
   recall?: {
     enabled: boolean;
     archivedCount: number;
     active: boolean;
     onToggle: () => void;
   };
+  printQueue?: {
+    pendingCount: number;
+    hasFailures: boolean;
+    onOpen: () => void;
+  };
+  allDay?: {
+    itemCount: number;
+    onOpen: () => void;
+  };
+  pendingSync?: {
+    pendingCount: number;
+    hasFailures: boolean;
+    onOpen: () => void;
+  };
 }
 
 export const OrdersBottomDock: React.FC<OrdersBottomDockProps> = ({
   restaurantName,
   locationLogoUrl,
   isOnline = true,
+  realtimeState,
   printerConnected = false,
   onOpenSettings,
   onRefresh,
+  onOpenReports,
+  onOpenHistory,
+  onOpenSearch,
   recall,
+  printQueue,
+  allDay,
+  pendingSync,
 }) => {
   const { theme: colors } = useTheme();
   const insets = useSafeAreaInsets();
 
   const statusColor = !isOnline ? '#ef4444' : printerConnected ? '#22c55e' : '#f59e0b';
 
+  // How orders are arriving: pushed live, or polled while the channel is down
+  const realtimeBadge =
+    realtimeState === 'connected'
+      ? { label: '⚡ Live', color: '#22c55e' }
+      : realtimeState === 'connecting'
+        ? { label: 'Connecting…', color: '#f59e0b' }
+        : realtimeState === 'reconnecting'
+          ? { label: 'Polling', color: '#f59e0b' }
+          : { label: 'Polling', color: colors.textMuted };
+
   return (
     <View style={[styles.dock, { backgroundColor: colors.surface, borderTopColor: colors.border, paddingBottom: Math.max(insets.bottom, 8) }]}>
       <View style={styles.left}>
@@ -46,6 +82,11 @@ export const OrdersBottomDock: React.FC<OrdersBottomDockProps> = ({
       </View>
 
       <View style={styles.right}>
+        {onOpenSearch && (
+          <TouchableOpacity style={[styles.btn, { backgroundColor: colors.cardBorder }]} onPress={onOpenSearch}>
+            <Text style={[styles.btnText, { color: colors.textMuted }]}>🔍 Search</Text>
+          </TouchableOpacity>
+        )}
         {recall?.enabled && (
           <TouchableOpacity style={[styles.btn, { backgroundColor: recall.active ? '#3b82f6' : colors.border }]} onPress={recall.onToggle}>
             <Text style={[styles.btnText, { color: recall.active ? '#fff' : colors.textMuted }]}>
@@ -53,11 +94,51 @@ export const OrdersBottomDock: React.FC<OrdersBottomDockProps> = ({
             </Text>
           </TouchableOpacity>
         )}
+        {allDay && (
+          <TouchableOpacity style={[styles.btn, { backgroundColor: colors.cardBorder }]} onPress={allDay.onOpen}>
+            <Text style={[styles.btnText, { color: colors.textMuted }]}>
+              🍕 All Day{allDay.itemCount > 0 ? ` (${allDay.itemCount})` : ''}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {printQueue && (
+          <TouchableOpacity
+            style={[styles.btn, { backgroundColor: printQueue.hasFailures ? '#ef4444' : colors.cardBorder }]}
+            onPress={printQueue.onOpen}
+          >
+            <Text style={[styles.btnText, { color: printQueue.hasFailures ? '#fff' : colors.textMuted }]}>
+              🖨️ Queue{printQueue.pendingCount > 0 ? ` (${printQueue.pendingCount})` : ''}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {pendingSync && pendingSync.pendingCount > 0 && (
+          <TouchableOpacity
+            style={[styles.btn, { backgroundColor: pendingSync.hasFailures ? '#ef4444' : '#f59e0b' }]}
+            onPress={pendingSync.onOpen}
+          >
+            <Text style={[styles.btnText, { color: '#fff' }]}>☁️ Sync ({pendingSync.pendingCount})</Text>
+          </TouchableOpacity>
+        )}
+        {onOpenReports && (
+          <TouchableOpacity style={[styles.btn, { backgroundColor: colors.cardBorder }]} onPress={onOpenReports}>
+            <Text style={[styles.btnText, { color: colors.textMuted }]}>📊 Reports</Text>
+          </TouchableOpacity>
+        )}
+        {onOpenHistory && (
+          <TouchableOpacity style={[styles.btn, { backgroundColor: colors.cardBorder }]} onPress={onOpenHistory}>
+            <Text style={[styles.btnText, { color: colors.textMuted }]}>🕘 History</Text>
+          </TouchableOpacity>
+        )}
         {onRefresh && (
           <TouchableOpacity style={[styles.btn, { backgroundColor: colors.border }]} onPress={onRefresh}>
             <Text style={[styles.refreshText, { color: colors.textMuted }]}>↻</Text>
           </TouchableOpacity>
         )}
+        {realtimeState && isOnline && (
+          <View style={[styles.realtimeBadge, { borderColor: realtimeBadge.color }]}>
+            <Text style={[styles.realtimeText, { color: realtimeBadge.color }]}>{realtimeBadge.label}</Text>
+          </View>
+        )}
         <View style={[styles.statusDot, { backgroundColor: statusColor }]} />
         {onOpenSettings && (
           <TouchableOpacity style={[styles.gearBtn, { backgroundColor: colors.border }]} onPress={onOpenSettings}>
@@ -78,6 +159,8 @@ const styles = StyleSheet.create({
   btn: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 8 },
   btnText: { fontSize: 12, fontWeight: '600' },
   refreshText: { fontSize: 16, fontWeight: '800' },
+  realtimeBadge: { paddingHorizontal: 8, paddingVertical: 3, borderRadius: 10, borderWidth: 1 },
+  realtimeText: { fontSize: 11, fontWeight: '700' },
   statusDot: { width: 12, height: 12, borderRadius: 6 },
   gearBtn: { width: 40, height: 40, borderRadius: 10, alignItems: 'center', justifyContent: 'center' },
   gearText: { fontSize: 20 },
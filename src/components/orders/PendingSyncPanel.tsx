@@ -0,0 +1,254 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView } from 'react-native';
+import { useTheme, type Theme } from '../../theme';
+import { DeadLetterAction, Order, QueuedAction } from '../../types';
+
+interface PendingSyncPanelProps {
+  visible: boolean;
+  queuedActions: QueuedAction[];
+  deadLetters: DeadLetterAction[];
+  orders: Order[];
+  onRetry: (actionId: string) => void;
+  onDiscard: (actionId: string) => void;
+  onResolveConflict: (actionId: string, choice: 'mine' | 'server') => void;
+  onClose: () => void;
+}
+
+const formatTime = (dateString: string): string =>
+  new Date(dateString).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+
+const formatStatus = (status: string | null | undefined): string => String(status || 'unknown').replace(/_/g, ' ');
+
+const describeAction = (action: QueuedAction): string =>
+  action.type === 'acknowledge' ? 'Accept' : `Mark ${formatStatus(action.payload?.status)}`;
+
+/**
+ * Pending sync (opened from the bottom dock)
+ * Order changes made while the server couldn't be reached: conflicts with
+ * changes made elsewhere (staff pick which version wins), the ones still being
+ * retried, and the ones that failed for good so staff can retry or discard them.
+ */
+export const PendingSyncPanel: React.FC<PendingSyncPanelProps> = ({
+  visible,
+  queuedActions,
+  deadLetters,
+  orders,
+  onRetry,
+  onDiscard,
+  onResolveConflict,
+  onClose,
+}) => {
+  const { theme, themeMode } = useTheme();
+  const isDarkMode = themeMode === 'dark';
+  const styles = useMemo(() => createStyles(theme, isDarkMode), [theme, isDarkMode]);
+
+  const orderNumbers = useMemo(
+    () => new Map(orders.map((order) => [order.id, order.order_number.split('-').pop()])),
+    [orders]
+  );
+  const orderLabel = (action: QueuedAction) => `#${orderNumbers.get(action.order_id) || action.order_id.slice(-6)}`;
+  const conflicts = queuedActions.filter((action) => action.conflict);
+  const waiting = queuedActions.filter((action) => !action.conflict);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>☁️ Pending Sync</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.close}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {queuedActions.length === 0 && deadLetters.length === 0 ? (
+            <Text style={styles.empty}>Everything is synced</Text>
+          ) : (
+            <ScrollView style={styles.list}>
+              {conflicts.length > 0 && <Text style={styles.section}>Changed elsewhere - pick a version</Text>}
+              {conflicts.map((action) => (
+                <View key={action.id} style={styles.row}>
+                  <View style={styles.info}>
+                    <Text style={styles.rowTitle}>
+                      {orderLabel(action)} · {describeAction(action)}
+                    </Text>
+                    <Text style={styles.meta}>
+                      Yours: {formatStatus(action.payload?.status)} at {formatTime(action.created_at)}
+                      {action.base_status ? ` (was ${formatStatus(action.base_status)})` : ''}
+                    </Text>
+                    {action.conflict && (
+                      <Text style={styles.conflict}>
+                        Server: {formatStatus(action.conflict.server_status)} at {formatTime(action.conflict.server_updated_at)}
+                      </Text>
+                    )}
+                  </View>
+                  <View style={styles.actions}>
+                    <TouchableOpacity style={[styles.actionBtn, styles.retryBtn]} onPress={() => onResolveConflict(action.id, 'mine')}>
+                      <Text style={styles.retryText}>Use mine</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.actionBtn, styles.discardBtn]} onPress={() => onResolveConflict(action.id, 'server')}>
+                      <Text style={styles.discardText}>Keep server</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+
+              {deadLetters.length > 0 && <Text style={styles.section}>Failed - needs attention</Text>}
+              {deadLetters.map((action) => (
+                <View key={action.id} style={styles.row}>
+                  <View style={styles.info}>
+                    <Text style={styles.rowTitle}>
+                      {orderLabel(action)} · {describeAction(action)}
+                    </Text>
+                    <Text style={styles.meta}>
+                      {formatTime(action.created_at)} · {action.retry_count} attempt{action.retry_count === 1 ? '' : 's'}
+                    </Text>
+                    {action.last_error && (
+                      <Text style={styles.error} numberOfLines={2}>{action.last_error}</Text>
+                    )}
+                  </View>
+                  <View style={styles.actions}>
+                    <TouchableOpacity style={[styles.actionBtn, styles.retryBtn]} onPress={() => onRetry(action.id)}>
+                      <Text style={styles.retryText}>Retry</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.actionBtn, styles.discardBtn]} onPress={() => onDiscard(action.id)}>
+                      <Text style={styles.discardText}>Discard</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+
+              {waiting.length > 0 && <Text style={styles.section}>Waiting to send</Text>}
+              {waiting.map((action) => (
+                <View key={action.id} style={styles.row}>
+                  <View style={styles.info}>
+                    <Text style={styles.rowTitle}>
+                      {orderLabel(action)} · {describeAction(action)}
+                    </Text>
+                    <Text style={styles.meta}>
+                      {formatTime(action.created_at)}
+                      {action.next_attempt_at ? ` · next try ${formatTime(action.next_attempt_at)}` : ''}
+                      {action.retry_count > 0 ? ` · ${action.retry_count} attempt${action.retry_count === 1 ? '' : 's'}` : ''}
+                    </Text>
+                    {action.last_error && (
+                      <Text style={styles.error} numberOfLines={2}>{action.last_error}</Text>
+                    )}
+                  </View>
+                </View>
+              ))}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: Theme, isDarkMode: boolean) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: theme.overlay,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    content: {
+      width: '90%',
+      maxWidth: 640,
+      maxHeight: '80%',
+      borderRadius: 12,
+      padding: 20,
+      backgroundColor: theme.surface,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 16,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    close: {
+      fontSize: 20,
+      padding: 4,
+      color: theme.text,
+    },
+    empty: {
+      fontSize: 14,
+      color: theme.textMuted,
+      textAlign: 'center',
+      paddingVertical: 24,
+    },
+    list: {
+      flexGrow: 0,
+    },
+    section: {
+      fontSize: 12,
+      fontWeight: '700',
+      textTransform: 'uppercase',
+      color: theme.textMuted,
+      marginTop: 8,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.cardBorder,
+    },
+    info: {
+      flex: 1,
+    },
+    rowTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    meta: {
+      fontSize: 12,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    error: {
+      fontSize: 12,
+      color: '#ef4444',
+      marginTop: 2,
+    },
+    conflict: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: '#f59e0b',
+      marginTop: 2,
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 6,
+    },
+    actionBtn: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 8,
+    },
+    retryBtn: {
+      backgroundColor: '#3b82f6',
+    },
+    retryText: {
+      color: '#fff',
+      fontSize: 13,
+      fontWeight: '600',
+    },
+    discardBtn: {
+      backgroundColor: isDarkMode ? '#374151' : '#e2e8f0',
+    },
+    discardText: {
+      color: theme.text,
+      fontSize: 13,
+      fontWeight: '600',
+    },
+  });
+
+export default PendingSyncPanel;
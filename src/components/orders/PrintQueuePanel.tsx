@@ -0,0 +1,222 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal, ScrollView } from 'react-native';
+import { useTheme, type Theme } from '../../theme';
+import { PrintJob, PrintJobState, PrintJobType } from '../../types';
+import { cancelPrintJob, retryPrintJob } from '../../services/printQueue';
+
+interface PrintQueuePanelProps {
+  visible: boolean;
+  jobs: PrintJob[];
+  onClose: () => void;
+}
+
+const STATE_LABELS: Record<PrintJobState, { label: string; color: string }> = {
+  queued: { label: 'Queued', color: '#3b82f6' },
+  printing: { label: 'Printing…', color: '#3b82f6' },
+  retrying: { label: 'Retrying', color: '#f59e0b' },
+  held: { label: 'Backlog', color: '#f59e0b' },
+  failed: { label: 'Failed', color: '#ef4444' },
+  printed: { label: 'Printed', color: '#22c55e' },
+  cancelled: { label: 'Cancelled', color: '#9ca3af' },
+};
+
+const TYPE_LABELS: Record<PrintJobType, string> = {
+  kitchen: 'Kitchen',
+  receipt: 'Receipt',
+  both: 'Kitchen + Receipt',
+  labels: 'Item Labels',
+  update: 'Order Update',
+  driver: 'Driver Slip',
+  cancel: 'Cancellation Slip',
+};
+
+// Jobs staff can act on float to the top, newest first within each group
+const STATE_ORDER: PrintJobState[] = ['failed', 'held', 'retrying', 'printing', 'queued', 'printed', 'cancelled'];
+
+const formatTime = (dateString: string): string =>
+  new Date(dateString).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+
+/**
+ * Print queue (opened from the bottom dock)
+ * Lists every print job with its state so staff can retry or cancel it.
+ */
+export const PrintQueuePanel: React.FC<PrintQueuePanelProps> = ({ visible, jobs, onClose }) => {
+  const { theme, themeMode } = useTheme();
+  const isDarkMode = themeMode === 'dark';
+  const styles = useMemo(() => createStyles(theme, isDarkMode), [theme, isDarkMode]);
+
+  const sortedJobs = useMemo(
+    () =>
+      [...jobs].sort(
+        (a, b) =>
+          STATE_ORDER.indexOf(a.state) - STATE_ORDER.indexOf(b.state) ||
+          new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+      ),
+    [jobs]
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <Text style={styles.title}>🖨️ Print Queue</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.close}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          {sortedJobs.length === 0 ? (
+            <Text style={styles.empty}>No print jobs yet</Text>
+          ) : (
+            <ScrollView style={styles.list}>
+              {sortedJobs.map((job) => {
+                const state = STATE_LABELS[job.state];
+                const canRetry = job.state === 'failed' || job.state === 'retrying' || job.state === 'held' || job.state === 'cancelled';
+                const canCancel = job.state === 'queued' || job.state === 'retrying' || job.state === 'held' || job.state === 'failed';
+                return (
+                  <View key={job.id} style={styles.job}>
+                    <View style={styles.jobInfo}>
+                      <Text style={styles.jobTitle}>
+                        #{job.order.order_number.split('-').pop()} · {TYPE_LABELS[job.type]}
+                        {job.copies > 1 ? ` ×${job.copies}` : ''}
+                      </Text>
+                      <Text style={styles.jobMeta}>
+                        {formatTime(job.created_at)} · {job.source === 'auto' ? 'Auto' : 'Manual'}
+                        {job.attempts > 0 ? ` · ${job.attempts} attempt${job.attempts === 1 ? '' : 's'}` : ''}
+                      </Text>
+                      {job.last_error && job.state !== 'printed' && (
+                        <Text style={styles.jobError} numberOfLines={2}>{job.last_error}</Text>
+                      )}
+                    </View>
+                    <View style={[styles.badge, { backgroundColor: state.color }]}>
+                      <Text style={styles.badgeText}>{state.label}</Text>
+                    </View>
+                    <View style={styles.actions}>
+                      {canRetry && (
+                        <TouchableOpacity style={[styles.actionBtn, styles.retryBtn]} onPress={() => retryPrintJob(job.id)}>
+                          <Text style={styles.retryText}>{job.state === 'held' ? 'Print' : 'Retry'}</Text>
+                        </TouchableOpacity>
+                      )}
+                      {canCancel && (
+                        <TouchableOpacity style={[styles.actionBtn, styles.cancelBtn]} onPress={() => cancelPrintJob(job.id)}>
+                          <Text style={styles.cancelText}>Cancel</Text>
+                        </TouchableOpacity>
+                      )}
+                    </View>
+                  </View>
+                );
+              })}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: Theme, isDarkMode: boolean) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: theme.overlay,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    content: {
+      width: '90%',
+      maxWidth: 640,
+      maxHeight: '80%',
+      borderRadius: 12,
+      padding: 20,
+      backgroundColor: theme.surface,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 16,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    close: {
+      fontSize: 20,
+      padding: 4,
+      color: theme.text,
+    },
+    empty: {
+      fontSize: 14,
+      color: theme.textMuted,
+      textAlign: 'center',
+      paddingVertical: 24,
+    },
+    list: {
+      flexGrow: 0,
+    },
+    job: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.cardBorder,
+    },
+    jobInfo: {
+      flex: 1,
+    },
+    jobTitle: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    jobMeta: {
+      fontSize: 12,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    jobError: {
+      fontSize: 12,
+      color: '#ef4444',
+      marginTop: 2,
+    },
+    badge: {
+      paddingHorizontal: 8,
+      paddingVertical: 4,
+      borderRadius: 6,
+    },
+    badgeText: {
+      color: '#fff',
+      fontSize: 12,
+      fontWeight: '600',
+    },
+    actions: {
+      flexDirection: 'row',
+      gap: 6,
+    },
+    actionBtn: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 8,
+    },
+    retryBtn: {
+      backgroundColor: '#3b82f6',
+    },
+    retryText: {
+      color: '#fff',
+      fontSize: 13,
+      fontWeight: '600',
+    },
+    cancelBtn: {
+      backgroundColor: isDarkMode ? '#374151' : '#e2e8f0',
+    },
+    cancelText: {
+      color: theme.text,
+      fontSize: 13,
+      fontWeight: '600',
+    },
+  });
+
+export default PrintQueuePanel;
@@ -0,0 +1,139 @@
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Modal } from 'react-native';
+import { useTheme, type Theme } from '../../theme';
+import { Order } from '../../types';
+import { getEtaChoices, getQuotedReadyTime } from '../../utils/readyTime';
+
+interface ReadyTimePickerProps {
+  order: Order | null;
+  defaultMinutes: number;
+  onSelect: (order: Order, estimatedReadyTime: string) => void;
+  onClose: () => void;
+}
+
+const formatClock = (iso: string): string =>
+  new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+
+/**
+ * Ready time quote (shown on Accept)
+ * One tap accepts the order and promises it that many minutes from now.
+ */
+export const ReadyTimePicker: React.FC<ReadyTimePickerProps> = ({ order, defaultMinutes, onSelect, onClose }) => {
+  const { theme, themeMode } = useTheme();
+  const isDarkMode = themeMode === 'dark';
+  const styles = useMemo(() => createStyles(theme, isDarkMode), [theme, isDarkMode]);
+  const choices = useMemo(() => getEtaChoices(defaultMinutes), [defaultMinutes]);
+
+  return (
+    <Modal visible={!!order} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <View style={styles.header}>
+            <View>
+              <Text style={styles.title}>⏱ Ready in…</Text>
+              {order && (
+                <Text style={styles.subtitle}>
+                  Accept #{order.order_number.slice(-4)} for {order.customer?.name || 'Walk-in'}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.close}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.choices}>
+            {choices.map((minutes) => {
+              const isDefault = minutes === defaultMinutes;
+              return (
+                <TouchableOpacity
+                  key={minutes}
+                  style={[styles.choice, isDefault && styles.choiceDefault]}
+                  onPress={() => order && onSelect(order, getQuotedReadyTime(minutes))}
+                  testID={`eta-choice-${minutes}`}
+                >
+                  <Text style={[styles.choiceMinutes, isDefault && styles.choiceTextDefault]}>{minutes} min</Text>
+                  <Text style={[styles.choiceClock, isDefault && styles.choiceTextDefault]}>
+                    {formatClock(getQuotedReadyTime(minutes))}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const createStyles = (theme: Theme, isDarkMode: boolean) =>
+  StyleSheet.create({
+    overlay: {
+      flex: 1,
+      backgroundColor: theme.overlay,
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    content: {
+      width: '90%',
+      maxWidth: 560,
+      borderRadius: 12,
+      padding: 20,
+      backgroundColor: theme.surface,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 16,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    subtitle: {
+      fontSize: 13,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    close: {
+      fontSize: 20,
+      padding: 4,
+      color: theme.text,
+    },
+    choices: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 10,
+    },
+    choice: {
+      minWidth: 92,
+      paddingVertical: 14,
+      paddingHorizontal: 12,
+      borderRadius: 10,
+      alignItems: 'center',
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      backgroundColor: isDarkMode ? 'rgba(255,255,255,0.06)' : '#f3f4f6',
+    },
+    choiceDefault: {
+      borderColor: '#22c55e',
+      backgroundColor: '#22c55e',
+    },
+    choiceMinutes: {
+      fontSize: 20,
+      fontWeight: '800',
+      color: theme.text,
+    },
+    choiceClock: {
+      fontSize: 12,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    choiceTextDefault: {
+      color: '#fff',
+    },
+  });
+
+export default ReadyTimePicker;
@@ -7,3 +7,9 @@ export { KanbanBoard3Col } from './KanbanBoard3Col';
 export { ExpandableOrderCard } from './ExpandableOrderCard';
 export { DraggableOrderCard } from './DraggableOrderCard';
 export { OrdersBottomDock } from './OrdersBottomDock';
+export { PrintQueuePanel } from './PrintQueuePanel';
+export { AllDayPanel } from './AllDayPanel';
+export { PendingSyncPanel } from './PendingSyncPanel';
+export { OrderSearchPanel } from './OrderSearchPanel';
+export { ReadyTimePicker } from './ReadyTimePicker';
+export { CancelOrderPanel } from './CancelOrderPanel';
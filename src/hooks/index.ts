@@ -3,3 +3,8 @@ export { useOrderNotifications } from './useOrderNotifications';
 export { useHeartbeat } from './useHeartbeat';
 export { useAppUpdates } from './useAppUpdates';
 export { useVersionGate } from './useVersionGate';
+export { usePrintQueue } from './usePrintQueue';
+export { usePrinterStatus } from './usePrinterStatus';
+export { useRealtimeOrders } from './useRealtimeOrders';
+export { useRealtimeStatus } from './useRealtimeStatus';
+export { useOrderHistory } from './useOrderHistory';
@@ -3,6 +3,9 @@ import { AppState, AppStateStatus } from 'react-native';
 import { useStore } from '../store/useStore';
 import { apiClient } from '../api/client';
 import { detectStuckOrders } from '../utils/stuckOrderDetection';
+import { DEFAULT_SCHEDULED_LEAD_MINUTES } from '../utils/scheduledOrders';
+import { applyAlertRuleUpdates, resolveAlertRules } from '../services/tickets';
+import { getHeartbeatPrinterStatus } from '../services/printService';
 
 const APP_VERSION = '1.4.23';
 const HEARTBEAT_INTERVAL = 60000; // 1 minute
@@ -23,7 +26,7 @@ export const useHeartbeat = () => {
     }
 
     // Detect stuck orders from current order list
-    const stuckOrders = detectStuckOrders(orders.orders);
+    const stuckOrders = detectStuckOrders(orders.orders, settings.scheduledLeadMinutes ?? DEFAULT_SCHEDULED_LEAD_MINUTES);
     
     if (stuckOrders.length > 0) {
       console.log('[Heartbeat] Detected stuck orders:', stuckOrders.length);
@@ -34,7 +37,7 @@ export const useHeartbeat = () => {
       const response = await apiClient.sendHeartbeat({
         app_version: APP_VERSION,
         battery_level: 100, // TODO: Get actual battery level
-        printer_status: settings.printerConnected ? 'connected' : 'disconnected',
+        printer_status: getHeartbeatPrinterStatus(settings.printerConnected),
         stuck_orders: stuckOrders.length > 0 ? stuckOrders : undefined,
       });
 
@@ -48,6 +51,12 @@ export const useHeartbeat = () => {
             autoPrint: updates.auto_print ?? settings.autoPrint,
             soundEnabled: updates.sound_enabled ?? settings.soundEnabled,
             pollIntervalMs: updates.poll_interval_ms ?? settings.pollIntervalMs,
+            ...(updates.alert_keywords && {
+              alertKeywordRules: applyAlertRuleUpdates(
+                resolveAlertRules(settings.alertKeywordRules),
+                updates.alert_keywords
+              ),
+            }),
           });
         }
       }
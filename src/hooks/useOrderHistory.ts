@@ -0,0 +1,15 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getOrderHistorySnapshot, loadOrderHistory, subscribeOrderHistory } from '../services/orderHistory';
+
+/**
+ * Hook to read the local order history cache (loads it on first use)
+ */
+export const useOrderHistory = () => {
+  const history = useSyncExternalStore(subscribeOrderHistory, getOrderHistorySnapshot);
+
+  useEffect(() => {
+    loadOrderHistory();
+  }, []);
+
+  return history;
+};
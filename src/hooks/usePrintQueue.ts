@@ -0,0 +1,21 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  getPrintQueueSnapshot,
+  loadPrintQueue,
+  processPrintQueue,
+  subscribePrintQueue,
+} from '../services/printQueue';
+
+/**
+ * Hook to read the print job queue
+ * Loads the persisted queue on first use and picks up any jobs left over from the last session
+ */
+export const usePrintQueue = () => {
+  const queue = useSyncExternalStore(subscribePrintQueue, getPrintQueueSnapshot);
+
+  useEffect(() => {
+    loadPrintQueue().then(() => processPrintQueue());
+  }, []);
+
+  return queue;
+};
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getPrinterStatus, subscribePrinterStatus } from '../services/printService';
+
+/**
+ * Hook to read the printer's last reported condition (paper, cover, cutter)
+ * Polling happens in OrdersListScreen alongside the connection check
+ */
+export const usePrinterStatus = () => useSyncExternalStore(subscribePrinterStatus, getPrinterStatus);
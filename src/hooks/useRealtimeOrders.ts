@@ -0,0 +1,26 @@
+import { useEffect } from 'react';
+import { useStore } from '../store/useStore';
+import { startRealtime, stopRealtime } from '../api/realtime';
+
+/**
+ * Hook to keep the realtime order channel open while logged in and online
+ * Pushed events go straight into the store; each (re)connect runs a delta
+ * fetch to pick up anything sent while the channel was down
+ */
+export const useRealtimeOrders = () => {
+  const isAuthenticated = useStore((state) => state.auth.isAuthenticated);
+  const isOnline = useStore((state) => state.offline.isOnline);
+
+  useEffect(() => {
+    if (!isAuthenticated || !isOnline) {
+      stopRealtime();
+      return;
+    }
+
+    startRealtime({
+      onEvent: (event) => useStore.getState().applyRealtimeEvent(event),
+      onConnected: () => useStore.getState().fetchOrders(),
+    });
+    return () => stopRealtime();
+  }, [isAuthenticated, isOnline]);
+};
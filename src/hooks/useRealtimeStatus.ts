@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getRealtimeStatus, subscribeRealtimeStatus } from '../api/realtime';
+
+/**
+ * Hook to read the realtime order channel's state (live / reconnecting / polling)
+ */
+export const useRealtimeStatus = () => useSyncExternalStore(subscribeRealtimeStatus, getRealtimeStatus);
@@ -9,12 +9,16 @@ import { LoginScreen } from '../screens/LoginScreen';
 import { OrdersListScreen } from '../screens/OrdersListScreen';
 import { OrderDetailScreen } from '../screens/OrderDetailScreen';
 import { SettingsScreen } from '../screens/SettingsScreen';
+import { ReportsScreen } from '../screens/ReportsScreen';
+import { OrderHistoryScreen } from '../screens/OrderHistoryScreen';
 
 export type RootStackParamList = {
   Login: undefined;
   Orders: undefined;
   OrderDetail: { orderId: string };
   Settings: undefined;
+  Reports: undefined;
+  OrderHistory: undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -78,6 +82,22 @@ export const AppNavigator: React.FC = () => {
                 orientation: 'default',
               }}
             />
+            <Stack.Screen
+              name="Reports"
+              component={ReportsScreen}
+              options={{
+                animation: 'slide_from_right',
+                orientation: 'default',
+              }}
+            />
+            <Stack.Screen
+              name="OrderHistory"
+              component={OrderHistoryScreen}
+              options={{
+                animation: 'slide_from_right',
+                orientation: 'default',
+              }}
+            />
           </>
         )}
       </Stack.Navigator>
@@ -11,8 +11,10 @@ import {
 import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useStore } from '../store/useStore';
-import { OrderStatus } from '../types';
+import { CancelReason, Order, OrderStatus } from '../types';
 import { printOrder } from '../services/printService';
+import { queueCancellationSlip } from '../services/printQueue';
+import { CancelOrderPanel } from '../components/orders';
 
 type RootStackParamList = {
   Orders: undefined;
@@ -56,8 +58,9 @@ export const OrderDetailScreen: React.FC = () => {
 
   const [isUpdating, setIsUpdating] = useState(false);
   const [isPrinting, setIsPrinting] = useState(false);
+  const [showCancelPanel, setShowCancelPanel] = useState(false);
 
-  const { orders, fetchOrder, updateOrderStatus, settings } = useStore();
+  const { orders, fetchOrder, updateOrderStatus, cancelOrder, settings } = useStore();
   const order = orders.selectedOrder || orders.orders.find((o) => o.id === orderId);
 
   useEffect(() => {
@@ -88,20 +91,24 @@ export const OrderDetailScreen: React.FC = () => {
     [order, updateOrderStatus]
   );
 
+  // Asks for a reason first - see CancelOrderPanel
   const handleCancel = useCallback(() => {
-    Alert.alert(
-      'Cancel Order',
-      'Are you sure you want to cancel this order? This action cannot be undone.',
-      [
-        { text: 'No', style: 'cancel' },
-        {
-          text: 'Yes, Cancel Order',
-          style: 'destructive',
-          onPress: () => handleStatusUpdate('cancelled'),
-        },
-      ]
-    );
-  }, [handleStatusUpdate]);
+    setShowCancelPanel(true);
+  }, []);
+
+  // Cancel with the reason, then print the slip for the line
+  const handleConfirmCancel = useCallback(
+    async (target: Order, reason: CancelReason) => {
+      setIsUpdating(true);
+      const success = await cancelOrder(target, reason);
+      setIsUpdating(false);
+      if (success) {
+        void queueCancellationSlip(target);
+      }
+      return success;
+    },
+    [cancelOrder]
+  );
 
   const handlePrint = useCallback(async () => {
     if (!order) return;
@@ -331,6 +338,12 @@ export const OrderDetailScreen: React.FC = () => {
           )}
         </View>
       )}
+
+      <CancelOrderPanel
+        order={showCancelPanel ? order : null}
+        onConfirm={handleConfirmCancel}
+        onClose={() => setShowCancelPanel(false)}
+      />
     </View>
   );
 };
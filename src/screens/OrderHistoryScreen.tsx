@@ -0,0 +1,456 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  Modal,
+  useWindowDimensions,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useStore } from '../store/useStore';
+import { apiClient } from '../api/client';
+import { cacheOrders } from '../services/orderHistory';
+import { printOrderNow, queueCancellationSlip } from '../services/printQueue';
+import { useOrderHistory } from '../hooks/useOrderHistory';
+import { OrderDetailPanel } from '../components/orders/OrderDetailPanel';
+import { useTheme, type Theme } from '../theme';
+import { CancelReason, Order, OrderStatus } from '../types';
+import { DEFAULT_BUSINESS_DAY_START_HOUR } from '../utils/salesReport';
+import {
+  collectHistoryOrders,
+  getHistoryRange,
+  getServerStatusFilter,
+  HistoryRangePreset,
+  HistoryStatusFilter,
+  HistoryTypeFilter,
+} from '../utils/orderHistoryFilters';
+
+type RootStackParamList = {
+  Orders: undefined;
+  Settings: undefined;
+  OrderHistory: undefined;
+};
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'OrderHistory'>;
+
+const HISTORY_PAGE_SIZE = 50;
+
+const RANGE_OPTIONS: Array<[HistoryRangePreset, string]> = [
+  ['today', 'Today'],
+  ['yesterday', 'Yesterday'],
+  ['week', '7 days'],
+  ['two_weeks', '14 days'],
+  ['month', '30 days'],
+];
+
+const STATUS_OPTIONS: Array<[HistoryStatusFilter, string]> = [
+  ['all', 'All'],
+  ['open', 'Open'],
+  ['completed', 'Completed'],
+  ['cancelled', 'Cancelled'],
+];
+
+const TYPE_OPTIONS: Array<[HistoryTypeFilter, string]> = [
+  ['all', 'All types'],
+  ['pickup', '🏃 Pickup'],
+  ['delivery', '🚗 Delivery'],
+  ['dine_in', '🍽️ Dine In'],
+];
+
+// Finished orders go back to the kitchen; open ones can be reopened from the detail panel
+const REOPENABLE_STATUSES: OrderStatus[] = ['ready', 'out_for_delivery', 'delivered', 'completed', 'cancelled'];
+
+const money = (amount: number) => `$${amount.toFixed(2)}`;
+
+const formatWhen = (dateString: string) =>
+  new Date(dateString).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+type LoadState = 'loading' | 'done' | 'error';
+
+/**
+ * Order history browser
+ * Pages through the server for a date range; orders seen before are kept on
+ * the tablet, so recent history is still there offline. Any past order can be
+ * opened, reprinted or sent back to the kitchen when a customer calls.
+ */
+export const OrderHistoryScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const { width, height } = useWindowDimensions();
+  const { theme, themeMode } = useTheme();
+  const isDarkMode = themeMode === 'dark';
+  const styles = useMemo(() => createStyles(theme, isDarkMode), [theme, isDarkMode]);
+  const contentMaxWidth = width > height ? 900 : undefined;
+
+  const { settings, orders, offline, reopenOrder, cancelOrder } = useStore();
+  const history = useOrderHistory();
+  const startHour = settings.businessDayStartHour ?? DEFAULT_BUSINESS_DAY_START_HOUR;
+
+  const [rangePreset, setRangePreset] = useState<HistoryRangePreset>('today');
+  const [statusFilter, setStatusFilter] = useState<HistoryStatusFilter>('all');
+  const [typeFilter, setTypeFilter] = useState<HistoryTypeFilter>('all');
+  const [serverOrders, setServerOrders] = useState<Order[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadState, setLoadState] = useState<LoadState>('loading');
+  const [detailOrder, setDetailOrder] = useState<Order | null>(null);
+  // Pages that arrive after the filters changed belong to the old query
+  const queryId = useRef(0);
+
+  const range = useMemo(() => getHistoryRange(rangePreset, new Date(), startHour), [rangePreset, startHour]);
+  const filters = useMemo(() => ({ range, status: statusFilter, type: typeFilter }), [range, statusFilter, typeFilter]);
+
+  const loadPage = useCallback(
+    async (cursor: string | null) => {
+      const id = queryId.current;
+      setLoadState('loading');
+      const result = await apiClient.getOrders({
+        created_from: range.start.toISOString(),
+        created_to: range.end.toISOString(),
+        status: getServerStatusFilter(statusFilter),
+        order_type: typeFilter === 'all' ? undefined : typeFilter,
+        limit: HISTORY_PAGE_SIZE,
+        ...(cursor ? { cursor } : {}),
+      });
+      if (id !== queryId.current) return;
+
+      if (result.success && result.data) {
+        const page = result.data.orders;
+        cacheOrders(page);
+        setServerOrders((previous) => (cursor ? [...previous, ...page] : page));
+        setNextCursor(result.data.has_more ? result.data.next_cursor ?? null : null);
+        setLoadState('done');
+      } else {
+        console.warn('[History] Could not load orders, showing the ones on this tablet:', result.error);
+        setLoadState('error');
+      }
+    },
+    [range, statusFilter, typeFilter]
+  );
+
+  useEffect(() => {
+    queryId.current += 1;
+    setServerOrders([]);
+    setNextCursor(null);
+    loadPage(null);
+  }, [loadPage]);
+
+  // Live board first (newest status), then what the server sent, then the local cache
+  const shownOrders = useMemo(
+    () => collectHistoryOrders([orders.orders, serverOrders, history.orders], filters),
+    [orders.orders, serverOrders, history.orders, filters]
+  );
+  const shownDetailOrder = detailOrder
+    ? orders.orders.find((order) => order.id === detailOrder.id) || detailOrder
+    : null;
+
+  const handleReprint = useCallback(
+    async (order: Order) => {
+      if (!settings.printerMacAddress) {
+        Alert.alert('No Printer Configured', 'Please connect a printer in Settings first.');
+        return;
+      }
+      const job = await printOrderNow(order, { type: settings.defaultPrintType || 'kitchen', source: 'manual' });
+      if (!job) {
+        Alert.alert('Already Printing', `Order #${order.order_number} is already in the print queue.`);
+        return;
+      }
+      if (job.state !== 'printed') {
+        console.error(`[History] ❌ Reprint of #${order.order_number} did not print:`, job.last_error);
+        Alert.alert(
+          'Print Failed',
+          `${job.last_error || 'Could not print the order.'}\n\nThe reprint is in the print queue and will print when the printer reconnects.`
+        );
+      }
+    },
+    [settings.printerMacAddress, settings.defaultPrintType]
+  );
+
+  const handleReopen = useCallback(
+    (order: Order) => {
+      Alert.alert(
+        'Reopen Order',
+        `Send order #${order.order_number} back to the kitchen? It will show on the board as preparing.`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Reopen',
+            onPress: async () => {
+              if (await reopenOrder(order)) {
+                setDetailOrder(null);
+              }
+            },
+          },
+        ]
+      );
+    },
+    [reopenOrder]
+  );
+
+  const handleStatusChange = useCallback(
+    async (orderId: string, status: string) => {
+      const order = shownOrders.find((o) => o.id === orderId) || shownDetailOrder;
+      if (order) {
+        await reopenOrder(order, status as OrderStatus);
+      }
+    },
+    [shownOrders, shownDetailOrder, reopenOrder]
+  );
+
+  const handleCancelOrder = useCallback(
+    async (order: Order, reason: CancelReason) => {
+      const success = await cancelOrder(order, reason);
+      if (success) {
+        void queueCancellationSlip(order);
+      }
+      return success;
+    },
+    [cancelOrder]
+  );
+
+  const renderChips = <T extends string>(options: Array<[T, string]>, selected: T, onSelect: (value: T) => void) => (
+    <View style={styles.chips}>
+      {options.map(([value, label]) => (
+        <TouchableOpacity
+          key={value}
+          style={[styles.chip, value === selected && styles.chipSelected]}
+          onPress={() => onSelect(value)}
+        >
+          <Text style={[styles.chipText, value === selected && styles.chipTextSelected]}>{label}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.backText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Order History</Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={[styles.contentContainer, { maxWidth: contentMaxWidth }]}>
+        {renderChips(RANGE_OPTIONS, rangePreset, setRangePreset)}
+        {renderChips(STATUS_OPTIONS, statusFilter, setStatusFilter)}
+        {renderChips(TYPE_OPTIONS, typeFilter, setTypeFilter)}
+
+        {(loadState === 'error' || !offline.isOnline) && (
+          <Text style={styles.warning}>Can't reach the server - showing orders saved on this tablet (last 14 days).</Text>
+        )}
+
+        <Text style={styles.sectionTitle}>{`${shownOrders.length} order${shownOrders.length === 1 ? '' : 's'}`}</Text>
+        <View style={styles.card}>
+          {shownOrders.map((order) => (
+            <TouchableOpacity key={order.id} style={styles.row} onPress={() => setDetailOrder(order)}>
+              <View style={styles.info}>
+                <Text style={styles.orderTitle} numberOfLines={1}>
+                  {`#${order.order_number}  ${order.customer?.name || 'Guest'}`}
+                </Text>
+                <Text style={styles.meta}>
+                  {`${formatWhen(order.created_at)} · ${TYPE_OPTIONS.find(([type]) => type === order.order_type)?.[1] ?? order.order_type} · ${money(order.total)}`}
+                </Text>
+              </View>
+              <Text style={[styles.status, order.status === 'cancelled' && styles.cancelled]}>
+                {order.status.replace(/_/g, ' ')}
+              </Text>
+              <TouchableOpacity style={styles.actionBtn} onPress={() => handleReprint(order)}>
+                <Text style={styles.actionText}>🖨️</Text>
+              </TouchableOpacity>
+              {REOPENABLE_STATUSES.includes(order.status) && (
+                <TouchableOpacity style={styles.actionBtn} onPress={() => handleReopen(order)}>
+                  <Text style={styles.actionText}>↩ Reopen</Text>
+                </TouchableOpacity>
+              )}
+            </TouchableOpacity>
+          ))}
+          {shownOrders.length === 0 && loadState !== 'loading' && (
+            <Text style={styles.empty}>No orders match these filters</Text>
+          )}
+        </View>
+
+        {loadState === 'loading' ? (
+          <ActivityIndicator style={styles.loading} color="#22c55e" />
+        ) : loadState === 'error' && offline.isOnline ? (
+          <TouchableOpacity style={styles.moreButton} onPress={() => loadPage(serverOrders.length > 0 ? nextCursor : null)}>
+            <Text style={styles.moreText}>Retry</Text>
+          </TouchableOpacity>
+        ) : nextCursor ? (
+          <TouchableOpacity style={styles.moreButton} onPress={() => loadPage(nextCursor)}>
+            <Text style={styles.moreText}>Load older orders</Text>
+          </TouchableOpacity>
+        ) : null}
+      </ScrollView>
+
+      <Modal visible={!!shownDetailOrder} animationType="slide" onRequestClose={() => setDetailOrder(null)}>
+        <OrderDetailPanel
+          order={shownDetailOrder}
+          onStatusChange={handleStatusChange}
+          onCancelOrder={handleCancelOrder}
+          onClose={() => setDetailOrder(null)}
+          printerConnected={settings.printerConnected ?? false}
+          kitchenStations={settings.kitchenStations}
+        />
+      </Modal>
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme, isDarkMode: boolean) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      backgroundColor: theme.headerBg,
+      padding: 16,
+      borderBottomWidth: 2,
+      borderBottomColor: theme.headerBorder,
+    },
+    backButton: {
+      padding: 8,
+      minWidth: 80,
+    },
+    backText: {
+      fontSize: 16,
+      color: isDarkMode ? '#22c55e' : '#15803d',
+      fontWeight: '600',
+    },
+    headerTitle: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: theme.text,
+    },
+    headerSpacer: {
+      minWidth: 80,
+    },
+    content: {
+      flex: 1,
+    },
+    contentContainer: {
+      padding: 20,
+      alignSelf: 'center',
+      width: '100%',
+    },
+    chips: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 12,
+    },
+    chip: {
+      paddingHorizontal: 14,
+      paddingVertical: 8,
+      borderRadius: 18,
+      backgroundColor: theme.surface,
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+    },
+    chipSelected: {
+      backgroundColor: '#22c55e',
+      borderColor: '#22c55e',
+    },
+    chipText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    chipTextSelected: {
+      color: '#fff',
+    },
+    warning: {
+      fontSize: 13,
+      color: '#f59e0b',
+      textAlign: 'center',
+      marginBottom: 12,
+    },
+    sectionTitle: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: theme.textSecondary,
+      textTransform: 'uppercase',
+      marginTop: 8,
+      marginBottom: 10,
+      marginLeft: 4,
+      letterSpacing: 0.5,
+    },
+    card: {
+      backgroundColor: theme.surface,
+      borderRadius: 12,
+      overflow: 'hidden',
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      marginBottom: 16,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 10,
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.cardBorder,
+    },
+    info: {
+      flex: 1,
+    },
+    orderTitle: {
+      fontSize: 15,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    meta: {
+      fontSize: 12,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    status: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.text,
+      textTransform: 'capitalize',
+    },
+    cancelled: {
+      color: '#ef4444',
+    },
+    actionBtn: {
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 8,
+      backgroundColor: isDarkMode ? '#374151' : '#e2e8f0',
+    },
+    actionText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    empty: {
+      padding: 16,
+      fontSize: 14,
+      color: theme.textMuted,
+    },
+    loading: {
+      marginVertical: 12,
+    },
+    moreButton: {
+      paddingVertical: 12,
+      borderRadius: 8,
+      alignItems: 'center',
+      backgroundColor: '#3b82f6',
+    },
+    moreText: {
+      color: '#fff',
+      fontSize: 14,
+      fontWeight: '600',
+    },
+  });
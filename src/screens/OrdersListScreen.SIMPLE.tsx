@@ -21,16 +21,18 @@ import {
   printKitchenTicket, 
   printCustomerReceipt, 
   printBoth,
+  printItemLabels,
   connectPrinter, 
   isPrinterConnected 
 } from '../services/printService';
 
 // Print type options
-type PrintType = 'kitchen' | 'receipt' | 'both';
+type PrintType = 'kitchen' | 'receipt' | 'both' | 'labels';
 const PRINT_TYPES: { key: PrintType; label: string; icon: string }[] = [
   { key: 'kitchen', label: 'Kitchen', icon: '🍳' },
   { key: 'receipt', label: 'Receipt', icon: '🧾' },
   { key: 'both', label: 'Both', icon: '📋' },
+  { key: 'labels', label: 'Labels', icon: '🏷️' },
 ];
 
 type RootStackParamList = {
@@ -118,17 +120,20 @@ export const OrdersListScreen: React.FC = () => {
 
   // Print order using selected print type
   const doPrint = useCallback(async (order: Order, printType: PrintType): Promise<boolean> => {
+    const stations = settings?.kitchenStations ?? [];
     switch (printType) {
       case 'kitchen':
-        return await printKitchenTicket(order);
+        return await printKitchenTicket(order, stations);
       case 'receipt':
         return await printCustomerReceipt(order);
       case 'both':
-        return await printBoth(order);
+        return await printBoth(order, stations);
+      case 'labels':
+        return await printItemLabels(order);
       default:
-        return await printKitchenTicket(order);
+        return await printKitchenTicket(order, stations);
     }
-  }, []);
+  }, [settings?.kitchenStations]);
 
   // Auto-print new orders
   const autoPrintOrder = useCallback(async (order: Order) => {
@@ -208,7 +213,7 @@ export const OrdersListScreen: React.FC = () => {
       if (settings.printerMacAddress && !isPrinterConnected()) {
         console.log(`[AutoConnect] Attempting to reconnect to ${settings.printerName}...`);
         try {
-          const success = await connectPrinter(settings.printerMacAddress);
+          const success = await connectPrinter(settings.printerMacAddress, settings.printerType ?? 'bluetooth');
           if (success) {
             console.log('[AutoConnect] ✓ Reconnected successfully!');
             updateSettings({ printerConnected: true });
@@ -290,7 +295,7 @@ export const OrdersListScreen: React.FC = () => {
   }, [printerConnected, selectedPrintType, doPrint]);
 
   const handleRefresh = useCallback(() => {
-    fetchOrders();
+    fetchOrders({ full: true });
   }, [fetchOrders]);
 
   // Categorize orders for the print-focused view
@@ -1,4 +1,4 @@
-import React, { useEffect, useCallback, useRef, useState } from 'react';
+import React, { useEffect, useCallback, useMemo, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -9,30 +9,48 @@ import {
   ActivityIndicator,
   Alert,
   Vibration,
+  Modal,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 // import { Audio } from 'expo-av'; // Temporarily disabled
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useStore } from '../store/useStore';
-import { Order, OrderStatus } from '../types';
+import { CancelReason, Order, OrderStatus, PrinterState, TabletServiceConfig } from '../types';
 import { 
-  printKitchenTicket, 
-  printCustomerReceipt, 
-  printBoth,
   connectPrinter, 
   isPrinterConnected,
-  ensureConnected,
   verifyConnection,
   getConnectedPrinterAddress,
   disconnectPrinter,
+  getPrinterStatus,
+  refreshPrinterStatus,
+  PRINTER_STATE_MESSAGES,
 } from '../services/printService';
-import { OrderListItem, OrderDetailPanel, OrderFilters, FilterStatus, KanbanBoard, OrdersBottomDock } from '../components/orders';
+import { isPrinterStateHealthy } from '../services/escpos';
+import {
+  enqueuePrintJob,
+  processPrintQueue,
+  getPrintJob,
+  isBacklogJob,
+  markOrderPrinted,
+  queueCancellationSlip,
+  queueDriverSlip,
+  releaseBacklog,
+  resumePrintQueue,
+} from '../services/printQueue';
+import { buildAllDaySummary } from '../services/tickets';
+import { cacheOrders } from '../services/orderHistory';
+import { usePrintQueue, usePrinterStatus, useRealtimeStatus } from '../hooks';
+import { describeOrderChange } from '../utils/orderChanges';
+import { DEFAULT_SCHEDULED_LEAD_MINUTES, getBoardTime, getNextFireDelayMs, splitScheduledOrders } from '../utils/scheduledOrders';
+import { getDefaultPrepMinutes } from '../utils/readyTime';
+import { OrderListItem, OrderDetailPanel, OrderFilters, FilterStatus, KanbanBoard, OrdersBottomDock, PrintQueuePanel, AllDayPanel, PendingSyncPanel, OrderSearchPanel, ReadyTimePicker, CancelOrderPanel } from '../components/orders';
 import { KanbanBoard4Col } from '../components/orders/KanbanBoard4Col';
 import { KanbanBoard3Col } from '../components/orders/KanbanBoard3Col';
 import { useTheme } from '../theme';
 import { apiClient } from '../api/client';
+import { isRealtimeConnected } from '../api/realtime';
 // useHeartbeat removed - already running at app root (App.tsx)
 
 type RootStackParamList = {
@@ -44,15 +62,6 @@ type RootStackParamList = {
 type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Orders'>;
 type PrintType = 'kitchen' | 'receipt' | 'both';
 
-// Storage key for printed orders
-const PRINTED_ORDERS_KEY = '@printed_order_ids';
-
-// Storage key for backlogged orders (arrived while printer was off)
-const BACKLOGGED_ORDERS_KEY = '@backlogged_order_ids';
-
-// Storage key for print counts (tracks how many times each order was printed)
-const PRINT_COUNTS_KEY = '@order_print_counts';
-
 // How often to ping for backlogged orders (in ms)
 const BACKLOG_ALERT_INTERVAL_MS = 60000; // 60 seconds (1 minute)
 
@@ -60,6 +69,18 @@ const BACKLOG_ALERT_INTERVAL_MS = 60000; // 60 seconds (1 minute)
 const PRINTER_VERIFY_INTERVAL_MS = 15000; // 15 seconds
 const PRINTER_DISCONNECT_ALERT_MS = 120000; // 2 minutes before alerting
 
+// Printer status banner - shown for anything but ok/unknown
+const PRINTER_STATE_ICONS: Record<PrinterState, string> = {
+  ok: '🖨️',
+  unknown: '🖨️',
+  offline: '🔌',
+  paper_low: '🧻',
+  paper_out: '🧻',
+  cover_open: '📂',
+  cutter_error: '✂️',
+  error: '⚠️',
+};
+
 // ⚠️ CRITICAL SAFETY: Maximum age (in minutes) for auto-printing
 // Orders older than this will NEVER auto-print - they go to backlog instead
 // This prevents infinite print loops if orders get "stuck" in pending status
@@ -72,6 +93,7 @@ const MAX_PRINT_COUNT = 2;
 const WATCHDOG_CHECK_INTERVAL_MS = 30000; // Every 30s
 const WATCHDOG_STALE_WARNING_MS = 2 * 60 * 1000; // Warn/recover after 2 minutes
 const WATCHDOG_RECOVERY_COOLDOWN_MS = 60 * 1000; // Max once per minute
+const REALTIME_POLL_INTERVAL_MS = 60 * 1000; // Safety-net poll while orders are pushed live
 
 const formatElapsedTime = (ms: number): string => {
   const minutes = Math.floor(ms / 60000);
@@ -86,6 +108,7 @@ export const OrdersListScreen: React.FC = () => {
   const insets = useSafeAreaInsets();
   const pollIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const lastKnownOrderIds = useRef<Set<string>>(new Set());
+  const initialOrdersSeen = useRef(false);
   
   // NOTE: Heartbeat removed - already running at app root (App.tsx)
   // Having it here caused duplicate heartbeats (2x network, 2x battery drain)
@@ -100,79 +123,26 @@ export const OrdersListScreen: React.FC = () => {
   const [locationLogoUrl, setLocationLogoUrl] = useState<string | null>(null);
   const lastRecoveryAttemptAt = useRef(0);
   
-  // PRINTED ORDER TRACKING - React state so we properly wait for it to load
-  const [printedOrderIds, setPrintedOrderIds] = useState<Set<string>>(new Set());
-  const [printedIdsLoaded, setPrintedIdsLoaded] = useState(false);
-  
-  // BACKLOGGED ORDER TRACKING - Orders that arrived while printer was offline
-  const [backloggedOrderIds, setBackloggedOrderIds] = useState<Set<string>>(new Set());
-  const [backlogIdsLoaded, setBacklogIdsLoaded] = useState(false);
+  // PRINT TRACKING - printed / backlogged / print counts all come from the print job queue
+  const printQueue = usePrintQueue();
+  const printerStatus = usePrinterStatus();
+  const realtimeStatus = useRealtimeStatus();
+  const [showPrintQueue, setShowPrintQueue] = useState(false);
+  const printedOrderIds = useMemo(() => new Set(Object.keys(printQueue.history)), [printQueue.history]);
+  const printCounts = useMemo(
+    () => new Map(Object.entries(printQueue.history).map(([orderId, entry]) => [orderId, entry.count])),
+    [printQueue.history]
+  );
+  // BACKLOGGED ORDERS - arrived while printer was offline, or their print failed
+  const backloggedOrderIds = useMemo(
+    () => new Set(printQueue.jobs.filter(isBacklogJob).map((job) => job.order_id)),
+    [printQueue.jobs]
+  );
   const backlogAlertInterval = useRef<NodeJS.Timeout | null>(null);
   
-  // PRINT COUNT TRACKING - Prevents infinite print loops (safety limit)
-  const [printCounts, setPrintCounts] = useState<Map<string, number>>(new Map());
-  const [printCountsLoaded, setPrintCountsLoaded] = useState(false);
-  
   // Alert sound - temporarily disabled
   // const alertSoundRef = useRef<Audio.Sound | null>(null);
   
-  // Track orders currently being printed to prevent double-triggers
-  const currentlyPrinting = useRef<Set<string>>(new Set());
-  
-  // Load printed IDs from storage on mount
-  useEffect(() => {
-    const loadPrintedIds = async () => {
-      try {
-        const stored = await AsyncStorage.getItem(PRINTED_ORDERS_KEY);
-        if (stored) {
-          const ids = JSON.parse(stored);
-          setPrintedOrderIds(new Set(ids));
-          console.log(`[PrintQueue] ✓ Loaded ${ids.length} printed order IDs`);
-        }
-      } catch (error) {
-        console.error('[PrintQueue] Error loading:', error);
-      }
-      setPrintedIdsLoaded(true); // Mark as loaded even on error
-    };
-    loadPrintedIds();
-  }, []);
-  
-  // Load backlogged order IDs from storage on mount
-  useEffect(() => {
-    const loadBacklogIds = async () => {
-      try {
-        const stored = await AsyncStorage.getItem(BACKLOGGED_ORDERS_KEY);
-        if (stored) {
-          const ids = JSON.parse(stored);
-          setBackloggedOrderIds(new Set(ids));
-          console.log(`[Backlog] ✓ Loaded ${ids.length} backlogged order IDs`);
-        }
-      } catch (error) {
-        console.error('[Backlog] Error loading:', error);
-      }
-      setBacklogIdsLoaded(true);
-    };
-    loadBacklogIds();
-  }, []);
-  
-  // Load print counts from storage on mount
-  useEffect(() => {
-    const loadPrintCounts = async () => {
-      try {
-        const stored = await AsyncStorage.getItem(PRINT_COUNTS_KEY);
-        if (stored) {
-          const counts = JSON.parse(stored);
-          setPrintCounts(new Map(Object.entries(counts)));
-          console.log(`[PrintCounts] ✓ Loaded print counts for ${Object.keys(counts).length} orders`);
-        }
-      } catch (error) {
-        console.error('[PrintCounts] Error loading:', error);
-      }
-      setPrintCountsLoaded(true);
-    };
-    loadPrintCounts();
-  }, []);
-  
   // Initialize sound on mount
   useEffect(() => {
     const loadSound = async () => {
@@ -203,115 +173,6 @@ export const OrdersListScreen: React.FC = () => {
     }
   }, []);
   
-  // Save printed IDs whenever they change
-  const savePrintedIds = useCallback(async (ids: Set<string>) => {
-    try {
-      await AsyncStorage.setItem(PRINTED_ORDERS_KEY, JSON.stringify([...ids]));
-      console.log(`[PrintQueue] ✓ Saved ${ids.size} printed IDs`);
-    } catch (error) {
-      console.error('[PrintQueue] Error saving:', error);
-    }
-  }, []);
-  
-  // Save backlogged IDs whenever they change
-  const saveBacklogIds = useCallback(async (ids: Set<string>) => {
-    try {
-      await AsyncStorage.setItem(BACKLOGGED_ORDERS_KEY, JSON.stringify([...ids]));
-      console.log(`[Backlog] ✓ Saved ${ids.size} backlogged IDs`);
-    } catch (error) {
-      console.error('[Backlog] Error saving:', error);
-    }
-  }, []);
-  
-  // Save print counts whenever they change
-  const savePrintCounts = useCallback(async (counts: Map<string, number>) => {
-    try {
-      await AsyncStorage.setItem(PRINT_COUNTS_KEY, JSON.stringify(Object.fromEntries(counts)));
-      console.log(`[PrintCounts] ✓ Saved print counts for ${counts.size} orders`);
-    } catch (error) {
-      console.error('[PrintCounts] Error saving:', error);
-    }
-  }, []);
-  
-  // Get print count for an order
-  const getPrintCount = useCallback((orderId: string): number => {
-    return printCounts.get(orderId) || 0;
-  }, [printCounts]);
-  
-  // Increment print count for an order
-  const incrementPrintCount = useCallback((orderId: string) => {
-    setPrintCounts(prev => {
-      const newMap = new Map(prev);
-      const currentCount = newMap.get(orderId) || 0;
-      newMap.set(orderId, currentCount + 1);
-      savePrintCounts(newMap);
-      console.log(`[PrintCounts] 📊 Order ${orderId} printed ${currentCount + 1} time(s)`);
-      return newMap;
-    });
-  }, [savePrintCounts]);
-  
-  // Mark order as printed
-  const markAsPrinted = useCallback((orderId: string) => {
-    setPrintedOrderIds(prev => {
-      const newSet = new Set(prev);
-      newSet.add(orderId);
-      savePrintedIds(newSet);
-      console.log(`[PrintQueue] 🖨️ Marked ${orderId} as printed`);
-      return newSet;
-    });
-    // Track print count
-    incrementPrintCount(orderId);
-    // Also remove from backlog if it was there
-    setBackloggedOrderIds(prev => {
-      if (prev.has(orderId)) {
-        const newSet = new Set(prev);
-        newSet.delete(orderId);
-        saveBacklogIds(newSet);
-        console.log(`[Backlog] ✓ Removed ${orderId} from backlog (printed)`);
-        return newSet;
-      }
-      return prev;
-    });
-  }, [savePrintedIds, saveBacklogIds, incrementPrintCount]);
-  
-  // Add order to backlog (arrived while printer was offline)
-  const addToBacklog = useCallback((orderId: string) => {
-    setBackloggedOrderIds(prev => {
-      if (!prev.has(orderId)) {
-        const newSet = new Set(prev);
-        newSet.add(orderId);
-        saveBacklogIds(newSet);
-        console.log(`[Backlog] ⚠️ Added ${orderId} to backlog (printer was offline)`);
-        return newSet;
-      }
-      return prev;
-    });
-  }, [saveBacklogIds]);
-  
-  // Clear order from backlog (manually acknowledged)
-  const removeFromBacklog = useCallback((orderId: string) => {
-    setBackloggedOrderIds(prev => {
-      if (prev.has(orderId)) {
-        const newSet = new Set(prev);
-        newSet.delete(orderId);
-        saveBacklogIds(newSet);
-        console.log(`[Backlog] ✓ Removed ${orderId} from backlog`);
-        return newSet;
-      }
-      return prev;
-    });
-  }, [saveBacklogIds]);
-  
-  // Check if order was printed
-  const wasPrinted = useCallback((orderId: string): boolean => {
-    return printedOrderIds.has(orderId);
-  }, [printedOrderIds]);
-  
-  // Check if order is backlogged
-  const isBacklogged = useCallback((orderId: string): boolean => {
-    return backloggedOrderIds.has(orderId);
-  }, [backloggedOrderIds]);
-
   // Store state
   const {
     orders,
@@ -320,10 +181,16 @@ export const OrdersListScreen: React.FC = () => {
     checkAuth,
     acknowledgeOrder,
     updateOrderStatus,
+    cancelOrder,
     settings,
     updateSettings,
     auth,
     offline,
+    orderUpdates,
+    dismissOrderUpdate,
+    retryDeadLetter,
+    discardDeadLetter,
+    resolveConflict,
   } = useStore();
 
   const printerConnected = settings?.printerConnected ?? false;
@@ -331,6 +198,28 @@ export const OrdersListScreen: React.FC = () => {
   const simplifiedView = viewMode === 'two';
   const threeColumnView = viewMode === 'three';
   const ordersList = orders?.orders || [];
+  // SCHEDULED - future orders wait in their own lane until they're within the lead time, then join New
+  const scheduledLeadMinutes = settings?.scheduledLeadMinutes ?? DEFAULT_SCHEDULED_LEAD_MINUTES;
+  const [scheduleNow, setScheduleNow] = useState(() => Date.now());
+  const { scheduled: scheduledOrders, board: boardOrders } = useMemo(
+    () => splitScheduledOrders(ordersList, scheduledLeadMinutes, scheduleNow),
+    [ordersList, scheduledLeadMinutes, scheduleNow]
+  );
+  const heldOrderIds = useRef<Set<string>>(new Set());
+  // READY TIME QUOTE - Accept asks how long; the default follows the dashboard's takeout times
+  const [quoteOrder, setQuoteOrder] = useState<Order | null>(null);
+  const [serviceConfig, setServiceConfig] = useState<TabletServiceConfig | null>(null);
+  // REJECT - a new order turned down from its card (same reasons as Cancel Order in the detail panel)
+  const [rejectOrder, setRejectOrder] = useState<Order | null>(null);
+  // ALL DAY - open item counts, recomputed as orders arrive and move along the board
+  // (scheduled orders held in their lane aren't being made yet)
+  const [showAllDay, setShowAllDay] = useState(false);
+  const allDaySummary = useMemo(() => buildAllDaySummary(boardOrders), [boardOrders]);
+  // PENDING SYNC - order changes still waiting to reach the server, and the ones that failed for good
+  const [showPendingSync, setShowPendingSync] = useState(false);
+  const deadLetters = offline.deadLetters || [];
+  const conflictCount = offline.queuedActions.filter(action => action.conflict).length;
+  const lastConflictCount = useRef(0);
   const lastFetchAtMs = orders?.lastFetchTime ? new Date(orders.lastFetchTime).getTime() : null;
   const staleFetchMs = lastFetchAtMs ? Math.max(0, healthNow - lastFetchAtMs) : null;
   const consecutiveFetchFailures = orders?.consecutiveFetchFailures ?? 0;
@@ -379,6 +268,18 @@ export const OrdersListScreen: React.FC = () => {
     ? ordersList.find(o => o.id === selectedOrderId) || null
     : null;
 
+  // SEARCH - results open in the detail panel; a past order shows as found until it's on the board again
+  const [showSearch, setShowSearch] = useState(false);
+  const [detailOrder, setDetailOrder] = useState<Order | null>(null);
+  const shownDetailOrder = detailOrder
+    ? ordersList.find(o => o.id === detailOrder.id) || detailOrder
+    : null;
+
+  // Every order seen goes into the local history so it can be found after it leaves the board
+  useEffect(() => {
+    cacheOrders(ordersList);
+  }, [ordersList]);
+
   // Print function - ONLY marks as printed if print ACTUALLY succeeds
   const handlePrint = useCallback(async (order: Order) => {
     console.log(`[Print] 🖨️ Starting print for order #${order.order_number}...`);
@@ -410,179 +311,93 @@ export const OrdersListScreen: React.FC = () => {
   }, [printCounts, performPrint]);
   
   // Actual print logic (separated to allow confirmation dialog above)
-  const performPrint = useCallback(async (order: Order) => {
-    setPrintingOrderId(order.id);
-    try {
-      // Use saved printer config and always try to re-establish Bluetooth before printing.
-      // `printerConnected` in settings can be stale after app restart or BT drops.
-      const macAddress = settings?.printerMacAddress;
-      if (!macAddress) {
-        Alert.alert('No Printer Configured', 'Please connect a printer in Settings first.');
-        setPrintingOrderId(null);
-        return;
-      }
+  // Goes through the print queue, so a failed print stays queued and retries when the printer is back
+  const performPrint = useCallback(async (order: Order, source: 'auto' | 'manual' = 'manual') => {
+    const macAddress = settings?.printerMacAddress;
+    if (!macAddress) {
+      Alert.alert('No Printer Configured', 'Please connect a printer in Settings first.');
+      return;
+    }
 
-      // Ensure we have an active connection (with one retry)
-      console.log(`[Print] 🔗 Verifying connection to ${settings?.printerName}...`);
-      let isConnected = await ensureConnected(macAddress);
-      if (!isConnected) {
-        await new Promise((resolve) => setTimeout(resolve, 400));
-        isConnected = await ensureConnected(macAddress);
-      }
-      
-      if (!isConnected) {
-        console.error('[Print] ❌ Could not establish printer connection');
-        Alert.alert(
-          'Printer Connection Failed', 
-          `Could not connect to ${settings?.printerName}.\n\nPlease check that:\n• Printer is powered on\n• Bluetooth is enabled\n• You are within range`,
-          [{ text: 'OK' }]
-        );
-        // Update settings to reflect actual state
-        updateSettings({ printerConnected: false });
-        setPrintingOrderId(null);
-        return;
-      }
+    const job = enqueuePrintJob(order, { type: settings?.defaultPrintType || 'kitchen', source });
+    if (!job) {
+      console.log(`[Print] ⚠️ Order #${order.order_number} is already in the print queue`);
+      return;
+    }
 
-      // Keep settings state in sync when reconnect succeeds during print/reprint
-      if (!printerConnected) {
-        updateSettings({ printerConnected: true });
-      }
-      
-      console.log(`[Print] ✓ Connection verified, printing...`);
-      
-      const printType = settings?.defaultPrintType || 'kitchen';
-      let success = false;
-      
-      switch (printType) {
-        case 'kitchen':
-          success = await printKitchenTicket(order);
-          break;
-        case 'receipt':
-          success = await printCustomerReceipt(order);
-          break;
-        case 'both':
-          success = await printBoth(order);
-          break;
-      }
+    setPrintingOrderId(order.id);
+    try {
+      await processPrintQueue();
+      const result = getPrintJob(job.id);
 
-      if (success) {
+      if (result?.state === 'printed') {
         console.log(`[Print] ✓ Print succeeded for order #${order.order_number}`);
-        
-        // ONLY mark as printed if print ACTUALLY succeeded
-        markAsPrinted(order.id);
         Vibration.vibrate(100);
-      } else {
-        console.error(`[Print] ❌ Print FAILED for order #${order.order_number}`);
-        // Update settings to reflect that printer may be disconnected
-        updateSettings({ printerConnected: false });
-        // Add to backlog so it can be retried
-        addToBacklog(order.id);
-        
-        // 🚨 ALERT: Sound + vibration on print failure! (if enabled)
-        if (settings?.printerAlertsEnabled ?? true) {
-          playAlertSound();
-          Vibration.vibrate([0, 1000, 300, 1000, 300, 1000]);
-        }
-        
-        Alert.alert(
-          '🚨 Print Failed!', 
-          'Could not print the order. The printer may be off or disconnected.\n\n• Check printer power\n• Check Bluetooth connection\n• Try reconnecting in Settings',
-          [
-            { text: 'OK', style: 'cancel' },
-            { text: 'Go to Settings', onPress: () => navigation.navigate('Settings' as never) }
-          ]
-        );
+        return;
       }
-    } catch (error: any) {
-      console.error('[Print] ❌ Error:', error);
-      updateSettings({ printerConnected: false });
-      // Add to backlog so it can be retried
-      addToBacklog(order.id);
+
+      console.error(`[Print] ❌ Print FAILED for order #${order.order_number}:`, result?.last_error);
       
-      // 🚨 ALERT: Sound + vibration on print error! (if enabled)
+      // 🚨 ALERT: Sound + vibration on print failure! (if enabled)
       if (settings?.printerAlertsEnabled ?? true) {
         playAlertSound();
         Vibration.vibrate([0, 1000, 300, 1000, 300, 1000]);
       }
-      
+
+      const printerType = settings?.printerType ?? 'bluetooth';
       Alert.alert(
-        '🚨 Print Error!', 
-        `${error?.message || error}\n\n• Check printer power\n• Check Bluetooth connection`,
+        '🚨 Print Failed!', 
+        `${result?.last_error || 'Could not print the order.'}\n\nThe order is in the print queue and will print when the printer reconnects.\n\n• Check printer power\n• ${printerType === 'network' ? 'Check the network cable and printer IP' : 'Check Bluetooth connection'}\n• Try reconnecting in Settings`,
         [
-            { text: 'OK', style: 'cancel' },
-            { text: 'Go to Settings', onPress: () => navigation.navigate('Settings' as never) }
+          { text: 'OK', style: 'cancel' },
+          { text: 'Print Queue', onPress: () => setShowPrintQueue(true) },
+          { text: 'Go to Settings', onPress: () => navigation.navigate('Settings' as never) }
         ]
       );
     } finally {
       setPrintingOrderId(null);
     }
-  }, [printerConnected, settings?.defaultPrintType, settings?.printerMacAddress, settings?.printerName, markAsPrinted, updateSettings, addToBacklog]);
+  }, [settings?.defaultPrintType, settings?.printerMacAddress, settings?.printerType, settings?.printerAlertsEnabled, playAlertSound]);
 
-  // Auto-print new orders - returns true if print succeeded, false if failed
-  const autoPrintOrder = useCallback(async (order: Order): Promise<boolean> => {
+  // Auto-print a new order - the queue refuses orders that were already printed or are already queued
+  const autoPrintOrder = useCallback(async (order: Order) => {
     if (!settings?.autoPrint) {
       console.log('[AutoPrint] Auto-print disabled');
-      return false;
+      return;
     }
     
     if (!settings?.printerMacAddress) {
       console.log('[AutoPrint] No printer configured - skipping auto-print');
-      return false;
-    }
-    
-    // CRITICAL: Check ACTUAL Bluetooth connection, not just stored setting
-    const actuallyConnected = isPrinterConnected();
-    if (!actuallyConnected) {
-      console.log(`[AutoPrint] ⚠️ Printer not actually connected - adding to backlog`);
-      addToBacklog(order.id);
-      updateSettings({ printerConnected: false });
-      return false;
-    }
-    
-    // PREVENT DOUBLE PRINT: Check if already printing this order
-    if (currentlyPrinting.current.has(order.id)) {
-      console.log(`[AutoPrint] ⚠️ BLOCKED - Order #${order.order_number} is already being printed`);
-      return false;
+      return;
     }
     
-    // Mark as currently printing BEFORE starting
-    currentlyPrinting.current.add(order.id);
     console.log(`[AutoPrint] 🖨️ Auto-printing order #${order.order_number}...`);
-    
-    try {
-      // Try to print - handlePrint will verify connection and print
-      await handlePrint(order);
-      
-      // Check if it was actually printed (added to printedOrderIds)
-      // Note: handlePrint only adds to printedOrderIds on success
-      // We can't check here immediately due to async state, but handlePrint
-      // handles all the success/failure logic internally
-      return true;
-    } catch (error) {
-      console.error(`[AutoPrint] ❌ Failed to print order #${order.order_number}:`, error);
-      // Print failed - add to backlog so user can retry
-      addToBacklog(order.id);
-      return false;
-    } finally {
-      // Remove from currently printing after done (success or fail)
-      currentlyPrinting.current.delete(order.id);
+    await performPrint(order, 'auto');
+  }, [settings?.autoPrint, settings?.printerMacAddress, performPrint]);
+
+  // Hold an order in the backlog (arrived while printer was offline) - it prints when staff release it
+  const addToBacklog = useCallback((order: Order) => {
+    if (enqueuePrintJob(order, { type: settings?.defaultPrintType || 'kitchen', source: 'auto', hold: true })) {
+      console.log(`[Backlog] ⚠️ Added #${order.order_number} to backlog`);
     }
-  }, [settings?.autoPrint, settings?.printerMacAddress, handlePrint, addToBacklog, updateSettings]);
+  }, [settings?.defaultPrintType]);
 
   // AUTO-PRINT - Only prints NEW orders, NEVER reprints
   // Also tracks backlogged orders (arrived while printer offline)
   // ⚠️ CRITICAL SAFETY: Multiple layers of protection against infinite print loops
   useEffect(() => {
-    // WAIT until all tracking data is loaded from storage
-    if (!printedIdsLoaded || !backlogIdsLoaded || !printCountsLoaded) {
+    // WAIT until the print queue is loaded from storage
+    if (!printQueue.loaded) {
       console.log('[AutoPrint] Waiting for tracking data to load...');
       return;
     }
     
     // First load - mark all existing orders as known (don't print old orders)
-    if (lastKnownOrderIds.current.size === 0 && ordersList.length > 0) {
-      console.log(`[AutoPrint] Initial load - ${ordersList.length} existing orders marked as known`);
-      lastKnownOrderIds.current = new Set(ordersList.map(o => o.id));
+    // Held scheduled orders stay unknown so they print as new when they come due
+    if (!initialOrdersSeen.current && ordersList.length > 0) {
+      initialOrdersSeen.current = true;
+      console.log(`[AutoPrint] Initial load - ${boardOrders.length} existing orders marked as known`);
+      lastKnownOrderIds.current = new Set(boardOrders.map(o => o.id));
       return;
     }
     
@@ -590,11 +405,11 @@ export const OrdersListScreen: React.FC = () => {
     // 1. NOT already printed (check printedOrderIds first!)
     // 2. Not in known list (just arrived)
     // 3. Status is pending
-    // 4. Created within MAX_AUTO_PRINT_AGE_MINUTES (safety limit for old orders)
+    // 4. Created (or came due, if scheduled) within MAX_AUTO_PRINT_AGE_MINUTES (safety limit for old orders)
     // 5. Print count hasn't exceeded MAX_PRINT_COUNT (prevents infinite loops)
     const maxAgeTime = new Date(Date.now() - MAX_AUTO_PRINT_AGE_MINUTES * 60 * 1000);
     
-    const newOrders = ordersList.filter(order => {
+    const newOrders = boardOrders.filter(order => {
       // SAFETY CHECK 1: Skip if already marked as printed
       if (printedOrderIds.has(order.id)) {
         return false;
@@ -611,15 +426,13 @@ export const OrdersListScreen: React.FC = () => {
       const isPending = order.status === 'pending';
       
       // SAFETY CHECK 3: Only print orders created within MAX_AUTO_PRINT_AGE_MINUTES
-      const orderAge = new Date(order.created_at);
+      const orderAge = new Date(getBoardTime(order, scheduledLeadMinutes));
       const isRecentEnough = orderAge > maxAgeTime;
       
       // If order is too old, log a warning and add to backlog instead
       if (isNewToSession && isPending && !isRecentEnough) {
         console.warn(`[AutoPrint] ⚠️ Order #${order.order_number} is too old (${Math.round((Date.now() - orderAge.getTime()) / 60000)} min old) - adding to backlog`);
-        if (!backloggedOrderIds.has(order.id)) {
-          addToBacklog(order.id);
-        }
+        addToBacklog(order);
         return false;
       }
       
@@ -636,11 +449,7 @@ export const OrdersListScreen: React.FC = () => {
       if (!actuallyConnected || !settings?.autoPrint) {
         // PRINTER OFFLINE: Add to backlog instead of printing
         console.log(`[Backlog] ⚠️ Printer ${actuallyConnected ? 'connected but auto-print off' : 'OFFLINE'} - adding ${newOrders.length} orders to backlog`);
-        newOrders.forEach(order => {
-          if (!backloggedOrderIds.has(order.id)) {
-            addToBacklog(order.id);
-          }
-        });
+        newOrders.forEach(order => addToBacklog(order));
         // Update stored state to reflect reality
         if (!actuallyConnected && printerConnected) {
           updateSettings({ printerConnected: false });
@@ -670,8 +479,8 @@ export const OrdersListScreen: React.FC = () => {
     }
     
     // Update known orders
-    lastKnownOrderIds.current = new Set(ordersList.map(o => o.id));
-  }, [ordersList, printedIdsLoaded, backlogIdsLoaded, printCountsLoaded, printedOrderIds, backloggedOrderIds, printCounts, settings?.autoPrint, printerConnected, autoPrintOrder, addToBacklog, updateSettings, playAlertSound]);
+    lastKnownOrderIds.current = new Set(boardOrders.map(o => o.id));
+  }, [ordersList, boardOrders, scheduledLeadMinutes, printQueue.loaded, printedOrderIds, backloggedOrderIds, printCounts, settings?.autoPrint, printerConnected, autoPrintOrder, addToBacklog, updateSettings, playAlertSound]);
 
   // Track if we've shown the alert popup and played initial sound (don't spam)
   const alertPopupShown = useRef(false);
@@ -683,8 +492,8 @@ export const OrdersListScreen: React.FC = () => {
   // SIMPLE ALERT: Any new-ish order that hasn't been printed = ALERT
   // Doesn't matter why it wasn't printed - just alert!
   useEffect(() => {
-    // Find ALL new-ish orders that haven't been printed
-    const unprintedPendingOrders = ordersList.filter(
+    // Find ALL new-ish orders that haven't been printed (held scheduled orders aren't due yet)
+    const unprintedPendingOrders = boardOrders.filter(
       order =>
         (order.status === 'pending' ||
           order.status === 'confirmed' ||
@@ -789,7 +598,82 @@ export const OrdersListScreen: React.FC = () => {
         backlogAlertInterval.current = null;
       }
     };
-  }, [ordersList, printedOrderIds, playAlertSound, settings?.printerAlertsEnabled, settings?.soundEnabled, settings?.printerMacAddress, navigation]);
+  }, [boardOrders, printedOrderIds, playAlertSound, settings?.printerAlertsEnabled, settings?.soundEnabled, settings?.printerMacAddress, navigation]);
+
+  // 📅 SCHEDULED: wake up when the next held order comes due (capped so a far-off order can't overflow the timer)
+  useEffect(() => {
+    const delay = getNextFireDelayMs(ordersList, scheduledLeadMinutes);
+    if (delay === null) return;
+    const timer = setTimeout(() => setScheduleNow(Date.now()), Math.min(delay, 60 * 60 * 1000));
+    return () => clearTimeout(timer);
+  }, [ordersList, scheduledLeadMinutes, scheduleNow]);
+
+  // A held order that came due is now in New - the auto-print above handles it as a new order
+  useEffect(() => {
+    const promoted = boardOrders.filter(o => heldOrderIds.current.has(o.id) && o.status === 'pending');
+    if (promoted.length > 0) {
+      console.log(`[Scheduled] ⏰ Due soon, moved to New: ${promoted.map(o => `#${o.order_number}`).join(', ')}`);
+      if (settings?.soundEnabled !== false) {
+        playAlertSound();
+      }
+      Vibration.vibrate([0, 500, 200, 500]);
+    }
+    heldOrderIds.current = new Set(scheduledOrders.map(o => o.id));
+  }, [boardOrders, scheduledOrders, playAlertSound, settings?.soundEnabled]);
+
+  // 📝 ORDER UPDATED: an order changed after its kitchen ticket printed
+  // Alert staff and print the changes (auto-print), or offer to print them
+  useEffect(() => {
+    if (orderUpdates.length === 0) return;
+
+    orderUpdates.forEach((update) => {
+      dismissOrderUpdate(update.order_id);
+      const order = ordersList.find((o) => o.id === update.order_id);
+      if (!order) return;
+
+      console.log(`[OrderUpdate] 📝 #${update.order_number} changed after printing (${update.changes.length} change(s))`);
+      if (settings?.printerAlertsEnabled !== false && settings?.soundEnabled !== false) {
+        playAlertSound();
+        Vibration.vibrate([0, 500, 200, 500]);
+      }
+
+      const printChanges = () => {
+        if (enqueuePrintJob(order, { type: 'update', source: 'auto' })) {
+          processPrintQueue();
+        }
+      };
+      const autoPrintChanges = !!settings?.autoPrint && !!settings?.printerMacAddress;
+      if (autoPrintChanges) {
+        printChanges();
+      }
+
+      const lines = update.changes.map(describeOrderChange).join('\n');
+      Alert.alert(
+        '📝 Order Updated',
+        `Order #${order.order_number} changed after its ticket printed:\n\n${lines}${autoPrintChanges ? '\n\nPrinting the changes for the kitchen.' : ''}`,
+        autoPrintChanges || !settings?.printerMacAddress
+          ? [{ text: 'OK' }]
+          : [
+              { text: 'OK', style: 'cancel' },
+              { text: 'Print Changes', onPress: printChanges },
+            ]
+      );
+    });
+  }, [orderUpdates, ordersList, dismissOrderUpdate, settings?.autoPrint, settings?.printerMacAddress, settings?.printerAlertsEnabled, settings?.soundEnabled, playAlertSound]);
+
+  // 🚗 Driver slip when a delivery goes out - whether staff moved it here or the server did
+  const lastOrderStatuses = useRef<Map<string, Order['status']>>(new Map());
+  useEffect(() => {
+    const previous = lastOrderStatuses.current;
+    ordersList.forEach((order) => {
+      const before = previous.get(order.id);
+      if (before && before !== 'out_for_delivery' && order.status === 'out_for_delivery') {
+        console.log(`[DriverSlip] 🚗 #${order.order_number} is out for delivery`);
+        void queueDriverSlip(order);
+      }
+    });
+    lastOrderStatuses.current = new Map(ordersList.map((order) => [order.id, order.status]));
+  }, [ordersList]);
 
   // Intentionally do NOT auto-move printed orders to Active.
   // Orders stay in New until staff taps Accept, which also clears ring-until-accepted.
@@ -824,7 +708,7 @@ export const OrdersListScreen: React.FC = () => {
       // Attempt to reconnect
       console.log(`[AutoReconnect] 🔄 Attempting to reconnect to ${settings.printerName || 'printer'} (${settings.printerMacAddress})...`);
       try {
-        const success = await connectPrinter(settings.printerMacAddress);
+        const success = await connectPrinter(settings.printerMacAddress, settings.printerType ?? 'bluetooth');
         if (success) {
           console.log('[AutoReconnect] ✓ Successfully reconnected to printer!');
           updateSettings({ printerConnected: true });
@@ -869,6 +753,8 @@ export const OrdersListScreen: React.FC = () => {
           // Printer just came back online! Alert user
           console.log('[PrinterCheck] 🎉 Printer is back ONLINE!');
           updateSettings({ printerConnected: true });
+          // Retry queued jobs now rather than waiting out their backoff
+          resumePrintQueue();
           
           // Play happy alert and show notification
           if (settings?.printerAlertsEnabled !== false) {
@@ -882,6 +768,19 @@ export const OrdersListScreen: React.FC = () => {
         } else {
           console.log('[PrinterCheck] ✓ Printer connected and verified');
         }
+
+        // Linked up - but does it have paper, is the cover shut? The print
+        // queue holds tickets while it isn't, so restart it once it's fixed
+        const previousState = getPrinterStatus().state;
+        const { state } = await refreshPrinterStatus();
+        if (isPrinterStateHealthy(state) && !isPrinterStateHealthy(previousState)) {
+          console.log('[PrinterCheck] 🎉 Printer problem cleared - resuming print queue');
+          resumePrintQueue();
+        } else if (!isPrinterStateHealthy(state) && isPrinterStateHealthy(previousState) && settings?.printerAlertsEnabled !== false) {
+          console.log(`[PrinterCheck] ⚠️ ${PRINTER_STATE_MESSAGES[state]}! Playing alert...`);
+          Vibration.vibrate([0, 800, 200, 800, 200, 800]);
+          playAlertSound();
+        }
         return;
       }
 
@@ -940,7 +839,7 @@ export const OrdersListScreen: React.FC = () => {
 
       try {
         await checkAuth();
-        await fetchOrders();
+        await fetchOrders({ full: true });
         setHealthNow(Date.now());
 
         if (showSuccessAlert) {
@@ -1003,6 +902,16 @@ export const OrdersListScreen: React.FC = () => {
       fetchOrders();
 
       pollIntervalRef.current = setInterval(() => {
+          // Realtime channel up: changes arrive as they happen, so only poll
+          // once a minute (keeps the watchdog fed and runs the full reconcile)
+          const lastFetch = useStore.getState().orders.lastFetchTime;
+          if (
+            isRealtimeConnected() &&
+            lastFetch &&
+            Date.now() - new Date(lastFetch).getTime() < REALTIME_POLL_INTERVAL_MS
+          ) {
+            return;
+          }
           fetchOrders();
       }, settings?.pollIntervalMs || 5000);
 
@@ -1014,6 +923,27 @@ export const OrdersListScreen: React.FC = () => {
     }, [fetchOrders, settings?.pollIntervalMs])
   );
 
+  // Takeout times for the ready time quote - busy mode may have changed on the dashboard
+  useFocusEffect(
+    useCallback(() => {
+      void apiClient.getTabletServiceConfig().then((result) => {
+        if (result.success && result.data) {
+          setServiceConfig(result.data);
+        } else {
+          console.warn('[OrdersList] Failed to fetch service config:', result.error);
+        }
+      });
+    }, [])
+  );
+
+  // A queued change collided with one made on the dashboard - put the choice in front of staff
+  useEffect(() => {
+    if (conflictCount > lastConflictCount.current) {
+      setShowPendingSync(true);
+    }
+    lastConflictCount.current = conflictCount;
+  }, [conflictCount]);
+
   // Reset filter when switching between simplified and standard view
   useEffect(() => {
     if (viewMode === 'two') {
@@ -1027,7 +957,7 @@ export const OrdersListScreen: React.FC = () => {
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
     await checkAuth();
-    await fetchOrders();
+    await fetchOrders({ full: true });
     setHealthNow(Date.now());
     setRefreshing(false);
   }, [checkAuth, fetchOrders]);
@@ -1042,9 +972,9 @@ export const OrdersListScreen: React.FC = () => {
     }
   }, [updateOrderStatus]);
 
-  const handleAcceptOrder = useCallback(async (orderId: string) => {
+  const acceptOrder = useCallback(async (orderId: string, estimatedReadyTime?: string) => {
     try {
-      const success = await acknowledgeOrder(orderId);
+      const success = await acknowledgeOrder(orderId, estimatedReadyTime);
       if (!success) {
         Alert.alert('Error', 'Failed to acknowledge order. Please try again.');
         return;
@@ -1059,6 +989,34 @@ export const OrdersListScreen: React.FC = () => {
     }
   }, [acknowledgeOrder, updateOrderStatus]);
 
+  // Accept asks for a ready time first - except scheduled orders, already promised for their due time
+  const handleAcceptOrder = useCallback((orderId: string) => {
+    const order = useStore.getState().orders.orders.find(o => o.id === orderId);
+    if (!order || order.scheduled_for) {
+      void acceptOrder(orderId);
+      return;
+    }
+    setQuoteOrder(order);
+  }, [acceptOrder]);
+
+  const handleQuoteSelect = useCallback((order: Order, estimatedReadyTime: string) => {
+    setQuoteOrder(null);
+    void acceptOrder(order.id, estimatedReadyTime);
+  }, [acceptOrder]);
+
+  // Cancel / reject with a reason, then print the slip for the line
+  const handleCancelOrder = useCallback(async (order: Order, reason: CancelReason) => {
+    const success = await cancelOrder(order, reason);
+    if (success) {
+      void queueCancellationSlip(order);
+    }
+    return success;
+  }, [cancelOrder]);
+
+  const handleRejectOrder = useCallback((orderId: string) => {
+    setRejectOrder(useStore.getState().orders.orders.find(o => o.id === orderId) ?? null);
+  }, []);
+
   // Kanban status change via tablet API endpoint (supports compatibility transitions)
   const handleKanbanStatusChange = useCallback(async (orderId: string, targetStatus: string) => {
     // Read fresh state directly from store (avoids stale closure on rapid drags)
@@ -1147,8 +1105,8 @@ export const OrdersListScreen: React.FC = () => {
 
   // Mark as printed callback (used by detail panel)
   const handlePrinted = useCallback((orderId: string) => {
-    markAsPrinted(orderId);
-  }, [markAsPrinted]);
+    markOrderPrinted(orderId);
+  }, []);
   
   // Handle printing all backlogged orders
   const handlePrintBackloggedOrders = useCallback(async () => {
@@ -1190,24 +1148,13 @@ export const OrdersListScreen: React.FC = () => {
           style: 'destructive',
           onPress: async () => {
             console.log(`[Backlog] 🖨️ Printing ${backloggedOrders.length} backlogged orders...`);
-            
-            for (let i = 0; i < backloggedOrders.length; i++) {
-              const order = backloggedOrders[i];
-              try {
-                await handlePrint(order);
-                // Small delay between prints
-                await new Promise(resolve => setTimeout(resolve, 1500));
-              } catch (error) {
-                console.error(`[Backlog] ❌ Failed to print order #${order.order_number}:`, error);
-              }
-            }
-            
+            await releaseBacklog(backloggedOrders.map(o => o.id));
             console.log('[Backlog] ✓ Finished printing backlogged orders');
           }
         }
       ]
     );
-  }, [printerConnected, ordersList, backloggedOrderIds, handlePrint]);
+  }, [settings?.printerMacAddress, ordersList, backloggedOrderIds]);
 
   // Filter orders
   const getFilteredOrders = useCallback(() => {
@@ -1257,12 +1204,12 @@ export const OrdersListScreen: React.FC = () => {
     o => backloggedOrderIds.has(o.id) && o.status === 'pending'
   ).length;
 
-  const twoColNewOrders = ordersList.filter(
+  const twoColNewOrders = boardOrders.filter(
     o => o.status === 'pending' || o.status === 'confirmed' || o.status === 'preparing'
   );
-  const threeColNewOrders = ordersList.filter(o => o.status === 'pending');
+  const threeColNewOrders = boardOrders.filter(o => o.status === 'pending');
   const threeColActiveOrders = ordersList.filter(o => o.status === 'confirmed' || o.status === 'preparing');
-  const fourColNewOrders = ordersList.filter(o => o.status === 'pending');
+  const fourColNewOrders = boardOrders.filter(o => o.status === 'pending');
   const fourColActiveOrders = ordersList.filter(o => o.status === 'confirmed' || o.status === 'preparing');
   const fourColReadyOrders = ordersList.filter(o => o.status === 'ready');
 
@@ -1351,6 +1298,28 @@ export const OrdersListScreen: React.FC = () => {
         </TouchableOpacity>
       )}
       
+      {/* PRINTER STATUS BANNER - Connected, but the printer reports a problem */}
+      {settings?.printerMacAddress && printerConnected && printerStatus.state !== 'ok' && printerStatus.state !== 'unknown' && (
+        <View
+          style={[
+            styles.printerStatusBanner,
+            printerStatus.state === 'paper_low' && styles.printerStatusBannerWarning,
+          ]}
+        >
+          <View style={styles.backlogBannerContent}>
+            <Text style={styles.backlogBannerIcon}>{PRINTER_STATE_ICONS[printerStatus.state]}</Text>
+            <View style={styles.backlogBannerText}>
+              <Text style={styles.printerOfflineTitle}>{PRINTER_STATE_MESSAGES[printerStatus.state]}</Text>
+              <Text style={styles.backlogBannerSubtitle}>
+                {isPrinterStateHealthy(printerStatus.state)
+                  ? 'Load a new roll soon'
+                  : 'Auto-print paused • Tickets print once the printer is fixed'}
+              </Text>
+            </View>
+          </View>
+        </View>
+      )}
+      
       {/* BACKLOG WARNING BANNER */}
       {backloggedCount > 0 && (
         <TouchableOpacity 
@@ -1393,11 +1362,13 @@ export const OrdersListScreen: React.FC = () => {
             newOrders={twoColNewOrders}
             completeOrders={completedOrdersVisible}
             archivedCompleteOrders={completedOrdersArchived}
+            scheduledOrders={scheduledOrders}
             selectedOrderId={selectedOrderId}
             onMoveToComplete={(orderId) => handleKanbanStatusChange(orderId, 'ready')}
             onMoveToNew={(orderId) => handleKanbanStatusChange(orderId, 'pending')}
             onOrderSelect={(orderId) => setSelectedOrderId(orderId)}
             onAccept={handleAcceptOrder}
+            onReject={handleRejectOrder}
             onPrint={handlePrint}
             onRefresh={handleRefresh}
             refreshing={refreshing}
@@ -1411,10 +1382,12 @@ export const OrdersListScreen: React.FC = () => {
             activeOrders={threeColActiveOrders}
             completeOrders={completedOrdersVisible}
             archivedCompleteOrders={completedOrdersArchived}
+            scheduledOrders={scheduledOrders}
             selectedOrderId={selectedOrderId}
             onStatusChange={handleKanbanStatusChange}
             onOrderSelect={(orderId) => setSelectedOrderId(orderId)}
             onAccept={handleAcceptOrder}
+            onReject={handleRejectOrder}
             onPrint={handlePrint}
             onRefresh={handleRefresh}
             refreshing={refreshing}
@@ -1429,10 +1402,12 @@ export const OrdersListScreen: React.FC = () => {
             readyOrders={fourColReadyOrders}
             completeOrders={completedOnlyVisible}
             archivedCompleteOrders={completedOnlyArchived}
+            scheduledOrders={scheduledOrders}
             selectedOrderId={selectedOrderId}
             onStatusChange={handleKanbanStatusChange}
             onOrderSelect={(orderId) => setSelectedOrderId(orderId)}
             onAccept={handleAcceptOrder}
+            onReject={handleRejectOrder}
             onPrint={handlePrint}
             onRefresh={handleRefresh}
             refreshing={refreshing}
@@ -1446,8 +1421,12 @@ export const OrdersListScreen: React.FC = () => {
         viewMode={viewMode}
         counts={dockCounts}
         isOnline={offline.isOnline}
-        printerConnected={printerConnected}
+        realtimeState={realtimeStatus.state}
+        printerConnected={printerConnected && isPrinterStateHealthy(printerStatus.state)}
         onOpenSettings={() => navigation.navigate('Settings' as never)}
+        onOpenReports={() => navigation.navigate('Reports' as never)}
+        onOpenHistory={() => navigation.navigate('OrderHistory' as never)}
+        onOpenSearch={() => setShowSearch(true)}
         onRefresh={handleRefresh}
         recall={{
           enabled: archivedCompleteCount > 0,
@@ -1455,6 +1434,83 @@ export const OrdersListScreen: React.FC = () => {
           active: recallMode,
           onToggle: () => setRecallMode(prev => !prev),
         }}
+        printQueue={{
+          pendingCount: printQueue.jobs.filter(job => job.state !== 'printed' && job.state !== 'cancelled').length,
+          hasFailures: printQueue.jobs.some(job => job.state === 'failed'),
+          onOpen: () => setShowPrintQueue(true),
+        }}
+        allDay={{
+          itemCount: allDaySummary.item_count,
+          onOpen: () => setShowAllDay(true),
+        }}
+        pendingSync={{
+          pendingCount: offline.queuedActions.length + deadLetters.length,
+          hasFailures: deadLetters.length > 0 || conflictCount > 0,
+          onOpen: () => setShowPendingSync(true),
+        }}
+      />
+
+      <PendingSyncPanel
+        visible={showPendingSync}
+        queuedActions={offline.queuedActions}
+        deadLetters={deadLetters}
+        orders={ordersList}
+        onRetry={retryDeadLetter}
+        onDiscard={discardDeadLetter}
+        onResolveConflict={resolveConflict}
+        onClose={() => setShowPendingSync(false)}
+      />
+
+      <OrderSearchPanel
+        visible={showSearch}
+        orders={ordersList}
+        isOnline={offline.isOnline}
+        onSelect={(order) => {
+          setShowSearch(false);
+          setDetailOrder(order);
+        }}
+        onClose={() => setShowSearch(false)}
+      />
+
+      <Modal
+        visible={!!shownDetailOrder}
+        animationType="slide"
+        onRequestClose={() => setDetailOrder(null)}
+      >
+        <OrderDetailPanel
+          order={shownDetailOrder}
+          onStatusChange={handleStatusChange}
+          onCancelOrder={handleCancelOrder}
+          onClose={() => setDetailOrder(null)}
+          printerConnected={printerConnected}
+          kitchenStations={settings?.kitchenStations}
+          simplifiedView={simplifiedView}
+        />
+      </Modal>
+
+      <ReadyTimePicker
+        order={quoteOrder}
+        defaultMinutes={getDefaultPrepMinutes(serviceConfig)}
+        onSelect={handleQuoteSelect}
+        onClose={() => setQuoteOrder(null)}
+      />
+
+      <CancelOrderPanel
+        order={rejectOrder}
+        onConfirm={handleCancelOrder}
+        onClose={() => setRejectOrder(null)}
+      />
+
+      <AllDayPanel
+        visible={showAllDay}
+        summary={allDaySummary}
+        onClose={() => setShowAllDay(false)}
+      />
+
+      <PrintQueuePanel
+        visible={showPrintQueue}
+        jobs={printQueue.jobs}
+        onClose={() => setShowPrintQueue(false)}
       />
 
       {/* Detail Panel removed - both views now use expandable cards */}
@@ -1610,6 +1666,14 @@ const styles = StyleSheet.create({
     paddingVertical: 10,
     paddingHorizontal: 20,
   },
+  printerStatusBanner: {
+    backgroundColor: '#dc2626',
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+  },
+  printerStatusBannerWarning: {
+    backgroundColor: '#b45309',
+  },
   printerOfflineTitle: {
     color: '#ffffff',
     fontSize: 15,
@@ -0,0 +1,460 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator,
+  useWindowDimensions,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useStore } from '../store/useStore';
+import { apiClient } from '../api/client';
+import { printZReport } from '../services/printService';
+import { formatReportMinutes } from '../services/tickets';
+import { useTheme, type Theme } from '../theme';
+import { CancelReasonCode, Order, OrderStatus, OrderType, SalesBucket } from '../types';
+import { buildSalesReport, DEFAULT_BUSINESS_DAY_START_HOUR, getBusinessDayRange } from '../utils/salesReport';
+import { getCancelReasonLabel } from '../utils/cancelReasons';
+
+type RootStackParamList = {
+  Orders: undefined;
+  Settings: undefined;
+  Reports: undefined;
+};
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Reports'>;
+
+// The day is fetched a page at a time; the page cap stops a cursor that never ends
+const REPORT_PAGE_SIZE = 200;
+const REPORT_MAX_PAGES = 25;
+
+const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  pickup: '🏃 Pickup',
+  delivery: '🚗 Delivery',
+  dine_in: '🍽️ Dine In',
+};
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  preparing: 'Preparing',
+  ready: 'Ready',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+const money = (amount: number) => `$${amount.toFixed(2)}`;
+
+const titleCase = (value: string) => value.replace(/_/g, ' ').replace(/\b\w/g, (char) => char.toUpperCase());
+
+const formatDayLabel = (date: Date) =>
+  date.toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatHour = (hour: number) => `${hour % 12 || 12}:00 ${hour < 12 ? 'AM' : 'PM'}`;
+
+/**
+ * End-of-day sales summary (Z report)
+ * Pulls the business day's orders from the server; falls back to what the
+ * tablet has when offline.
+ */
+export const ReportsScreen: React.FC = () => {
+  const navigation = useNavigation<NavigationProp>();
+  const { width, height } = useWindowDimensions();
+  const { theme, themeMode } = useTheme();
+  const isDarkMode = themeMode === 'dark';
+  const styles = useMemo(() => createStyles(theme, isDarkMode), [theme, isDarkMode]);
+  const contentMaxWidth = width > height ? 760 : undefined;
+
+  const { settings, orders, orderTimes } = useStore();
+  const startHour = settings.businessDayStartHour ?? DEFAULT_BUSINESS_DAY_START_HOUR;
+
+  const [dayOffset, setDayOffset] = useState(0);
+  const [dayOrders, setDayOrders] = useState<Order[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [fromServer, setFromServer] = useState(true);
+  const [incomplete, setIncomplete] = useState(false);
+  const [isPrinting, setIsPrinting] = useState(false);
+
+  const range = useMemo(() => getBusinessDayRange(new Date(), startHour, dayOffset), [startHour, dayOffset]);
+
+  // Pages that arrive after the day changed belong to the old day
+  const loadId = useRef(0);
+
+  const loadOrders = useCallback(async () => {
+    const id = ++loadId.current;
+    setIsLoading(true);
+    const fetched: Order[] = [];
+    let cursor: string | null = null;
+    let hasMore = false;
+    let failed = false;
+    for (let page = 0; page < REPORT_MAX_PAGES; page++) {
+      const result = await apiClient.getOrders({
+        created_from: range.start.toISOString(),
+        created_to: range.end.toISOString(),
+        limit: REPORT_PAGE_SIZE,
+        ...(cursor ? { cursor } : {}),
+      });
+      if (id !== loadId.current) return;
+      if (!result.success || !result.data) {
+        console.warn('[Reports] Could not load orders:', result.error);
+        failed = true;
+        break;
+      }
+      fetched.push(...result.data.orders);
+      cursor = result.data.next_cursor ?? null;
+      hasMore = result.data.has_more;
+      if (!hasMore || !cursor) break;
+    }
+
+    if (failed && fetched.length === 0) {
+      // Offline - the report falls back to the orders on this tablet
+      setDayOrders([]);
+      setFromServer(false);
+      setIncomplete(false);
+    } else {
+      // A page that failed part way, or a day longer than the page cap
+      setDayOrders(fetched);
+      setFromServer(true);
+      setIncomplete(failed || hasMore);
+    }
+    setIsLoading(false);
+  }, [range]);
+
+  useEffect(() => {
+    loadOrders();
+  }, [loadOrders]);
+
+  const report = useMemo(() => {
+    // Live orders win - their status is newer than the report fetch
+    const byId = new Map(dayOrders.map((order) => [order.id, order]));
+    orders.orders.forEach((order) => byId.set(order.id, order));
+    const built = buildSalesReport(Array.from(byId.values()), range, orderTimes);
+    return incomplete ? { ...built, incomplete } : built;
+  }, [dayOrders, orders.orders, range, orderTimes, incomplete]);
+
+  const handlePrint = useCallback(async () => {
+    setIsPrinting(true);
+    const printed = await printZReport(report);
+    setIsPrinting(false);
+    if (!printed) {
+      Alert.alert('Print Failed', 'No printer connected. Connect a printer in Settings and try again.');
+    }
+  }, [report]);
+
+  const renderBuckets = (buckets: Array<[string, SalesBucket]>, label: (key: string) => string) =>
+    buckets.map(([key, bucket]) => (
+      <View key={key} style={styles.row}>
+        <Text style={styles.rowLabel}>{`${label(key)} (${bucket.count})`}</Text>
+        <Text style={styles.rowValue}>{money(bucket.total)}</Text>
+      </View>
+    ));
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Text style={styles.backText}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>Sales Report</Text>
+        <TouchableOpacity
+          style={[styles.printButton, isPrinting && styles.printButtonDisabled]}
+          onPress={handlePrint}
+          disabled={isPrinting}
+        >
+          {isPrinting ? <ActivityIndicator color="#fff" size="small" /> : <Text style={styles.printButtonText}>🖨️ Print Z</Text>}
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} contentContainerStyle={[styles.contentContainer, { maxWidth: contentMaxWidth }]}>
+        {/* Day picker */}
+        <View style={styles.dayPicker}>
+          <TouchableOpacity style={styles.dayButton} onPress={() => setDayOffset((offset) => offset - 1)}>
+            <Text style={styles.dayButtonText}>‹</Text>
+          </TouchableOpacity>
+          <View style={styles.dayInfo}>
+            <Text style={styles.dayTitle}>{dayOffset === 0 ? 'Today' : formatDayLabel(range.start)}</Text>
+            <Text style={styles.daySubtitle}>{`Business day starts ${formatHour(startHour)}`}</Text>
+          </View>
+          <TouchableOpacity
+            style={[styles.dayButton, dayOffset === 0 && styles.dayButtonDisabled]}
+            onPress={() => setDayOffset((offset) => Math.min(0, offset + 1))}
+            disabled={dayOffset === 0}
+          >
+            <Text style={styles.dayButtonText}>›</Text>
+          </TouchableOpacity>
+        </View>
+
+        {isLoading && <ActivityIndicator style={styles.loading} color="#22c55e" />}
+        {!fromServer && !isLoading && (
+          <Text style={styles.warning}>Offline - showing only the orders on this tablet.</Text>
+        )}
+        {incomplete && !isLoading && (
+          <Text style={styles.warning}>Not every order for this day could be loaded - totals may be low.</Text>
+        )}
+
+        {/* Headline numbers */}
+        <View style={styles.tiles}>
+          <View style={styles.tile}>
+            <Text style={styles.tileValue}>{money(report.sales.total)}</Text>
+            <Text style={styles.tileLabel}>Sales</Text>
+          </View>
+          <View style={styles.tile}>
+            <Text style={styles.tileValue}>{report.sale_count}</Text>
+            <Text style={styles.tileLabel}>Orders</Text>
+          </View>
+          <View style={styles.tile}>
+            <Text style={styles.tileValue}>{money(report.average_order_value)}</Text>
+            <Text style={styles.tileLabel}>Average order</Text>
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>Sales</Text>
+        <View style={styles.card}>
+          {([
+            ['Subtotal', report.sales.subtotal],
+            ['Tax', report.sales.tax],
+            ['Delivery fees', report.sales.delivery_fees],
+            ['Tips', report.sales.tips],
+          ] as const).map(([label, amount]) => (
+            <View key={label} style={styles.row}>
+              <Text style={styles.rowLabel}>{label}</Text>
+              <Text style={styles.rowValue}>{money(amount)}</Text>
+            </View>
+          ))}
+          <View style={[styles.row, styles.totalRow]}>
+            <Text style={styles.totalLabel}>Total</Text>
+            <Text style={styles.totalLabel}>{money(report.sales.total)}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>By order type</Text>
+        <View style={styles.card}>
+          {renderBuckets(Object.entries(report.by_order_type) as Array<[string, SalesBucket]>, (type) => ORDER_TYPE_LABELS[type as OrderType] ?? titleCase(type))}
+          {Object.keys(report.by_order_type).length === 0 && <Text style={styles.empty}>No sales yet</Text>}
+        </View>
+
+        <Text style={styles.sectionTitle}>By payment</Text>
+        <View style={styles.card}>
+          {renderBuckets(Object.entries(report.by_payment_status), titleCase)}
+          {Object.keys(report.by_payment_status).length === 0 && <Text style={styles.empty}>No sales yet</Text>}
+        </View>
+
+        <Text style={styles.sectionTitle}>Cancelled</Text>
+        <View style={styles.card}>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>{`Orders (${report.cancelled.count})`}</Text>
+            <Text style={[styles.rowValue, report.cancelled.count > 0 && styles.cancelledValue]}>{money(report.cancelled.total)}</Text>
+          </View>
+          {renderBuckets(Object.entries(report.by_cancel_reason) as Array<[string, SalesBucket]>, (reason) =>
+            getCancelReasonLabel(reason as CancelReasonCode | 'none')
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Kitchen times</Text>
+        <View style={styles.card}>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Average time to accept</Text>
+            <Text style={styles.rowValue}>{formatReportMinutes(report.average_accept_minutes)}</Text>
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Average time to ready</Text>
+            <Text style={styles.rowValue}>{formatReportMinutes(report.average_ready_minutes)}</Text>
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>{`By status (${report.order_count} orders)`}</Text>
+        <View style={styles.card}>
+          {(Object.entries(report.by_status) as Array<[OrderStatus, number]>).map(([status, count]) => (
+            <View key={status} style={styles.row}>
+              <Text style={styles.rowLabel}>{STATUS_LABELS[status] ?? titleCase(status)}</Text>
+              <Text style={styles.rowValue}>{count}</Text>
+            </View>
+          ))}
+          {report.order_count === 0 && <Text style={styles.empty}>No orders in this business day</Text>}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const createStyles = (theme: Theme, isDarkMode: boolean) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: theme.background,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      backgroundColor: theme.headerBg,
+      padding: 16,
+      borderBottomWidth: 2,
+      borderBottomColor: theme.headerBorder,
+    },
+    backButton: {
+      padding: 8,
+      minWidth: 80,
+    },
+    backText: {
+      fontSize: 16,
+      color: isDarkMode ? '#22c55e' : '#15803d',
+      fontWeight: '600',
+    },
+    headerTitle: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: theme.text,
+    },
+    printButton: {
+      minWidth: 80,
+      paddingHorizontal: 12,
+      paddingVertical: 8,
+      borderRadius: 8,
+      backgroundColor: '#22c55e',
+      alignItems: 'center',
+    },
+    printButtonDisabled: {
+      opacity: 0.6,
+    },
+    printButtonText: {
+      color: '#fff',
+      fontSize: 14,
+      fontWeight: '700',
+    },
+    content: {
+      flex: 1,
+    },
+    contentContainer: {
+      padding: 20,
+      alignSelf: 'center',
+      width: '100%',
+    },
+    dayPicker: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      marginBottom: 16,
+    },
+    dayButton: {
+      width: 44,
+      height: 44,
+      borderRadius: 10,
+      alignItems: 'center',
+      justifyContent: 'center',
+      backgroundColor: theme.surface,
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+    },
+    dayButtonDisabled: {
+      opacity: 0.4,
+    },
+    dayButtonText: {
+      fontSize: 24,
+      color: theme.text,
+    },
+    dayInfo: {
+      flex: 1,
+      alignItems: 'center',
+    },
+    dayTitle: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: theme.text,
+    },
+    daySubtitle: {
+      fontSize: 13,
+      color: theme.textSecondary,
+      marginTop: 2,
+    },
+    loading: {
+      marginBottom: 12,
+    },
+    warning: {
+      fontSize: 13,
+      color: '#f59e0b',
+      textAlign: 'center',
+      marginBottom: 12,
+    },
+    tiles: {
+      flexDirection: 'row',
+      gap: 12,
+      marginBottom: 24,
+    },
+    tile: {
+      flex: 1,
+      padding: 16,
+      borderRadius: 12,
+      alignItems: 'center',
+      backgroundColor: theme.surface,
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+    },
+    tileValue: {
+      fontSize: 24,
+      fontWeight: '800',
+      color: theme.text,
+    },
+    tileLabel: {
+      fontSize: 13,
+      color: theme.textSecondary,
+      marginTop: 4,
+    },
+    sectionTitle: {
+      fontSize: 14,
+      fontWeight: '700',
+      color: theme.textSecondary,
+      textTransform: 'uppercase',
+      marginBottom: 10,
+      marginLeft: 4,
+      letterSpacing: 0.5,
+    },
+    card: {
+      backgroundColor: theme.surface,
+      borderRadius: 12,
+      overflow: 'hidden',
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      marginBottom: 24,
+    },
+    row: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: theme.cardBorder,
+    },
+    rowLabel: {
+      fontSize: 15,
+      color: theme.text,
+    },
+    rowValue: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: theme.text,
+    },
+    cancelledValue: {
+      color: '#ef4444',
+    },
+    totalRow: {
+      borderBottomWidth: 0,
+    },
+    totalLabel: {
+      fontSize: 17,
+      fontWeight: '800',
+      color: theme.text,
+    },
+    empty: {
+      padding: 16,
+      fontSize: 14,
+      color: theme.textMuted,
+    },
+  });
@@ -11,6 +11,7 @@ import {
   Platform,
   PermissionsAndroid,
   Linking,
+  TextInput,
   useWindowDimensions,
 } from 'react-native';
 import * as Application from 'expo-application';
@@ -26,9 +27,22 @@ import {
   ensureConnected,
 } from '../services/printService';
 import { useTheme, type Theme } from '../theme';
+import {
+  DEFAULT_NETWORK_PRINTER_PORT,
+  formatNetworkAddress,
+  parseNetworkAddress,
+} from '../services/printerTransport';
 import { apiClient } from '../api/client';
-import { NotificationTone, TabletServiceConfig } from '../types';
+import { DiscoveredPrinter, NotificationTone, PrinterTransportType, TabletServiceConfig } from '../types';
 import { initSound, playAlert } from '../services/soundService';
+import { KitchenStationsEditor } from '../components/KitchenStationsEditor';
+import { LabelPrinterEditor } from '../components/LabelPrinterEditor';
+import { AlertKeywordsEditor } from '../components/AlertKeywordsEditor';
+import { DEFAULT_BUSINESS_DAY_START_HOUR } from '../utils/salesReport';
+import { DEFAULT_SCHEDULED_LEAD_MINUTES } from '../utils/scheduledOrders';
+import { TicketPreviewModal } from '../components/TicketPreview';
+import { generateTestPage, getPaperProfile, ROLL_PAPER_PROFILES } from '../services/tickets';
+import { CODEPAGES, getCodepage } from '../services/escpos';
 
 const APP_VERSION = Application.nativeApplicationVersion || 'unknown';
 const APP_PACKAGE = Application.applicationId || 'unknown.package';
@@ -144,10 +158,14 @@ type RootStackParamList = {
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList, 'Settings'>;
 
-interface PrinterDevice {
-  device_name: string;
-  inner_mac_address: string;
-}
+const PRINTER_TYPES: Array<{ value: PrinterTransportType; label: string }> = [
+  { value: 'bluetooth', label: '📶 Bluetooth' },
+  { value: 'network', label: '🌐 Network (LAN)' },
+  { value: 'usb', label: '🔌 USB' },
+];
+
+const PAPER_SIZES = ROLL_PAPER_PROFILES;
+const CODEPAGE_OPTIONS = Object.values(CODEPAGES);
 
 const POLL_INTERVALS = [
   { value: 3000, label: '3 seconds (fast)' },
@@ -156,10 +174,20 @@ const POLL_INTERVALS = [
   { value: 30000, label: '30 seconds (battery saver)' },
 ];
 
+// Late-night restaurants close after midnight - the report day rolls over after closing
+const BUSINESS_DAY_START_HOURS = [
+  { value: 0, label: 'Midnight' },
+  { value: 2, label: '2:00 AM' },
+  { value: 4, label: '4:00 AM' },
+  { value: 5, label: '5:00 AM' },
+  { value: 6, label: '6:00 AM' },
+];
+
 const PRINT_TYPES = [
   { value: 'kitchen', label: '🍳 Kitchen Ticket Only', description: 'Large text for cooks - no prices' },
   { value: 'receipt', label: '🧾 Customer Receipt Only', description: 'Full receipt with prices' },
   { value: 'both', label: '🖨️ Both Tickets', description: 'Print kitchen ticket + customer receipt' },
+  { value: 'labels', label: '🏷️ Item Labels Only', description: 'One sticker per item for bagging - on the label printer' },
 ] as const;
 
 const VIEW_MODES = [
@@ -229,14 +257,19 @@ export const SettingsScreen: React.FC = () => {
   );
   const switchThumbOff = isDarkMode ? '#9ca3af' : '#f8fafc';
   const [showIntervalSelector, setShowIntervalSelector] = useState(false);
+  const [showBusinessDaySelector, setShowBusinessDaySelector] = useState(false);
   const [showPrintTypeSelector, setShowPrintTypeSelector] = useState(false);
   const [showViewModeSelector, setShowViewModeSelector] = useState(false);
   const [showToneSelector, setShowToneSelector] = useState(false);
+  const [testPreviewData, setTestPreviewData] = useState<string | null>(null);
   const [showPrinterToneSelector, setShowPrinterToneSelector] = useState(false);
 
   const yellowMin = Math.max(1, settings.orderAgingYellowMin ?? 5);
   const redMin = Math.max(yellowMin + 1, settings.orderAgingRedMin ?? 10);
   const completedArchiveLimit = Math.max(1, settings.completedArchiveLimit ?? 50);
+  const scheduledLeadMinutes = settings.scheduledLeadMinutes ?? DEFAULT_SCHEDULED_LEAD_MINUTES;
+  const paperProfile = getPaperProfile(settings.paperProfile);
+  const printerCodepage = getCodepage(settings.printerCodepage).id;
   const agingControlsDisabled = !settings.orderAgingEnabled;
   const ordersList = orders?.orders ?? [];
   const completedColumnStatusSet =
@@ -265,6 +298,11 @@ export const SettingsScreen: React.FC = () => {
     const next = Math.max(1, Math.min(completedArchiveLimit + delta, 200));
     updateSettings({ completedArchiveLimit: next });
   };
+
+  const adjustScheduledLead = (delta: number) => {
+    const next = Math.max(0, Math.min(scheduledLeadMinutes + delta, 240));
+    updateSettings({ scheduledLeadMinutes: next });
+  };
   const completedColumnClearedAt = settings.completedColumnClearedAt;
   const completedColumnClearedAtLabel = completedColumnClearedAt
     ? new Date(completedColumnClearedAt).toLocaleString('en-US', {
@@ -297,8 +335,15 @@ export const SettingsScreen: React.FC = () => {
   // Printer state
   const [isScanning, setIsScanning] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
-  const [discoveredPrinters, setDiscoveredPrinters] = useState<PrinterDevice[]>([]);
+  const [discoveredPrinters, setDiscoveredPrinters] = useState<DiscoveredPrinter[]>([]);
   const [showPrinterList, setShowPrinterList] = useState(false);
+  const [printerType, setPrinterType] = useState<PrinterTransportType>(settings.printerType ?? 'bluetooth');
+  const savedNetworkAddress =
+    settings.printerType === 'network' && settings.printerMacAddress
+      ? parseNetworkAddress(settings.printerMacAddress)
+      : null;
+  const [networkHost, setNetworkHost] = useState(savedNetworkAddress?.host ?? '');
+  const [networkPort, setNetworkPort] = useState(String(savedNetworkAddress?.port ?? DEFAULT_NETWORK_PRINTER_PORT));
   
   // Restaurant service config state
   const [serviceConfig, setServiceConfig] = useState<TabletServiceConfig | null>(null);
@@ -472,10 +517,12 @@ export const SettingsScreen: React.FC = () => {
     console.log('[Settings] 🔵 SCAN BUTTON PRESSED');
     
     // Request Bluetooth permissions first
-    const hasPermission = await requestBluetoothPermissions();
-    if (!hasPermission) {
-      console.log('[Settings] Bluetooth permission denied');
-      return;
+    if (printerType === 'bluetooth') {
+      const hasPermission = await requestBluetoothPermissions();
+      if (!hasPermission) {
+        console.log('[Settings] Bluetooth permission denied');
+        return;
+      }
     }
     
     setIsScanning(true);
@@ -483,15 +530,17 @@ export const SettingsScreen: React.FC = () => {
     setDiscoveredPrinters([]);
     
     try {
-      console.log('[Settings] Scanning for Bluetooth printers...');
-      const printers = await discoverPrinters();
+      console.log(`[Settings] Scanning for ${printerType} printers...`);
+      const printers = await discoverPrinters(printerType);
       console.log('[Settings] Found printers:', printers);
       setDiscoveredPrinters(printers);
       
       if (printers.length === 0) {
         Alert.alert(
           'No Printers Found',
-          'Make sure your Bluetooth printer is:\n\n• Powered on\n• In pairing mode\n• Paired with this tablet in Bluetooth settings',
+          printerType === 'usb'
+            ? 'Make sure your USB printer is:\n\n• Powered on\n• Plugged into this tablet\n• Allowed when Android asks for USB access'
+            : 'Make sure your Bluetooth printer is:\n\n• Powered on\n• In pairing mode\n• Paired with this tablet in Bluetooth settings',
           [{ text: 'OK' }]
         );
       }
@@ -501,20 +550,21 @@ export const SettingsScreen: React.FC = () => {
     } finally {
       setIsScanning(false);
     }
-  }, []);
+  }, [printerType]);
 
-  const handleConnectPrinter = useCallback(async (printer: PrinterDevice) => {
+  const handleConnectPrinter = useCallback(async (printer: DiscoveredPrinter) => {
     setIsConnecting(true);
     
     try {
       console.log(`[Settings] Connecting to ${printer.device_name}...`);
-      const success = await connectPrinter(printer.inner_mac_address);
+      const success = await connectPrinter(printer.address, printer.type);
       
       if (success) {
         updateSettings({ 
           printerConnected: true, 
           printerName: printer.device_name,
-          printerMacAddress: printer.inner_mac_address, // Save for auto-reconnect
+          printerMacAddress: printer.address, // Save for auto-reconnect
+          printerType: printer.type,
         });
         Alert.alert('✓ Connected!', `Successfully connected to ${printer.device_name}\n\nThis printer will auto-reconnect on app restart.`);
         setShowPrinterList(false);
@@ -529,6 +579,21 @@ export const SettingsScreen: React.FC = () => {
     }
   }, [updateSettings]);
 
+  const handleConnectNetworkPrinter = useCallback(async () => {
+    const port = Number(networkPort || DEFAULT_NETWORK_PRINTER_PORT);
+    const address = parseNetworkAddress(formatNetworkAddress(networkHost, port));
+    if (!networkHost.trim() || !address) {
+      Alert.alert('Invalid Address', 'Enter the printer IP address (e.g. 192.168.1.50) and port (usually 9100).');
+      return;
+    }
+
+    await handleConnectPrinter({
+      type: 'network',
+      device_name: `Network Printer (${address.host})`,
+      address: formatNetworkAddress(address.host, address.port),
+    });
+  }, [handleConnectPrinter, networkHost, networkPort]);
+
   const handleDisconnectPrinter = useCallback(async () => {
     try {
       await disconnectPrinter();
@@ -544,7 +609,7 @@ export const SettingsScreen: React.FC = () => {
 
   const handleTestPrint = useCallback(async () => {
     console.log('[Settings] 🧪 Test print button pressed');
-    console.log('[Settings] Current state - printerConnected:', settings.printerConnected, 'MAC:', settings.printerMacAddress);
+    console.log('[Settings] Current state - printerConnected:', settings.printerConnected, 'address:', settings.printerMacAddress);
     
     if (!settings.printerMacAddress) {
       Alert.alert('No Printer', 'Please scan and connect a printer first');
@@ -553,7 +618,7 @@ export const SettingsScreen: React.FC = () => {
 
     Alert.alert(
       'Test Print',
-      `This will print a test receipt.\n\nPrinter: ${settings.printerName || 'Unknown'}\nMAC: ${settings.printerMacAddress}`,
+      `This will print a test receipt.\n\nPrinter: ${settings.printerName || 'Unknown'}\nAddress: ${settings.printerMacAddress}`,
       [
         { text: 'Cancel', style: 'cancel' },
         {
@@ -562,7 +627,7 @@ export const SettingsScreen: React.FC = () => {
             try {
               // First verify the connection is actually active
               console.log('[Settings] 🔗 Step 1: Ensuring connection to', settings.printerMacAddress);
-              const isConnected = await ensureConnected(settings.printerMacAddress!);
+              const isConnected = await ensureConnected(settings.printerMacAddress!, settings.printerType ?? 'bluetooth');
               console.log('[Settings] Connection result:', isConnected);
               
               if (!isConnected) {
@@ -570,7 +635,9 @@ export const SettingsScreen: React.FC = () => {
                 updateSettings({ printerConnected: false });
                 Alert.alert(
                   'Connection Failed', 
-                  `Could not connect to printer.\n\nMAC: ${settings.printerMacAddress}\n\nMake sure the printer is:\n• Powered on\n• Paired in Bluetooth settings\n• Within range`,
+                  settings.printerType === 'network'
+                    ? `Could not connect to printer.\n\nAddress: ${settings.printerMacAddress}\n\nMake sure the printer is:\n• Powered on\n• On the same network as this tablet\n• Using the IP shown on its self-test page`
+                    : `Could not connect to printer.\n\nAddress: ${settings.printerMacAddress}\n\nMake sure the printer is:\n• Powered on\n• Paired in Bluetooth settings\n• Within range`,
                   [{ text: 'OK' }]
                 );
                 return;
@@ -598,7 +665,7 @@ export const SettingsScreen: React.FC = () => {
         },
       ]
     );
-  }, [settings.printerConnected, settings.printerMacAddress, settings.printerName, updateSettings]);
+  }, [settings.printerConnected, settings.printerMacAddress, settings.printerName, settings.printerType, updateSettings]);
 
   const playTonePreview = useCallback(async (tone: NotificationTone) => {
     try {
@@ -618,6 +685,8 @@ export const SettingsScreen: React.FC = () => {
   }, [playTonePreview, settings.notificationTone, settings.printerAlertTone]);
 
   const selectedInterval = POLL_INTERVALS.find((i) => i.value === settings.pollIntervalMs);
+  const businessDayStartHour = settings.businessDayStartHour ?? DEFAULT_BUSINESS_DAY_START_HOUR;
+  const selectedBusinessDayStart = BUSINESS_DAY_START_HOURS.find((h) => h.value === businessDayStartHour);
   const selectedNotificationTone =
     NOTIFICATION_TONES.find((tone) => tone.value === settings.notificationTone) ??
     NOTIFICATION_TONES[0];
@@ -655,8 +724,10 @@ export const SettingsScreen: React.FC = () => {
                 </Text>
                 <Text style={styles.printerStatusSubtext}>
                   {settings.printerConnected 
-                    ? '✓ Ready to print' 
-                    : 'Tap "Scan for Printers" to connect'}
+                    ? `✓ Ready to print · ${PRINTER_TYPES.find((t) => t.value === (settings.printerType ?? 'bluetooth'))?.label}`
+                    : printerType === 'network'
+                      ? 'Enter the printer IP address to connect'
+                      : 'Tap "Scan for Printers" to connect'}
                 </Text>
               </View>
               <View style={[
@@ -669,27 +740,98 @@ export const SettingsScreen: React.FC = () => {
               </View>
             </View>
 
-            {/* Scan Button */}
-            <TouchableOpacity 
-              style={styles.scanButton}
-              onPress={handleScanPrinters}
-              disabled={isScanning}
-            >
-              {isScanning ? (
-                <>
-                  <ActivityIndicator color="#fff" size="small" />
-                  <Text style={styles.scanButtonText}>Scanning...</Text>
-                </>
-              ) : (
-                <>
-                  <Text style={styles.scanButtonIcon}>📡</Text>
-                  <Text style={styles.scanButtonText}>Scan for Printers</Text>
-                </>
-              )}
-            </TouchableOpacity>
+            {/* Printer Type */}
+            <View style={styles.printerTypeRow}>
+              {PRINTER_TYPES.map((type) => (
+                <TouchableOpacity
+                  key={type.value}
+                  style={[
+                    styles.printerTypeOption,
+                    printerType === type.value && styles.printerTypeOptionSelected,
+                  ]}
+                  onPress={() => {
+                    setPrinterType(type.value);
+                    setShowPrinterList(false);
+                    setDiscoveredPrinters([]);
+                  }}
+                >
+                  <Text
+                    style={[
+                      styles.printerTypeText,
+                      printerType === type.value && styles.printerTypeTextSelected,
+                    ]}
+                  >
+                    {type.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {printerType === 'network' ? (
+              /* Network printers are entered by IP (raw TCP, usually port 9100) */
+              <View style={styles.networkPrinterForm}>
+                <View style={styles.networkInputRow}>
+                  <TextInput
+                    style={[styles.networkInput, { flex: 1 }]}
+                    value={networkHost}
+                    onChangeText={setNetworkHost}
+                    placeholder="192.168.1.50"
+                    placeholderTextColor={theme.textMuted}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="numbers-and-punctuation"
+                  />
+                  <TextInput
+                    style={[styles.networkInput, styles.networkPortInput]}
+                    value={networkPort}
+                    onChangeText={(text) => setNetworkPort(text.replace(/[^0-9]/g, ''))}
+                    placeholder={String(DEFAULT_NETWORK_PRINTER_PORT)}
+                    placeholderTextColor={theme.textMuted}
+                    keyboardType="number-pad"
+                    maxLength={5}
+                  />
+                </View>
+                <TouchableOpacity
+                  style={[styles.scanButton, styles.networkConnectButton]}
+                  onPress={handleConnectNetworkPrinter}
+                  disabled={isConnecting}
+                >
+                  {isConnecting ? (
+                    <>
+                      <ActivityIndicator color="#fff" size="small" />
+                      <Text style={styles.scanButtonText}>Connecting...</Text>
+                    </>
+                  ) : (
+                    <>
+                      <Text style={styles.scanButtonIcon}>🌐</Text>
+                      <Text style={styles.scanButtonText}>Connect Network Printer</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </View>
+            ) : (
+              /* Scan Button */
+              <TouchableOpacity 
+                style={styles.scanButton}
+                onPress={handleScanPrinters}
+                disabled={isScanning}
+              >
+                {isScanning ? (
+                  <>
+                    <ActivityIndicator color="#fff" size="small" />
+                    <Text style={styles.scanButtonText}>Scanning...</Text>
+                  </>
+                ) : (
+                  <>
+                    <Text style={styles.scanButtonIcon}>📡</Text>
+                    <Text style={styles.scanButtonText}>Scan for Printers</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            )}
 
             {/* Discovered Printers List */}
-            {showPrinterList && (
+            {showPrinterList && printerType !== 'network' && (
               <View style={styles.printerList}>
                 <Text style={styles.printerListTitle}>
                   {discoveredPrinters.length > 0 
@@ -699,7 +841,7 @@ export const SettingsScreen: React.FC = () => {
                 
                 {discoveredPrinters.map((printer, index) => (
                   <TouchableOpacity
-                    key={printer.inner_mac_address || index}
+                    key={printer.address || index}
                     style={styles.printerItem}
                     onPress={() => handleConnectPrinter(printer)}
                     disabled={isConnecting}
@@ -709,7 +851,7 @@ export const SettingsScreen: React.FC = () => {
                         {printer.device_name || 'Unknown Printer'}
                       </Text>
                       <Text style={styles.printerItemMac}>
-                        {printer.inner_mac_address}
+                        {printer.address}
                       </Text>
                     </View>
                     {isConnecting ? (
@@ -728,24 +870,121 @@ export const SettingsScreen: React.FC = () => {
               </View>
             )}
 
+            {/* Paper Size - every ticket is laid out for the roll width */}
+            <View style={styles.paperSizeRow}>
+              <Text style={styles.paperSizeLabel}>Paper</Text>
+              {PAPER_SIZES.map((paper) => (
+                <TouchableOpacity
+                  key={paper.id}
+                  style={[
+                    styles.printerTypeOption,
+                    paperProfile.id === paper.id && styles.printerTypeOptionSelected,
+                  ]}
+                  onPress={() => updateSettings({ paperProfile: paper.id })}
+                >
+                  <Text
+                    style={[
+                      styles.printerTypeText,
+                      paperProfile.id === paper.id && styles.printerTypeTextSelected,
+                    ]}
+                  >
+                    {paper.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {/* Character Set - CP850/CP863/CP1252 print accents, ASCII folds them */}
+            <View style={styles.paperSizeRow}>
+              <Text style={styles.paperSizeLabel}>Accents</Text>
+              {CODEPAGE_OPTIONS.map((codepage) => (
+                <TouchableOpacity
+                  key={codepage.id}
+                  style={[
+                    styles.printerTypeOption,
+                    printerCodepage === codepage.id && styles.printerTypeOptionSelected,
+                  ]}
+                  onPress={() => updateSettings({ printerCodepage: codepage.id })}
+                >
+                  <Text
+                    style={[
+                      styles.printerTypeText,
+                      printerCodepage === codepage.id && styles.printerTypeTextSelected,
+                    ]}
+                  >
+                    {codepage.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
             {/* Action Buttons */}
-            {settings.printerConnected && (
-              <View style={styles.printerActions}>
+            <View style={styles.printerActions}>
+              {settings.printerConnected && (
                 <TouchableOpacity 
                   style={styles.testPrintButton}
                   onPress={handleTestPrint}
                 >
                   <Text style={styles.testPrintText}>🖨️ Test Print</Text>
                 </TouchableOpacity>
-                
+              )}
+
+              {/* Preview works with no printer - handy during setup */}
+              <TouchableOpacity 
+                style={styles.previewButton}
+                onPress={() => setTestPreviewData(generateTestPage(paperProfile, printerCodepage))}
+              >
+                <Text style={styles.previewText}>👁 Preview</Text>
+              </TouchableOpacity>
+              
+              {settings.printerConnected && (
                 <TouchableOpacity 
                   style={styles.disconnectButton}
                   onPress={handleDisconnectPrinter}
                 >
                   <Text style={styles.disconnectText}>Disconnect</Text>
                 </TouchableOpacity>
-              </View>
-            )}
+              )}
+            </View>
+
+            <TicketPreviewModal
+              visible={!!testPreviewData}
+              tickets={testPreviewData ? [{ label: 'Test Print', data: testPreviewData, columns: paperProfile.columns }] : []}
+              onClose={() => setTestPreviewData(null)}
+            />
+          </View>
+        </View>
+
+        {/* Kitchen Stations - split kitchen tickets across printers */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>🍳 Kitchen Stations</Text>
+          <View style={styles.card}>
+            <KitchenStationsEditor
+              stations={settings.kitchenStations ?? []}
+              onChange={(kitchenStations) => updateSettings({ kitchenStations })}
+            />
+          </View>
+        </View>
+
+        {/* Label Printer - per-item bag stickers */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>🏷️ Label Printer</Text>
+          <View style={styles.card}>
+            <LabelPrinterEditor
+              printer={settings.labelPrinter ?? { printerType: 'network', printerAddress: null }}
+              onChange={(labelPrinter) => updateSettings({ labelPrinter })}
+            />
+          </View>
+        </View>
+
+        {/* Ticket Alerts - keywords that flag notes on kitchen tickets */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>🚨 Ticket Alerts</Text>
+          <View style={styles.card}>
+            <AlertKeywordsEditor
+              rules={settings.alertKeywordRules ?? null}
+              onChange={(alertKeywordRules) => updateSettings({ alertKeywordRules })}
+            />
           </View>
         </View>
 
@@ -849,6 +1088,37 @@ export const SettingsScreen: React.FC = () => {
               </View>
             </View>
 
+            {/* Scheduled Order Lead Time */}
+            <View style={[styles.settingRow, dividerStyle]}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>📅 Scheduled Orders</Text>
+                <Text style={styles.settingDescription}>
+                  Move to New {scheduledLeadMinutes} min before they're due (alert + auto-print then)
+                </Text>
+              </View>
+              <View style={styles.stepper}>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => adjustScheduledLead(-5)}
+                  testID="settings-scheduled-lead-decrease"
+                  nativeID="settings-scheduled-lead-decrease"
+                >
+                  <Text style={styles.stepperButtonText}>-</Text>
+                </TouchableOpacity>
+                <Text style={styles.stepperValue} testID="settings-scheduled-lead-value" nativeID="settings-scheduled-lead-value">
+                  {scheduledLeadMinutes}
+                </Text>
+                <TouchableOpacity
+                  style={styles.stepperButton}
+                  onPress={() => adjustScheduledLead(5)}
+                  testID="settings-scheduled-lead-increase"
+                  nativeID="settings-scheduled-lead-increase"
+                >
+                  <Text style={styles.stepperButtonText}>+</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
             <View style={[styles.completedFlushSection, dividerStyle]}>
               <View style={styles.settingInfo}>
                 <Text style={styles.settingLabel}>🧹 Completed Column Flush</Text>
@@ -1072,6 +1342,92 @@ export const SettingsScreen: React.FC = () => {
               />
             </View>
 
+            {/* Receipt Logo Toggle */}
+            <View style={[styles.settingRow, dividerStyle]}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>🖼️ Receipt Logo</Text>
+                <Text style={styles.settingDescription}>
+                  Print the restaurant logo at the top of customer receipts
+                </Text>
+              </View>
+              <Switch
+                value={settings.receiptLogo ?? true}
+                onValueChange={(value) => updateSettings({ receiptLogo: value })}
+                trackColor={defaultTrackColor}
+                thumbColor={(settings.receiptLogo ?? true) ? '#fff' : switchThumbOff}
+              />
+            </View>
+
+            {/* Receipt QR Code Toggle */}
+            <View style={[styles.settingRow, dividerStyle]}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>🔳 Receipt QR Code</Text>
+                <Text style={styles.settingDescription}>
+                  QR code customers scan to check their order status
+                </Text>
+              </View>
+              <Switch
+                value={settings.receiptQrCode ?? true}
+                onValueChange={(value) => updateSettings({ receiptQrCode: value })}
+                trackColor={defaultTrackColor}
+                thumbColor={(settings.receiptQrCode ?? true) ? '#fff' : switchThumbOff}
+              />
+            </View>
+
+            {/* Order status page the QR links to - no QR is printed until it's set */}
+            {(settings.receiptQrCode ?? true) && (
+              <View style={[styles.settingRow, dividerStyle]}>
+                <View style={styles.settingInfo}>
+                  <Text style={styles.settingLabel}>Order Status Page</Text>
+                  <Text style={styles.settingDescription}>
+                    Link for the QR code - {'{order_id}'} and {'{order_number}'} are filled in. Leave blank for no QR code
+                  </Text>
+                  <TextInput
+                    style={[styles.networkInput, { marginTop: 8 }]}
+                    value={settings.receiptQrUrl ?? ''}
+                    onChangeText={(text) => updateSettings({ receiptQrUrl: text })}
+                    placeholder="https://example.com/orders/{order_id}"
+                    placeholderTextColor={theme.textMuted}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="url"
+                  />
+                </View>
+              </View>
+            )}
+
+            {/* Receipt Barcode Toggle */}
+            <View style={[styles.settingRow, dividerStyle]}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>▮▮ Receipt Barcode</Text>
+                <Text style={styles.settingDescription}>
+                  Scannable order number barcode on customer receipts
+                </Text>
+              </View>
+              <Switch
+                value={settings.receiptBarcode ?? true}
+                onValueChange={(value) => updateSettings({ receiptBarcode: value })}
+                trackColor={defaultTrackColor}
+                thumbColor={(settings.receiptBarcode ?? true) ? '#fff' : switchThumbOff}
+              />
+            </View>
+
+            {/* Driver Slip Toggle */}
+            <View style={[styles.settingRow, dividerStyle]}>
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>🚗 Driver Slips</Text>
+                <Text style={styles.settingDescription}>
+                  Print address, cash to collect and a directions QR code when a delivery goes out
+                </Text>
+              </View>
+              <Switch
+                value={settings.driverSlips ?? true}
+                onValueChange={(value) => updateSettings({ driverSlips: value })}
+                trackColor={defaultTrackColor}
+                thumbColor={(settings.driverSlips ?? true) ? '#fff' : switchThumbOff}
+              />
+            </View>
+
             {/* Expanded View Prices Toggle */}
             <View style={[styles.settingRow, dividerStyle]}>
               <View style={styles.settingInfo}>
@@ -1506,6 +1862,47 @@ export const SettingsScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Reports Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>📊 Reports</Text>
+          <View style={styles.card}>
+            <TouchableOpacity
+              style={styles.settingRowTouchable}
+              onPress={() => setShowBusinessDaySelector(!showBusinessDaySelector)}
+            >
+              <View style={styles.settingInfo}>
+                <Text style={styles.settingLabel}>Business Day Starts</Text>
+                <Text style={styles.settingDescription}>
+                  {`${selectedBusinessDayStart?.label || `${businessDayStartHour}:00`} - orders before this count toward the previous day`}
+                </Text>
+              </View>
+              <Text style={styles.chevron}>›</Text>
+            </TouchableOpacity>
+            {showBusinessDaySelector && (
+              <View style={styles.selectorContainer}>
+                {BUSINESS_DAY_START_HOURS.map((hour) => (
+                  <TouchableOpacity
+                    key={hour.value}
+                    style={[
+                      styles.selectorOption,
+                      businessDayStartHour === hour.value && styles.selectorOptionSelected,
+                    ]}
+                    onPress={() => {
+                      updateSettings({ businessDayStartHour: hour.value });
+                      setShowBusinessDaySelector(false);
+                    }}
+                  >
+                    <Text style={styles.selectorOptionLabel}>{hour.label}</Text>
+                    {businessDayStartHour === hour.value && (
+                      <Text style={styles.checkmark}>✓</Text>
+                    )}
+                  </TouchableOpacity>
+                ))}
+              </View>
+            )}
+          </View>
+        </View>
+
         {/* Logout Section */}
         <View style={styles.section}>
           <TouchableOpacity style={styles.logoutButton} onPress={handleLogout}>
@@ -1626,6 +2023,72 @@ const createStyles = (theme: Theme, isDarkMode: boolean) =>
       fontSize: 16,
       fontWeight: '600',
     },
+    printerTypeRow: {
+      flexDirection: 'row',
+      gap: 8,
+      paddingHorizontal: 16,
+      paddingTop: 16,
+    },
+    printerTypeOption: {
+      flex: 1,
+      paddingVertical: 10,
+      borderRadius: 10,
+      alignItems: 'center',
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      backgroundColor: isDarkMode ? '#1e293b' : '#f8fafc',
+    },
+    printerTypeOptionSelected: {
+      backgroundColor: isDarkMode ? '#0f3460' : '#dbeafe',
+      borderColor: '#3b82f6',
+    },
+    printerTypeText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.textSecondary,
+    },
+    printerTypeTextSelected: {
+      color: theme.text,
+    },
+    paperSizeRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      paddingHorizontal: 16,
+      paddingTop: 16,
+    },
+    paperSizeLabel: {
+      width: 56,
+      fontSize: 14,
+      fontWeight: '600',
+      color: theme.textSecondary,
+    },
+    networkPrinterForm: {
+      padding: 16,
+      paddingBottom: 0,
+    },
+    networkInputRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    networkInput: {
+      borderWidth: 1,
+      borderColor: theme.cardBorder,
+      borderRadius: 10,
+      paddingHorizontal: 14,
+      paddingVertical: 12,
+      fontSize: 16,
+      color: theme.text,
+      backgroundColor: isDarkMode ? '#1e293b' : '#f8fafc',
+      fontFamily: 'monospace',
+    },
+    networkPortInput: {
+      width: 96,
+      textAlign: 'center',
+    },
+    networkConnectButton: {
+      marginHorizontal: 0,
+    },
     printerList: {
       padding: 16,
       paddingTop: 0,
@@ -1689,6 +2152,18 @@ const createStyles = (theme: Theme, isDarkMode: boolean) =>
       fontWeight: '600',
       fontSize: 15,
     },
+    previewButton: {
+      flex: 1,
+      backgroundColor: '#3b82f6',
+      padding: 14,
+      borderRadius: 10,
+      alignItems: 'center',
+    },
+    previewText: {
+      color: '#fff',
+      fontWeight: '600',
+      fontSize: 15,
+    },
     disconnectButton: {
       flex: 1,
       backgroundColor: isDarkMode ? '#374151' : '#e2e8f0',
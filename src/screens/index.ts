@@ -2,3 +2,5 @@ export { LoginScreen } from './LoginScreen';
 export { OrdersListScreen } from './OrdersListScreen';
 export { OrderDetailScreen } from './OrderDetailScreen';
 export { SettingsScreen } from './SettingsScreen';
+export { ReportsScreen } from './ReportsScreen';
+export { OrderHistoryScreen } from './OrderHistoryScreen';
@@ -0,0 +1,110 @@
+/**
+ * ESC/POS QR Codes and Barcodes
+ *
+ * Encoders for the printer's built-in symbols - the printer draws them, we
+ * only send the data:
+ * - QR (GS ( k, model 2): set module size and error correction, store the
+ *   data in the symbol buffer, then print it
+ * - Code128 (GS k 73) using code set B, with the human-readable text below
+ *
+ * Everything here is pure string building so it can be checked byte for byte.
+ */
+
+import { GS } from './commands';
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+export interface QrOptions {
+  size?: number;                       // Module size in dots (1-16)
+  errorCorrection?: QrErrorCorrection; // Defaults to M (15% recovery)
+}
+
+export interface BarcodeOptions {
+  height?: number;      // Bar height in dots (1-255)
+  moduleWidth?: number; // Narrowest bar in dots (2-6 on most printers)
+  hri?: boolean;        // Print the human-readable text below the bars
+}
+
+export const QR_MAX_DATA_LENGTH = 7089;
+export const CODE128_MAX_DATA_LENGTH = 253; // GS k n counts the {B prefix too
+
+const QR_ERROR_CORRECTION: Record<QrErrorCorrection, number> = { L: 48, M: 49, Q: 50, H: 51 };
+
+const byte = (n: number): string => String.fromCharCode(n & 0xff);
+
+// GS ( k pL pH cn fn [params] - length covers cn, fn and params
+const qrFunction = (fn: number, params: string): string => {
+  const length = params.length + 2;
+  return `${GS}(k${byte(length)}${byte(length >> 8)}${byte(49)}${byte(fn)}${params}`;
+};
+
+/**
+ * QR code (model 2) as ESC/POS commands
+ * @param data - Text to encode (ASCII - URLs, order numbers)
+ */
+export const qrCodeCommand = (data: string, options: QrOptions = {}): string => {
+  if (!data) {
+    throw new Error('QR code data is empty');
+  }
+  if (data.length > QR_MAX_DATA_LENGTH) {
+    throw new Error(`QR code data is ${data.length} characters (max ${QR_MAX_DATA_LENGTH})`);
+  }
+  const size = Math.min(16, Math.max(1, Math.round(options.size ?? 6)));
+  const errorCorrection = QR_ERROR_CORRECTION[options.errorCorrection ?? 'M'];
+
+  return (
+    qrFunction(65, `${byte(50)}${byte(0)}`) + // Model 2
+    qrFunction(67, byte(size)) +              // Module size
+    qrFunction(69, byte(errorCorrection)) +   // Error correction level
+    qrFunction(80, `${byte(48)}${data}`) +    // Store data
+    qrFunction(81, byte(48))                  // Print
+  );
+};
+
+// Code set B covers printable ASCII; "{" starts a printer escape, so it's doubled
+const toCode128B = (data: string): string =>
+  data.replace(/[^\x20-\x7E]/g, '').replace(/\{/g, '{{');
+
+/**
+ * Width of a Code128 (set B) barcode in modules: start, one symbol per
+ * character, checksum and stop
+ */
+export const code128Modules = (data: string): number =>
+  11 * (toCode128B(data).replace(/\{\{/g, '{').length + 2) + 13;
+
+/**
+ * Widest module width (up to `preferred`) that keeps the barcode inside
+ * `maxDots` - 0 if it doesn't fit at all
+ */
+export const fitCode128ModuleWidth = (data: string, maxDots: number, preferred: number = 2): number => {
+  const modules = code128Modules(data);
+  for (let width = preferred; width >= 1; width--) {
+    if (modules * width <= maxDots) return width;
+  }
+  return 0;
+};
+
+/**
+ * Code128 barcode (code set B) as ESC/POS commands
+ * @param data - Printable ASCII; anything else is dropped
+ */
+export const code128Command = (data: string, options: BarcodeOptions = {}): string => {
+  const encoded = `{B${toCode128B(data)}`;
+  if (encoded.length === 2) {
+    throw new Error('Barcode data is empty');
+  }
+  if (encoded.length > CODE128_MAX_DATA_LENGTH + 2) {
+    throw new Error(`Barcode data is too long (max ${CODE128_MAX_DATA_LENGTH} characters)`);
+  }
+  const height = Math.min(255, Math.max(1, Math.round(options.height ?? 80)));
+  const moduleWidth = Math.min(6, Math.max(1, Math.round(options.moduleWidth ?? 2)));
+  const hri = options.hri ?? true;
+
+  return (
+    `${GS}h${byte(height)}` +       // Bar height
+    `${GS}w${byte(moduleWidth)}` +  // Module width
+    `${GS}H${byte(hri ? 2 : 0)}` +  // HRI text below / none
+    `${GS}f${byte(0)}` +            // HRI in font A
+    `${GS}k${byte(73)}${byte(encoded.length)}${encoded}`
+  );
+};
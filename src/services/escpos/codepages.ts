@@ -0,0 +1,150 @@
+/**
+ * Printer Codepages
+ *
+ * Thermal printers don't speak UTF-8: they print one byte per character from
+ * the character table selected with ESC t. Text is transcoded into that table
+ * here, so "Crème brûlée" prints as written on a CP850/CP863/CP1252 printer.
+ * Characters the table doesn't have fall back to the closest ASCII ("é" → "e"),
+ * then to "?". The 'ascii' codepage sends no ESC t and folds everything.
+ *
+ * Encoded text is a byte string (one character per byte, 0x00-0xFF), which is
+ * why printService sends it with a byte-for-byte encoding.
+ */
+
+import { PrinterCodepage } from '../../types';
+import { ESC } from './commands';
+
+interface CodepageInfo {
+  id: PrinterCodepage;
+  label: string;
+  escT: number | null; // ESC t n (Epson numbering); null = printer default
+  upper: string;       // Characters for bytes 0x80-0xFF ('\uFFFD' = unused)
+}
+
+export const CODEPAGES: Record<PrinterCodepage, CodepageInfo> = {
+  ascii: {
+    id: 'ascii',
+    label: 'ASCII',
+    escT: null,
+    upper: '',
+  },
+  cp850: {
+    id: 'cp850',
+    label: 'CP850', // Multilingual Latin 1
+    escT: 2,
+    upper:
+      'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒ' +
+      'áíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐' +
+      '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀' +
+      'ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00AD±‗¾¶§÷¸°¨·¹³²■\u00A0',
+  },
+  cp863: {
+    id: 'cp863',
+    label: 'CP863', // Canadian French
+    escT: 4,
+    upper:
+      'ÇüéâÂà¶çêëèïî‗À§ÉÈÊôËÏûù¤ÔÜ¢£ÙÛƒ' +
+      '¦´óú¨¸³¯Î⌐¬½¼¾«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+      '└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀' +
+      'αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00A0',
+  },
+  cp1252: {
+    id: 'cp1252',
+    label: 'CP1252', // Windows Latin 1
+    escT: 16,
+    upper:
+      '€\uFFFD‚ƒ„…†‡ˆ‰Š‹Œ\uFFFDŽ\uFFFD\uFFFD‘’“”•–—˜™š›œ\uFFFDžŸ' +
+      '\u00A0¡¢£¤¥¦§¨©ª«¬\u00AD®¯°±²³´µ¶·¸¹º»¼½¾¿' +
+      'ÀÁÂÃÄÅÆÇÈÉÊËÌÍÎÏÐÑÒÓÔÕÖ×ØÙÚÛÜÝÞß' +
+      'àáâãäåæçèéêëìíîïðñòóôõö÷øùúûüýþÿ',
+  },
+};
+
+export const DEFAULT_CODEPAGE: PrinterCodepage = 'ascii';
+
+// Closest ASCII for characters a codepage can't print
+const ASCII_FOLD_GROUPS: Array<[string, string]> = [
+  ['ÀÁÂÃÄÅ', 'A'], ['àáâãäåª', 'a'],
+  ['Ç', 'C'], ['ç', 'c'],
+  ['ÈÉÊË', 'E'], ['èéêë', 'e'],
+  ['ÌÍÎÏ', 'I'], ['ìíîïı', 'i'],
+  ['Ñ', 'N'], ['ñ', 'n'],
+  ['ÒÓÔÕÖØ', 'O'], ['òóôõöøº°', 'o'],
+  ['ÙÚÛÜ', 'U'], ['ùúûü', 'u'],
+  ['ÝŸ', 'Y'], ['ýÿ', 'y'],
+  ['Š', 'S'], ['š', 's'], ['Ž', 'Z'], ['ž', 'z'],
+  ['Æ', 'AE'], ['æ', 'ae'], ['Œ', 'OE'], ['œ', 'oe'], ['ß', 'ss'],
+  ['‘’‚‛´', "'"], ['“”„‟«»', '"'],
+  ['–—―‗', '-'], ['…', '...'], ['•·∙', '*'],
+  ['\u00A0\u2002\u2003\u2009', ' '], ['\u00AD', ''],
+];
+
+const ASCII_FOLDS = new Map<string, string>(
+  ASCII_FOLD_GROUPS.flatMap(([chars, ascii]) => Array.from(chars).map((char): [string, string] => [char, ascii]))
+);
+
+// Character → byte for each codepage's upper half
+const ENCODE_TABLES = new Map<PrinterCodepage, Map<string, number>>(
+  Object.values(CODEPAGES).map((codepage): [PrinterCodepage, Map<string, number>] => [
+    codepage.id,
+    new Map(
+      Array.from(codepage.upper)
+        .map((char, index): [string, number] => [char, 0x80 + index])
+        .filter(([char]) => char !== '\uFFFD')
+    ),
+  ])
+);
+
+/**
+ * Look up a codepage by id (unknown or missing ids fall back to ASCII)
+ */
+export const getCodepage = (id?: PrinterCodepage | null): CodepageInfo =>
+  (id && CODEPAGES[id]) || CODEPAGES[DEFAULT_CODEPAGE];
+
+/**
+ * ESC t command selecting the codepage ('' for ASCII - nothing to select)
+ */
+export const selectCodepageCommand = (id?: PrinterCodepage | null): string => {
+  const { escT } = getCodepage(id);
+  return escT === null ? '' : `${ESC}t${String.fromCharCode(escT)}`;
+};
+
+/**
+ * True if some codepage (or the ASCII fallback) can print the character
+ */
+export const isPrintableChar = (char: string): boolean => {
+  if (char.charCodeAt(0) < 0x80) return true;
+  if (ASCII_FOLDS.has(char)) return true;
+  for (const table of ENCODE_TABLES.values()) {
+    if (table.has(char)) return true;
+  }
+  return false;
+};
+
+/**
+ * Transcode text into a codepage's bytes (returned as a byte string)
+ */
+export const encodeText = (text: string, id?: PrinterCodepage | null): string => {
+  const table = ENCODE_TABLES.get(getCodepage(id).id);
+  let out = '';
+  for (const char of text) {
+    if (char.charCodeAt(0) < 0x80) {
+      out += char;
+      continue;
+    }
+    const byte = table?.get(char);
+    out += byte !== undefined ? String.fromCharCode(byte) : ASCII_FOLDS.get(char) ?? '?';
+  }
+  return out;
+};
+
+/**
+ * Character a printer shows for a byte under ESC t n - null when the table
+ * isn't one we know (or the byte is plain ASCII)
+ */
+export const decodeCodepageByte = (escT: number | null, byte: number): string | null => {
+  if (byte < 0x80 || escT === null) return null;
+  const codepage = Object.values(CODEPAGES).find((candidate) => candidate.escT === escT);
+  const char = codepage?.upper[byte - 0x80];
+  return char && char !== '\uFFFD' ? char : null;
+};
@@ -0,0 +1,39 @@
+/**
+ * Raw ESC/POS command strings
+ * Tickets should not use these directly - build a TicketDocument instead
+ * (see ./document.ts) and let the renderer emit the commands.
+ */
+
+export const ESC = '\x1B';
+export const GS = '\x1D';
+
+export const COMMANDS = {
+  // Initialize printer
+  INIT: `${ESC}@`,
+
+  // Text alignment
+  ALIGN_LEFT: `${ESC}a\x00`,
+  ALIGN_CENTER: `${ESC}a\x01`,
+  ALIGN_RIGHT: `${ESC}a\x02`,
+
+  // Text size
+  NORMAL_SIZE: `${GS}!\x00`,
+  DOUBLE_HEIGHT: `${GS}!\x01`,
+  DOUBLE_WIDTH: `${GS}!\x10`,
+  DOUBLE_SIZE: `${GS}!\x11`,
+
+  // Text style
+  BOLD_ON: `${ESC}E\x01`,
+  BOLD_OFF: `${ESC}E\x00`,
+  UNDERLINE_ON: `${ESC}-\x01`,
+  UNDERLINE_OFF: `${ESC}-\x00`,
+
+  // Character spacing (ESC SP n) - n = dots of spacing (0-255)
+  CHAR_SPACING: (n: number) => `${ESC} ${String.fromCharCode(n)}`,
+  CHAR_SPACING_NORMAL: `${ESC} \x00`,
+  CHAR_SPACING_WIDE: `${ESC} \x02`, // 2 dots = subtle spacing, tighter
+
+  // Paper
+  CUT_PAPER: `${GS}V\x00`,
+  FEED_LINES: (n: number) => `${ESC}d${String.fromCharCode(n)}`,
+};
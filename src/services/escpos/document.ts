@@ -0,0 +1,316 @@
+/**
+ * ESC/POS Ticket Document
+ *
+ * A small typed model for thermal tickets: lines (with inline bold spans),
+ * centered text, left/right columns, dividers, styled blocks (size / bold /
+ * underline / character spacing), QR codes, barcodes, raster images, feeds
+ * and cuts.
+ *
+ * Build one with TicketBuilder, then render it with:
+ * - renderEscPos()      → the command string sent to printText()
+ * - renderEscPosBytes() → the same thing as raw bytes
+ * - renderPlainText()   → a command-free preview (logs, UI, tests)
+ *
+ * Rendering is deliberately literal: a styled block emits its "on" commands
+ * before its children and the matching "off" commands after, so the output
+ * matches the hand-written command sequences the tickets were tuned with.
+ *
+ * Text stays Unicode in the document; renderEscPos() transcodes it into the
+ * printer's codepage (see ./codepages.ts).
+ */
+
+import { PrinterCodepage } from '../../types';
+import { BarcodeOptions, code128Command, qrCodeCommand, QrOptions } from './barcodes';
+import { COMMANDS } from './commands';
+import { encodeText, selectCodepageCommand } from './codepages';
+import { MonoBitmap, rasterImageCommand } from './raster';
+
+export type TextSize = 'normal' | 'doubleHeight' | 'doubleWidth' | 'double';
+export type Alignment = 'left' | 'center' | 'right';
+
+export interface TextStyle {
+  size?: TextSize;
+  bold?: boolean;
+  underline?: boolean;
+  charSpacing?: number; // Extra dots between characters (ESC SP n)
+}
+
+export interface Span {
+  text: string;
+  bold?: boolean;
+}
+
+export interface PageLayout {
+  width: number;  // Printable characters per line at normal size
+  indent: string; // Left margin prepended to indented lines
+}
+
+export type DocNode =
+  | { type: 'init' }
+  | { type: 'align'; align: Alignment }
+  | { type: 'text'; spans: Span[]; indent: string }
+  | { type: 'center'; text: string; width: number; indent: string }
+  | { type: 'columns'; left: string; right: string; width: number; indent: string }
+  | { type: 'divider'; char: string; width: number; indent: string }
+  | { type: 'block'; style: TextStyle; children: DocNode[] }
+  | { type: 'size'; size: TextSize }
+  | { type: 'qr'; data: string; options: QrOptions }
+  | { type: 'barcode'; data: string; options: BarcodeOptions }
+  | { type: 'image'; bitmap: MonoBitmap }
+  | { type: 'feed'; lines: number }
+  | { type: 'cut' };
+
+export interface TicketDocument {
+  layout: PageLayout;
+  nodes: DocNode[];
+}
+
+export const DEFAULT_LAYOUT: PageLayout = {
+  width: 42,   // 80mm paper, leaving a right margin
+  indent: '  ', // 2 spaces to prevent left edge clipping
+};
+
+/**
+ * Bold inline span, e.g. line(['   - Cheese', boldSpan(' x2')])
+ */
+export const boldSpan = (text: string): Span => ({ text, bold: true });
+
+const toSpans = (content: string | Array<string | Span>): Span[] => {
+  if (typeof content === 'string') return [{ text: content }];
+  return content.map((part) => (typeof part === 'string' ? { text: part } : part));
+};
+
+/**
+ * Fluent builder for TicketDocument
+ *
+ * Widths default to the layout width; pass a width explicitly for text printed
+ * in double-size mode (half as many characters fit).
+ */
+export class TicketBuilder {
+  readonly layout: PageLayout;
+  private stack: DocNode[][] = [[]];
+
+  constructor(layout: PageLayout = DEFAULT_LAYOUT) {
+    this.layout = layout;
+  }
+
+  private push(node: DocNode): this {
+    this.stack[this.stack.length - 1].push(node);
+    return this;
+  }
+
+  /** Reset the printer (ESC @) */
+  init(): this {
+    return this.push({ type: 'init' });
+  }
+
+  /** Set alignment for following lines (ESC a n) - stays until changed */
+  align(align: Alignment): this {
+    return this.push({ type: 'align', align });
+  }
+
+  /** Line with the left margin */
+  line(content: string | Array<string | Span>): this {
+    return this.push({ type: 'text', spans: toSpans(content), indent: this.layout.indent });
+  }
+
+  /** Line without the left margin */
+  raw(content: string | Array<string | Span>): this {
+    return this.push({ type: 'text', spans: toSpans(content), indent: '' });
+  }
+
+  /** Empty line(s) */
+  blank(count: number = 1): this {
+    for (let i = 0; i < count; i++) {
+      this.push({ type: 'text', spans: [], indent: '' });
+    }
+    return this;
+  }
+
+  /** Text centered within width (truncated to fit) */
+  center(text: string, width: number = this.layout.width, indent: string = this.layout.indent): this {
+    return this.push({ type: 'center', text, width, indent });
+  }
+
+  /** Left text and right-aligned text on one line (left is truncated to fit) */
+  columns(left: string, right: string, width: number = this.layout.width): this {
+    return this.push({ type: 'columns', left, right, width, indent: this.layout.indent });
+  }
+
+  /** Full-width divider made of a repeated character */
+  divider(char: string = '-', width: number = this.layout.width): this {
+    return this.push({ type: 'divider', char, width, indent: this.layout.indent });
+  }
+
+  /** Apply a style to everything added inside build() */
+  block(style: TextStyle, build: (builder: this) => void): this {
+    this.stack.push([]);
+    build(this);
+    const children = this.stack.pop()!;
+    return this.push({ type: 'block', style, children });
+  }
+
+  /** Shorthand for block({ bold: true }, build) */
+  bold(build: (builder: this) => void): this {
+    return this.block({ bold: true }, build);
+  }
+
+  /** Switch text size outside of a block (GS ! n) */
+  size(size: TextSize): this {
+    return this.push({ type: 'size', size });
+  }
+
+  /** QR code (GS ( k) - printed at the current alignment */
+  qr(data: string, options: QrOptions = {}): this {
+    return this.push({ type: 'qr', data, options });
+  }
+
+  /** Code128 barcode (GS k) - printed at the current alignment */
+  barcode(data: string, options: BarcodeOptions = {}): this {
+    return this.push({ type: 'barcode', data, options });
+  }
+
+  /** Raster bit image (GS v 0) - printed at the current alignment */
+  image(bitmap: MonoBitmap): this {
+    return this.push({ type: 'image', bitmap });
+  }
+
+  /** Feed n lines (ESC d n) */
+  feed(lines: number): this {
+    return this.push({ type: 'feed', lines });
+  }
+
+  /** Full cut (GS V 0) */
+  cut(): this {
+    return this.push({ type: 'cut' });
+  }
+
+  build(): TicketDocument {
+    return { layout: this.layout, nodes: this.stack[0] };
+  }
+}
+
+// ==================== Layout ====================
+
+const centerLine = (text: string, width: number, indent: string): string => {
+  const trimmed = text.substring(0, width);
+  const padding = Math.max(0, Math.floor((width - trimmed.length) / 2));
+  return indent + ' '.repeat(padding) + trimmed;
+};
+
+const columnsLine = (left: string, right: string, width: number, indent: string): string => {
+  const maxLeft = width - right.length - 1;
+  const leftTrimmed = left.substring(0, maxLeft);
+  const spaces = width - leftTrimmed.length - right.length;
+  return indent + leftTrimmed + ' '.repeat(Math.max(1, spaces)) + right;
+};
+
+// ==================== ESC/POS Renderer ====================
+
+const SIZE_COMMANDS: Record<TextSize, string> = {
+  normal: COMMANDS.NORMAL_SIZE,
+  doubleHeight: COMMANDS.DOUBLE_HEIGHT,
+  doubleWidth: COMMANDS.DOUBLE_WIDTH,
+  double: COMMANDS.DOUBLE_SIZE,
+};
+
+const ALIGN_COMMANDS: Record<Alignment, string> = {
+  left: COMMANDS.ALIGN_LEFT,
+  center: COMMANDS.ALIGN_CENTER,
+  right: COMMANDS.ALIGN_RIGHT,
+};
+
+const styleOn = (style: TextStyle): string => {
+  let out = '';
+  if (style.size) out += SIZE_COMMANDS[style.size];
+  if (style.bold) out += COMMANDS.BOLD_ON;
+  if (style.underline) out += COMMANDS.UNDERLINE_ON;
+  if (style.charSpacing) out += COMMANDS.CHAR_SPACING(style.charSpacing);
+  return out;
+};
+
+// Printers don't stack styles, so "off" always means back to normal
+const styleOff = (style: TextStyle): string => {
+  let out = '';
+  if (style.charSpacing) out += COMMANDS.CHAR_SPACING_NORMAL;
+  if (style.underline) out += COMMANDS.UNDERLINE_OFF;
+  if (style.bold) out += COMMANDS.BOLD_OFF;
+  if (style.size) out += COMMANDS.NORMAL_SIZE;
+  return out;
+};
+
+const renderSpansEscPos = (spans: Span[], codepage: PrinterCodepage): string =>
+  spans
+    .map((span) => {
+      const text = encodeText(span.text, codepage);
+      return span.bold ? COMMANDS.BOLD_ON + text + COMMANDS.BOLD_OFF : text;
+    })
+    .join('');
+
+const renderNodeEscPos = (node: DocNode, codepage: PrinterCodepage): string => {
+  const encode = (text: string) => encodeText(text, codepage);
+  switch (node.type) {
+    // ESC @ resets the character table, so the codepage is selected again
+    case 'init': return COMMANDS.INIT + selectCodepageCommand(codepage);
+    case 'align': return ALIGN_COMMANDS[node.align];
+    case 'text': return node.indent + renderSpansEscPos(node.spans, codepage) + '\n';
+    case 'center': return encode(centerLine(node.text, node.width, node.indent)) + '\n';
+    case 'columns': return encode(columnsLine(node.left, node.right, node.width, node.indent)) + '\n';
+    case 'divider': return node.indent + encode(node.char.repeat(node.width)) + '\n';
+    case 'block':
+      return styleOn(node.style) + node.children.map((child) => renderNodeEscPos(child, codepage)).join('') + styleOff(node.style);
+    case 'size': return SIZE_COMMANDS[node.size];
+    // Symbol data is ASCII (URLs, order numbers) - folded, never transcoded
+    case 'qr': return qrCodeCommand(encodeText(node.data, 'ascii'), node.options);
+    case 'barcode': return code128Command(encodeText(node.data, 'ascii'), node.options);
+    case 'image': return rasterImageCommand(node.bitmap);
+    case 'feed': return COMMANDS.FEED_LINES(node.lines);
+    case 'cut': return COMMANDS.CUT_PAPER;
+  }
+};
+
+/**
+ * Render a document to the ESC/POS command string sent to the printer
+ * @param codepage - The printer's character set (ASCII folds accents)
+ */
+export const renderEscPos = (doc: TicketDocument, codepage: PrinterCodepage = 'ascii'): string => {
+  // A document that starts with init selects the codepage there
+  const select = doc.nodes[0]?.type === 'init' ? '' : selectCodepageCommand(codepage);
+  return select + doc.nodes.map((node) => renderNodeEscPos(node, codepage)).join('');
+};
+
+/**
+ * Render a document to raw ESC/POS bytes (one byte per character)
+ */
+export const renderEscPosBytes = (doc: TicketDocument, codepage?: PrinterCodepage): Uint8Array => {
+  const text = renderEscPos(doc, codepage);
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+};
+
+// ==================== Plain Text Renderer ====================
+
+const renderNodePlain = (node: DocNode, layout: PageLayout): string => {
+  switch (node.type) {
+    case 'text': return node.indent + node.spans.map((span) => span.text).join('') + '\n';
+    case 'center': return centerLine(node.text, node.width, node.indent) + '\n';
+    case 'columns': return columnsLine(node.left, node.right, node.width, node.indent) + '\n';
+    case 'divider': return node.indent + node.char.repeat(node.width) + '\n';
+    case 'block': return node.children.map((child) => renderNodePlain(child, layout)).join('');
+    case 'qr': return `[QR: ${node.data}]\n`;
+    case 'barcode': return `[BARCODE: ${node.data}]\n`;
+    case 'image': return `[IMAGE: ${node.bitmap.width}x${node.bitmap.height}]\n`;
+    case 'feed': return '\n'.repeat(node.lines);
+    case 'cut': return '~'.repeat(layout.indent.length + layout.width) + '\n';
+    default: return '';
+  }
+};
+
+/**
+ * Render a document as plain text (no commands) - for previews and logs
+ */
+export const renderPlainText = (doc: TicketDocument): string =>
+  doc.nodes.map((node) => renderNodePlain(node, doc.layout)).join('');
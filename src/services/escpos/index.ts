@@ -0,0 +1,7 @@
+export * from './barcodes';
+export * from './commands';
+export * from './codepages';
+export * from './document';
+export * from './interpreter';
+export * from './raster';
+export * from './status';
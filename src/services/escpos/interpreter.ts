@@ -0,0 +1,309 @@
+/**
+ * ESC/POS Interpreter
+ *
+ * Plays an ESC/POS command string back onto a virtual roll of paper, the way
+ * a thermal printer would: alignment, bold, underline and GS ! character size
+ * are tracked as printer state, text wraps at the paper width, and feeds and
+ * cuts show up as paper. It reads the exact string sent to printText(), so the
+ * on-screen preview and the snapshot tests see what the printer sees. Bytes
+ * above 0x7F are looked up in the codepage selected with ESC t.
+ *
+ * QR codes and barcodes come out as 'code' lines carrying their data, raster
+ * images as 'image' lines with their size in dots. Commands the preview can't
+ * show (drawer kicks, beeps...) are skipped with their parameters so they
+ * don't leak into the text.
+ */
+
+import { decodeCodepageByte } from './codepages';
+import { ESC, GS } from './commands';
+import { Alignment } from './document';
+
+// Font A characters per line at normal size on 80mm paper (576 dots / 12)
+export const PAPER_COLUMNS_80MM = 48;
+
+export interface PaperSegment {
+  text: string;
+  bold: boolean;
+  underline: boolean;
+  doubleWidth: boolean;
+  doubleHeight: boolean;
+}
+
+export type PaperCodeKind = 'qr' | 'barcode';
+
+export type PaperLine =
+  | { type: 'text'; align: Alignment; segments: PaperSegment[] }
+  | { type: 'code'; kind: PaperCodeKind; align: Alignment; data: string }
+  | { type: 'image'; align: Alignment; width: number; height: number } // Dots
+  | { type: 'cut' };
+
+export interface VirtualPaper {
+  columns: number;
+  lines: PaperLine[];
+}
+
+interface PrinterState {
+  align: Alignment;
+  bold: boolean;
+  underline: boolean;
+  doubleWidth: boolean;
+  doubleHeight: boolean;
+  codepage: number | null; // ESC t n - null is the printer's default table
+}
+
+const initialState = (): PrinterState => ({
+  align: 'left',
+  bold: false,
+  underline: false,
+  doubleWidth: false,
+  doubleHeight: false,
+  codepage: null,
+});
+
+const ALIGNMENTS: Alignment[] = ['left', 'center', 'right'];
+
+// ESC commands that take a fixed number of parameter bytes
+const ESC_PARAM_COUNTS: Record<string, number> = {
+  ' ': 1, // Character spacing
+  '!': 1, // Print mode
+  '2': 0, // Default line spacing
+  '3': 1, // Line spacing
+  'G': 1, // Double strike
+  'J': 1, // Feed n dots
+  'M': 1, // Character font
+  'R': 1, // International character set
+  'V': 1, // 90° rotation
+  'p': 3, // Cash drawer pulse
+  '{': 1, // Upside down
+};
+
+/**
+ * Visible width of a segment in normal-size columns
+ */
+export const segmentWidth = (segment: PaperSegment): number =>
+  segment.text.length * (segment.doubleWidth ? 2 : 1);
+
+/**
+ * Visible width of a line in normal-size columns
+ */
+export const lineWidth = (line: PaperLine): number =>
+  line.type === 'text' ? line.segments.reduce((sum, segment) => sum + segmentWidth(segment), 0) : 0;
+
+/**
+ * Interpret an ESC/POS string onto virtual paper
+ * @param data - The exact string passed to printText()
+ * @param columns - Characters per line at normal size
+ */
+export const interpretEscPos = (data: string, columns: number = PAPER_COLUMNS_80MM): VirtualPaper => {
+  const lines: PaperLine[] = [];
+  let state = initialState();
+  let current: { align: Alignment; segments: PaperSegment[] } | null = null;
+  let currentWidth = 0;
+  let qrData = ''; // GS ( k symbol storage, printed by fn 81
+
+  const lineInProgress = () => {
+    if (!current) {
+      // Alignment is latched when the line starts printing
+      current = { align: state.align, segments: [] };
+      currentWidth = 0;
+    }
+    return current;
+  };
+
+  const endLine = () => {
+    const line = lineInProgress();
+    lines.push({ type: 'text', ...line });
+    current = null;
+  };
+
+  const putChar = (char: string) => {
+    const charWidth = state.doubleWidth ? 2 : 1;
+    if (current && currentWidth + charWidth > columns) {
+      endLine(); // Printer wraps when the line is full
+    }
+    const line = lineInProgress();
+    const last = line.segments[line.segments.length - 1];
+    if (
+      last &&
+      last.bold === state.bold &&
+      last.underline === state.underline &&
+      last.doubleWidth === state.doubleWidth &&
+      last.doubleHeight === state.doubleHeight
+    ) {
+      last.text += char;
+    } else {
+      line.segments.push({
+        text: char,
+        bold: state.bold,
+        underline: state.underline,
+        doubleWidth: state.doubleWidth,
+        doubleHeight: state.doubleHeight,
+      });
+    }
+    currentWidth += charWidth;
+  };
+
+  const byteAt = (index: number): number => (index < data.length ? data.charCodeAt(index) & 0xff : 0);
+
+  let i = 0;
+  while (i < data.length) {
+    const char = data[i];
+
+    if (char === ESC) {
+      const command = data[i + 1];
+      const n = byteAt(i + 2);
+      switch (command) {
+        case '@':
+          if (current) endLine();
+          state = initialState();
+          i += 2;
+          break;
+        case 'a':
+          state.align = ALIGNMENTS[n % 48] ?? 'left'; // Accepts 0-2 or '0'-'2'
+          i += 3;
+          break;
+        case 'E':
+          state.bold = (n & 1) === 1;
+          i += 3;
+          break;
+        case '-':
+          state.underline = (n & 3) !== 0; // 1-2 dots thick, '0' (48) is off
+          i += 3;
+          break;
+        case 'd':
+          if (current) endLine();
+          for (let line = 0; line < n; line++) endLine();
+          i += 3;
+          break;
+        case 't':
+          state.codepage = n;
+          i += 3;
+          break;
+        default:
+          i += 2 + (ESC_PARAM_COUNTS[command] ?? 0);
+          break;
+      }
+      continue;
+    }
+
+    if (char === GS) {
+      const command = data[i + 1];
+      const n = byteAt(i + 2);
+      switch (command) {
+        case '!':
+          state.doubleWidth = ((n >> 4) & 0x0f) > 0;
+          state.doubleHeight = (n & 0x0f) > 0;
+          i += 3;
+          break;
+        case 'V':
+          if (current) endLine();
+          lines.push({ type: 'cut' });
+          i += n === 65 || n === 66 ? 4 : 3; // Feed-and-cut variants take an extra byte
+          break;
+        case '(': {
+          // GS ( fn pL pH cn fn [params] - QR store/print, skip everything else
+          const length = byteAt(i + 3) + byteAt(i + 4) * 256;
+          if (data[i + 2] === 'k' && byteAt(i + 5) === 49) {
+            const fn = byteAt(i + 6);
+            if (fn === 80) {
+              qrData = data.substring(i + 8, i + 5 + length);
+            } else if (fn === 81) {
+              if (current) endLine();
+              lines.push({ type: 'code', kind: 'qr', align: state.align, data: qrData });
+            }
+          }
+          i += 5 + length;
+          break;
+        }
+        case 'v': {
+          // GS v 0 m xL xH yL yH [raster data] - bands of one image join up
+          const widthBytes = byteAt(i + 4) + byteAt(i + 5) * 256;
+          const height = byteAt(i + 6) + byteAt(i + 7) * 256;
+          if (current) endLine();
+          const previous = lines[lines.length - 1];
+          if (previous?.type === 'image' && previous.width === widthBytes * 8 && previous.align === state.align) {
+            previous.height += height;
+          } else {
+            lines.push({ type: 'image', align: state.align, width: widthBytes * 8, height });
+          }
+          i += 8 + widthBytes * height;
+          break;
+        }
+        case 'k': {
+          // GS k m n [data] (m >= 65) or GS k m [data] NUL (m <= 6)
+          if (n >= 65) {
+            const length = byteAt(i + 3);
+            let barcode = data.substring(i + 4, i + 4 + length);
+            if (n === 73) {
+              barcode = barcode.replace(/^\{[ABC]/, '').replace(/\{\{/g, '{'); // Code128 code set prefix
+            }
+            if (current) endLine();
+            lines.push({ type: 'code', kind: 'barcode', align: state.align, data: barcode });
+            i += 4 + length;
+          } else {
+            const end = data.indexOf('\x00', i + 3);
+            i = end === -1 ? data.length : end + 1;
+          }
+          break;
+        }
+        default:
+          i += 3;
+          break;
+      }
+      continue;
+    }
+
+    if (char === '\n') {
+      endLine();
+    } else if (char !== '\r' && char.charCodeAt(0) >= 0x20) {
+      putChar(decodeCodepageByte(state.codepage, char.charCodeAt(0)) ?? char);
+    }
+    i += 1;
+  }
+
+  if (current) endLine();
+
+  return { columns, lines };
+};
+
+// ==================== Text rendering ====================
+
+const gutterFor = (line: PaperLine): string => {
+  if (line.type !== 'text') return '';
+  const flags = [
+    line.segments.some((s) => s.bold && s.text.trim()) ? 'B' : '',
+    line.segments.some((s) => s.underline && s.text.trim()) ? 'U' : '',
+    line.segments.some((s) => s.doubleWidth && s.text.trim()) ? 'W' : '',
+    line.segments.some((s) => s.doubleHeight && s.text.trim()) ? 'H' : '',
+  ].join('');
+  return flags.padEnd(4);
+};
+
+/**
+ * Render virtual paper as text - alignment applied, double-width text spread
+ * over two columns per character. With `gutter`, each line is prefixed with
+ * its styles (B = bold, U = underline, W = double width, H = double height),
+ * which is what the format snapshot tests compare.
+ */
+export const renderPaperText = (paper: VirtualPaper, options: { gutter?: boolean } = {}): string =>
+  paper.lines
+    .map((line) => {
+      if (line.type === 'cut') {
+        return (options.gutter ? '    |' : '') + '✂' + '-'.repeat(paper.columns - 1);
+      }
+      if (line.type === 'code') {
+        return (options.gutter ? '    |' : '') + `[${line.kind.toUpperCase()}: ${line.data}]`;
+      }
+      if (line.type === 'image') {
+        return (options.gutter ? '    |' : '') + `[IMAGE: ${line.width}x${line.height}]`;
+      }
+      const text = line.segments
+        .map((segment) => (segment.doubleWidth ? segment.text.split('').join(' ') + ' ' : segment.text))
+        .join('');
+      const width = lineWidth(line);
+      const free = Math.max(0, paper.columns - width);
+      const padding = line.align === 'center' ? Math.floor(free / 2) : line.align === 'right' ? free : 0;
+      const rendered = (' '.repeat(padding) + text).replace(/\s+$/, '');
+      return options.gutter ? `${gutterFor(line)}|${rendered}` : rendered;
+    })
+    .join('\n');
@@ -0,0 +1,153 @@
+/**
+ * ESC/POS Raster Images
+ *
+ * Turns a decoded image into something a thermal printer can print: flattened
+ * onto white, converted to grayscale, scaled to fit the paper (area
+ * averaging), dithered to black and white (Floyd-Steinberg) and sent as
+ * GS v 0 raster bit images.
+ *
+ * Everything here is pure so a bitmap can be checked pixel by pixel and the
+ * command byte by byte. Decoding PNG/JPEG files lives with the logo loader.
+ */
+
+import { GS } from './commands';
+
+/**
+ * Decoded image, 4 bytes per pixel (RGBA)
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array | Uint8ClampedArray;
+}
+
+/**
+ * 1-bit image as the printer stores it: rows of `bytesPerRow` bytes, most
+ * significant bit first, 1 = black dot
+ */
+export interface MonoBitmap {
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  data: Uint8Array;
+}
+
+interface GrayImage {
+  width: number;
+  height: number;
+  pixels: Float32Array; // 0 = black, 255 = white
+}
+
+// Tallest band sent in one GS v 0 - some printers drop larger images
+export const RASTER_BAND_HEIGHT = 128;
+
+const byte = (n: number): string => String.fromCharCode(n & 0xff);
+
+const toGrayscale = (image: RgbaImage): GrayImage => {
+  const pixels = new Float32Array(image.width * image.height);
+  for (let i = 0; i < pixels.length; i++) {
+    const r = image.data[i * 4];
+    const g = image.data[i * 4 + 1];
+    const b = image.data[i * 4 + 2];
+    const alpha = image.data[i * 4 + 3] / 255;
+    // Transparent areas are paper, not black
+    pixels[i] = (0.299 * r + 0.587 * g + 0.114 * b) * alpha + 255 * (1 - alpha);
+  }
+  return { width: image.width, height: image.height, pixels };
+};
+
+// Each target pixel averages the source area it covers (fractional edges weighted)
+const resize = (image: GrayImage, width: number, height: number): GrayImage => {
+  if (width === image.width && height === image.height) return image;
+
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+  const pixels = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const top = y * scaleY;
+    const bottom = top + scaleY;
+    for (let x = 0; x < width; x++) {
+      const left = x * scaleX;
+      const right = left + scaleX;
+      let sum = 0;
+      let area = 0;
+      for (let sy = Math.floor(top); sy < Math.min(image.height, Math.ceil(bottom)); sy++) {
+        const coverY = Math.min(bottom, sy + 1) - Math.max(top, sy);
+        for (let sx = Math.floor(left); sx < Math.min(image.width, Math.ceil(right)); sx++) {
+          const cover = coverY * (Math.min(right, sx + 1) - Math.max(left, sx));
+          sum += image.pixels[sy * image.width + sx] * cover;
+          area += cover;
+        }
+      }
+      pixels[y * width + x] = area > 0 ? sum / area : 255;
+    }
+  }
+
+  return { width, height, pixels };
+};
+
+// Floyd-Steinberg: push each pixel's rounding error onto its unvisited neighbours
+const dither = (image: GrayImage): MonoBitmap => {
+  const { width, height } = image;
+  const pixels = Float32Array.from(image.pixels);
+  const bytesPerRow = Math.ceil(width / 8);
+  const data = new Uint8Array(bytesPerRow * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const black = pixels[index] < 128;
+      const error = pixels[index] - (black ? 0 : 255);
+      if (black) {
+        data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+      if (x + 1 < width) pixels[index + 1] += (error * 7) / 16;
+      if (y + 1 < height) {
+        if (x > 0) pixels[index + width - 1] += (error * 3) / 16;
+        pixels[index + width] += (error * 5) / 16;
+        if (x + 1 < width) pixels[index + width + 1] += error / 16;
+      }
+    }
+  }
+
+  return { width, height, bytesPerRow, data };
+};
+
+/**
+ * Convert an image to a printable bitmap no larger than maxWidth x maxHeight
+ * dots, keeping its proportions (small images are scaled up to fit)
+ */
+export const imageToMonoBitmap = (image: RgbaImage, maxWidth: number, maxHeight: number = Infinity): MonoBitmap => {
+  if (image.width <= 0 || image.height <= 0) {
+    throw new Error('Image is empty');
+  }
+  const scale = Math.min(maxWidth / image.width, maxHeight / image.height);
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  return dither(resize(toGrayscale(image), width, height));
+};
+
+/**
+ * True if the bitmap has a black dot at (x, y)
+ */
+export const isBitmapDotSet = (bitmap: MonoBitmap, x: number, y: number): boolean =>
+  (bitmap.data[y * bitmap.bytesPerRow + (x >> 3)] & (0x80 >> (x & 7))) !== 0;
+
+/**
+ * Bitmap as GS v 0 raster commands (normal density), in bands of up to
+ * RASTER_BAND_HEIGHT rows
+ */
+export const rasterImageCommand = (bitmap: MonoBitmap): string => {
+  let out = '';
+  for (let top = 0; top < bitmap.height; top += RASTER_BAND_HEIGHT) {
+    const rows = Math.min(RASTER_BAND_HEIGHT, bitmap.height - top);
+    const band = bitmap.data.subarray(top * bitmap.bytesPerRow, (top + rows) * bitmap.bytesPerRow);
+    out +=
+      `${GS}v0${byte(0)}` +
+      `${byte(bitmap.bytesPerRow)}${byte(bitmap.bytesPerRow >> 8)}` +
+      `${byte(rows)}${byte(rows >> 8)}` +
+      String.fromCharCode(...band);
+  }
+  return out;
+};
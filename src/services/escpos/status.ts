@@ -0,0 +1,111 @@
+/**
+ * ESC/POS Printer Status
+ *
+ * Requests and decoders for the two ways a printer reports its condition:
+ * - Real-time status (DLE EOT n): one byte per request - n=1 printer,
+ *   2 offline cause, 3 error cause, 4 paper roll sensor
+ * - Automatic Status Back (GS a n): once enabled, the printer sends a
+ *   4-byte status right away and again whenever something changes
+ *
+ * Both answers carry fixed bits, which is how a reply is told apart from
+ * noise (and one format from the other). Everything here is pure so the bit
+ * layouts can be checked byte for byte.
+ */
+
+import { PrinterState } from '../../types';
+import { GS } from './commands';
+
+export const DLE = '\x10';
+const EOT = '\x04';
+
+export interface PrinterStatusFlags {
+  offline: boolean;
+  coverOpen: boolean;
+  paperLow: boolean;
+  paperOut: boolean;
+  cutterError: boolean;
+  unrecoverableError: boolean;
+  recoverableError: boolean; // Clears by itself (e.g. print head overheated)
+}
+
+// DLE EOT 1-4 in one write - the printer answers with four bytes in the same order
+export const REALTIME_STATUS_REQUEST = [1, 2, 3, 4].map((n) => `${DLE}${EOT}${String.fromCharCode(n)}`).join('');
+export const REALTIME_STATUS_LENGTH = 4;
+
+// GS a - enable drawer, online/offline, error and paper sensor reports (or turn them off)
+export const AUTOMATIC_STATUS_ENABLE = `${GS}a\x0F`;
+export const AUTOMATIC_STATUS_DISABLE = `${GS}a\x00`;
+export const AUTOMATIC_STATUS_LENGTH = 4;
+
+const bit = (value: number, n: number) => (value & (1 << n)) !== 0;
+
+// Bits 0 and 7 are always 0; DLE EOT sets bits 1 and 4, ASB sets only bit 4
+const isRealtimeByte = (value: number) => (value & 0x93) === 0x12;
+const isAutomaticFirstByte = (value: number) => (value & 0x93) === 0x10;
+
+/**
+ * Decode the four DLE EOT 1-4 replies
+ * @returns null if the bytes aren't a real-time status answer
+ */
+export const decodeRealtimeStatus = (response: string): PrinterStatusFlags | null => {
+  if (response.length < REALTIME_STATUS_LENGTH) return null;
+  const [printer, offlineCause, errorCause, paper] = Array.from(response.slice(0, 4), (char) => char.charCodeAt(0));
+  if (![printer, offlineCause, errorCause, paper].every(isRealtimeByte)) return null;
+
+  return {
+    offline: bit(printer, 3),
+    coverOpen: bit(offlineCause, 2),
+    paperOut: bit(offlineCause, 5) || bit(paper, 5) || bit(paper, 6),
+    paperLow: bit(paper, 2) || bit(paper, 3),
+    cutterError: bit(errorCause, 2),
+    unrecoverableError: bit(errorCause, 3),
+    recoverableError: bit(errorCause, 5),
+  };
+};
+
+/**
+ * Decode a 4-byte Automatic Status Back message
+ * @returns null if the bytes aren't an ASB message
+ */
+export const decodeAutomaticStatus = (response: string): PrinterStatusFlags | null => {
+  if (response.length < AUTOMATIC_STATUS_LENGTH) return null;
+  const [first, second, third] = Array.from(response.slice(0, 3), (char) => char.charCodeAt(0));
+  if (!isAutomaticFirstByte(first) || (second & 0x90) !== 0 || (third & 0x90) !== 0) return null;
+
+  return {
+    offline: bit(first, 3),
+    coverOpen: bit(first, 5),
+    paperOut: bit(third, 2) || bit(third, 3),
+    paperLow: bit(third, 0) || bit(third, 1),
+    cutterError: bit(second, 2),
+    unrecoverableError: bit(second, 3),
+    recoverableError: bit(second, 5),
+  };
+};
+
+/**
+ * Decode whichever status format the printer answered with
+ */
+export const decodePrinterStatus = (response: string): PrinterStatusFlags | null =>
+  decodeRealtimeStatus(response) ?? decodeAutomaticStatus(response);
+
+/**
+ * The one condition to show staff - the worst one wins. An offline printer
+ * usually reports why (paper out, cover open), so that goes first.
+ */
+export const getPrinterState = (flags: PrinterStatusFlags): PrinterState => {
+  if (flags.paperOut) return 'paper_out';
+  if (flags.coverOpen) return 'cover_open';
+  if (flags.cutterError) return 'cutter_error';
+  if (flags.unrecoverableError || flags.recoverableError) return 'error';
+  if (flags.offline) return 'offline';
+  if (flags.paperLow) return 'paper_low';
+  return 'ok';
+};
+
+/**
+ * Can tickets print? Low paper still prints, and a printer that can't
+ * report its status is trusted as before.
+ */
+export const isPrinterStateHealthy = (state: PrinterState): boolean =>
+  state === 'ok' || state === 'paper_low' || state === 'unknown';
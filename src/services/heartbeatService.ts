@@ -1,6 +1,8 @@
 import { apiClient } from '../api/client';
 import { useStore } from '../store/useStore';
 import { HeartbeatPayload } from '../types';
+import { applyAlertRuleUpdates, resolveAlertRules } from './tickets';
+import { getHeartbeatPrinterStatus } from './printService';
 import * as Application from 'expo-application';
 
 const APP_VERSION = '1.4.23';
@@ -46,7 +48,7 @@ export const sendHeartbeat = async (): Promise<void> => {
     app_version: APP_VERSION,
     battery_level: await getBatteryLevel(),
     wifi_strength: await getWifiStrength(),
-    printer_status: store.settings.printerConnected ? 'connected' : 'disconnected',
+    printer_status: getHeartbeatPrinterStatus(store.settings.printerConnected),
   };
 
   // Add last order received time if we have orders
@@ -71,6 +73,11 @@ export const sendHeartbeat = async (): Promise<void> => {
       if (updates.sound_enabled !== undefined) {
         store.updateSettings({ soundEnabled: updates.sound_enabled });
       }
+      if (updates.alert_keywords) {
+        store.updateSettings({
+          alertKeywordRules: applyAlertRuleUpdates(resolveAlertRules(store.settings.alertKeywordRules), updates.alert_keywords),
+        });
+      }
     }
   } catch (error) {
     console.error('Heartbeat failed:', error);
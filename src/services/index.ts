@@ -1,2 +1,5 @@
 export * from './printService';
+export * from './printerTransport';
 export * from './heartbeatService';
+export * from './printQueue';
+export * from './orderHistory';
@@ -0,0 +1,120 @@
+/**
+ * Order History Cache
+ *
+ * Keeps a copy of every order the tablet has seen so past orders can be
+ * searched (and looked up when a customer calls) after they drop off the
+ * live board - even offline. Pruned by age and size so it can't grow without
+ * bound in AsyncStorage.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Order } from '../types';
+
+const ORDER_HISTORY_KEY = '@order_history';
+const HISTORY_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+export const MAX_CACHED_ORDERS = 1000;
+const PERSIST_DELAY_MS = 5000; // Orders arrive every poll - batch the writes
+
+export interface OrderHistorySnapshot {
+  loaded: boolean;
+  orders: Order[];  // Newest first
+}
+
+let snapshot: OrderHistorySnapshot = { loaded: false, orders: [] };
+const listeners = new Set<() => void>();
+let loadPromise: Promise<void> | null = null;
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ==================== Pure helpers ====================
+
+const updatedAtMs = (order: Order): number => new Date(order.updated_at).getTime() || 0;
+
+/**
+ * Merge orders into the cache by id (newer copy wins), drop old ones, cap the size.
+ * Returns the same array when nothing changed.
+ */
+export const mergeOrderHistory = (cached: Order[], incoming: Order[], now: number = Date.now()): Order[] => {
+  const byId = new Map(cached.map((order) => [order.id, order]));
+  let changed = false;
+  incoming.forEach((order) => {
+    const existing = byId.get(order.id);
+    if (existing && (updatedAtMs(existing) > updatedAtMs(order) || JSON.stringify(existing) === JSON.stringify(order))) {
+      return;
+    }
+    byId.set(order.id, order);
+    changed = true;
+  });
+
+  const kept = Array.from(byId.values()).filter(
+    (order) => now - new Date(order.created_at).getTime() < HISTORY_RETENTION_MS
+  );
+  if (!changed && kept.length === cached.length) return cached;
+
+  return kept
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
+    .slice(0, MAX_CACHED_ORDERS);
+};
+
+// ==================== State ====================
+
+const persist = async () => {
+  persistTimer = null;
+  try {
+    await AsyncStorage.setItem(ORDER_HISTORY_KEY, JSON.stringify(snapshot.orders));
+  } catch (error) {
+    console.error('[OrderHistory] Error saving:', error);
+  }
+};
+
+const setSnapshot = (next: OrderHistorySnapshot) => {
+  snapshot = next;
+  listeners.forEach((listener) => listener());
+  // Never write before the load - it would replace the stored cache with just the new orders
+  if (snapshot.loaded && !persistTimer) {
+    persistTimer = setTimeout(() => void persist(), PERSIST_DELAY_MS);
+  }
+};
+
+/**
+ * Load the cache from storage (safe to call more than once)
+ */
+export const loadOrderHistory = (): Promise<void> => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      let stored: Order[] = [];
+      try {
+        const raw = await AsyncStorage.getItem(ORDER_HISTORY_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        stored = Array.isArray(parsed) ? parsed : [];
+      } catch (error) {
+        console.error('[OrderHistory] Error loading:', error);
+      }
+      // Orders cached before the load finished are newer than what was stored
+      setSnapshot({ loaded: true, orders: mergeOrderHistory(stored, snapshot.orders) });
+      console.log(`[OrderHistory] ✓ Loaded ${snapshot.orders.length} orders`);
+    })();
+  }
+  return loadPromise;
+};
+
+export const getOrderHistorySnapshot = (): OrderHistorySnapshot => snapshot;
+
+export const subscribeOrderHistory = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Add or refresh orders in the cache (live orders, server search results...)
+ */
+export const cacheOrders = (orders: Order[]) => {
+  const merged = mergeOrderHistory(snapshot.orders, orders);
+  if (merged !== snapshot.orders) {
+    setSnapshot({ ...snapshot, orders: merged });
+  }
+};
+
+export const getCachedOrder = (orderId: string): Order | undefined =>
+  snapshot.orders.find((order) => order.id === orderId);
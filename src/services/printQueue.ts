@@ -0,0 +1,563 @@
+/**
+ * Print Job Queue
+ *
+ * Every print goes through here as a job (order, ticket type, copies,
+ * attempts, last error, state) persisted to AsyncStorage, so nothing is lost
+ * when the printer drops or the app restarts.
+ *
+ * - Duplicate jobs for the same order + ticket type are refused
+ * - Failed jobs retry with exponential backoff, and right away when the
+ *   printer reconnects (resumePrintQueue)
+ * - Orders that arrive while the printer is offline are "held" and only print
+ *   when staff release them; held, retrying and failed jobs make up the backlog
+ * - The print history (how many times each order printed) replaces the old
+ *   printed / backlog / print-count AsyncStorage sets
+ * - While the printer reports a problem (paper out, cover open...) jobs wait
+ *   in line without using up attempts, and print once it's fixed
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Order, PrintJob, PrintJobState, PrintJobType } from '../types';
+import { useStore } from '../store/useStore';
+import {
+  ensureConnected,
+  getPrinterStatus,
+  isPrinterHealthy,
+  printBoth,
+  printCancellationSlip,
+  printCustomerReceipt,
+  printDriverSlip,
+  printItemLabels,
+  printKitchenTicket,
+  printOrderUpdateTicket,
+  PRINTER_STATE_MESSAGES,
+  refreshPrinterStatus,
+} from './printService';
+
+const PRINT_QUEUE_KEY = '@print_queue';
+
+// Storage keys the queue replaced - print counts are migrated, then removed
+const LEGACY_PRINTED_ORDERS_KEY = '@printed_order_ids';
+const LEGACY_BACKLOGGED_ORDERS_KEY = '@backlogged_order_ids';
+const LEGACY_PRINT_COUNTS_KEY = '@order_print_counts';
+
+export const MAX_AUTO_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 5000;
+const RETRY_MAX_DELAY_MS = 2 * 60 * 1000;
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000;          // Finished jobs stay visible for a day
+const HISTORY_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;  // Print counts kept for a week
+
+// Jobs that still need to print (or a decision from staff)
+const ACTIVE_STATES: PrintJobState[] = ['queued', 'printing', 'retrying', 'held'];
+
+// Tickets that follow the order's own print - they don't count as printing the order again
+const FOLLOW_UP_TYPES: PrintJobType[] = ['update', 'driver', 'cancel'];
+
+export interface PrintHistoryEntry {
+  count: number;
+  last_printed_at: string;
+}
+
+export interface PrintQueueSnapshot {
+  loaded: boolean;
+  jobs: PrintJob[];
+  history: Record<string, PrintHistoryEntry>; // order_id -> times printed
+}
+
+export interface EnqueueOptions {
+  type: PrintJobType;
+  copies?: number;
+  source?: PrintJob['source'];
+  hold?: boolean; // Put straight into the backlog instead of printing
+}
+
+let snapshot: PrintQueueSnapshot = { loaded: false, jobs: [], history: {} };
+const listeners = new Set<() => void>();
+let loadPromise: Promise<void> | null = null;
+let processing: Promise<void> | null = null;
+let rerunRequested = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// ==================== Pure helpers ====================
+
+/**
+ * Backoff before the next automatic attempt: 5s, 10s, 20s... capped at 2 minutes
+ */
+export const getRetryDelayMs = (attempts: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+
+/**
+ * The unfinished job for an order + ticket type, if any
+ */
+export const findActiveJob = (jobs: PrintJob[], orderId: string, type: PrintJobType): PrintJob | undefined =>
+  jobs.find((job) => job.order_id === orderId && job.type === type && ACTIVE_STATES.includes(job.state));
+
+/**
+ * Is the job in the backlog - waiting on staff or the printer rather than in line to print?
+ */
+export const isBacklogJob = (job: PrintJob): boolean =>
+  job.state === 'held' || job.state === 'retrying' || job.state === 'failed';
+
+/**
+ * Is the job ready to be sent to the printer?
+ */
+export const isJobDue = (job: PrintJob, now: number = Date.now()): boolean => {
+  if (job.state === 'queued') return true;
+  if (job.state !== 'retrying') return false;
+  return !job.next_attempt_at || new Date(job.next_attempt_at).getTime() <= now;
+};
+
+const pruneSnapshot = (state: PrintQueueSnapshot, now: number): PrintQueueSnapshot => {
+  const jobs = state.jobs.filter(
+    (job) => ACTIVE_STATES.includes(job.state) || now - new Date(job.updated_at).getTime() < JOB_RETENTION_MS
+  );
+  const history: Record<string, PrintHistoryEntry> = {};
+  Object.entries(state.history).forEach(([orderId, entry]) => {
+    if (now - new Date(entry.last_printed_at).getTime() < HISTORY_RETENTION_MS) {
+      history[orderId] = entry;
+    }
+  });
+  return { ...state, jobs, history };
+};
+
+// ==================== State ====================
+
+const persist = async () => {
+  try {
+    await AsyncStorage.setItem(
+      PRINT_QUEUE_KEY,
+      JSON.stringify({ jobs: snapshot.jobs, history: snapshot.history })
+    );
+  } catch (error) {
+    console.error('[PrintQueue] Error saving:', error);
+  }
+};
+
+const setSnapshot = (next: PrintQueueSnapshot) => {
+  snapshot = next;
+  listeners.forEach((listener) => listener());
+  // Writing before the load would replace the stored queue with just the new jobs
+  if (snapshot.loaded) {
+    void persist();
+  }
+};
+
+const updateJob = (jobId: string, changes: Partial<PrintJob>): PrintJob | undefined => {
+  let updated: PrintJob | undefined;
+  const jobs = snapshot.jobs.map((job) => {
+    if (job.id !== jobId) return job;
+    updated = { ...job, ...changes, updated_at: new Date().toISOString() };
+    return updated;
+  });
+  if (updated) {
+    setSnapshot({ ...snapshot, jobs });
+  }
+  return updated;
+};
+
+const recordPrint = (orderId: string) => {
+  const previous = snapshot.history[orderId];
+  snapshot = {
+    ...snapshot,
+    history: {
+      ...snapshot.history,
+      [orderId]: { count: (previous?.count ?? 0) + 1, last_printed_at: new Date().toISOString() },
+    },
+  };
+};
+
+const migrateLegacyStorage = async (): Promise<Record<string, PrintHistoryEntry>> => {
+  const history: Record<string, PrintHistoryEntry> = {};
+  try {
+    const [printedRaw, countsRaw] = await Promise.all([
+      AsyncStorage.getItem(LEGACY_PRINTED_ORDERS_KEY),
+      AsyncStorage.getItem(LEGACY_PRINT_COUNTS_KEY),
+    ]);
+    if (!printedRaw && !countsRaw) return history;
+
+    const now = new Date().toISOString();
+    const counts: Record<string, number> = countsRaw ? JSON.parse(countsRaw) : {};
+    const printedIds: string[] = printedRaw ? JSON.parse(printedRaw) : [];
+    printedIds.forEach((orderId) => {
+      history[orderId] = { count: Math.max(1, Number(counts[orderId]) || 0), last_printed_at: now };
+    });
+
+    // Old backlog entries aren't migrated - those orders show as unprinted and alert instead
+    await AsyncStorage.multiRemove([LEGACY_PRINTED_ORDERS_KEY, LEGACY_BACKLOGGED_ORDERS_KEY, LEGACY_PRINT_COUNTS_KEY]);
+    console.log(`[PrintQueue] ✓ Migrated print history for ${printedIds.length} orders`);
+  } catch (error) {
+    console.error('[PrintQueue] Legacy migration failed:', error);
+  }
+  return history;
+};
+
+/**
+ * Load the queue from storage (safe to call more than once)
+ */
+export const loadPrintQueue = (): Promise<void> => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      let jobs: PrintJob[] = [];
+      let history: Record<string, PrintHistoryEntry> = {};
+      try {
+        const stored = await AsyncStorage.getItem(PRINT_QUEUE_KEY);
+        if (stored) {
+          const parsed = JSON.parse(stored);
+          jobs = Array.isArray(parsed.jobs) ? parsed.jobs : [];
+          history = parsed.history ?? {};
+        } else {
+          history = await migrateLegacyStorage();
+        }
+      } catch (error) {
+        console.error('[PrintQueue] Error loading:', error);
+      }
+
+      // A job can't still be printing after a restart - the app died mid-print
+      jobs = jobs.map((job) =>
+        job.state === 'printing' ? { ...job, state: 'retrying', next_attempt_at: null } : job
+      );
+
+      // Jobs and prints from before the load finished are newer than what was stored
+      const storedIds = new Set(jobs.map((job) => job.id));
+      jobs = [...jobs, ...snapshot.jobs.filter((job) => !storedIds.has(job.id))];
+      Object.entries(snapshot.history).forEach(([orderId, entry]) => {
+        const previous = history[orderId];
+        history[orderId] = previous
+          ? { count: previous.count + entry.count, last_printed_at: entry.last_printed_at }
+          : entry;
+      });
+
+      setSnapshot(pruneSnapshot({ loaded: true, jobs, history }, Date.now()));
+      console.log(`[PrintQueue] ✓ Loaded ${jobs.length} jobs`);
+    })();
+  }
+  return loadPromise;
+};
+
+export const getPrintQueueSnapshot = (): PrintQueueSnapshot => snapshot;
+
+export const subscribePrintQueue = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getPrintJob = (jobId: string): PrintJob | undefined =>
+  snapshot.jobs.find((job) => job.id === jobId);
+
+/**
+ * How many times an order has been printed
+ */
+export const getPrintCount = (orderId: string): number => snapshot.history[orderId]?.count ?? 0;
+
+/**
+ * Record a print that happened outside the queue (e.g. straight from the detail panel)
+ */
+export const markOrderPrinted = (orderId: string) => {
+  recordPrint(orderId);
+  setSnapshot({ ...snapshot });
+};
+
+// ==================== Queue operations ====================
+
+/**
+ * Add a print job
+ * @returns the job, or null if an identical job is already waiting
+ */
+export const enqueuePrintJob = (order: Order, options: EnqueueOptions): PrintJob | null => {
+  const source = options.source ?? 'manual';
+  const existing = findActiveJob(snapshot.jobs, order.id, options.type)
+    ?? snapshot.jobs.find((job) => job.order_id === order.id && job.type === options.type && job.state === 'failed');
+
+  if (existing) {
+    // Printing a waiting order by hand sends its existing job now instead of adding another
+    if (source === 'manual' && !options.hold && isBacklogJob(existing)) {
+      return updateJob(existing.id, { state: 'queued', order, next_attempt_at: null }) ?? null;
+    }
+    if (existing.state !== 'failed') {
+      console.warn(`[PrintQueue] ⚠️ DUPLICATE REFUSED - ${options.type} job for #${order.order_number} is already ${existing.state}`);
+      return null;
+    }
+  }
+
+  if (source === 'auto' && !FOLLOW_UP_TYPES.includes(options.type) && getPrintCount(order.id) > 0) {
+    console.warn(`[PrintQueue] ⚠️ DUPLICATE REFUSED - #${order.order_number} was already printed`);
+    return null;
+  }
+
+  // Going out for delivery and dispatching a driver both ask for the slip - print it once
+  if (source === 'auto' && options.type === 'driver'
+    && snapshot.jobs.some((job) => job.order_id === order.id && job.type === 'driver' && job.state === 'printed')) {
+    console.warn(`[PrintQueue] ⚠️ DUPLICATE REFUSED - driver slip for #${order.order_number} already printed`);
+    return null;
+  }
+
+  const now = new Date().toISOString();
+  const job: PrintJob = {
+    id: Math.random().toString(36).substring(7),
+    order_id: order.id,
+    order,
+    type: options.type,
+    copies: Math.max(1, options.copies ?? 1),
+    source,
+    state: options.hold ? 'held' : 'queued',
+    attempts: 0,
+    last_error: null,
+    next_attempt_at: null,
+    created_at: now,
+    updated_at: now,
+  };
+
+  setSnapshot({ ...snapshot, jobs: [...snapshot.jobs, job] });
+  console.log(`[PrintQueue] ➕ ${job.state === 'held' ? 'Held' : 'Queued'} ${job.type} job for #${order.order_number}`);
+  return job;
+};
+
+/**
+ * Print an order now (a reprint staff asked for) and wait for the result
+ * @returns the job as it ended up - printed, or waiting in the backlog with
+ * its error - or null if the same ticket is already in the queue
+ */
+export const printOrderNow = async (order: Order, options: EnqueueOptions): Promise<PrintJob | null> => {
+  await loadPrintQueue();
+  const job = enqueuePrintJob(order, options);
+  if (!job) return null;
+  await processPrintQueue();
+  return getPrintJob(job.id) ?? job;
+};
+
+/**
+ * A delivery is going out (out for delivery, or a driver was dispatched) -
+ * print its driver slip, if driver slips are on and a printer is set up
+ */
+export const queueDriverSlip = async (order: Order): Promise<void> => {
+  const { settings } = useStore.getState();
+  if (order.order_type !== 'delivery' || !(settings.driverSlips ?? true) || !settings.printerMacAddress) {
+    return;
+  }
+  await loadPrintQueue();
+  if (enqueuePrintJob(order, { type: 'driver', source: 'auto' })) {
+    await processPrintQueue();
+  }
+};
+
+/**
+ * An order was cancelled on this tablet - print the slip with the reason,
+ * if a printer is set up. Prints the store's copy, which carries the reason.
+ */
+export const queueCancellationSlip = async (order: Order): Promise<void> => {
+  if (!useStore.getState().settings.printerMacAddress) {
+    return;
+  }
+  await loadPrintQueue();
+  const latest = useStore.getState().orders.orders.find((o) => o.id === order.id) ?? order;
+  if (enqueuePrintJob(latest, { type: 'cancel', source: 'auto' })) {
+    await processPrintQueue();
+  }
+};
+
+/**
+ * Retry a failed/waiting job now
+ */
+export const retryPrintJob = async (jobId: string): Promise<void> => {
+  const job = getPrintJob(jobId);
+  if (!job || job.state === 'printing' || job.state === 'printed') return;
+  updateJob(jobId, { state: 'queued', next_attempt_at: null });
+  await processPrintQueue();
+};
+
+/**
+ * Cancel a job that hasn't printed yet
+ */
+export const cancelPrintJob = (jobId: string) => {
+  const job = getPrintJob(jobId);
+  if (!job || job.state === 'printing' || job.state === 'printed') return;
+  updateJob(jobId, { state: 'cancelled', next_attempt_at: null });
+  console.log(`[PrintQueue] ✕ Cancelled ${job.type} job for #${job.order.order_number}`);
+};
+
+/**
+ * Print the backlog (held, retrying and failed jobs) now - all of it, or just these orders
+ */
+export const releaseBacklog = async (orderIds?: string[]): Promise<void> => {
+  const ids = orderIds ? new Set(orderIds) : null;
+  const jobs = snapshot.jobs.map((job) =>
+    isBacklogJob(job) && (!ids || ids.has(job.order_id))
+      ? { ...job, state: 'queued' as const, next_attempt_at: null, updated_at: new Date().toISOString() }
+      : job
+  );
+  setSnapshot({ ...snapshot, jobs });
+  await processPrintQueue();
+};
+
+/**
+ * Printer came back - retry waiting jobs right away instead of waiting out the backoff
+ */
+export const resumePrintQueue = async (): Promise<void> => {
+  const hasWaiting = snapshot.jobs.some((job) => job.state === 'retrying');
+  if (hasWaiting) {
+    const jobs = snapshot.jobs.map((job) =>
+      job.state === 'retrying' ? { ...job, next_attempt_at: null } : job
+    );
+    setSnapshot({ ...snapshot, jobs });
+  }
+  await processPrintQueue();
+};
+
+// ==================== Runner ====================
+
+const sendJob = async (job: PrintJob): Promise<boolean> => {
+  const { settings, orders } = useStore.getState();
+  // Print the latest version of the order if we still have it
+  const order = orders.orders.find((o) => o.id === job.order_id) ?? job.order;
+  const stations = settings.kitchenStations ?? [];
+
+  switch (job.type) {
+    case 'kitchen':
+      return printKitchenTicket(order, stations, job.copies);
+    case 'receipt':
+      return printCustomerReceipt(order, job.copies);
+    case 'both':
+      return printBoth(order, stations, job.copies);
+    case 'labels':
+      return printItemLabels(order, job.copies);
+    case 'update':
+      return printOrderUpdateTicket(order, job.copies);
+    case 'driver':
+      return printDriverSlip(order, job.copies);
+    case 'cancel':
+      return printCancellationSlip(order, job.copies);
+    default:
+      return false;
+  }
+};
+
+const failJob = (job: PrintJob, error: string) => {
+  const attempts = job.attempts + 1;
+  const outOfRetries = attempts >= MAX_AUTO_ATTEMPTS;
+  updateJob(job.id, {
+    state: outOfRetries ? 'failed' : 'retrying',
+    attempts,
+    last_error: error,
+    next_attempt_at: outOfRetries ? null : new Date(Date.now() + getRetryDelayMs(attempts)).toISOString(),
+  });
+  console.error(`[PrintQueue] ❌ ${job.type} job for #${job.order.order_number} failed (attempt ${attempts}): ${error}`);
+};
+
+const scheduleRetry = () => {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+    retryTimer = null;
+  }
+  const nextAt = snapshot.jobs
+    .filter((job) => job.state === 'retrying' && job.next_attempt_at)
+    .map((job) => new Date(job.next_attempt_at!).getTime())
+    .sort((a, b) => a - b)[0];
+  if (nextAt === undefined) return;
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    void processPrintQueue();
+  }, Math.max(0, nextAt - Date.now()));
+};
+
+const runQueue = async () => {
+  await loadPrintQueue();
+  const { settings, updateSettings } = useStore.getState();
+  const address = settings.printerMacAddress;
+  if (!address) {
+    console.log('[PrintQueue] No printer configured - jobs stay queued');
+    return;
+  }
+
+  let due = snapshot.jobs.filter((job) => isJobDue(job));
+  while (due.length > 0) {
+    const job = due[0];
+
+    const connected = await ensureConnected(address, settings.printerType ?? 'bluetooth');
+    if (!connected) {
+      failJob(job, 'Could not connect to printer');
+      updateSettings({ printerConnected: false });
+      break; // The rest would fail the same way - wait for the printer
+    }
+    if (!useStore.getState().settings.printerConnected) {
+      updateSettings({ printerConnected: true });
+    }
+
+    // Paper out / cover open - the printer would swallow the ticket. Check
+    // again in case it was just fixed, otherwise wait for the status poll.
+    if (!isPrinterHealthy()) {
+      await refreshPrinterStatus();
+      if (!isPrinterHealthy()) {
+        const reason = PRINTER_STATE_MESSAGES[getPrinterStatus().state];
+        due.forEach((waiting) => updateJob(waiting.id, { last_error: reason }));
+        console.log(`[PrintQueue] ⏸️ ${reason} - ${due.length} job(s) waiting`);
+        break;
+      }
+    }
+
+    updateJob(job.id, { state: 'printing' });
+    try {
+      if (await sendJob(job)) {
+        if (!FOLLOW_UP_TYPES.includes(job.type)) {
+          recordPrint(job.order_id);
+        }
+        updateJob(job.id, { state: 'printed', attempts: job.attempts + 1, last_error: null, next_attempt_at: null });
+        console.log(`[PrintQueue] ✓ Printed ${job.type} job for #${job.order.order_number}`);
+      } else {
+        failJob(job, 'Printer did not accept the job');
+        updateSettings({ printerConnected: false });
+        break;
+      }
+    } catch (error: any) {
+      failJob(job, error?.message || String(error));
+      updateSettings({ printerConnected: false });
+      break;
+    }
+
+    due = snapshot.jobs.filter((next) => isJobDue(next));
+  }
+};
+
+/**
+ * Print everything that's due, one job at a time
+ * A call made while a run is in progress makes that run go round again,
+ * so a job enqueued just before awaiting this is always attempted.
+ */
+export const processPrintQueue = (): Promise<void> => {
+  if (processing) {
+    rerunRequested = true;
+    return processing;
+  }
+  processing = (async () => {
+    do {
+      rerunRequested = false;
+      await runQueue();
+    } while (rerunRequested);
+  })()
+    .catch((error) => console.error('[PrintQueue] Runner error:', error))
+    .finally(() => {
+      processing = null;
+      scheduleRetry();
+    });
+  return processing;
+};
+
+export default {
+  loadPrintQueue,
+  getPrintQueueSnapshot,
+  subscribePrintQueue,
+  getPrintJob,
+  getPrintCount,
+  markOrderPrinted,
+  enqueuePrintJob,
+  printOrderNow,
+  queueDriverSlip,
+  queueCancellationSlip,
+  retryPrintJob,
+  cancelPrintJob,
+  releaseBacklog,
+  resumePrintQueue,
+  processPrintQueue,
+};
@@ -1,13 +1,18 @@
 /**
  * Thermal Printer Service for ESC/POS Compatible Printers
- * Uses react-native-thermal-receipt-printer-image-qr for Bluetooth printing
+ * Uses react-native-thermal-receipt-printer-image-qr via printerTransport.ts,
+ * so the same tickets go out over Bluetooth, LAN (raw TCP 9100) or USB.
  * 
  * IMPORTANT: This service maintains its own connection state.
  * The app should ALWAYS call verifyConnection() before printing
- * to ensure the Bluetooth connection is actually active.
+ * to ensure the printer connection is actually active.
  * 
+ * Ticket layouts live in tickets/ and are built as typed documents
+ * (escpos/document.ts) rather than concatenated command strings.
+ *
  * ⚠️ PRINT FORMAT REFERENCE:
  * See PRINT-FORMAT-REFERENCE.md for the "known good" print format.
+ * __tests__/ticket-format.spec.ts snapshots the exact ticket bytes.
  * DO NOT change print formatting without:
  * 1. Testing on actual thermal printer
  * 2. Updating the reference document
@@ -16,356 +21,167 @@
  * Last verified working: December 17, 2025
  */
 
-import { Order, OrderItem } from '../types';
-
-// Import the printer library - install with:
-// npm install react-native-thermal-receipt-printer-image-qr
-let BLEPrinter: any = null;
+import {
+  AlertKeywordRules,
+  AllDaySummary,
+  DiscoveredPrinter,
+  HeartbeatPayload,
+  KitchenStation,
+  LabelPrinter,
+  Order,
+  PaperProfile,
+  PrinterCodepage,
+  PrinterState,
+  PrinterStatus,
+  PrinterTransportType,
+  SalesReport,
+} from '../types';
+import { useStore } from '../store/useStore';
+import {
+  AUTOMATIC_STATUS_DISABLE,
+  AUTOMATIC_STATUS_ENABLE,
+  AUTOMATIC_STATUS_LENGTH,
+  COMMANDS,
+  decodePrinterStatus,
+  getCodepage,
+  getPrinterState,
+  isPrinterStateHealthy,
+  REALTIME_STATUS_LENGTH,
+  REALTIME_STATUS_REQUEST,
+} from './escpos';
+import { getTransport, PrinterTransport } from './printerTransport';
+import { getCachedReceiptLogo, loadReceiptLogo } from './receiptLogo';
+import { routeOrderToStations } from './stationRouting';
+import { diffOrderItems, snapshotOrderItems } from '../utils/orderChanges';
+import {
+  DEFAULT_LABEL_PAPER_PROFILE,
+  generateCancellationSlip,
+  generateDriverSlip,
+  generateItemLabels,
+  generateKitchenTicket,
+  generateOrderUpdateTicket,
+  generatePrepSummary,
+  generateReceiptData,
+  generateReceiptText,
+  generateTestPage,
+  generateTestReceipt,
+  generateZReport,
+  getOrderStatusUrl,
+  getPaperProfile,
+  ReceiptOptions,
+  resolveAlertRules,
+  stripTwilioLogs,
+} from './tickets';
+
+export { generateReceiptData, generateTestReceipt, stripTwilioLogs };
+
+// Active transport - switched by connectPrinter() based on the saved printer type
+let activeTransport: PrinterTransport = getTransport('bluetooth');
 let printerConnected = false;
 let connectedPrinterAddress: string | null = null;
 let lastConnectionAttempt: number = 0;
 const CONNECTION_RETRY_DELAY = 3000; // Wait 3 seconds between reconnection attempts
 
-// Try to import the printer library (may not be installed yet)
-try {
-  const printerLib = require('react-native-thermal-receipt-printer-image-qr');
-  BLEPrinter = printerLib.BLEPrinter;
-  console.log('[PrintService] ✓ Bluetooth printer library loaded');
-} catch (e) {
-  console.warn('[PrintService] ✗ Printer library not installed. Run: npm install react-native-thermal-receipt-printer-image-qr');
-}
-
-/**
- * Strip Twilio call log entries from order notes before printing.
- */
-export const stripTwilioLogs = (notes: string): string => {
-  if (!notes) return '';
-  return notes
-    .split('\n')
-    .filter(line => !line.includes('TWILIO_FALLBACK_CALL'))
-    .join('\n')
-    .replace(/\|\s*\|/g, '|')
-    .replace(/^\s*\|\s*/gm, '')
-    .replace(/\s*\|\s*$/gm, '')
-    .trim();
-};
-
-// ESC/POS Commands
-const ESC = '\x1B';
-const GS = '\x1D';
-
-const COMMANDS = {
-  // Initialize printer
-  INIT: `${ESC}@`,
-
-  // Text alignment
-  ALIGN_LEFT: `${ESC}a\x00`,
-  ALIGN_CENTER: `${ESC}a\x01`,
-  ALIGN_RIGHT: `${ESC}a\x02`,
-
-  // Text size
-  NORMAL_SIZE: `${GS}!\x00`,
-  DOUBLE_HEIGHT: `${GS}!\x01`,
-  DOUBLE_WIDTH: `${GS}!\x10`,
-  DOUBLE_SIZE: `${GS}!\x11`,
-
-  // Text style
-  BOLD_ON: `${ESC}E\x01`,
-  BOLD_OFF: `${ESC}E\x00`,
-  UNDERLINE_ON: `${ESC}-\x01`,
-  UNDERLINE_OFF: `${ESC}-\x00`,
-  
-  // Character spacing (ESC SP n) - n = dots of spacing (0-255)
-  CHAR_SPACING: (n: number) => `${ESC} ${String.fromCharCode(n)}`,
-  CHAR_SPACING_NORMAL: `${ESC} \x00`,
-  CHAR_SPACING_WIDE: `${ESC} \x02`, // 2 dots = subtle spacing, tighter
-
-  // Paper
-  CUT_PAPER: `${GS}V\x00`,
-  FEED_LINES: (n: number) => `${ESC}d${String.fromCharCode(n)}`,
-
-  // Horizontal line (using dashes for 80mm paper, ~48 chars)
-  LINE: '------------------------------------------------',
-  DOUBLE_LINE: '================================================',
-};
+// Last reported printer condition (paper, cover, cutter) - see refreshPrinterStatus()
+let printerStatus: PrinterStatus = { state: 'unknown', checked_at: null };
+const printerStatusListeners = new Set<() => void>();
 
-// Format currency
-const formatCurrency = (amount: number): string => {
-  return `$${amount.toFixed(2)}`;
+// Options passed to every printText() call
+// Tickets arrive already transcoded into the printer's codepage (one char per
+// byte), so they must go out byte-for-byte - UTF8 would split accents in two
+const PRINT_TEXT_OPTIONS = {
+  encoding: 'latin1',
+  codepage: 0,
+  widthtimes: 0,
+  heigthtimes: 0,
+  fonttype: 0,
 };
 
-// Right-pad string to fixed width
-const padRight = (str: string, width: number): string => {
-  return str.substring(0, width).padEnd(width);
-};
+/**
+ * Paper profile of the main printer, from settings
+ */
+export const getMainPaperProfile = (): PaperProfile =>
+  getPaperProfile(useStore.getState().settings.paperProfile);
 
-// Left-pad string to fixed width
-const padLeft = (str: string, width: number): string => {
-  return str.substring(0, width).padStart(width);
-};
+/**
+ * Character set of the main printer, from settings
+ */
+export const getMainCodepage = (): PrinterCodepage =>
+  getCodepage(useStore.getState().settings.printerCodepage).id;
 
-// Format a line with left and right content
-const formatLine = (left: string, right: string, totalWidth = 48): string => {
-  const rightWidth = right.length;
-  const leftWidth = totalWidth - rightWidth - 1;
-  return `${padRight(left, leftWidth)} ${padLeft(right, rightWidth)}`;
-};
+/**
+ * Kitchen ticket alert keywords, from settings (defaults if never edited)
+ */
+export const getAlertRules = (): AlertKeywordRules =>
+  resolveAlertRules(useStore.getState().settings.alertKeywordRules);
 
-// Format date/time - ASCII only to avoid printer issues
-const formatDateTime = (dateString: string): string => {
-  const date = new Date(dateString);
-  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-  const month = months[date.getMonth()];
-  const day = date.getDate();
-  const year = date.getFullYear();
-  let hours = date.getHours();
-  const minutes = date.getMinutes().toString().padStart(2, '0');
-  const ampm = hours >= 12 ? 'PM' : 'AM';
-  hours = hours % 12;
-  hours = hours ? hours : 12;
-  return `${month} ${day}, ${year}, ${hours}:${minutes} ${ampm}`;
+/**
+ * Label printer from settings, and the paper / codepage its labels are laid
+ * out for (the main printer's when labels print there)
+ */
+export const getLabelPrinterProfile = (): { printer: LabelPrinter | null; paper: PaperProfile; codepage: PrinterCodepage } => {
+  const printer = useStore.getState().settings.labelPrinter;
+  if (!printer?.printerAddress) {
+    return { printer: null, paper: getMainPaperProfile(), codepage: getMainCodepage() };
+  }
+  return {
+    printer,
+    paper: printer.paperProfile ? getPaperProfile(printer.paperProfile) : DEFAULT_LABEL_PAPER_PROFILE,
+    codepage: getCodepage(printer.codepage).id,
+  };
 };
 
-// Order type labels
-const orderTypeLabels: Record<string, string> = {
-  pickup: 'PICKUP',
-  delivery: 'DELIVERY',
-  dine_in: 'DINE IN',
+/**
+ * Logo, QR code and barcode for an order's customer receipt, per Printing Options
+ * The logo is included once prepareReceiptLogo() has converted it, and only
+ * if the printer can take raw bytes.
+ */
+export const getReceiptOptions = (order: Order): ReceiptOptions => {
+  const { settings, auth } = useStore.getState();
+  return {
+    logo: (settings.receiptLogo ?? true) && activeTransport.canPrintRaw()
+      ? getCachedReceiptLogo(auth?.restaurantLogoUrl, getMainPaperProfile())
+      : null,
+    statusUrl: settings.receiptQrCode ?? true ? getOrderStatusUrl(settings.receiptQrUrl, order) : null,
+    orderBarcode: settings.receiptBarcode ?? true,
+  };
 };
 
 /**
- * Generate ESC/POS formatted receipt data for an order
+ * Download and convert the restaurant logo for the main printer's paper
+ * (cached after the first time)
  */
-export const generateReceiptData = (order: Order): string => {
-  let receipt = '';
-
-  // Initialize printer
-  receipt += COMMANDS.INIT;
-
-  // Header - Restaurant Name (if available)
-  receipt += COMMANDS.ALIGN_CENTER;
-  receipt += COMMANDS.DOUBLE_SIZE;
-  receipt += COMMANDS.BOLD_ON;
-  receipt += `ORDER #${order.order_number}\n`;
-  receipt += COMMANDS.BOLD_OFF;
-  receipt += COMMANDS.NORMAL_SIZE;
-  receipt += '\n';
-
-  // Order Type - Big and Bold
-  receipt += COMMANDS.DOUBLE_HEIGHT;
-  receipt += COMMANDS.BOLD_ON;
-  receipt += `*** ${orderTypeLabels[order.order_type] || order.order_type.toUpperCase()} ***\n`;
-  receipt += COMMANDS.BOLD_OFF;
-  receipt += COMMANDS.NORMAL_SIZE;
-  receipt += '\n';
-
-  // Date/Time
-  receipt += formatDateTime(order.created_at) + '\n';
-  receipt += COMMANDS.DOUBLE_LINE + '\n';
-
-  // Customer Info
-  receipt += COMMANDS.ALIGN_LEFT;
-  receipt += COMMANDS.BOLD_ON;
-  receipt += 'CUSTOMER:\n';
-  receipt += COMMANDS.BOLD_OFF;
-  receipt += `${order.customer.name}\n`;
-  receipt += `${order.customer.phone}\n`;
-
-  // Delivery Address (if applicable)
-  if (order.delivery_address) {
-    receipt += '\n';
-    receipt += COMMANDS.BOLD_ON;
-    receipt += 'DELIVERY ADDRESS:\n';
-    receipt += COMMANDS.BOLD_OFF;
-    receipt += `${order.delivery_address.street}`;
-    if (order.delivery_address.unit) {
-      receipt += `, Unit ${order.delivery_address.unit}`;
-    }
-    receipt += '\n';
-    receipt += `${order.delivery_address.city}, ${order.delivery_address.postalCode}\n`;
-    if (order.delivery_address.instructions) {
-      receipt += COMMANDS.BOLD_ON;
-      receipt += 'INSTRUCTIONS: ';
-      receipt += COMMANDS.BOLD_OFF;
-      receipt += `${order.delivery_address.instructions}\n`;
-    }
+export const prepareReceiptLogo = async (): Promise<void> => {
+  const { settings, auth } = useStore.getState();
+  if (settings.receiptLogo ?? true) {
+    await loadReceiptLogo(auth?.restaurantLogoUrl, getMainPaperProfile());
   }
-
-  receipt += '\n' + COMMANDS.LINE + '\n';
-
-  // Items Header
-  receipt += COMMANDS.BOLD_ON;
-  receipt += formatLine('ITEM', 'PRICE') + '\n';
-  receipt += COMMANDS.BOLD_OFF;
-  receipt += COMMANDS.LINE + '\n';
-
-  // Order Items
-  order.items.forEach((item) => {
-    const itemTotal = item.price * item.quantity;
-
-    // Item name with quantity
-    receipt += COMMANDS.BOLD_ON;
-    receipt += formatLine(
-      `${item.quantity}x ${item.name}`,
-      formatCurrency(itemTotal)
-    ) + '\n';
-    receipt += COMMANDS.BOLD_OFF;
-
-    const escItemSize = getItemSizeLabel(item);
-    if (escItemSize) {
-      receipt += `   (${escItemSize})\n`;
-    }
-
-    // Modifiers - grouped by instance_index (if present) then by group_name
-    if (item.modifiers && item.modifiers.length > 0) {
-      const hasInstanceIndex = item.modifiers.some((m) => m.instance_index != null);
-      if (hasInstanceIndex) {
-        const instances = groupModifiersByInstance(item.modifiers);
-        instances.forEach((instance) => {
-          receipt += `  ${instance.instanceLabel}:\n`;
-          instance.groups.forEach((group) => {
-            if (group.groupName) {
-              receipt += `   ${group.groupName.toUpperCase()}:\n`;
-            }
-            group.modifiers.forEach((mod) => {
-              const modPrice = mod.price > 0 ? ` +${formatCurrency(mod.price)}` : '';
-              let placementText = '';
-              if (mod.placement && mod.placement !== 'whole') {
-                placementText = mod.placement === 'left' ? ' (LEFT)' : ' (RIGHT)';
-              }
-              receipt += `    - ${mod.name}${placementText}${modPrice}\n`;
-            });
-          });
-        });
-      } else {
-        const groups = groupModifiers(item.modifiers);
-        groups.forEach((group) => {
-          if (group.groupName) {
-            receipt += `   ${group.groupName.toUpperCase()}:\n`;
-          }
-          group.modifiers.forEach((mod) => {
-            const modPrice = mod.price > 0 ? ` +${formatCurrency(mod.price)}` : '';
-            let placementText = '';
-            if (mod.placement && mod.placement !== 'whole') {
-              placementText = mod.placement === 'left' ? ' (LEFT)' : ' (RIGHT)';
-            }
-            receipt += `   - ${mod.name}${placementText}${modPrice}\n`;
-          });
-        });
-      }
-    }
-
-    // Item notes
-    if (item.notes) {
-      receipt += `   NOTE: ${item.notes}\n`;
-    }
-  });
-
-  receipt += COMMANDS.LINE + '\n';
-
-  // Totals
-  receipt += formatLine('Subtotal:', formatCurrency(order.subtotal)) + '\n';
-  receipt += formatLine('Tax:', formatCurrency(order.tax)) + '\n';
-
-  if (order.tip && order.tip > 0) {
-    receipt += formatLine('Tip:', formatCurrency(order.tip)) + '\n';
-  }
-
-  if (order.delivery_fee && order.delivery_fee > 0) {
-    receipt += formatLine('Delivery Fee:', formatCurrency(order.delivery_fee)) + '\n';
-  }
-
-  receipt += COMMANDS.DOUBLE_LINE + '\n';
-
-  // Grand Total
-  receipt += COMMANDS.DOUBLE_SIZE;
-  receipt += COMMANDS.BOLD_ON;
-  receipt += formatLine('TOTAL:', formatCurrency(order.total)) + '\n';
-  receipt += COMMANDS.BOLD_OFF;
-  receipt += COMMANDS.NORMAL_SIZE;
-
-  // Order Notes (strip Twilio call logs)
-  const cleanedNotes = order.notes ? stripTwilioLogs(order.notes) : '';
-  if (cleanedNotes) {
-    receipt += '\n' + COMMANDS.LINE + '\n';
-    receipt += COMMANDS.BOLD_ON;
-    receipt += 'ORDER NOTES:\n';
-    receipt += COMMANDS.BOLD_OFF;
-    receipt += cleanedNotes + '\n';
-  }
-
-  // Estimated Ready Time
-  if (order.estimated_ready_time) {
-    receipt += '\n';
-    receipt += COMMANDS.ALIGN_CENTER;
-    receipt += COMMANDS.BOLD_ON;
-    receipt += `Est. Ready: ${formatDateTime(order.estimated_ready_time)}\n`;
-    receipt += COMMANDS.BOLD_OFF;
-  }
-
-  // Footer
-  receipt += '\n';
-  receipt += COMMANDS.ALIGN_CENTER;
-  receipt += COMMANDS.LINE + '\n';
-  receipt += 'Thank you for your order!\n';
-  receipt += '\n\n\n';
-
-  // Cut paper
-  receipt += COMMANDS.CUT_PAPER;
-
-  return receipt;
 };
 
 /**
- * Generate a simple test receipt
+ * Send a customer receipt - raw when it has a logo, since printText() would
+ * mangle the raster bytes
  */
-export const generateTestReceipt = (): string => {
-  let receipt = '';
-
-  receipt += COMMANDS.INIT;
-  receipt += COMMANDS.ALIGN_CENTER;
-  receipt += COMMANDS.DOUBLE_SIZE;
-  receipt += COMMANDS.BOLD_ON;
-  receipt += 'PRINTER TEST\n';
-  receipt += COMMANDS.BOLD_OFF;
-  receipt += COMMANDS.NORMAL_SIZE;
-  receipt += '\n';
-  receipt += 'If you can read this,\n';
-  receipt += 'your printer is working!\n';
-  receipt += '\n';
-  receipt += COMMANDS.LINE + '\n';
-  receipt += '\n';
-  receipt += 'Normal text\n';
-  receipt += COMMANDS.BOLD_ON;
-  receipt += 'Bold text\n';
-  receipt += COMMANDS.BOLD_OFF;
-  receipt += COMMANDS.DOUBLE_HEIGHT;
-  receipt += 'Double height\n';
-  receipt += COMMANDS.NORMAL_SIZE;
-  receipt += COMMANDS.DOUBLE_WIDTH;
-  receipt += 'Double width\n';
-  receipt += COMMANDS.NORMAL_SIZE;
-  receipt += '\n';
-  receipt += COMMANDS.LINE + '\n';
-  receipt += '\n';
-  receipt += new Date().toLocaleString() + '\n';
-  receipt += '\n\n\n';
-  receipt += COMMANDS.CUT_PAPER;
-
-  return receipt;
+const sendReceipt = async (receiptText: string, options: ReceiptOptions) => {
+  if (options.logo) {
+    await activeTransport.printRaw(COMMANDS.INIT + receiptText);
+  } else {
+    await activeTransport.printText(receiptText, PRINT_TEXT_OPTIONS);
+  }
 };
 
 /**
- * Initialize the Bluetooth printer module
+ * Initialize the printer module for a transport (defaults to the active one)
  */
-export const initPrinter = async (): Promise<boolean> => {
-  if (!BLEPrinter) {
+export const initPrinter = async (type: PrinterTransportType = activeTransport.type): Promise<boolean> => {
+  const transport = getTransport(type);
+  if (!transport.isAvailable()) {
     console.error('[PrintService] ✗ Printer library not available');
     return false;
   }
   
   try {
-    await BLEPrinter.init();
+    await transport.init();
     console.log('[PrintService] ✓ Printer module initialized');
     return true;
   } catch (error) {
@@ -375,20 +191,21 @@ export const initPrinter = async (): Promise<boolean> => {
 };
 
 /**
- * Discover available Bluetooth printers
+ * Discover available printers for a transport
+ * Network printers can't be scanned - they are entered by IP in Settings.
  */
-export const discoverPrinters = async (): Promise<Array<{device_name: string, inner_mac_address: string}>> => {
-  if (!BLEPrinter) {
+export const discoverPrinters = async (type: PrinterTransportType = 'bluetooth'): Promise<DiscoveredPrinter[]> => {
+  const transport = getTransport(type);
+  if (!transport.isAvailable()) {
     console.warn('[PrintService] ✗ Printer library not installed');
     return [];
   }
 
   try {
-    console.log('[PrintService] 🔍 Scanning for Bluetooth printers...');
-    await BLEPrinter.init();
-    const devices = await BLEPrinter.getDeviceList();
-    console.log('[PrintService] ✓ Found devices:', devices?.length || 0);
-    return devices || [];
+    console.log(`[PrintService] 🔍 Scanning for ${type} printers...`);
+    const devices = await transport.discover();
+    console.log('[PrintService] ✓ Found devices:', devices.length);
+    return devices;
   } catch (error) {
     console.error('[PrintService] ✗ Discovery failed:', error);
     return [];
@@ -396,14 +213,20 @@ export const discoverPrinters = async (): Promise<Array<{device_name: string, in
 };
 
 /**
- * Connect to a Bluetooth printer by MAC address
+ * Connect to a printer
+ * @param address - MAC (bluetooth), host:port (network) or vendorId:productId (usb)
+ * @param type - Transport to use; defaults to the currently active one
  * @returns {Promise<boolean>} true if connection was successful
  */
-export const connectPrinter = async (macAddress: string): Promise<boolean> => {
-  console.log('[PrintService] 🔗 connectPrinter called with:', macAddress);
-  
-  if (!BLEPrinter) {
-    console.error('[PrintService] ✗ Printer library not available - BLEPrinter is null');
+export const connectPrinter = async (
+  address: string,
+  type: PrinterTransportType = activeTransport.type
+): Promise<boolean> => {
+  console.log('[PrintService] 🔗 connectPrinter called with:', address, `(${type})`);
+  
+  const transport = getTransport(type);
+  if (!transport.isAvailable()) {
+    console.error(`[PrintService] ✗ Printer library not available for ${type} printers`);
     return false;
   }
 
@@ -415,22 +238,38 @@ export const connectPrinter = async (macAddress: string): Promise<boolean> => {
   }
   lastConnectionAttempt = now;
 
+  return openConnection(address, type);
+};
+
+/**
+ * Open a connection and make it the active one (no rate limiting)
+ */
+const openConnection = async (address: string, type: PrinterTransportType): Promise<boolean> => {
+  const transport = getTransport(type);
+
+  // Switching printers - close the old connection so it doesn't linger
+  if (printerConnected && (transport !== activeTransport || address !== connectedPrinterAddress)) {
+    try {
+      await activeTransport.disconnect();
+    } catch (error) {
+      console.warn('[PrintService] Closing previous transport failed (ignored):', error);
+    }
+    setPrinterStatus('unknown'); // That was the old printer's status
+  }
+
   // Reset state before connecting
+  activeTransport = transport;
   printerConnected = false;
   connectedPrinterAddress = null;
 
   try {
-    console.log(`[PrintService] 🔄 Step 1: Initializing printer module...`);
-    await BLEPrinter.init();
-    console.log(`[PrintService] ✓ Init complete`);
-    
-    console.log(`[PrintService] 🔗 Step 2: Connecting to printer: ${macAddress}`);
-    await BLEPrinter.connectPrinter(macAddress);
-    console.log(`[PrintService] ✓ connectPrinter() returned`);
+    console.log(`[PrintService] 🔗 Connecting to ${type} printer: ${address}`);
+    await transport.connect(address);
+    console.log(`[PrintService] ✓ connect() returned`);
     
     // Mark as connected
     printerConnected = true;
-    connectedPrinterAddress = macAddress;
+    connectedPrinterAddress = address;
     console.log('[PrintService] ✓ Connection state set - printerConnected:', printerConnected);
     
     return true;
@@ -450,10 +289,11 @@ export const disconnectPrinter = async (): Promise<void> => {
   console.log('[PrintService] 🔌 Disconnecting printer...');
   printerConnected = false;
   connectedPrinterAddress = null;
+  setPrinterStatus('unknown');
   
-  if (BLEPrinter) {
+  if (activeTransport.isAvailable()) {
     try {
-      await BLEPrinter.closeConn();
+      await activeTransport.disconnect();
       console.log('[PrintService] ✓ Disconnected');
     } catch (error) {
       console.error('[PrintService] Disconnect error (ignored):', error);
@@ -465,7 +305,7 @@ export const disconnectPrinter = async (): Promise<void> => {
  * Check if printer is connected (based on local state)
  */
 export const isPrinterConnected = (): boolean => {
-  return printerConnected && BLEPrinter !== null;
+  return printerConnected && activeTransport.isAvailable();
 };
 
 /**
@@ -475,13 +315,20 @@ export const getConnectedPrinterAddress = (): string | null => {
   return printerConnected ? connectedPrinterAddress : null;
 };
 
+/**
+ * Get the transport type of the active printer connection
+ */
+export const getConnectedPrinterType = (): PrinterTransportType => {
+  return activeTransport.type;
+};
+
 /**
  * Verify printer connection is actually working
  * Uses simple state check - actual verification happens on print attempt
  * @returns {Promise<boolean>} true if we believe printer is connected
  */
 export const verifyConnection = async (): Promise<boolean> => {
-  if (!BLEPrinter) {
+  if (!activeTransport.isAvailable()) {
     console.log('[PrintService] ❌ Printer library not loaded');
     return false;
   }
@@ -501,37 +348,134 @@ export const verifyConnection = async (): Promise<boolean> => {
 /**
  * Ensure printer is connected before printing
  * Will attempt reconnection if necessary
- * @param macAddress - The printer MAC address to connect to
+ * @param address - The saved printer address to connect to
+ * @param type - The saved printer transport type
  * @returns {Promise<boolean>} true if printer is ready to print
  */
-export const ensureConnected = async (macAddress?: string): Promise<boolean> => {
-  // Already connected and verified?
-  if (await verifyConnection()) {
+export const ensureConnected = async (
+  address?: string,
+  type: PrinterTransportType = activeTransport.type
+): Promise<boolean> => {
+  // Already connected (to the same kind of printer) and verified?
+  if (type === activeTransport.type && await verifyConnection()) {
     return true;
   }
 
   // Try to reconnect if we have an address
-  const addressToUse = macAddress || connectedPrinterAddress;
+  const addressToUse = address || connectedPrinterAddress;
   if (addressToUse) {
     console.log('[PrintService] 🔄 Reconnecting to printer...');
-    return await connectPrinter(addressToUse);
+    return await connectPrinter(addressToUse, type);
   }
 
   console.log('[PrintService] ❌ No printer address available for reconnection');
   return false;
 };
 
+// ==================== Printer Status ====================
+
+export const PRINTER_STATE_MESSAGES: Record<PrinterState, string> = {
+  ok: 'Printer ready',
+  unknown: 'Printer status unknown',
+  offline: 'Printer offline',
+  paper_low: 'Paper running low',
+  paper_out: 'Printer out of paper',
+  cover_open: 'Printer cover open',
+  cutter_error: 'Paper cutter jammed',
+  error: 'Printer error',
+};
+
+const setPrinterStatus = (state: PrinterState) => {
+  if (state !== printerStatus.state) {
+    console.log(`[PrintService] 🩺 Printer status: ${printerStatus.state} → ${state}`);
+  }
+  printerStatus = { state, checked_at: new Date().toISOString() };
+  printerStatusListeners.forEach((listener) => listener());
+};
+
+/**
+ * Last known printer condition
+ */
+export const getPrinterStatus = (): PrinterStatus => printerStatus;
+
+/**
+ * Listen for printer status updates
+ */
+export const subscribePrinterStatus = (listener: () => void): (() => void) => {
+  printerStatusListeners.add(listener);
+  return () => printerStatusListeners.delete(listener);
+};
+
+/**
+ * Can the printer take tickets right now? (as of the last status check)
+ */
+export const isPrinterHealthy = (): boolean => isPrinterStateHealthy(printerStatus.state);
+
+/**
+ * Ask the printer for its paper / cover / cutter status
+ * Tries real-time status (DLE EOT) first, then Automatic Status Back (GS a -
+ * enabled just long enough to send one report). A printer that can't answer
+ * stays 'unknown', which doesn't block printing.
+ */
+export const refreshPrinterStatus = async (): Promise<PrinterStatus> => {
+  const address = connectedPrinterAddress;
+  if (!address || !printerConnected) {
+    setPrinterStatus(address ? 'offline' : 'unknown');
+    return printerStatus;
+  }
+
+  try {
+    const realtime = await activeTransport.queryStatus(address, REALTIME_STATUS_REQUEST, REALTIME_STATUS_LENGTH);
+    let flags = realtime ? decodePrinterStatus(realtime) : null;
+    if (!flags) {
+      const automatic = await activeTransport.queryStatus(
+        address,
+        AUTOMATIC_STATUS_ENABLE + AUTOMATIC_STATUS_DISABLE,
+        AUTOMATIC_STATUS_LENGTH
+      );
+      flags = automatic ? decodePrinterStatus(automatic) : null;
+    }
+    setPrinterStatus(flags ? getPrinterState(flags) : 'unknown');
+  } catch (error) {
+    console.error('[PrintService] Status query error:', error);
+    setPrinterStatus('unknown');
+  }
+  return printerStatus;
+};
+
+/**
+ * Printer status for the heartbeat - 'connected' / 'disconnected' as before,
+ * or the problem the printer reported
+ */
+export const getHeartbeatPrinterStatus = (connected: boolean): HeartbeatPayload['printer_status'] => {
+  if (!connected) return 'disconnected';
+  switch (printerStatus.state) {
+    case 'paper_low':
+    case 'paper_out':
+    case 'cover_open':
+    case 'cutter_error':
+      return printerStatus.state;
+    case 'error':
+    case 'offline':
+      return 'error';
+    default:
+      return 'connected';
+  }
+};
+
 /**
  * Print an order receipt
  * @returns {Promise<boolean>} true ONLY if print was actually sent to printer
  */
 export const printOrder = async (order: Order): Promise<boolean> => {
-  const receiptText = generateReceiptText(order);
+  await prepareReceiptLogo();
+  const receiptOptions = getReceiptOptions(order);
+  const receiptText = generateReceiptText(order, getMainPaperProfile(), getMainCodepage(), receiptOptions);
 
   console.log('[PrintService] 🖨️ Printing order:', order.order_number);
 
   // CRITICAL: Verify actual connection, not just stored state
-  if (!BLEPrinter) {
+  if (!activeTransport.isAvailable()) {
     console.error('[PrintService] ❌ Printer library not available');
     return false;
   }
@@ -542,15 +486,8 @@ export const printOrder = async (order: Order): Promise<boolean> => {
   }
 
   try {
-    // Print using the library's text method
     // Note: Feed and cut commands are now included in generateReceiptText()
-    await BLEPrinter.printText(receiptText, {
-      encoding: 'UTF8',
-      codepage: 0,
-      widthtimes: 0,
-      heigthtimes: 0,
-      fonttype: 0,
-    });
+    await sendReceipt(receiptText, receiptOptions);
     
     console.log('[PrintService] ✓ Print successful for order', order.order_number);
     return true;
@@ -562,1063 +499,339 @@ export const printOrder = async (order: Order): Promise<boolean> => {
   }
 };
 
+// Track recently printed orders to prevent duplicates (order_id -> timestamp)
+const recentlyPrintedKitchen: Map<string, number> = new Map();
+const DUPLICATE_PREVENTION_WINDOW_MS = 10000; // 10 seconds
+
+// Station tickets that made it out when the rest of the order's kitchen print
+// failed (order_id -> station ids, 'main' = no station). The retry skips them.
+const partialKitchenPrints: Map<string, { at: number; printed: Set<string> }> = new Map();
+const PARTIAL_PRINT_WINDOW_MS = 30 * 60 * 1000; // 30 minutes - after that it's a fresh print
+
 /**
- * Generate receipt - plain text format for 80mm paper
- * Effective width is 46 chars (48 - 2 char left margin) at normal size
- * Effective width is 23 chars (24 - 1 char left margin) for double-size text
- * The 2-char left margin is built into helpers to prevent edge clipping
+ * Print on a station printer, then reconnect the main printer
+ * The native printer modules hold one connection at a time, so station
+ * printers are reached by switching the connection around each ticket.
+ * @returns {Promise<boolean>} true if the station printer took the job
  */
-const PAPER_WIDTH = 42;        // Reduced from 46 to leave right margin
-const PAPER_WIDTH_DOUBLE = 21; // Half of 42 for double-size text
-const LEFT_MARGIN = '  ';      // 2 spaces for left margin
-
-const centerText = (text: string, width: number = PAPER_WIDTH): string => {
-  const trimmed = text.substring(0, width);
-  const padding = Math.max(0, Math.floor((width - trimmed.length) / 2));
-  return LEFT_MARGIN + ' '.repeat(padding) + trimmed;
-};
+const printOnOtherPrinter = async (
+  text: string,
+  address: string,
+  type: PrinterTransportType
+): Promise<boolean> => {
+  const mainAddress = connectedPrinterAddress;
+  const mainTransport = activeTransport;
+
+  if (address === mainAddress && type === mainTransport.type) {
+    try {
+      await activeTransport.printText(text, PRINT_TEXT_OPTIONS);
+      return true;
+    } catch (error: any) {
+      console.error(`[PrintService] ❌ Printer ${address} failed:`, error?.message || error);
+      printerConnected = false;
+      return false;
+    }
+  }
 
-const rightAlign = (left: string, right: string, width: number = PAPER_WIDTH): string => {
-  const maxLeft = width - right.length - 1;
-  const leftTrimmed = left.substring(0, maxLeft);
-  const spaces = width - leftTrimmed.length - right.length;
-  return LEFT_MARGIN + leftTrimmed + ' '.repeat(Math.max(1, spaces)) + right;
-};
+  let printed = false;
+  try {
+    if (getTransport(type).isAvailable() && await openConnection(address, type)) {
+      await activeTransport.printText(text, PRINT_TEXT_OPTIONS);
+      printed = true;
+    }
+  } catch (error: any) {
+    console.error(`[PrintService] ❌ Printer ${address} failed:`, error?.message || error);
+  } finally {
+    // Always go back to the main printer so regular printing keeps working -
+    // if it won't reconnect, it's marked disconnected rather than left on the station
+    const reconnected = !!mainAddress && await openConnection(mainAddress, mainTransport.type).catch(() => false);
+    if (!reconnected) {
+      console.error('[PrintService] ❌ Could not reconnect main printer after printing elsewhere');
+      activeTransport = mainTransport;
+      printerConnected = false;
+      connectedPrinterAddress = null;
+    }
+  }
 
-const dividerLine = (char: string = '-', width: number = PAPER_WIDTH): string => {
-  return LEFT_MARGIN + char.repeat(width);
+  return printed;
 };
 
 /**
- * Add left margin to a single line of text
+ * Print a KITCHEN TICKET (for the cook board)
+ * With stations configured, each station printer gets only its items and the
+ * expo station gets the whole order. A station ticket whose printer can't be
+ * reached prints on the main printer instead. If a ticket fails part way
+ * through, the next attempt only sends the tickets that didn't print.
+ * @param stations - Kitchen stations from settings (empty = one ticket, main printer)
+ * @param copies - How many of each ticket to print
+ * @returns {Promise<boolean>} true ONLY if every ticket was actually sent to a printer
  */
-const marginLine = (text: string): string => {
-  return LEFT_MARGIN + text;
-};
+export const printKitchenTicket = async (
+  order: Order,
+  stations: KitchenStation[] = [],
+  copies: number = 1
+): Promise<boolean> => {
+  // DUPLICATE PREVENTION: Check if this order was printed in the last 10 seconds
+  const lastPrintTime = recentlyPrintedKitchen.get(order.id);
+  if (lastPrintTime && Date.now() - lastPrintTime < DUPLICATE_PREVENTION_WINDOW_MS) {
+    console.warn('[PrintService] ⚠️ DUPLICATE BLOCKED - Kitchen ticket for', order.order_number, 'was printed', Math.round((Date.now() - lastPrintTime) / 1000), 'seconds ago');
+    return true; // Return true to prevent retry loops
+  }
+  
+  const tickets = routeOrderToStations(order, stations);
+  const mainPaper = getMainPaperProfile();
+  const mainCodepage = getMainCodepage();
+  const alertRules = getAlertRules();
+  const reprint = !!useStore.getState().printedOrders[order.id];
 
-// ============================================
-// 🍳 KITCHEN TICKET - For the cook board
-// ============================================
+  console.log('[PrintService] 🍳 Printing KITCHEN TICKET for order:', order.order_number, `(${tickets.length} ticket${tickets.length !== 1 ? 's' : ''})`);
 
-/**
- * Sanitize text for thermal printer - convert special chars to ASCII
- * Thermal printers often can't handle Unicode/UTF-8 special characters
- * This function aggressively removes all non-ASCII to prevent Chinese/Unicode character issues
- */
-const sanitizeForPrinter = (text: string): string => {
-  if (!text) return '';
-  // First, try to normalize Unicode characters
-  let sanitized = text
-    // Curly quotes and apostrophes → straight versions
-    .replace(/[\u2018\u2019\u201A\u201B]/g, "'")  // ' ' ‚ ‛ → '
-    .replace(/[\u201C\u201D\u201E\u201F]/g, '"')  // " " „ ‟ → "
-    // Dashes
-    .replace(/[\u2013\u2014\u2015]/g, '-')        // – — ― → -
-    // Ellipsis
-    .replace(/\u2026/g, '...')                     // … → ...
-    // Spaces
-    .replace(/[\u00A0\u2002\u2003\u2009]/g, ' ')  // non-breaking, en, em, thin space → space
-    // Common accented characters → ASCII
-    .replace(/[àáâãäå]/gi, 'a')
-    .replace(/[èéêë]/gi, 'e')
-    .replace(/[ìíîï]/gi, 'i')
-    .replace(/[òóôõö]/gi, 'o')
-    .replace(/[ùúûü]/gi, 'u')
-    .replace(/[ñ]/gi, 'n')
-    .replace(/[ç]/gi, 'c');
-  
-  // Aggressively remove ALL remaining non-ASCII characters (including Chinese, emojis, etc.)
-  // This ensures thermal printers only receive ASCII-safe characters
-  sanitized = sanitized.replace(/[^\x00-\x7F]/g, '');
-  
-  // Remove any control characters except newlines, tabs, and carriage returns
-  sanitized = sanitized.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, '');
-  
-  return sanitized;
-};
+  // CRITICAL: Verify actual connection, not just stored state
+  if (!activeTransport.isAvailable()) {
+    console.error('[PrintService] ❌ Printer library not available - CANNOT PRINT');
+    return false;
+  }
 
-/**
- * Group modifiers by their group_name field.
- * Returns an array of { groupName, modifiers } in insertion order.
- * Modifiers with no group_name (null/undefined) go into a group with groupName = null.
- */
-const groupModifiers = (modifiers: Array<{ name: string; price: number; quantity?: number; placement?: string | null; group_name?: string | null; instance_index?: number | null }>): Array<{ groupName: string | null; modifiers: typeof modifiers }> => {
-  const groups: Map<string | null, typeof modifiers> = new Map();
-  for (const mod of modifiers) {
-    const key = mod.group_name ?? null;
-    if (!groups.has(key)) {
-      groups.set(key, []);
+  if (!printerConnected || !connectedPrinterAddress) {
+    console.error('[PrintService] ❌ No printer connected - printerConnected:', printerConnected, 'address:', connectedPrinterAddress);
+    return false;
+  }
+
+  const partial = partialKitchenPrints.get(order.id);
+  const printed = partial && Date.now() - partial.at < PARTIAL_PRINT_WINDOW_MS ? partial.printed : new Set<string>();
+
+  let allPrinted = true;
+  for (const ticket of tickets) {
+    const stationName = ticket.station?.name;
+    const ticketKey = ticket.station?.id ?? 'main';
+    if (printed.has(ticketKey)) {
+      console.log(`[PrintService] ⏭️ ${stationName || 'Kitchen'} ticket already printed - skipping`);
+      continue;
+    }
+    const ticketText = generateKitchenTicket(ticket.order, stationName, mainPaper, mainCodepage, alertRules, reprint)
+      .repeat(Math.max(1, copies));
+
+    if (ticket.station?.printerAddress) {
+      console.log(`[PrintService] 📤 Sending to station printer: ${stationName}`);
+      const stationPaper = getPaperProfile(ticket.station.paperProfile);
+      const stationCodepage = getCodepage(ticket.station.codepage).id;
+      const stationText = generateKitchenTicket(ticket.order, stationName, stationPaper, stationCodepage, alertRules, reprint)
+        .repeat(Math.max(1, copies));
+      if (await printOnOtherPrinter(stationText, ticket.station.printerAddress, ticket.station.printerType)) {
+        printed.add(ticketKey);
+        continue;
+      }
+      console.warn(`[PrintService] ⚠️ ${stationName} printer unreachable - printing on main printer`);
+    }
+
+    try {
+      console.log('[PrintService] 📤 Sending to printer...', stationName || '');
+      await activeTransport.printText(ticketText, PRINT_TEXT_OPTIONS);
+      printed.add(ticketKey);
+    } catch (error: any) {
+      console.error('[PrintService] ❌ Kitchen ticket print FAILED:', stationName || '', error?.message || error);
+      // Mark as disconnected since print failed
+      printerConnected = false;
+      allPrinted = false;
+      break;
     }
-    groups.get(key)!.push(mod);
   }
-  return Array.from(groups.entries()).map(([groupName, mods]) => ({ groupName, modifiers: mods }));
-};
 
-/**
- * Group modifiers by instance_index (for 2-for-1 pizzas etc.).
- * Returns an array of { instanceLabel, groups } where groups is the result of groupModifiers.
- * Only called when at least one modifier has instance_index != null.
- * Within each instance, modifiers are further grouped by group_name.
- */
-type ModifierItem = Parameters<typeof groupModifiers>[0][number];
-const groupModifiersByInstance = (modifiers: ModifierItem[]): Array<{ instanceLabel: string; groups: ReturnType<typeof groupModifiers> }> => {
-  const byInstance: Map<number, ModifierItem[]> = new Map();
-  for (const mod of modifiers) {
-    const key = mod.instance_index ?? 0;
-    if (!byInstance.has(key)) {
-      byInstance.set(key, []);
+  if (!allPrinted) {
+    if (printed.size > 0) {
+      partialKitchenPrints.set(order.id, { at: Date.now(), printed });
     }
-    byInstance.get(key)!.push(mod);
+    return false;
   }
-  // Sort by instance_index so Pizza 1 comes before Pizza 2
-  const sortedKeys = Array.from(byInstance.keys()).sort((a, b) => a - b);
-  return sortedKeys.map((idx) => ({
-    instanceLabel: `PIZZA ${idx + 1}`,
-    groups: groupModifiers(byInstance.get(idx)!),
-  }));
-};
+  partialKitchenPrints.delete(order.id);
 
-const getItemSizeLabel = (item: any): string | null => {
-  const directSize = [item?.size, item?.item_size, item?.variant, item?.variant_name]
-    .find((v) => typeof v === 'string' && v.trim().length > 0);
-  if (typeof directSize === 'string') return directSize.trim();
+  // Track this print to prevent duplicates
+  recentlyPrintedKitchen.set(order.id, Date.now());
+  // Remember what the kitchen has on paper - later edits print as ORDER UPDATED
+  useStore.getState().recordPrintedOrder(order);
 
-  const modifiers = Array.isArray(item?.modifiers) ? item.modifiers : [];
-  const sizeMods = modifiers.filter((mod: any) => {
-    const groupName = String(mod?.group_name ?? mod?.groupName ?? '').toLowerCase();
-    return groupName.includes('size');
+  // Cleanup old entries (older than 1 minute)
+  const oneMinuteAgo = Date.now() - 60000;
+  recentlyPrintedKitchen.forEach((time, id) => {
+    if (time < oneMinuteAgo) recentlyPrintedKitchen.delete(id);
   });
 
-  if (sizeMods.length > 0) {
-    const labels = sizeMods
-      .map((mod: any) => String(mod?.name ?? '').trim())
-      .filter(Boolean);
-    if (labels.length > 0) return labels.join(', ');
-  }
-
-  return null;
+  console.log('[PrintService] ✓ Kitchen ticket PRINTED for order', order.order_number);
+  return true;
 };
 
 /**
- * Word-wrap text to fit within a maximum width
- * Returns array of lines
+ * Print an ORDER UPDATED ticket - what changed since the order's kitchen
+ * ticket printed. Goes to the main printer (the expo / pass).
+ * @returns {Promise<boolean>} true if printed, or if there is nothing to print
+ * (no kitchen ticket yet, or the order was edited back)
  */
-const wrapText = (text: string, maxWidth: number): string[] => {
-  if (!text) return [];
-  const sanitized = sanitizeForPrinter(text);
-  const words = sanitized.split(' ');
-  const lines: string[] = [];
-  let currentLine = '';
-  
-  words.forEach(word => {
-    if (currentLine.length + word.length + 1 <= maxWidth) {
-      currentLine += (currentLine ? ' ' : '') + word;
-    } else {
-      if (currentLine) lines.push(currentLine);
-      // If word itself is longer than maxWidth, split it
-      if (word.length > maxWidth) {
-        while (word.length > maxWidth) {
-          lines.push(word.substring(0, maxWidth));
-          word = word.substring(maxWidth);
-        }
-        currentLine = word;
-      } else {
-        currentLine = word;
-      }
-    }
-  });
-  if (currentLine) lines.push(currentLine);
-  return lines;
-};
+export const printOrderUpdateTicket = async (order: Order, copies: number = 1): Promise<boolean> => {
+  const record = useStore.getState().printedOrders[order.id];
+  const changes = record ? diffOrderItems(record.items, snapshotOrderItems(order)) : [];
+  if (changes.length === 0) {
+    console.log('[PrintService] 📝 No changes to print for order', order.order_number);
+    return true;
+  }
 
-// Format time only (for kitchen ticket) - ASCII only to avoid printer issues
-const formatTimeOnly = (dateString: string): string => {
-  const date = new Date(dateString);
-  let hours = date.getHours();
-  const minutes = date.getMinutes().toString().padStart(2, '0');
-  const ampm = hours >= 12 ? 'PM' : 'AM';
-  hours = hours % 12;
-  hours = hours ? hours : 12; // 0 becomes 12
-  return `${hours}:${minutes} ${ampm}`;
-};
+  if (!activeTransport.isAvailable() || !printerConnected || !connectedPrinterAddress) {
+    console.error('[PrintService] ❌ No printer connected - cannot print order update');
+    return false;
+  }
+
+  try {
+    console.log(`[PrintService] 📝 Printing ORDER UPDATED for ${order.order_number} (${changes.length} change${changes.length !== 1 ? 's' : ''})`);
+    const text = generateOrderUpdateTicket(order, changes, getMainPaperProfile(), getMainCodepage());
+    await activeTransport.printText(text.repeat(Math.max(1, copies)), PRINT_TEXT_OPTIONS);
+  } catch (error: any) {
+    console.error('[PrintService] ❌ Order update print FAILED:', error?.message || error);
+    printerConnected = false;
+    return false;
+  }
 
-// Format scheduled time with date - ASCII only to avoid printer issues
-const formatScheduledTime = (dateString: string): string => {
-  const date = new Date(dateString);
-  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-  const month = months[date.getMonth()];
-  const day = date.getDate().toString().padStart(2, '0');
-  const year = date.getFullYear();
-  let hours = date.getHours();
-  const minutes = date.getMinutes().toString().padStart(2, '0');
-  const ampm = hours >= 12 ? 'PM' : 'AM';
-  hours = hours % 12;
-  hours = hours ? hours : 12; // 0 becomes 12
-  return `${month} ${day}, ${year}, ${hours}:${minutes} ${ampm}`;
+  useStore.getState().recordPrintedOrder(order);
+  console.log('[PrintService] ✓ Order update PRINTED for order', order.order_number);
+  return true;
 };
 
 /**
- * Generate a KITCHEN TICKET (KOT) for the cook
- * Clean, simple format optimized for readability
- * - No prices (cook doesn't need them)
- * - Large item names with ESC/POS formatting
- * - Clear modifiers
- * - Allergy alerts prominent with DOUBLE_SIZE
- * 
- * ESC/POS Formatting Used:
- * - Customer Name: DOUBLE_SIZE + BOLD (~24 chars wide)
- * - Item Names: DOUBLE_HEIGHT + BOLD (~48 chars wide)
- * - Allergy Header: DOUBLE_SIZE + BOLD (~24 chars wide)
- * - Allergy Text: DOUBLE_HEIGHT (~48 chars wide)
- * - Everything else: Normal size (~48 chars wide)
+ * Print ITEM LABELS (one sticker per item unit, for bagging)
+ * Goes to the label printer from settings; if it can't be reached - or none
+ * is set up - the labels print on the main printer's paper instead.
+ * @param copies - How many sets of labels to print
+ * @returns {Promise<boolean>} true ONLY if the labels were actually sent to a printer
  */
-const generateKitchenTicket = (order: Order): string => {
-  // DEBUG: Log what notes we're receiving
-  console.log('[KitchenTicket] Order notes:', order.notes || 'NONE');
-  console.log('[KitchenTicket] Items with notes:', (order.items || []).filter(i => i.notes).map(i => `${i.name}: ${i.notes}`));
-  
-  let text = '';
-  
-  // Initialize printer to reset any previous formatting
-  text += COMMANDS.INIT;
-  
-  // Extract short order number (last 5 digits only for easy call-outs)
-  const fullOrderNum = order.order_number || '';
-  const shortOrderNum = fullOrderNum.replace(/\D/g, '').slice(-5) || fullOrderNum.slice(-5);
-  
-  // Header with BIG short order number for call-outs (MANUALLY CENTERED)
-  // DOUBLE_SIZE = half width, so center within PAPER_WIDTH_DOUBLE chars
-  const orderNumText = `#${shortOrderNum}`;
-  const orderNumPadding = Math.max(0, Math.floor((PAPER_WIDTH_DOUBLE - orderNumText.length) / 2));
-  const centeredOrderNum = ' '.repeat(orderNumPadding) + orderNumText;
-  
-  text += dividerLine('=') + '\n';
-  text += COMMANDS.DOUBLE_SIZE;
-  text += COMMANDS.BOLD_ON;
-  text += centeredOrderNum + '\n';
-  text += COMMANDS.BOLD_OFF;
-  text += COMMANDS.NORMAL_SIZE;
-  text += dividerLine('=') + '\n';
-  
-  // Order info - Normal size
-  text += marginLine(`Type: ${(order.order_type || 'PICKUP').toUpperCase()}`) + '\n';
-  text += marginLine(`Time: ${formatTimeOnly(order.created_at)}`) + '\n';
-  
-  // Customer phone - Normal size, shown above name for quick contact
-  const customerPhone = sanitizeForPrinter(order.customer?.phone || '');
-  if (customerPhone) {
-    text += '\n';
-    text += marginLine(`Phone: ${customerPhone}`) + '\n';
-  }
-  
-  // Customer name - DOUBLE_SIZE + BOLD for maximum visibility
-  // If no real name, use order number for identification
-  text += customerPhone ? '' : '\n'; // Only add newline if no phone was printed
-  text += COMMANDS.DOUBLE_SIZE;
-  text += COMMANDS.BOLD_ON;
-  const rawName = sanitizeForPrinter(order.customer?.name || '');
-  const isValidName = rawName && rawName.toLowerCase() !== 'guest' && rawName.toLowerCase() !== 'customer' && rawName.trim() !== '';
-  const displayName = isValidName ? rawName : `#${order.order_number.slice(-6)}`;
-  text += LEFT_MARGIN + displayName.substring(0, PAPER_WIDTH_DOUBLE) + '\n';
-  text += COMMANDS.BOLD_OFF;
-  text += COMMANDS.NORMAL_SIZE;
-  
-  // 📅 SCHEDULED ORDER DETECTION
-  // Check both estimated_ready_time field AND notes for scheduled info
-  let scheduledTime: string | null = null;
-  let scheduledFromNotes = false;
-  
-  // Check estimated_ready_time field first
-  if (order.estimated_ready_time) {
-    const orderDate = new Date(order.created_at);
-    const readyDate = new Date(order.estimated_ready_time);
-    // Only show if ready time is more than 30 mins in the future
-    if (readyDate.getTime() - orderDate.getTime() > 30 * 60 * 1000) {
-      scheduledTime = formatScheduledTime(order.estimated_ready_time);
-    }
-  }
-  
-  // Also check notes for "Scheduled for:" pattern (from Replit API)
-  const scheduledMatch = order.notes?.match(/Scheduled\s*for:\s*(\d{4}-\d{2}-\d{2}T[\d:\.]+Z?)/i);
-  if (scheduledMatch && scheduledMatch[1]) {
-    const matchedTime = formatScheduledTime(scheduledMatch[1]);
-    if (matchedTime) {
-      scheduledTime = matchedTime;
-      scheduledFromNotes = true;
-    }
-  }
-  
-  // Display scheduled time prominently if found
-  if (scheduledTime) {
-    text += '\n';
-    // Use normal size for asterisks (not double) so they're not too wide
-    text += dividerLine('*') + '\n';
-    text += COMMANDS.DOUBLE_SIZE;
-    text += COMMANDS.BOLD_ON;
-    text += centerText('SCHEDULED ORDER', PAPER_WIDTH_DOUBLE) + '\n';
-    text += COMMANDS.BOLD_OFF;
-    text += COMMANDS.NORMAL_SIZE;
-    text += COMMANDS.BOLD_ON;
-    // Sanitize scheduled time to remove any non-ASCII characters
-    const sanitizedScheduledTime = sanitizeForPrinter(scheduledTime);
-    text += centerText(sanitizedScheduledTime, PAPER_WIDTH) + '\n';
-    text += COMMANDS.BOLD_OFF;
-    text += dividerLine('*') + '\n'; // Normal width after reset
-  }
-  
-  // Items header with count (FOOD FIRST - most important for kitchen!)
-  const itemCount = (order.items || []).reduce((sum, item) => sum + (item.quantity || 1), 0);
-  text += '\n' + dividerLine('-') + '\n';
-  text += COMMANDS.BOLD_ON;
-  text += marginLine(`ITEMS: (${itemCount} item${itemCount !== 1 ? 's' : ''})`) + '\n';
-  text += COMMANDS.BOLD_OFF;
-  text += dividerLine('-') + '\n';
-  
-  // Items - DOUBLE_HEIGHT + BOLD for easy scanning
-  const items = order.items || [];
-  items.forEach((item, index) => {
-    const qty = item.quantity || 1;
-    const itemName = sanitizeForPrinter(item.name || 'Unknown Item').substring(0, PAPER_WIDTH - 4); // Leave room for "Nx "
-    
-    // Quantity and item name in DOUBLE_HEIGHT + BOLD + wider spacing
-    text += COMMANDS.DOUBLE_HEIGHT;
-    text += COMMANDS.BOLD_ON;
-    text += COMMANDS.CHAR_SPACING_WIDE; // ~15% wider letter spacing
-    text += LEFT_MARGIN + `${qty}x ${itemName}` + '\n';
-    text += COMMANDS.CHAR_SPACING_NORMAL; // Reset spacing
-    text += COMMANDS.BOLD_OFF;
-    text += COMMANDS.NORMAL_SIZE;
-
-    const kitchenItemSize = getItemSizeLabel(item);
-    if (kitchenItemSize) {
-      text += LEFT_MARGIN + '   (' + sanitizeForPrinter(kitchenItemSize) + ')' + '\n';
-    }
-    
-    // Modifiers - grouped by instance_index (if present) then by group_name, with placement and quantity
-    if (item.modifiers && item.modifiers.length > 0) {
-      const hasInstanceIndex = item.modifiers.some((m) => m.instance_index != null);
-      if (hasInstanceIndex) {
-        const instances = groupModifiersByInstance(item.modifiers);
-        instances.forEach((instance) => {
-          text += LEFT_MARGIN + '  ' + COMMANDS.BOLD_ON + instance.instanceLabel + ':' + COMMANDS.BOLD_OFF + '\n';
-          instance.groups.forEach((group) => {
-            if (group.groupName) {
-              text += LEFT_MARGIN + '   ' + COMMANDS.BOLD_ON + sanitizeForPrinter(group.groupName).toUpperCase() + ':' + COMMANDS.BOLD_OFF + '\n';
-            }
-            group.modifiers.forEach((mod) => {
-              let placementText = '';
-              if (mod.placement && mod.placement !== 'whole') {
-                placementText = mod.placement === 'left' ? ' (LEFT)' : ' (RIGHT)';
-              }
-              const modName = sanitizeForPrinter(mod.name);
-              const hasQuantity = mod.quantity && mod.quantity > 1;
-              const modQuantity = hasQuantity ? ` x${mod.quantity}` : '';
-              text += LEFT_MARGIN + '    - ' + modName;
-              if (hasQuantity) {
-                text += COMMANDS.BOLD_ON;
-                text += modQuantity;
-                text += COMMANDS.BOLD_OFF;
-              }
-              text += placementText + '\n';
-            });
-          });
-        });
-      } else {
-        const groups = groupModifiers(item.modifiers);
-        groups.forEach((group) => {
-          // Print group header if it has a name
-          if (group.groupName) {
-            text += LEFT_MARGIN + '   ' + COMMANDS.BOLD_ON + sanitizeForPrinter(group.groupName).toUpperCase() + ':' + COMMANDS.BOLD_OFF + '\n';
-          }
-          group.modifiers.forEach((mod) => {
-            let placementText = '';
-            if (mod.placement && mod.placement !== 'whole') {
-              placementText = mod.placement === 'left' ? ' (LEFT)' : ' (RIGHT)';
-            }
-            const modName = sanitizeForPrinter(mod.name);
-            const hasQuantity = mod.quantity && mod.quantity > 1;
-            const modQuantity = hasQuantity ? ` x${mod.quantity}` : '';
-
-            text += LEFT_MARGIN + '   - ' + modName;
-            if (hasQuantity) {
-              text += COMMANDS.BOLD_ON;
-              text += modQuantity;
-              text += COMMANDS.BOLD_OFF;
-            }
-            text += placementText + '\n';
-          });
-        });
-      }
-    }
+export const printItemLabels = async (order: Order, copies: number = 1): Promise<boolean> => {
+  const { printer, paper, codepage } = getLabelPrinterProfile();
+  console.log('[PrintService] 🏷️ Printing ITEM LABELS for order:', order.order_number);
 
-    // Item-specific notes - Normal size, indented, with word wrap
-    if (item.notes) {
-      const noteLines = wrapText(item.notes, PAPER_WIDTH - 6); // Account for "   >> " prefix
-      noteLines.forEach((line, idx) => {
-        text += marginLine(idx === 0 ? `   >> ${line}` : `      ${line}`) + '\n';
-      });
-    }
-    
-    // Add separator between items (but not after the last item)
-    if (index < items.length - 1) {
-      text += '\n'; // Blank line between items for readability
-    }
-  });
-  
-  text += '\n' + dividerLine('-') + '\n';
-  
-  // ============================================
-  // 🚨 SMART ALERT DETECTION SYSTEM
-  // Scans order notes and item notes for keywords
-  // ============================================
-  
-  // Helper: Check if any keywords exist in text
-  const containsKeyword = (text: string | undefined, keywords: string[]): boolean => {
-    if (!text) return false;
-    const lowerText = text.toLowerCase();
-    return keywords.some(k => lowerText.includes(k.toLowerCase()));
-  };
-  
-  // Helper: Collect matching notes from items
-  const collectItemNotes = (keywords: string[]): string[] => {
-    const matches: string[] = [];
-    (order.items || []).forEach((item) => {
-      if (containsKeyword(item.notes, keywords)) {
-        matches.push(`${item.name}: ${item.notes}`);
-      }
-    });
-    return matches;
-  };
-  
-  // ----------------------------------------
-  // 🚨 URGENT / RUSH ORDER DETECTION
-  // ----------------------------------------
-  const urgentKeywords = ['urgent', 'rush', 'asap', 'hurry', 'priority', 'fast', 'quickly', 'emergency'];
-  const orderHasUrgent = containsKeyword(order.notes, urgentKeywords);
-  const itemUrgentNotes = collectItemNotes(urgentKeywords);
-  const isUrgent = orderHasUrgent || itemUrgentNotes.length > 0;
-  
-  if (isUrgent) {
-    text += '\n';
-    text += COMMANDS.DOUBLE_SIZE;
-    text += COMMANDS.BOLD_ON;
-    text += LEFT_MARGIN + '>>> URGENT <<<' + '\n';
-    text += COMMANDS.BOLD_OFF;
-    text += COMMANDS.NORMAL_SIZE;
-    
-    // Show the reason so kitchen can judge if it's legit
-    const alertWidth = PAPER_WIDTH_DOUBLE - 2;
-    text += COMMANDS.DOUBLE_HEIGHT;
-    if (orderHasUrgent && order.notes) {
-      const lines = wrapText(order.notes, alertWidth);
-      lines.forEach(line => {
-        text += LEFT_MARGIN + line + '\n';
-      });
-    }
-    itemUrgentNotes.forEach((note) => {
-      const lines = wrapText(note, alertWidth);
-      lines.forEach(line => {
-        text += LEFT_MARGIN + line + '\n';
-      });
-    });
-    text += COMMANDS.NORMAL_SIZE;
-    text += dividerLine('-') + '\n';
-  }
-  
-  // ----------------------------------------
-  // 🚨 ALLERGY ALERT DETECTION (TRUE ALLERGIES ONLY)
-  // ----------------------------------------
-  // Include all tenses AND common misspellings (single "l" versions)
-  const allergyKeywords = [
-    // Proper spelling - all forms
-    'allergy', 'allergies', 'allergic', 'allergen', 'allergens',
-    // Misspellings with single "l" - for the spelling-challenged among us 😄
-    'alergy', 'alergies', 'alergic', 'alergen', 'alergens', 'alergi',
-    // Specific allergies
-    'nut allergy', 'peanut', 'tree nut', 'shellfish', 'seafood allergy', 
-    'egg allergy', 'soy allergy', 'wheat allergy', 'milk allergy', 
-    'dairy allergy', 'fish allergy', 'sesame', 'mustard allergy',
-    // Severe reactions
-    'anaphylactic', 'anaphylaxis', 'epipen', 'epi-pen', 'epi pen'
-  ];
-  
-  const orderHasAllergy = containsKeyword(order.notes, allergyKeywords);
-  const itemAllergyNotes = collectItemNotes(allergyKeywords);
-  const hasAllergy = orderHasAllergy || itemAllergyNotes.length > 0;
-  
-  if (hasAllergy) {
-    text += '\n';
-    text += COMMANDS.DOUBLE_SIZE;
-    text += COMMANDS.BOLD_ON;
-    text += LEFT_MARGIN + '!! ALLERGY !!' + '\n';
-    text += COMMANDS.BOLD_OFF;
-    text += COMMANDS.NORMAL_SIZE;
-    
-    // DOUBLE_HEIGHT text is twice as wide per char, so use half the width
-    const alertWidth = PAPER_WIDTH_DOUBLE - 2; // Account for margin
-    text += COMMANDS.DOUBLE_HEIGHT;
-    if (orderHasAllergy && order.notes) {
-      const lines = wrapText(order.notes, alertWidth);
-      lines.forEach(line => {
-        text += LEFT_MARGIN + line + '\n';
-      });
-    }
-    itemAllergyNotes.forEach((note) => {
-      const lines = wrapText(note, alertWidth);
-      lines.forEach(line => {
-        text += LEFT_MARGIN + line + '\n';
-      });
-    });
-    text += COMMANDS.NORMAL_SIZE;
-    text += dividerLine('-') + '\n';
-  }
-  
-  // ----------------------------------------
-  // 🌿 DIETARY RESTRICTION DETECTION
-  // (Religious/lifestyle dietary needs)
-  // ----------------------------------------
-  const dietaryKeywords = ['vegetarian', 'vegan', 'plant-based', 'plant based', 'no meat',
-                           'gluten-free', 'gluten free', 'celiac', 'gf',
-                           'halal', 'kosher', 'dairy-free', 'dairy free', 'lactose'];
-  
-  const orderHasDietary = containsKeyword(order.notes, dietaryKeywords);
-  const itemDietaryNotes = collectItemNotes(dietaryKeywords);
-  const hasDietary = orderHasDietary || itemDietaryNotes.length > 0;
-  
-  // Show dietary section independently (each category shows its own matching items)
-  if (hasDietary) {
-    text += '\n';
-    text += COMMANDS.DOUBLE_SIZE;
-    text += COMMANDS.BOLD_ON;
-    text += LEFT_MARGIN + '** DIETARY **' + '\n';
-    text += COMMANDS.BOLD_OFF;
-    text += COMMANDS.NORMAL_SIZE;
-    
-    // DOUBLE_HEIGHT text is twice as wide per char, so use half the width
-    const alertWidth = PAPER_WIDTH_DOUBLE - 2; // Account for margin
-    text += COMMANDS.DOUBLE_HEIGHT;
-    // Only show order notes if they contain dietary keywords (not allergy keywords)
-    if (orderHasDietary && order.notes && !orderHasAllergy) {
-      const lines = wrapText(order.notes, alertWidth);
-      lines.forEach(line => {
-        text += LEFT_MARGIN + line + '\n';
-      });
-    }
-    itemDietaryNotes.forEach((note) => {
-      const lines = wrapText(note, alertWidth);
-      lines.forEach(line => {
-        text += LEFT_MARGIN + line + '\n';
-      });
-    });
-    text += COMMANDS.NORMAL_SIZE;
-    text += dividerLine('-') + '\n';
-  }
-  
-  // ----------------------------------------
-  // ⚠️ IMPORTANT - Health conditions & special requests
-  // (Not allergies, but kitchen should be aware)
-  // ----------------------------------------
-  const importantKeywords = ['diabetic', 'diabetes', 'sugar-free', 'sugar free', 'no sugar',
-                             'low sodium', 'low salt', 'heart', 'pregnant', 'pregnancy',
-                             'chemo', 'immune', 'medical', 'health condition'];
-  
-  const orderHasImportant = containsKeyword(order.notes, importantKeywords);
-  const itemImportantNotes = collectItemNotes(importantKeywords);
-  const hasImportant = orderHasImportant || itemImportantNotes.length > 0;
-  
-  // Show important section independently (each category shows its own matching items)
-  if (hasImportant) {
-    text += '\n';
-    text += COMMANDS.DOUBLE_SIZE;
-    text += COMMANDS.BOLD_ON;
-    text += LEFT_MARGIN + '* IMPORTANT *' + '\n';
-    text += COMMANDS.BOLD_OFF;
-    text += COMMANDS.NORMAL_SIZE;
-    
-    // DOUBLE_HEIGHT text is twice as wide per char, so use half the width
-    const alertWidth = PAPER_WIDTH_DOUBLE - 2; // Account for margin
-    text += COMMANDS.DOUBLE_HEIGHT;
-    // Only show order notes if they contain important keywords (not already shown)
-    if (orderHasImportant && order.notes && !orderHasAllergy && !orderHasDietary) {
-      const lines = wrapText(order.notes, alertWidth);
-      lines.forEach(line => {
-        text += LEFT_MARGIN + line + '\n';
-      });
-    }
-    itemImportantNotes.forEach((note) => {
-      const lines = wrapText(note, alertWidth);
-      lines.forEach(line => {
-        text += LEFT_MARGIN + line + '\n';
-      });
-    });
-    text += COMMANDS.NORMAL_SIZE;
-    text += dividerLine('-') + '\n';
-  }
-  
-  // General notes (if order notes exist but are not allergy-related) - Normal size
-  // SKIP if this is a delivery order AND the notes are the same as delivery instructions (avoid duplicates)
-  const deliveryInstructions = order.delivery_address?.instructions || 
-                               order.delivery_address?.delivery_instructions || '';
-  const notesAreSameAsDelivery = order.order_type === 'delivery' && 
-                                  deliveryInstructions && 
-                                  order.notes?.toLowerCase().includes(deliveryInstructions.toLowerCase().substring(0, 20));
-  
-  if (order.notes && !orderHasAllergy && !notesAreSameAsDelivery) {
-    // Strip scheduled time and Twilio logs from notes
-    let notesToDisplay = stripTwilioLogs(order.notes);
-    if (scheduledFromNotes) {
-      // Remove "Scheduled for: ..." and any surrounding pipes/separators
-      notesToDisplay = notesToDisplay
-        .replace(/\|\s*Scheduled\s*for:\s*\d{4}-\d{2}-\d{2}T[\d:\.]+Z?\s*/gi, '')
-        .replace(/Scheduled\s*for:\s*\d{4}-\d{2}-\d{2}T[\d:\.]+Z?\s*\|?\s*/gi, '')
-        .trim();
-    }
-    
-    // Only show NOTES section if there's content left after stripping
-    if (notesToDisplay) {
-      text += COMMANDS.BOLD_ON;
-      text += marginLine('NOTES:') + '\n';
-      text += COMMANDS.BOLD_OFF;
-      const noteLines = wrapText(notesToDisplay, PAPER_WIDTH - 2);
-      noteLines.forEach(line => {
-        text += marginLine(line) + '\n';
-      });
-      text += dividerLine('-') + '\n';
-    }
+  if (!activeTransport.isAvailable() || !printerConnected || !connectedPrinterAddress) {
+    console.error('[PrintService] ❌ No printer connected - cannot print labels');
+    return false;
   }
-  
-  // ============================================
-  // 🚚 DELIVERY INFO (for delivery orders only)
-  // Grouped together at bottom - address + instructions
-  // ============================================
-  if (order.order_type === 'delivery' && order.delivery_address) {
-    text += '\n';
-    text += COMMANDS.BOLD_ON;
-    text += marginLine('DELIVER TO:') + '\n';
-    text += COMMANDS.BOLD_OFF;
-    
-    // Street address (check multiple possible field names)
-    const street = order.delivery_address.street || 
-                   (order.delivery_address as any).address || 
-                   (order.delivery_address as any).street_address ||
-                   (order.delivery_address as any).line1 || '';
-    if (street) {
-      text += marginLine(sanitizeForPrinter(street)) + '\n';
-    }
-    
-    // Unit/Apt (if separate field)
-    const unit = order.delivery_address.unit || 
-                 (order.delivery_address as any).apt || 
-                 (order.delivery_address as any).suite ||
-                 (order.delivery_address as any).line2 || '';
-    if (unit) {
-      text += marginLine(sanitizeForPrinter(`Unit ${unit}`)) + '\n';
-    }
-    
-    // City, Province, Postal Code
-    const city = order.delivery_address.city || '';
-    const province = order.delivery_address.province || 
-                     (order.delivery_address as any).state || 
-                     (order.delivery_address as any).region || '';
-    const postalCode = order.delivery_address.postal_code || 
-                       order.delivery_address.postalCode || 
-                       (order.delivery_address as any).zip || 
-                       (order.delivery_address as any).zipcode || '';
-    
-    const cityLine = [city, province, postalCode].filter(Boolean).join(', ');
-    if (cityLine) {
-      text += marginLine(sanitizeForPrinter(cityLine)) + '\n';
-    }
-    
-    text += dividerLine('-') + '\n';
-    
-    // Delivery instructions as separate section
-    const instructions = order.delivery_address.instructions || 
-                         order.delivery_address.delivery_instructions ||
-                         (order.delivery_address as any).notes || '';
-    if (instructions) {
-      text += COMMANDS.BOLD_ON;
-      text += marginLine('DELIVERY NOTE:') + '\n';
-      text += COMMANDS.BOLD_OFF;
-      const instructionLines = wrapText(instructions, PAPER_WIDTH - 2);
-      instructionLines.forEach(line => {
-        text += marginLine(sanitizeForPrinter(line)) + '\n';
-      });
-      text += dividerLine('-') + '\n';
+
+  if (printer?.printerAddress) {
+    const labelText = generateItemLabels(order, paper, codepage).repeat(Math.max(1, copies));
+    if (await printOnOtherPrinter(labelText, printer.printerAddress, printer.printerType)) {
+      console.log('[PrintService] ✓ Item labels PRINTED for order', order.order_number);
+      return true;
     }
+    console.warn('[PrintService] ⚠️ Label printer unreachable - printing labels on main printer');
   }
-  
-  // Pack checklist for takeout/delivery - Normal size
-  if (order.order_type === 'pickup' || order.order_type === 'delivery' || order.order_type === 'takeout') {
-    text += '\n' + marginLine('PACK / CHECK:') + '\n';
-    text += marginLine('[ ] Utensils') + '\n';
-    text += marginLine('[ ] Napkins') + '\n';
-    text += marginLine('[ ] Condiments') + '\n';
-  }
-  
-  // Payment status
-  text += '\n';
-  if (order.payment_status === 'paid') {
-    text += centerText('--- PAID ---') + '\n';
-  } else {
-    text += COMMANDS.BOLD_ON;
-    text += centerText('*** PAYMENT DUE ***') + '\n';
-    text += COMMANDS.BOLD_OFF;
+
+  try {
+    const mainText = generateItemLabels(order, getMainPaperProfile(), getMainCodepage()).repeat(Math.max(1, copies));
+    await activeTransport.printText(mainText, PRINT_TEXT_OPTIONS);
+  } catch (error: any) {
+    console.error('[PrintService] ❌ Item labels print FAILED:', error?.message || error);
+    printerConnected = false;
+    return false;
   }
 
-  // Footer - Reset to normal, add paper feed (8 lines) and cut
-  text += COMMANDS.NORMAL_SIZE;
-  text += '\n' + dividerLine('=') + '\n';
-  text += COMMANDS.FEED_LINES(8);
-  text += COMMANDS.CUT_PAPER;
-  
-  return text;
+  console.log('[PrintService] ✓ Item labels PRINTED for order', order.order_number);
+  return true;
 };
 
-// ============================================
-// 🧾 CUSTOMER RECEIPT - For the bag/customer
-// ============================================
+/**
+ * Print a DRIVER SLIP (address, instructions, cash to collect, directions QR)
+ * @param copies - How many slips to print
+ * @returns {Promise<boolean>} true ONLY if the slip was actually sent to the printer
+ */
+export const printDriverSlip = async (order: Order, copies: number = 1): Promise<boolean> => {
+  console.log('[PrintService] 🚗 Printing DRIVER SLIP for order:', order.order_number);
 
-const generateReceiptText = (order: Order): string => {
-  let text = '';
-  
-  // Extract short order number for pickup call-out
-  const fullOrderNum = order.order_number || '';
-  const shortOrderNum = fullOrderNum.replace(/\D/g, '').slice(-5) || fullOrderNum.slice(-5);
-  
-  // ========== HEADER ==========
-  text += dividerLine('=') + '\n';
-  text += centerText('YOUR ORDER') + '\n';
-  text += dividerLine('=') + '\n';
-  
-  // Big short order number for pickup call-out (MANUALLY CENTERED)
-  const orderNumText = `#${shortOrderNum}`;
-  const orderNumPadding = Math.max(0, Math.floor((PAPER_WIDTH_DOUBLE - orderNumText.length) / 2));
-  const centeredOrderNum = ' '.repeat(orderNumPadding) + orderNumText;
-  
-  text += COMMANDS.DOUBLE_SIZE;
-  text += COMMANDS.BOLD_ON;
-  text += centeredOrderNum + '\n';
-  text += COMMANDS.BOLD_OFF;
-  text += COMMANDS.NORMAL_SIZE;
-  
-  text += dividerLine('=') + '\n';
-  text += centerText(`*** ${(order.order_type || 'PICKUP').toUpperCase()} ***`) + '\n';
-  text += centerText(formatDateTime(order.created_at)) + '\n';
-  text += dividerLine('-') + '\n';
-  
-  // ========== CUSTOMER INFO ==========
-  const customerName = sanitizeForPrinter(order.customer?.name || 'Guest');
-  text += marginLine(`Customer: ${customerName}`) + '\n';
-  if (order.customer?.phone) {
-    text += marginLine(`Phone: ${sanitizeForPrinter(order.customer.phone)}`) + '\n';
-  }
-  
-  // ========== 📅 SCHEDULED ORDER DETECTION ==========
-  let scheduledTimeReceipt: string | null = null;
-  let scheduledFromNotesReceipt = false;
-  
-  // Check estimated_ready_time field first
-  if (order.estimated_ready_time) {
-    const orderDate = new Date(order.created_at);
-    const readyDate = new Date(order.estimated_ready_time);
-    if (readyDate.getTime() - orderDate.getTime() > 30 * 60 * 1000) {
-      scheduledTimeReceipt = formatScheduledTime(order.estimated_ready_time);
-    }
-  }
-  
-  // Also check notes for "Scheduled for:" pattern (from Replit API)
-  const scheduledMatchReceipt = order.notes?.match(/Scheduled\s*for:\s*(\d{4}-\d{2}-\d{2}T[\d:\.]+Z?)/i);
-  if (scheduledMatchReceipt && scheduledMatchReceipt[1]) {
-    const matchedTime = formatScheduledTime(scheduledMatchReceipt[1]);
-    if (matchedTime) {
-      scheduledTimeReceipt = matchedTime;
-      scheduledFromNotesReceipt = true;
-    }
-  }
-  
-  // Display scheduled time prominently if found
-  if (scheduledTimeReceipt) {
-    text += '\n';
-    text += dividerLine('*') + '\n'; // Normal width (not in DOUBLE_SIZE mode here)
-    text += COMMANDS.BOLD_ON;
-    text += centerText('SCHEDULED ORDER') + '\n';
-    // Sanitize scheduled time to remove any non-ASCII characters
-    const sanitizedScheduledTimeReceipt = sanitizeForPrinter(scheduledTimeReceipt);
-    text += centerText(sanitizedScheduledTimeReceipt) + '\n';
-    text += COMMANDS.BOLD_OFF;
-    text += dividerLine('*') + '\n';
-  }
-  
-  // ========== DELIVERY ADDRESS ==========
-  if (order.order_type === 'delivery' && order.delivery_address) {
-    text += dividerLine('-') + '\n';
-    text += COMMANDS.BOLD_ON;
-    text += marginLine('DELIVER TO:') + '\n';
-    text += COMMANDS.BOLD_OFF;
-    
-    // Street
-    const street = order.delivery_address.street || 
-                   (order.delivery_address as any).address || '';
-    if (street) {
-      text += marginLine(sanitizeForPrinter(street)) + '\n';
-    }
-    
-    // Unit
-    const unit = order.delivery_address.unit || '';
-    if (unit) {
-      text += marginLine(sanitizeForPrinter(`Unit ${unit}`)) + '\n';
-    }
-    
-    // City, Province, Postal Code
-    const city = order.delivery_address.city || '';
-    const province = order.delivery_address.province || '';
-    const postalCode = order.delivery_address.postal_code || 
-                       order.delivery_address.postalCode || '';
-    const cityLine = [city, province, postalCode].filter(Boolean).join(', ');
-    if (cityLine) {
-      text += marginLine(sanitizeForPrinter(cityLine)) + '\n';
-    }
-    
-    text += dividerLine('-') + '\n';
-    
-    // Delivery instructions as separate section
-    const instructions = order.delivery_address.instructions || 
-                         order.delivery_address.delivery_instructions || '';
-    if (instructions) {
-      text += COMMANDS.BOLD_ON;
-      text += marginLine('DELIVERY NOTE:') + '\n';
-      text += COMMANDS.BOLD_OFF;
-      const instructionLines = wrapText(instructions, PAPER_WIDTH - 2);
-      instructionLines.forEach(line => {
-        text += marginLine(sanitizeForPrinter(line)) + '\n';
-      });
-      text += dividerLine('-') + '\n';
-    }
+  if (!activeTransport.isAvailable() || !printerConnected || !connectedPrinterAddress) {
+    console.error('[PrintService] ❌ No printer connected - cannot print driver slip');
+    return false;
   }
-  
-  // ========== ITEMS ==========
-  const itemCount = (order.items || []).reduce((sum, item) => sum + (item.quantity || 1), 0);
-  text += '\n' + dividerLine('=') + '\n';
-  text += centerText(`ITEMS (${itemCount})`) + '\n';
-  text += dividerLine('=') + '\n';
-  
-  // Items with prices
-  const items = order.items || [];
-  items.forEach((item, index) => {
-    const itemTotal = (item.price || 0) * (item.quantity || 1);
-    const itemName = sanitizeForPrinter(item.name || 'Item');
-    const itemLine = `${item.quantity}x ${itemName}`;
-    const priceLine = `$${itemTotal.toFixed(2)}`;
-    text += rightAlign(itemLine, priceLine) + '\n';
-
-    const receiptItemSize = getItemSizeLabel(item);
-    if (receiptItemSize) {
-      text += LEFT_MARGIN + '   (' + sanitizeForPrinter(receiptItemSize) + ')' + '\n';
-    }
 
-    // Modifiers - grouped by instance_index (if present) then by group_name, with placement, quantity, and price
-    if (item.modifiers && item.modifiers.length > 0) {
-      const hasInstanceIndex = item.modifiers.some((m) => m.instance_index != null);
-      if (hasInstanceIndex) {
-        const instances = groupModifiersByInstance(item.modifiers);
-        instances.forEach((instance) => {
-          text += LEFT_MARGIN + '  ' + COMMANDS.BOLD_ON + instance.instanceLabel + ':' + COMMANDS.BOLD_OFF + '\n';
-          instance.groups.forEach((group) => {
-            if (group.groupName) {
-              text += LEFT_MARGIN + '   ' + COMMANDS.BOLD_ON + sanitizeForPrinter(group.groupName).toUpperCase() + ':' + COMMANDS.BOLD_OFF + '\n';
-            }
-            group.modifiers.forEach((mod) => {
-              const modPrice = mod.price > 0 ? `+$${mod.price.toFixed(2)}` : '';
-              let placementText = '';
-              if (mod.placement && mod.placement !== 'whole') {
-                placementText = mod.placement === 'left' ? ' (L)' : ' (R)';
-              }
-              const modName = sanitizeForPrinter(mod.name);
-              const hasQuantity = mod.quantity && mod.quantity > 1;
-              const modQuantity = hasQuantity ? ` x${mod.quantity}` : '';
-              text += LEFT_MARGIN + '    - ' + modName;
-              if (hasQuantity) {
-                text += COMMANDS.BOLD_ON;
-                text += modQuantity;
-                text += COMMANDS.BOLD_OFF;
-              }
-              text += placementText + ' ' + modPrice + '\n';
-            });
-          });
-        });
-      } else {
-        const groups = groupModifiers(item.modifiers);
-        groups.forEach((group) => {
-          if (group.groupName) {
-            text += LEFT_MARGIN + '   ' + COMMANDS.BOLD_ON + sanitizeForPrinter(group.groupName).toUpperCase() + ':' + COMMANDS.BOLD_OFF + '\n';
-          }
-          group.modifiers.forEach((mod) => {
-            const modPrice = mod.price > 0 ? `+$${mod.price.toFixed(2)}` : '';
-            let placementText = '';
-            if (mod.placement && mod.placement !== 'whole') {
-              placementText = mod.placement === 'left' ? ' (L)' : ' (R)';
-            }
-            const modName = sanitizeForPrinter(mod.name);
-            const hasQuantity = mod.quantity && mod.quantity > 1;
-            const modQuantity = hasQuantity ? ` x${mod.quantity}` : '';
-
-            text += LEFT_MARGIN + '   - ' + modName;
-            if (hasQuantity) {
-              text += COMMANDS.BOLD_ON;
-              text += modQuantity;
-              text += COMMANDS.BOLD_OFF;
-            }
-            text += placementText + ' ' + modPrice + '\n';
-          });
-        });
-      }
-    }
-    
-    // Item notes with word wrap
-    if (item.notes) {
-      const noteLines = wrapText(item.notes, PAPER_WIDTH - 6);
-      noteLines.forEach((line, idx) => {
-        text += marginLine(idx === 0 ? `   >> ${line}` : `      ${line}`) + '\n';
-      });
-    }
-    
-    // Separator between items
-    if (index < items.length - 1) {
-      text += '\n';
-    }
-  });
-  
-  // ========== TOTALS ==========
-  text += dividerLine('-') + '\n';
-  text += rightAlign('Subtotal:', `$${(order.subtotal || 0).toFixed(2)}`) + '\n';
-  text += rightAlign('Tax:', `$${(order.tax || 0).toFixed(2)}`) + '\n';
-  if (order.delivery_fee && order.delivery_fee > 0) {
-    text += rightAlign('Delivery:', `$${order.delivery_fee.toFixed(2)}`) + '\n';
-  }
-  if (order.tip && order.tip > 0) {
-    text += rightAlign('Tip:', `$${order.tip.toFixed(2)}`) + '\n';
+  try {
+    const slipText = generateDriverSlip(order, getMainPaperProfile(), getMainCodepage()).repeat(Math.max(1, copies));
+    await activeTransport.printText(slipText, PRINT_TEXT_OPTIONS);
+  } catch (error: any) {
+    console.error('[PrintService] ❌ Driver slip print FAILED:', error?.message || error);
+    printerConnected = false;
+    return false;
   }
-  text += dividerLine('=') + '\n';
-  
-  // Grand total - slightly larger
-  text += COMMANDS.BOLD_ON;
-  text += rightAlign('TOTAL:', `$${(order.total || 0).toFixed(2)}`) + '\n';
-  text += COMMANDS.BOLD_OFF;
-  
-  // Payment status
-  if (order.payment_status === 'paid') {
-    text += centerText('--- PAID ---') + '\n';
-  } else {
-    text += COMMANDS.BOLD_ON;
-    text += centerText('*** PAYMENT DUE ***') + '\n';
-    text += COMMANDS.BOLD_OFF;
+
+  console.log('[PrintService] ✓ Driver slip PRINTED for order', order.order_number);
+  return true;
+};
+
+/**
+ * Print a CANCELLATION SLIP (order number, reason, items to pull)
+ * @param copies - How many slips to print
+ * @returns {Promise<boolean>} true ONLY if the slip was actually sent to the printer
+ */
+export const printCancellationSlip = async (order: Order, copies: number = 1): Promise<boolean> => {
+  console.log('[PrintService] ❌ Printing CANCELLATION SLIP for order:', order.order_number);
+
+  if (!activeTransport.isAvailable() || !printerConnected || !connectedPrinterAddress) {
+    console.error('[PrintService] ❌ No printer connected - cannot print cancellation slip');
+    return false;
   }
-  text += dividerLine('=') + '\n';
-  
-  // ========== ORDER NOTES ==========
-  // Skip if delivery order AND notes are same as delivery instructions (avoid duplicates)
-  const custDeliveryInstructions = order.delivery_address?.instructions || 
-                                   order.delivery_address?.delivery_instructions || '';
-  const custNotesAreSameAsDelivery = order.order_type === 'delivery' && 
-                                      custDeliveryInstructions && 
-                                      order.notes?.toLowerCase().includes(custDeliveryInstructions.toLowerCase().substring(0, 20));
-  
-  if (order.notes && !custNotesAreSameAsDelivery) {
-    // Strip scheduled time and Twilio logs from notes
-    let notesToDisplayReceipt = stripTwilioLogs(order.notes);
-    if (scheduledFromNotesReceipt) {
-      notesToDisplayReceipt = notesToDisplayReceipt
-        .replace(/\|\s*Scheduled\s*for:\s*\d{4}-\d{2}-\d{2}T[\d:\.]+Z?\s*/gi, '')
-        .replace(/Scheduled\s*for:\s*\d{4}-\d{2}-\d{2}T[\d:\.]+Z?\s*\|?\s*/gi, '')
-        .trim();
-    }
-    
-    // Only show notes section if there's content left after stripping
-    if (notesToDisplayReceipt) {
-      text += '\n';
-      text += COMMANDS.BOLD_ON;
-      text += marginLine('ORDER NOTES:') + '\n';
-      text += COMMANDS.BOLD_OFF;
-      const noteLines = wrapText(notesToDisplayReceipt, PAPER_WIDTH - 2);
-      noteLines.forEach(line => {
-        text += marginLine(sanitizeForPrinter(line)) + '\n';
-      });
-      text += dividerLine('-') + '\n';
-    }
+
+  try {
+    const slipText = generateCancellationSlip(order, getMainPaperProfile(), getMainCodepage()).repeat(Math.max(1, copies));
+    await activeTransport.printText(slipText, PRINT_TEXT_OPTIONS);
+  } catch (error: any) {
+    console.error('[PrintService] ❌ Cancellation slip print FAILED:', error?.message || error);
+    printerConnected = false;
+    return false;
   }
-  
-  // ========== FOOTER ==========
-  text += '\n';
-  text += centerText('Thank you for your order!') + '\n';
-  text += centerText('We appreciate your business.') + '\n';
-  text += '\n';
-  text += centerText(`Ref: ${fullOrderNum}`) + '\n';
-  text += '\n' + dividerLine('=') + '\n';
-  text += COMMANDS.FEED_LINES(8);
-  text += COMMANDS.CUT_PAPER;
-  
-  return text;
-};
 
-// Track recently printed orders to prevent duplicates (order_id -> timestamp)
-const recentlyPrintedKitchen: Map<string, number> = new Map();
-const DUPLICATE_PREVENTION_WINDOW_MS = 10000; // 10 seconds
+  console.log('[PrintService] ✓ Cancellation slip PRINTED for order', order.order_number);
+  return true;
+};
 
 /**
- * Print a KITCHEN TICKET (for the cook board)
- * @returns {Promise<boolean>} true ONLY if print was actually sent to printer
+ * Print the ALL DAY prep summary (open item counts) on the main printer
+ * @returns {Promise<boolean>} true ONLY if the summary was actually sent to the printer
  */
-export const printKitchenTicket = async (order: Order): Promise<boolean> => {
-  // DUPLICATE PREVENTION: Check if this order was printed in the last 10 seconds
-  const lastPrintTime = recentlyPrintedKitchen.get(order.id);
-  if (lastPrintTime && Date.now() - lastPrintTime < DUPLICATE_PREVENTION_WINDOW_MS) {
-    console.warn('[PrintService] ⚠️ DUPLICATE BLOCKED - Kitchen ticket for', order.order_number, 'was printed', Math.round((Date.now() - lastPrintTime) / 1000), 'seconds ago');
-    return true; // Return true to prevent retry loops
-  }
-  
-  const ticketText = generateKitchenTicket(order);
+export const printPrepSummary = async (summary: AllDaySummary): Promise<boolean> => {
+  console.log('[PrintService] 🍕 Printing ALL DAY summary:', summary.item_count, 'items');
 
-  console.log('[PrintService] 🍳 Printing KITCHEN TICKET for order:', order.order_number);
+  if (!activeTransport.isAvailable() || !printerConnected || !connectedPrinterAddress) {
+    console.error('[PrintService] ❌ No printer connected - cannot print prep summary');
+    return false;
+  }
 
-  // CRITICAL: Verify actual connection, not just stored state
-  if (!BLEPrinter) {
-    console.error('[PrintService] ❌ Printer library not available - CANNOT PRINT');
+  try {
+    await activeTransport.printText(generatePrepSummary(summary, getMainPaperProfile(), getMainCodepage()), PRINT_TEXT_OPTIONS);
+  } catch (error: any) {
+    console.error('[PrintService] ❌ Prep summary print FAILED:', error?.message || error);
+    printerConnected = false;
     return false;
   }
 
-  if (!printerConnected || !connectedPrinterAddress) {
-    console.error('[PrintService] ❌ No printer connected - printerConnected:', printerConnected, 'address:', connectedPrinterAddress);
+  console.log('[PrintService] ✓ Prep summary PRINTED');
+  return true;
+};
+
+/**
+ * Print the Z REPORT (end-of-day sales summary) on the main printer
+ * @returns {Promise<boolean>} true ONLY if the report was actually sent to the printer
+ */
+export const printZReport = async (report: SalesReport): Promise<boolean> => {
+  console.log('[PrintService] 📊 Printing Z REPORT for', report.range_start);
+
+  if (!activeTransport.isAvailable() || !printerConnected || !connectedPrinterAddress) {
+    console.error('[PrintService] ❌ No printer connected - cannot print Z report');
     return false;
   }
 
   try {
-    console.log('[PrintService] 📤 Sending to printer...');
-    await BLEPrinter.printText(ticketText, {
-      encoding: 'UTF8',
-      codepage: 0,
-      widthtimes: 0,
-      heigthtimes: 0,
-      fonttype: 0,
-    });
-    
-    // Track this print to prevent duplicates
-    recentlyPrintedKitchen.set(order.id, Date.now());
-    
-    // Cleanup old entries (older than 1 minute)
-    const oneMinuteAgo = Date.now() - 60000;
-    recentlyPrintedKitchen.forEach((time, id) => {
-      if (time < oneMinuteAgo) recentlyPrintedKitchen.delete(id);
-    });
-    
-    console.log('[PrintService] ✓ Kitchen ticket PRINTED for order', order.order_number);
-    return true;
+    const restaurantName = useStore.getState().auth.restaurantName || '';
+    const reportText = generateZReport(report, restaurantName, getMainPaperProfile(), getMainCodepage());
+    await activeTransport.printText(reportText, PRINT_TEXT_OPTIONS);
   } catch (error: any) {
-    console.error('[PrintService] ❌ Kitchen ticket print FAILED:', error?.message || error);
-    // Mark as disconnected since print failed
+    console.error('[PrintService] ❌ Z report print FAILED:', error?.message || error);
     printerConnected = false;
     return false;
   }
+
+  console.log('[PrintService] ✓ Z report PRINTED');
+  return true;
 };
 
 // Track recently printed receipts to prevent duplicates
@@ -1626,9 +839,10 @@ const recentlyPrintedReceipt: Map<string, number> = new Map();
 
 /**
  * Print a CUSTOMER RECEIPT (for the bag/customer)
+ * @param copies - How many receipts to print
  * @returns {Promise<boolean>} true ONLY if print was actually sent to printer
  */
-export const printCustomerReceipt = async (order: Order): Promise<boolean> => {
+export const printCustomerReceipt = async (order: Order, copies: number = 1): Promise<boolean> => {
   // DUPLICATE PREVENTION: Check if this order was printed in the last 10 seconds
   const lastPrintTime = recentlyPrintedReceipt.get(order.id);
   if (lastPrintTime && Date.now() - lastPrintTime < DUPLICATE_PREVENTION_WINDOW_MS) {
@@ -1636,12 +850,15 @@ export const printCustomerReceipt = async (order: Order): Promise<boolean> => {
     return true; // Return true to prevent retry loops
   }
   
-  const receiptText = generateReceiptText(order);
+  await prepareReceiptLogo();
+  const receiptOptions = getReceiptOptions(order);
+  const receiptText = generateReceiptText(order, getMainPaperProfile(), getMainCodepage(), receiptOptions)
+    .repeat(Math.max(1, copies));
 
   console.log('[PrintService] 🧾 Printing CUSTOMER RECEIPT for order:', order.order_number);
 
   // CRITICAL: Verify actual connection, not just stored state
-  if (!BLEPrinter) {
+  if (!activeTransport.isAvailable()) {
     console.error('[PrintService] ❌ Printer library not available - CANNOT PRINT');
     return false;
   }
@@ -1653,13 +870,7 @@ export const printCustomerReceipt = async (order: Order): Promise<boolean> => {
 
   try {
     console.log('[PrintService] 📤 Sending to printer...');
-    await BLEPrinter.printText(receiptText, {
-      encoding: 'UTF8',
-      codepage: 0,
-      widthtimes: 0,
-      heigthtimes: 0,
-      fonttype: 0,
-    });
+    await sendReceipt(receiptText, receiptOptions);
     
     // Track this print to prevent duplicates
     recentlyPrintedReceipt.set(order.id, Date.now());
@@ -1682,18 +893,24 @@ export const printCustomerReceipt = async (order: Order): Promise<boolean> => {
 
 /**
  * Print BOTH kitchen ticket and customer receipt
+ * @param stations - Kitchen stations the kitchen ticket is routed to
+ * @param copies - How many of each to print
  * @returns {Promise<boolean>} true ONLY if BOTH prints succeeded
  */
-export const printBoth = async (order: Order): Promise<boolean> => {
+export const printBoth = async (
+  order: Order,
+  stations: KitchenStation[] = [],
+  copies: number = 1
+): Promise<boolean> => {
   console.log('[PrintService] 📋 Printing BOTH for order:', order.order_number);
   
   // Pre-check connection before attempting either print
-  if (!BLEPrinter || !printerConnected || !connectedPrinterAddress) {
+  if (!activeTransport.isAvailable() || !printerConnected || !connectedPrinterAddress) {
     console.error('[PrintService] ❌ Cannot print - no printer connected');
     return false;
   }
   
-  const kitchenResult = await printKitchenTicket(order);
+  const kitchenResult = await printKitchenTicket(order, stations, copies);
   
   if (!kitchenResult) {
     console.error('[PrintService] ❌ Kitchen ticket failed, skipping customer receipt');
@@ -1703,7 +920,7 @@ export const printBoth = async (order: Order): Promise<boolean> => {
   // Small pause between prints
   await new Promise(resolve => setTimeout(resolve, 500));
   
-  const receiptResult = await printCustomerReceipt(order);
+  const receiptResult = await printCustomerReceipt(order, copies);
   
   const bothSucceeded = kitchenResult && receiptResult;
   console.log('[PrintService]', bothSucceeded ? '✓ Both prints succeeded' : '❌ One or more prints failed');
@@ -1716,24 +933,13 @@ export const printBoth = async (order: Order): Promise<boolean> => {
  * @returns {Promise<boolean>} true ONLY if test print was actually sent
  */
 export const printTestPage = async (): Promise<boolean> => {
-  const testText = `
-${dividerLine('=')}
-${centerText('PRINTER TEST')}
-${dividerLine('=')}
-
-${centerText('If you can read this,')}
-${centerText('your printer is working!')}
-
-${centerText(new Date().toLocaleString())}
-
-${dividerLine('=')}
-\n\n\n`;
+  const testText = generateTestPage(getMainPaperProfile(), getMainCodepage());
 
   console.log('[PrintService] 🧪 Printing test page...');
-  console.log('[PrintService] State check - BLEPrinter:', !!BLEPrinter, 'printerConnected:', printerConnected, 'address:', connectedPrinterAddress);
+  console.log('[PrintService] State check - transport:', activeTransport.type, 'printerConnected:', printerConnected, 'address:', connectedPrinterAddress);
 
   // CRITICAL: Verify actual connection
-  if (!BLEPrinter) {
+  if (!activeTransport.isAvailable()) {
     console.error('[PrintService] ❌ Printer library not available');
     return false;
   }
@@ -1744,12 +950,14 @@ ${dividerLine('=')}
   }
 
   try {
-    // Re-initialize before printing to ensure connection is fresh
-    console.log('[PrintService] 🔄 Re-initializing printer before test...');
-    await BLEPrinter.init();
+    // Re-initialize before printing to ensure the Bluetooth connection is fresh
+    if (activeTransport.type === 'bluetooth') {
+      console.log('[PrintService] 🔄 Re-initializing printer before test...');
+      await activeTransport.init();
+    }
     
     console.log('[PrintService] 📤 Sending test text to printer...');
-    await BLEPrinter.printText(testText, {});
+    await activeTransport.printText(testText, PRINT_TEXT_OPTIONS);
     console.log('[PrintService] ✓ Test print command sent!');
     return true;
   } catch (error: any) {
@@ -1769,12 +977,23 @@ export default {
   printKitchenTicket,   // 🍳 For the cook board
   printCustomerReceipt, // 🧾 For the customer/bag
   printBoth,            // Print both at once
+  printItemLabels,      // 🏷️ Bag stickers, one per item
+  printDriverSlip,      // 🚗 For the delivery driver
+  printCancellationSlip, // ❌ Order cancelled - stop and pull
+  printOrderUpdateTicket, // 📝 Changes since the kitchen ticket
+  printPrepSummary,     // 🍕 Open item counts for the line
+  printZReport,         // 📊 End-of-day sales summary
   printTestPage,
   printTestReceipt,
   
   // Receipt generators
   generateReceiptData,
   generateTestReceipt,
+  getMainPaperProfile,
+  getMainCodepage,
+  getAlertRules,
+  getReceiptOptions,
+  prepareReceiptLogo,
   
   // Printer management
   discoverPrinters,
@@ -1782,6 +1001,14 @@ export default {
   disconnectPrinter,
   isPrinterConnected,
   getConnectedPrinterAddress,
+  getConnectedPrinterType,
   verifyConnection,
   ensureConnected,
+
+  // Printer status
+  getPrinterStatus,
+  subscribePrinterStatus,
+  isPrinterHealthy,
+  refreshPrinterStatus,
+  getHeartbeatPrinterStatus,
 };
@@ -0,0 +1,263 @@
+/**
+ * Printer Transports
+ *
+ * react-native-thermal-receipt-printer-image-qr ships three printer classes
+ * (BLEPrinter, NetPrinter, USBPrinter) with near-identical APIs but different
+ * connect signatures. This module hides those differences behind a single
+ * PrinterTransport interface so printService only deals with "an address".
+ *
+ * Address formats (what gets saved in settings.printerMacAddress):
+ * - bluetooth: MAC address, e.g. "66:32:8D:1A:2B:3C"
+ * - network:   host[:port], e.g. "192.168.1.50:9100" (port defaults to 9100)
+ * - usb:       vendorId:productId, e.g. "1208:514"
+ *
+ * printText() runs text through the library's markup parser (it eats "<" and
+ * adds reset bytes after every newline), which corrupts binary data such as
+ * raster images. printRaw() sends the bytes untouched - the library only
+ * supports that on Android.
+ *
+ * The library can't read anything back from the printer, so status queries
+ * (DLE EOT / GS a) go over a separate TCP connection via
+ * react-native-tcp-socket - network printers only. A printer that accepts
+ * one connection at a time may not answer while the print connection is
+ * open; queryStatus() then resolves to null and the status stays unknown.
+ */
+
+import { Platform } from 'react-native';
+import { DiscoveredPrinter, PrinterTransportType } from '../types';
+
+export const DEFAULT_NETWORK_PRINTER_PORT = 9100;
+const NETWORK_CONNECT_TIMEOUT_MS = 5000;
+const STATUS_QUERY_TIMEOUT_MS = 2000;
+
+let printerLib: any = null;
+let tcpSocketLib: any = null;
+
+try {
+  printerLib = require('react-native-thermal-receipt-printer-image-qr');
+} catch (e) {
+  console.warn('[PrinterTransport] ✗ Printer library not installed');
+}
+
+try {
+  tcpSocketLib = require('react-native-tcp-socket').default;
+} catch (e) {
+  console.warn('[PrinterTransport] ✗ TCP socket library not installed - printer status unavailable');
+}
+
+export interface PrinterTransport {
+  type: PrinterTransportType;
+  /** Whether the native module for this transport is available */
+  isAvailable: () => boolean;
+  init: () => Promise<void>;
+  discover: () => Promise<DiscoveredPrinter[]>;
+  connect: (address: string) => Promise<void>;
+  disconnect: () => Promise<void>;
+  printText: (text: string, options?: Record<string, any>) => Promise<void>;
+  /** Whether printRaw() can be used on this platform */
+  canPrintRaw: () => boolean;
+  /** Send an ESC/POS byte string (one character per byte) as-is */
+  printRaw: (data: string) => Promise<void>;
+  /**
+   * Send a status request and read the reply (one character per byte)
+   * @returns null if this transport can't read from the printer or it didn't answer in time
+   */
+  queryStatus: (address: string, request: string, responseLength: number) => Promise<string | null>;
+}
+
+const canPrintRaw = () => Platform.OS === 'android';
+
+const cannotQueryStatus = async (): Promise<string | null> => null;
+
+/**
+ * Parse a network printer address ("host" or "host:port")
+ * @returns null if the address has no host or an invalid port
+ */
+export const parseNetworkAddress = (address: string): { host: string; port: number } | null => {
+  const trimmed = (address || '').trim();
+  if (!trimmed) return null;
+
+  const separator = trimmed.lastIndexOf(':');
+  if (separator === -1) {
+    return { host: trimmed, port: DEFAULT_NETWORK_PRINTER_PORT };
+  }
+
+  const host = trimmed.slice(0, separator).trim();
+  const port = Number(trimmed.slice(separator + 1));
+  if (!host || !Number.isInteger(port) || port <= 0 || port > 65535) return null;
+
+  return { host, port };
+};
+
+/**
+ * Build a network printer address from host and port
+ */
+export const formatNetworkAddress = (host: string, port: number = DEFAULT_NETWORK_PRINTER_PORT): string =>
+  `${host.trim()}:${port}`;
+
+/**
+ * Parse a USB printer address ("vendorId:productId")
+ */
+export const parseUsbAddress = (address: string): { vendorId: string; productId: string } | null => {
+  const [vendorId, productId] = (address || '').split(':').map((part) => part.trim());
+  if (!vendorId || !productId) return null;
+  return { vendorId, productId };
+};
+
+/**
+ * Open a short-lived connection to a network printer, send the request and
+ * collect responseLength bytes
+ */
+const queryNetworkStatus = (address: string, request: string, responseLength: number): Promise<string | null> => {
+  const parsed = parseNetworkAddress(address);
+  if (!parsed || !tcpSocketLib) return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    let response = '';
+    let settled = false;
+    let socket: any = null;
+
+    const finish = (result: string | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      socket?.destroy();
+      resolve(result);
+    };
+    const timer = setTimeout(() => finish(null), STATUS_QUERY_TIMEOUT_MS);
+
+    try {
+      socket = tcpSocketLib.createConnection({ host: parsed.host, port: parsed.port }, () => {
+        socket.write(request, 'latin1');
+      });
+      socket.setEncoding('latin1');
+      socket.on('data', (data: string) => {
+        response += data;
+        if (response.length >= responseLength) finish(response.slice(0, responseLength));
+      });
+      socket.on('error', () => finish(null));
+      socket.on('close', () => finish(null));
+    } catch (error) {
+      finish(null);
+    }
+  });
+};
+
+const bluetoothTransport: PrinterTransport = {
+  type: 'bluetooth',
+  isAvailable: () => !!printerLib?.BLEPrinter,
+  init: async () => {
+    await printerLib.BLEPrinter.init();
+  },
+  discover: async () => {
+    await printerLib.BLEPrinter.init();
+    const devices: Array<{ device_name: string; inner_mac_address: string }> =
+      (await printerLib.BLEPrinter.getDeviceList()) || [];
+    return devices.map((device) => ({
+      type: 'bluetooth' as const,
+      device_name: device.device_name,
+      address: device.inner_mac_address,
+    }));
+  },
+  connect: async (address) => {
+    await printerLib.BLEPrinter.init();
+    await printerLib.BLEPrinter.connectPrinter(address);
+  },
+  disconnect: async () => {
+    await printerLib.BLEPrinter.closeConn();
+  },
+  printText: async (text, options) => {
+    await printerLib.BLEPrinter.printText(text, options);
+  },
+  canPrintRaw,
+  printRaw: async (data) => {
+    await printerLib.BLEPrinter.printRaw(btoa(data));
+  },
+  queryStatus: cannotQueryStatus,
+};
+
+const networkTransport: PrinterTransport = {
+  type: 'network',
+  isAvailable: () => !!printerLib?.NetPrinter,
+  init: async () => {
+    await printerLib.NetPrinter.init();
+  },
+  // LAN printers are entered by IP in Settings - the library's network scan
+  // is event-based and unreliable across subnets, so we don't offer it.
+  discover: async () => [],
+  connect: async (address) => {
+    const parsed = parseNetworkAddress(address);
+    if (!parsed) {
+      throw new Error(`Invalid network printer address: ${address}`);
+    }
+    await printerLib.NetPrinter.init();
+    await printerLib.NetPrinter.connectPrinter(parsed.host, parsed.port, NETWORK_CONNECT_TIMEOUT_MS);
+  },
+  disconnect: async () => {
+    await printerLib.NetPrinter.closeConn();
+  },
+  printText: async (text, options) => {
+    await printerLib.NetPrinter.printText(text, options);
+  },
+  canPrintRaw,
+  printRaw: async (data) => {
+    await printerLib.NetPrinter.printRaw(btoa(data));
+  },
+  queryStatus: queryNetworkStatus,
+};
+
+const usbTransport: PrinterTransport = {
+  type: 'usb',
+  isAvailable: () => !!printerLib?.USBPrinter,
+  init: async () => {
+    await printerLib.USBPrinter.init();
+  },
+  discover: async () => {
+    await printerLib.USBPrinter.init();
+    const devices: Array<{ device_name: string; vendor_id: string; product_id: string }> =
+      (await printerLib.USBPrinter.getDeviceList()) || [];
+    return devices.map((device) => ({
+      type: 'usb' as const,
+      device_name: device.device_name,
+      address: `${device.vendor_id}:${device.product_id}`,
+    }));
+  },
+  connect: async (address) => {
+    const parsed = parseUsbAddress(address);
+    if (!parsed) {
+      throw new Error(`Invalid USB printer address: ${address}`);
+    }
+    await printerLib.USBPrinter.init();
+    await printerLib.USBPrinter.connectPrinter(parsed.vendorId, parsed.productId);
+  },
+  disconnect: async () => {
+    await printerLib.USBPrinter.closeConn();
+  },
+  printText: async (text, options) => {
+    await printerLib.USBPrinter.printText(text, options);
+  },
+  canPrintRaw,
+  printRaw: async (data) => {
+    await printerLib.USBPrinter.printRaw(btoa(data));
+  },
+  queryStatus: cannotQueryStatus,
+};
+
+const TRANSPORTS: Record<PrinterTransportType, PrinterTransport> = {
+  bluetooth: bluetoothTransport,
+  network: networkTransport,
+  usb: usbTransport,
+};
+
+/**
+ * Get the transport implementation for a printer type
+ */
+export const getTransport = (type: PrinterTransportType = 'bluetooth'): PrinterTransport =>
+  TRANSPORTS[type] ?? bluetoothTransport;
+
+export default {
+  getTransport,
+  parseNetworkAddress,
+  formatNetworkAddress,
+  parseUsbAddress,
+};
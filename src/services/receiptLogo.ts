@@ -0,0 +1,178 @@
+/**
+ * Receipt Logo
+ *
+ * Downloads the restaurant logo, decodes it (PNG or JPEG, in plain JS - no
+ * native image module) and converts it to a dithered bitmap sized for the
+ * paper, ready to print as the receipt header.
+ *
+ * Converting a logo takes a moment, so bitmaps are cached per logo URL and
+ * paper width: in memory for printing, and in AsyncStorage so a restart
+ * doesn't redo the work. A new logo URL replaces the cached one.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { decode as decodeJpeg } from 'jpeg-js';
+import UPNG from 'upng-js';
+import { PaperProfile } from '../types';
+import { imageToMonoBitmap, MonoBitmap, RgbaImage } from './escpos';
+
+const RECEIPT_LOGO_KEY = '@receipt_logo';
+
+export const LOGO_MAX_HEIGHT_DOTS = 160; // 20mm at 203 dpi
+const DOWNLOAD_TIMEOUT_MS = 10000;
+const FAILURE_RETRY_MS = 10 * 60 * 1000; // Don't re-download a broken logo on every print
+
+interface StoredLogo {
+  url: string;
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  data: string; // Base64
+}
+
+const memoryCache = new Map<string, MonoBitmap>();
+const failures = new Map<string, number>(); // cache key -> time of last failure
+const pending = new Map<string, Promise<MonoBitmap | null>>();
+
+const cacheKey = (url: string, paper: PaperProfile) => `${paper.dots}:${url}`;
+
+// ==================== Decoding ====================
+
+const isPng = (bytes: Uint8Array) =>
+  bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+
+/**
+ * Decode a PNG or JPEG file into RGBA pixels
+ */
+export const decodeImage = (bytes: Uint8Array): RgbaImage => {
+  if (isPng(bytes)) {
+    // toRGBA8 expands palette, grayscale and 16-bit PNGs; the first frame is the image
+    const png = UPNG.decode(bytes.slice().buffer);
+    return { width: png.width, height: png.height, data: new Uint8Array(UPNG.toRGBA8(png)[0]) };
+  }
+  if (isJpeg(bytes)) {
+    const jpeg = decodeJpeg(bytes, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: 256 });
+    return { width: jpeg.width, height: jpeg.height, data: jpeg.data };
+  }
+  throw new Error('Unsupported logo format (expected PNG or JPEG)');
+};
+
+// ==================== Cache ====================
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array => Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+const readStoredLogos = async (): Promise<Record<string, StoredLogo>> => {
+  try {
+    const stored = await AsyncStorage.getItem(RECEIPT_LOGO_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('[ReceiptLogo] Error reading cache:', error);
+    return {};
+  }
+};
+
+const storeLogo = async (url: string, paper: PaperProfile, bitmap: MonoBitmap) => {
+  try {
+    const stored = await readStoredLogos();
+    // Keep other paper widths of the same logo, drop old logos
+    const kept = Object.fromEntries(Object.entries(stored).filter(([, logo]) => logo.url === url));
+    kept[String(paper.dots)] = {
+      url,
+      width: bitmap.width,
+      height: bitmap.height,
+      bytesPerRow: bitmap.bytesPerRow,
+      data: toBase64(bitmap.data),
+    };
+    await AsyncStorage.setItem(RECEIPT_LOGO_KEY, JSON.stringify(kept));
+  } catch (error) {
+    console.error('[ReceiptLogo] Error saving cache:', error);
+  }
+};
+
+const convertLogo = async (url: string, paper: PaperProfile): Promise<MonoBitmap | null> => {
+  const stored = (await readStoredLogos())[String(paper.dots)];
+  if (stored?.url === url) {
+    return { width: stored.width, height: stored.height, bytesPerRow: stored.bytesPerRow, data: fromBase64(stored.data) };
+  }
+
+  console.log('[ReceiptLogo] 🖼️ Converting logo for', paper.label, 'paper:', url);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), DOWNLOAD_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const bitmap = imageToMonoBitmap(decodeImage(bytes), paper.dots, LOGO_MAX_HEIGHT_DOTS);
+    await storeLogo(url, paper, bitmap);
+    console.log(`[ReceiptLogo] ✓ Logo ready (${bitmap.width}x${bitmap.height} dots)`);
+    return bitmap;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * The logo bitmap for a paper width, if it has already been converted
+ */
+export const getCachedReceiptLogo = (url: string | null | undefined, paper: PaperProfile): MonoBitmap | null =>
+  (url && memoryCache.get(cacheKey(url, paper))) || null;
+
+/**
+ * Load the logo bitmap for a paper width - from cache, or downloaded and
+ * converted. Resolves to null (receipt prints without a logo) on failure.
+ */
+export const loadReceiptLogo = async (url: string | null | undefined, paper: PaperProfile): Promise<MonoBitmap | null> => {
+  if (!url) return null;
+  const key = cacheKey(url, paper);
+
+  const cached = memoryCache.get(key);
+  if (cached) return cached;
+
+  const failedAt = failures.get(key);
+  if (failedAt && Date.now() - failedAt < FAILURE_RETRY_MS) return null;
+
+  let load = pending.get(key);
+  if (!load) {
+    load = convertLogo(url, paper)
+      .then((bitmap) => {
+        if (bitmap) memoryCache.set(key, bitmap);
+        return bitmap;
+      })
+      .catch((error) => {
+        console.warn('[ReceiptLogo] ✗ Logo unavailable, printing without it:', error?.message || error);
+        failures.set(key, Date.now());
+        return null;
+      })
+      .finally(() => pending.delete(key));
+    pending.set(key, load);
+  }
+  return load;
+};
+
+/**
+ * Forget converted logos (memory and storage)
+ */
+export const clearReceiptLogoCache = async (): Promise<void> => {
+  memoryCache.clear();
+  failures.clear();
+  await AsyncStorage.removeItem(RECEIPT_LOGO_KEY);
+};
+
+export default {
+  decodeImage,
+  getCachedReceiptLogo,
+  loadReceiptLogo,
+  clearReceiptLogoCache,
+};
@@ -0,0 +1,83 @@
+/**
+ * Kitchen Station Routing
+ *
+ * Splits an order into one kitchen ticket per station. Prep stations (pizza
+ * oven, grill, bar...) only get the items their rules match; the expo station
+ * gets the whole order. Items no prep station claims are never dropped - they
+ * go on the expo ticket, or on the main printer if there is no expo station.
+ */
+
+import { KitchenStation, Order, OrderItem, StationRule } from '../types';
+import { getItemSizeLabel } from './tickets';
+
+export interface StationTicket {
+  station: KitchenStation | null; // null = main printer, no station header
+  order: Order;                   // The order with only this station's items
+}
+
+const contains = (text: string | null | undefined, value: string): boolean => {
+  const needle = value.trim().toLowerCase();
+  if (!needle || !text) return false;
+  return text.toLowerCase().includes(needle);
+};
+
+const ruleMatches = (item: OrderItem, rule: StationRule): boolean => {
+  switch (rule.field) {
+    case 'item_name':
+      return contains(item.name, rule.value);
+    case 'size':
+      return contains(getItemSizeLabel(item), rule.value);
+    case 'modifier_group':
+      return (item.modifiers || []).some((mod) => contains(mod.group_name, rule.value));
+    default:
+      return false;
+  }
+};
+
+/**
+ * Does this item belong on the station's ticket?
+ */
+export const itemMatchesStation = (item: OrderItem, station: KitchenStation): boolean => {
+  if (station.isExpo) return true;
+  return station.rules.some((rule) => ruleMatches(item, rule));
+};
+
+/**
+ * Work out which tickets to print for an order
+ * With no stations configured this is a single ticket for the main printer.
+ */
+export const routeOrderToStations = (order: Order, stations: KitchenStation[]): StationTicket[] => {
+  if (stations.length === 0) {
+    return [{ station: null, order }];
+  }
+
+  const items = order.items || [];
+  const prepStations = stations.filter((station) => !station.isExpo);
+  const expoStations = stations.filter((station) => station.isExpo);
+  const tickets: StationTicket[] = [];
+
+  prepStations.forEach((station) => {
+    const stationItems = items.filter((item) => itemMatchesStation(item, station));
+    if (stationItems.length > 0) {
+      tickets.push({ station, order: { ...order, items: stationItems } });
+    }
+  });
+
+  if (expoStations.length > 0) {
+    expoStations.forEach((station) => tickets.push({ station, order }));
+    return tickets;
+  }
+
+  const unrouted = items.filter((item) => !prepStations.some((station) => itemMatchesStation(item, station)));
+  if (unrouted.length > 0) {
+    tickets.push({ station: null, order: { ...order, items: unrouted } });
+  }
+
+  // Nothing to route (e.g. an order without items) - still print one ticket
+  return tickets.length > 0 ? tickets : [{ station: null, order }];
+};
+
+export default {
+  itemMatchesStation,
+  routeOrderToStations,
+};
@@ -0,0 +1,118 @@
+// ============================================
+// 🚨 SMART ALERT RULES - Keyword dictionaries for kitchen ticket alerts
+// Scanned in order notes and item notes. Restaurants edit these in Settings,
+// and the server can push its own through heartbeat config_updates.
+// ============================================
+
+import { AlertCategory, AlertKeywordRule, AlertKeywordRules, AlertKeywordRuleUpdates } from '../../types';
+
+// Order the alert sections print in
+export const ALERT_CATEGORIES: AlertCategory[] = ['urgent', 'allergy', 'dietary', 'important'];
+
+export const DEFAULT_ALERT_RULES: AlertKeywordRules = {
+  urgent: {
+    keywords: ['urgent', 'rush', 'asap', 'hurry', 'priority', 'fast', 'quickly', 'emergency'],
+    exclusions: ['not urgent', 'no rush', 'no hurry', 'not a priority'],
+    wholeWord: true, // "breakfast" isn't a rush
+  },
+
+  // TRUE ALLERGIES ONLY - include all tenses AND common misspellings (single "l" versions)
+  allergy: {
+    keywords: [
+      // Proper spelling - all forms
+      'allergy', 'allergies', 'allergic', 'allergen', 'allergens',
+      // Misspellings with single "l" - for the spelling-challenged among us 😄
+      'alergy', 'alergies', 'alergic', 'alergen', 'alergens', 'alergi',
+      // Specific allergies
+      'nut allergy', 'peanut', 'tree nut', 'shellfish', 'seafood allergy',
+      'egg allergy', 'soy allergy', 'wheat allergy', 'milk allergy',
+      'dairy allergy', 'fish allergy', 'sesame', 'mustard allergy',
+      // Severe reactions
+      'anaphylactic', 'anaphylaxis', 'epipen', 'epi-pen', 'epi pen',
+    ],
+    exclusions: ['no allergies', 'no known allergies'],
+    wholeWord: false, // Better a false alarm than a missed "peanuts"
+  },
+
+  // Religious/lifestyle dietary needs
+  dietary: {
+    keywords: ['vegetarian', 'vegan', 'plant-based', 'plant based', 'no meat',
+               'gluten-free', 'gluten free', 'celiac', 'gf',
+               'halal', 'kosher', 'dairy-free', 'dairy free', 'lactose'],
+    exclusions: [],
+    wholeWord: true,
+  },
+
+  // Health conditions & special requests (not allergies, but kitchen should be aware)
+  important: {
+    keywords: ['diabetic', 'diabetes', 'sugar-free', 'sugar free', 'no sugar',
+               'low sodium', 'low salt', 'heart', 'pregnant', 'pregnancy',
+               'chemo', 'immune', 'medical', 'health condition'],
+    exclusions: [],
+    wholeWord: true,
+  },
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Letters and digits (Latin accents included) - anything else ends a word
+const WORD_CHAR = 'a-z0-9\\u00C0-\\u024F';
+
+const cleanList = (values: string[] | undefined): string[] =>
+  (values || []).map((value) => String(value).trim().toLowerCase()).filter(Boolean);
+
+/**
+ * Does the text raise this alert? Exclusion phrases are blanked out first,
+ * so "no rush" doesn't trip "rush" but "no rush on fries, URGENT" still does.
+ */
+export const matchesAlertRule = (text: string | undefined, rule: AlertKeywordRule): boolean => {
+  if (!text) return false;
+  let lowerText = text.toLowerCase();
+  cleanList(rule.exclusions).forEach((exclusion) => {
+    lowerText = lowerText.split(exclusion).join(' ');
+  });
+  return cleanList(rule.keywords).some((keyword) => {
+    if (!rule.wholeWord) return lowerText.includes(keyword);
+    return new RegExp(`(^|[^${WORD_CHAR}])${escapeRegExp(keyword)}($|[^${WORD_CHAR}])`).test(lowerText);
+  });
+};
+
+/**
+ * Complete rule set from saved settings - categories that are missing
+ * (older installs) fall back to the defaults
+ */
+export const resolveAlertRules = (rules?: Partial<AlertKeywordRules> | null): AlertKeywordRules => {
+  const resolved = { ...DEFAULT_ALERT_RULES };
+  ALERT_CATEGORIES.forEach((category) => {
+    const rule = rules?.[category];
+    if (rule) {
+      resolved[category] = {
+        keywords: cleanList(rule.keywords),
+        exclusions: cleanList(rule.exclusions),
+        wholeWord: !!rule.wholeWord,
+      };
+    }
+  });
+  return resolved;
+};
+
+/**
+ * Apply rules pushed by the server on top of the current ones - only the
+ * categories and fields it sends change
+ */
+export const applyAlertRuleUpdates = (
+  rules: AlertKeywordRules,
+  updates: AlertKeywordRuleUpdates | null | undefined
+): AlertKeywordRules => {
+  const next = { ...rules };
+  ALERT_CATEGORIES.forEach((category) => {
+    const update = updates?.[category];
+    if (!update) return;
+    next[category] = {
+      keywords: Array.isArray(update.keywords) ? cleanList(update.keywords) : rules[category].keywords,
+      exclusions: Array.isArray(update.exclusions) ? cleanList(update.exclusions) : rules[category].exclusions,
+      wholeWord: typeof update.whole_word === 'boolean' ? update.whole_word : rules[category].wholeWord,
+    };
+  });
+  return next;
+};
@@ -0,0 +1,72 @@
+// ============================================
+// ❌ CANCELLATION SLIP - Tells the line to stop
+// Which order is off, why, and what to pull
+// ============================================
+
+import { Order, PaperProfile, PrinterCodepage } from '../../types';
+import { renderEscPos, TicketBuilder, TicketDocument } from '../escpos';
+import { formatCurrency, formatTimeOnly, getShortOrderNumber, sanitizeForPrinter, wrapText } from './formatting';
+import { DEFAULT_PAPER_PROFILE, paperLayout } from './paperProfiles';
+import { getCancelReasonLabel } from '../../utils/cancelReasons';
+
+/**
+ * Build the CANCELLATION SLIP for a cancelled (or rejected) order
+ */
+export const buildCancellationSlip = (order: Order, paper: PaperProfile = DEFAULT_PAPER_PROFILE): TicketDocument => {
+  const b = new TicketBuilder(paperLayout(paper));
+  b.init();
+
+  // ========== HEADER ==========
+  b.divider('=');
+  b.block({ size: 'double', bold: true }, (block) => {
+    block.center('CANCELLED', paper.doubleWidth, '');
+    block.center(`#${getShortOrderNumber(order)}`, paper.doubleWidth, '');
+  });
+  b.divider('=');
+  b.line(`Type: ${(order.order_type || 'PICKUP').toUpperCase()}`);
+  b.line(`Ordered: ${formatTimeOnly(order.created_at)}`);
+  const name = sanitizeForPrinter(order.customer?.name || '');
+  if (name) {
+    b.line(`Customer: ${name}`.substring(0, paper.width));
+  }
+
+  // ========== REASON ==========
+  b.divider('-');
+  b.bold((block) => block.line('REASON:'));
+  b.block({ size: 'doubleHeight', bold: true }, (block) => {
+    block.line(sanitizeForPrinter(getCancelReasonLabel(order.cancel_reason)).toUpperCase());
+  });
+  const note = sanitizeForPrinter(order.cancel_note || '');
+  if (note) {
+    wrapText(note, paper.width - 2).forEach((line) => b.line(line));
+  }
+
+  // ========== ITEMS ==========
+  // What to pull if it's already on the line
+  const items = order.items || [];
+  if (items.length > 0) {
+    b.divider('-');
+    b.bold((block) => block.line('ITEMS:'));
+    items.forEach((item) => {
+      wrapText(`${item.quantity || 1}x ${sanitizeForPrinter(item.name)}`, paper.width).forEach((line) => b.line(line));
+    });
+  }
+
+  // ========== PAYMENT ==========
+  b.divider('=');
+  b.columns(`Total (${order.payment_status === 'paid' ? 'PAID' : 'UNPAID'}):`, formatCurrency(order.total || 0));
+  b.divider('=');
+
+  b.feed(paper.feedLines);
+  if (paper.cut) {
+    b.cut();
+  }
+
+  return b.build();
+};
+
+/**
+ * Cancellation slip as the ESC/POS string sent to the printer
+ */
+export const generateCancellationSlip = (order: Order, paper?: PaperProfile, codepage?: PrinterCodepage): string =>
+  renderEscPos(buildCancellationSlip(order, paper), codepage);
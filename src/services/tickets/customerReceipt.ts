@@ -0,0 +1,251 @@
+// ============================================
+// 🧾 CUSTOMER RECEIPT - For the bag/customer
+// ============================================
+
+import { Order, PaperProfile, PrinterCodepage } from '../../types';
+import { fitCode128ModuleWidth, MonoBitmap, renderEscPos, TicketBuilder, TicketDocument } from '../escpos';
+import {
+  appendModifierLines,
+  formatDateTime,
+  getItemSizeLabel,
+  getPrintableNotes,
+  getScheduledTime,
+  getShortOrderNumber,
+  notesDuplicateDeliveryInstructions,
+  sanitizeForPrinter,
+  wrapText,
+} from './formatting';
+import { DEFAULT_PAPER_PROFILE, paperLayout } from './paperProfiles';
+
+/**
+ * Extras around the receipt (all off unless passed): the logo header and the
+ * scannable codes at the bottom
+ */
+export interface ReceiptOptions {
+  logo?: MonoBitmap | null;  // Restaurant logo, already sized for the paper
+  statusUrl?: string | null; // Order status page, printed as a QR code
+  orderBarcode?: boolean;    // Order number as a Code128 barcode
+}
+
+/**
+ * The order status page for the receipt QR, from the link set up in Settings
+ * ({order_id} and {order_number} are filled in) - null when none is set
+ */
+export const getOrderStatusUrl = (template: string | null | undefined, order: Order): string | null => {
+  const trimmed = (template || '').trim();
+  if (!trimmed) return null;
+  return trimmed
+    .replace(/\{order_id\}/g, encodeURIComponent(order.id))
+    .replace(/\{order_number\}/g, encodeURIComponent(order.order_number));
+};
+
+/**
+ * Build the CUSTOMER RECEIPT - full item list with prices and totals
+ */
+export const buildCustomerReceipt = (
+  order: Order,
+  paper: PaperProfile = DEFAULT_PAPER_PROFILE,
+  options: ReceiptOptions = {}
+): TicketDocument => {
+  const b = new TicketBuilder(paperLayout(paper));
+
+  // ========== LOGO ==========
+  if (options.logo) {
+    b.align('center');
+    b.image(options.logo);
+    b.align('left');
+    b.blank();
+  }
+
+  // ========== HEADER ==========
+  b.divider('=');
+  b.center('YOUR ORDER');
+  b.divider('=');
+
+  // Big short order number for pickup call-out (centered in double-size chars, no margin)
+  b.block({ size: 'double', bold: true }, (block) => {
+    block.center(`#${getShortOrderNumber(order)}`, paper.doubleWidth, '');
+  });
+
+  b.divider('=');
+  b.center(`*** ${(order.order_type || 'PICKUP').toUpperCase()} ***`);
+  b.center(formatDateTime(order.created_at));
+  b.divider('-');
+
+  // ========== CUSTOMER INFO ==========
+  wrapText(`Customer: ${sanitizeForPrinter(order.customer?.name || 'Guest')}`, paper.width).forEach((line) => b.line(line));
+  if (order.customer?.phone) {
+    b.line(`Phone: ${sanitizeForPrinter(order.customer.phone)}`);
+  }
+
+  // ========== 📅 SCHEDULED ORDER ==========
+  const scheduled = getScheduledTime(order);
+  if (scheduled.time) {
+    b.blank();
+    b.divider('*'); // Normal width (not in DOUBLE_SIZE mode here)
+    b.bold((block) => {
+      block.center('SCHEDULED ORDER');
+      // Sanitize scheduled time to remove any non-ASCII characters
+      block.center(sanitizeForPrinter(scheduled.time!));
+    });
+    b.divider('*');
+  }
+
+  // ========== DELIVERY ADDRESS ==========
+  if (order.order_type === 'delivery' && order.delivery_address) {
+    const address = order.delivery_address;
+    b.divider('-');
+    b.bold((block) => block.line('DELIVER TO:'));
+
+    const street = address.street || (address as any).address || '';
+    if (street) {
+      b.line(sanitizeForPrinter(street));
+    }
+
+    if (address.unit) {
+      b.line(sanitizeForPrinter(`Unit ${address.unit}`));
+    }
+
+    // City, Province, Postal Code
+    const postalCode = address.postal_code || address.postalCode || '';
+    const cityLine = [address.city || '', address.province || '', postalCode].filter(Boolean).join(', ');
+    if (cityLine) {
+      b.line(sanitizeForPrinter(cityLine));
+    }
+
+    b.divider('-');
+
+    // Delivery instructions as separate section
+    const instructions = address.instructions || address.delivery_instructions || '';
+    if (instructions) {
+      b.bold((block) => block.line('DELIVERY NOTE:'));
+      wrapText(instructions, paper.width - 2).forEach((line) => b.line(sanitizeForPrinter(line)));
+      b.divider('-');
+    }
+  }
+
+  // ========== ITEMS ==========
+  const itemCount = (order.items || []).reduce((sum, item) => sum + (item.quantity || 1), 0);
+  b.blank();
+  b.divider('=');
+  b.center(`ITEMS (${itemCount})`);
+  b.divider('=');
+
+  // Items with prices
+  const items = order.items || [];
+  items.forEach((item, index) => {
+    const itemTotal = (item.price || 0) * (item.quantity || 1);
+    const itemName = sanitizeForPrinter(item.name || 'Item');
+    b.columns(`${item.quantity}x ${itemName}`, `$${itemTotal.toFixed(2)}`);
+
+    const receiptItemSize = getItemSizeLabel(item);
+    if (receiptItemSize) {
+      b.line('   (' + sanitizeForPrinter(receiptItemSize) + ')');
+    }
+
+    // Modifiers - with placement, quantity, and price
+    if (item.modifiers && item.modifiers.length > 0) {
+      appendModifierLines(b, item.modifiers, {
+        placementLabels: { left: ' (L)', right: ' (R)' },
+        showPrices: true,
+      });
+    }
+
+    // Item notes with word wrap
+    if (item.notes) {
+      const noteLines = wrapText(item.notes, paper.width - 6);
+      noteLines.forEach((line, idx) => {
+        b.line(idx === 0 ? `   >> ${line}` : `      ${line}`);
+      });
+    }
+
+    // Separator between items
+    if (index < items.length - 1) {
+      b.blank();
+    }
+  });
+
+  // ========== TOTALS ==========
+  b.divider('-');
+  b.columns('Subtotal:', `$${(order.subtotal || 0).toFixed(2)}`);
+  b.columns('Tax:', `$${(order.tax || 0).toFixed(2)}`);
+  if (order.delivery_fee && order.delivery_fee > 0) {
+    b.columns('Delivery:', `$${order.delivery_fee.toFixed(2)}`);
+  }
+  if (order.tip && order.tip > 0) {
+    b.columns('Tip:', `$${order.tip.toFixed(2)}`);
+  }
+  b.divider('=');
+
+  // Grand total
+  b.bold((block) => block.columns('TOTAL:', `$${(order.total || 0).toFixed(2)}`));
+
+  // Payment status
+  if (order.payment_status === 'paid') {
+    b.center('--- PAID ---');
+  } else {
+    b.bold((block) => block.center('*** PAYMENT DUE ***'));
+  }
+  b.divider('=');
+
+  // ========== ORDER NOTES ==========
+  // Skip if delivery order AND notes are same as delivery instructions (avoid duplicates)
+  if (order.notes && !notesDuplicateDeliveryInstructions(order)) {
+    const notesToDisplay = getPrintableNotes(order, scheduled.fromNotes);
+
+    // Only show notes section if there's content left after stripping
+    if (notesToDisplay) {
+      b.blank();
+      b.bold((block) => block.line('ORDER NOTES:'));
+      wrapText(notesToDisplay, paper.width - 2).forEach((line) => b.line(sanitizeForPrinter(line)));
+      b.divider('-');
+    }
+  }
+
+  // ========== FOOTER ==========
+  b.blank();
+  b.center('Thank you for your order!');
+  b.center('We appreciate your business.');
+  b.blank();
+  b.center(`Ref: ${order.order_number || ''}`);
+
+  // ========== BARCODE / QR ==========
+  const barcodeWidth = options.orderBarcode && order.order_number
+    ? fitCode128ModuleWidth(order.order_number, paper.dots)
+    : 0;
+  if (barcodeWidth) {
+    b.blank();
+    b.align('center');
+    b.barcode(order.order_number, { moduleWidth: barcodeWidth, height: 60 });
+    b.align('left');
+  }
+  if (options.statusUrl) {
+    b.blank();
+    b.center('Scan to check your order');
+    b.align('center');
+    b.qr(options.statusUrl, { size: paper.dots >= 576 ? 6 : 4 });
+    b.align('left');
+  }
+
+  b.blank();
+  b.divider('=');
+  b.feed(paper.feedLines);
+  if (paper.cut) {
+    b.cut();
+  }
+
+  return b.build();
+};
+
+/**
+ * Customer receipt as the ESC/POS string sent to the printer
+ * @param paper - The printer's paper profile
+ * @param codepage - The printer's character set
+ * @param options - Logo header, QR code / barcode
+ */
+export const generateReceiptText = (
+  order: Order,
+  paper?: PaperProfile,
+  codepage?: PrinterCodepage,
+  options?: ReceiptOptions
+): string => renderEscPos(buildCustomerReceipt(order, paper, options), codepage);
@@ -0,0 +1,145 @@
+// ============================================
+// 🚗 DRIVER SLIP - Goes out the door with a delivery
+// Where to go, who to call and how much cash to collect
+// ============================================
+
+import { DeliveryAddress, Order, PaperProfile, PrinterCodepage } from '../../types';
+import { renderEscPos, TicketBuilder, TicketDocument } from '../escpos';
+import { formatTimeOnly, getShortOrderNumber, sanitizeForPrinter, wrapText } from './formatting';
+import { DEFAULT_PAPER_PROFILE, paperLayout } from './paperProfiles';
+
+/**
+ * One-line address for maps search (no unit - navigation apps don't use it)
+ */
+export const formatNavigationAddress = (address: DeliveryAddress): string => {
+  const street = address.street || (address as any).address || '';
+  const postalCode = address.postal_code || address.postalCode || '';
+  return [street, address.city, address.province, postalCode]
+    .map((part) => (part || '').trim())
+    .filter(Boolean)
+    .join(', ');
+};
+
+/**
+ * Link that opens the address in a navigation app
+ * Google Maps universal link - opens the Maps app when installed, the browser otherwise.
+ */
+export const getNavigationUrl = (address: DeliveryAddress): string | null => {
+  const destination = formatNavigationAddress(address);
+  return destination
+    ? `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(destination)}`
+    : null;
+};
+
+/**
+ * Cash the driver collects at the door (0 when the order is paid)
+ */
+export const getAmountToCollect = (order: Order): number =>
+  order.payment_status === 'paid' ? 0 : order.total || 0;
+
+/**
+ * Build the DRIVER SLIP for a delivery order
+ */
+export const buildDriverSlip = (order: Order, paper: PaperProfile = DEFAULT_PAPER_PROFILE): TicketDocument => {
+  const b = new TicketBuilder(paperLayout(paper));
+  b.init();
+
+  // ========== HEADER ==========
+  b.divider('=');
+  b.block({ size: 'double', bold: true }, (block) => {
+    block.center('DRIVER SLIP', paper.doubleWidth, '');
+    block.center(`#${getShortOrderNumber(order)}`, paper.doubleWidth, '');
+  });
+  b.divider('=');
+  b.line(`Ordered: ${formatTimeOnly(order.created_at)}`);
+  if (order.estimated_ready_time) {
+    b.line(`Ready: ${formatTimeOnly(order.estimated_ready_time)}`);
+  }
+
+  // ========== ADDRESS ==========
+  const address = order.delivery_address;
+  b.divider('-');
+  b.bold((block) => block.line('DELIVER TO:'));
+  if (address) {
+    // Street and unit DOUBLE_HEIGHT - read at a glance from the car
+    const street = sanitizeForPrinter(address.street || (address as any).address || '');
+    b.block({ size: 'doubleHeight', bold: true }, (block) => {
+      wrapText(street, paper.width).forEach((line) => block.line(line));
+      if (address.unit) {
+        block.line(sanitizeForPrinter(`Unit ${address.unit}`).substring(0, paper.width));
+      }
+    });
+
+    const postalCode = address.postal_code || address.postalCode || '';
+    const cityLine = [address.city || '', address.province || '', postalCode].filter(Boolean).join(', ');
+    if (cityLine) {
+      b.line(sanitizeForPrinter(cityLine));
+    }
+
+    const instructions = address.instructions || address.delivery_instructions || '';
+    if (instructions) {
+      b.divider('-');
+      b.bold((block) => block.line('DELIVERY NOTE:'));
+      wrapText(instructions, paper.width - 2).forEach((line) => b.line(sanitizeForPrinter(line)));
+    }
+  } else {
+    b.line('No address on this order');
+  }
+
+  // ========== CUSTOMER ==========
+  b.divider('-');
+  b.bold((block) => block.line('CUSTOMER:'));
+  const name = sanitizeForPrinter(order.customer?.name || '');
+  if (name) {
+    b.line(name.substring(0, paper.width));
+  }
+  const phone = sanitizeForPrinter(order.customer?.phone || '');
+  if (phone) {
+    b.block({ size: 'doubleHeight', bold: true }, (block) => block.line(`Phone: ${phone}`));
+  }
+
+  // Item count so the driver can check the bags
+  const itemCount = (order.items || []).reduce((sum, item) => sum + (item.quantity || 1), 0);
+  b.line(`Items: ${itemCount}`);
+
+  // ========== PAYMENT ==========
+  b.divider('=');
+  const toCollect = getAmountToCollect(order);
+  if (toCollect > 0) {
+    b.block({ size: 'double', bold: true }, (block) => {
+      block.center('COLLECT', paper.doubleWidth, '');
+      block.center(`$${toCollect.toFixed(2)}`, paper.doubleWidth, '');
+    });
+    if (order.tip && order.tip > 0) {
+      b.center(`Includes $${order.tip.toFixed(2)} tip`);
+    }
+  } else {
+    b.bold((block) => block.center('PAID - NOTHING TO COLLECT'));
+  }
+  b.divider('=');
+
+  // ========== NAVIGATION QR ==========
+  const navigationUrl = address ? getNavigationUrl(address) : null;
+  if (navigationUrl) {
+    b.blank();
+    b.center('Scan for directions');
+    b.align('center');
+    b.qr(navigationUrl, { size: paper.dots >= 576 ? 6 : 4 });
+    b.align('left');
+    b.blank();
+    b.divider('=');
+  }
+
+  b.feed(paper.feedLines);
+  if (paper.cut) {
+    b.cut();
+  }
+
+  return b.build();
+};
+
+/**
+ * Driver slip as the ESC/POS string sent to the printer
+ */
+export const generateDriverSlip = (order: Order, paper?: PaperProfile, codepage?: PrinterCodepage): string =>
+  renderEscPos(buildDriverSlip(order, paper), codepage);
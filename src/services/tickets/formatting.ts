@@ -0,0 +1,335 @@
+/**
+ * Shared formatting helpers for printed tickets
+ *
+ * ⚠️ Everything here ends up on paper - see docs/PRINT-FORMAT-REFERENCE.md.
+ * Dates are formatted by hand (ASCII only) and all customer-entered text goes
+ * through sanitizeForPrinter() before it reaches the printer. Accents are kept
+ * and transcoded into the printer's codepage when the ticket is rendered.
+ */
+
+import { Order, OrderModifier } from '../../types';
+import { boldSpan, isPrintableChar, TicketBuilder } from '../escpos';
+import { SCHEDULED_NOTE_PATTERN } from '../../utils/scheduledOrders';
+
+/**
+ * Strip Twilio call log entries from order notes before printing.
+ */
+export const stripTwilioLogs = (notes: string): string => {
+  if (!notes) return '';
+  return notes
+    .split('\n')
+    .filter(line => !line.includes('TWILIO_FALLBACK_CALL'))
+    .join('\n')
+    .replace(/\|\s*\|/g, '|')
+    .replace(/^\s*\|\s*/gm, '')
+    .replace(/\s*\|\s*$/gm, '')
+    .trim();
+};
+
+// Format currency
+export const formatCurrency = (amount: number): string => {
+  return `$${amount.toFixed(2)}`;
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Format date/time - ASCII only to avoid printer issues
+export const formatDateTime = (dateString: string): string => {
+  const date = new Date(dateString);
+  const month = MONTHS[date.getMonth()];
+  const day = date.getDate();
+  const year = date.getFullYear();
+  let hours = date.getHours();
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  const ampm = hours >= 12 ? 'PM' : 'AM';
+  hours = hours % 12;
+  hours = hours ? hours : 12;
+  return `${month} ${day}, ${year}, ${hours}:${minutes} ${ampm}`;
+};
+
+// Format time only (for kitchen ticket) - ASCII only to avoid printer issues
+export const formatTimeOnly = (dateString: string): string => {
+  const date = new Date(dateString);
+  let hours = date.getHours();
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  const ampm = hours >= 12 ? 'PM' : 'AM';
+  hours = hours % 12;
+  hours = hours ? hours : 12; // 0 becomes 12
+  return `${hours}:${minutes} ${ampm}`;
+};
+
+// Format scheduled time with date - ASCII only to avoid printer issues
+export const formatScheduledTime = (dateString: string): string => {
+  const date = new Date(dateString);
+  const month = MONTHS[date.getMonth()];
+  const day = date.getDate().toString().padStart(2, '0');
+  const year = date.getFullYear();
+  let hours = date.getHours();
+  const minutes = date.getMinutes().toString().padStart(2, '0');
+  const ampm = hours >= 12 ? 'PM' : 'AM';
+  hours = hours % 12;
+  hours = hours ? hours : 12; // 0 becomes 12
+  return `${month} ${day}, ${year}, ${hours}:${minutes} ${ampm}`;
+};
+
+/**
+ * Sanitize text for thermal printer - normalize punctuation to ASCII and drop
+ * anything no printer codepage has (Chinese, emoji...) so it can't print as
+ * garbage. Accented letters are kept; renderEscPos() transcodes them into the
+ * printer's codepage, or folds them to ASCII ("é" → "e") when it has none.
+ */
+export const sanitizeForPrinter = (text: string): string => {
+  if (!text) return '';
+  // First, try to normalize Unicode characters
+  let sanitized = text
+    // Curly quotes and apostrophes → straight versions
+    .replace(/[\u2018\u2019\u201A\u201B]/g, "'")  // ' ' ‚ ‛ → '
+    .replace(/[\u201C\u201D\u201E\u201F]/g, '"')  // " " „ ‟ → "
+    // Dashes
+    .replace(/[\u2013\u2014\u2015]/g, '-')        // – — ― → -
+    // Ellipsis
+    .replace(/\u2026/g, '...')                     // … → ...
+    // Spaces
+    .replace(/[\u00A0\u2002\u2003\u2009]/g, ' ');  // non-breaking, en, em, thin space → space
+
+  // Remove characters no codepage can print (Chinese, emojis, etc.)
+  sanitized = Array.from(sanitized).filter(isPrintableChar).join('');
+
+  // Remove any control characters except newlines, tabs, and carriage returns
+  sanitized = sanitized.replace(/[\x00-\x08\x0B-\x0C\x0E-\x1F\x7F]/g, '');
+
+  return sanitized;
+};
+
+/**
+ * Word-wrap text to fit within a maximum width
+ * Returns array of lines
+ */
+export const wrapText = (text: string, maxWidth: number): string[] => {
+  if (!text) return [];
+  const sanitized = sanitizeForPrinter(text);
+  const words = sanitized.split(' ');
+  const lines: string[] = [];
+  let currentLine = '';
+
+  words.forEach(word => {
+    if (currentLine.length + word.length + 1 <= maxWidth) {
+      currentLine += (currentLine ? ' ' : '') + word;
+    } else {
+      if (currentLine) lines.push(currentLine);
+      // If word itself is longer than maxWidth, split it
+      if (word.length > maxWidth) {
+        while (word.length > maxWidth) {
+          lines.push(word.substring(0, maxWidth));
+          word = word.substring(maxWidth);
+        }
+        currentLine = word;
+      } else {
+        currentLine = word;
+      }
+    }
+  });
+  if (currentLine) lines.push(currentLine);
+  return lines;
+};
+
+/**
+ * Group modifiers by their group_name field.
+ * Returns an array of { groupName, modifiers } in insertion order.
+ * Modifiers with no group_name (null/undefined) go into a group with groupName = null.
+ */
+export const groupModifiers = (modifiers: Array<{ name: string; price: number; quantity?: number; placement?: string | null; group_name?: string | null; instance_index?: number | null }>): Array<{ groupName: string | null; modifiers: typeof modifiers }> => {
+  const groups: Map<string | null, typeof modifiers> = new Map();
+  for (const mod of modifiers) {
+    const key = mod.group_name ?? null;
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(mod);
+  }
+  return Array.from(groups.entries()).map(([groupName, mods]) => ({ groupName, modifiers: mods }));
+};
+
+/**
+ * Group modifiers by instance_index (for 2-for-1 pizzas etc.).
+ * Returns an array of { instanceLabel, groups } where groups is the result of groupModifiers.
+ * Only called when at least one modifier has instance_index != null.
+ * Within each instance, modifiers are further grouped by group_name.
+ */
+type ModifierItem = Parameters<typeof groupModifiers>[0][number];
+export const groupModifiersByInstance = (modifiers: ModifierItem[]): Array<{ instanceLabel: string; groups: ReturnType<typeof groupModifiers> }> => {
+  const byInstance: Map<number, ModifierItem[]> = new Map();
+  for (const mod of modifiers) {
+    const key = mod.instance_index ?? 0;
+    if (!byInstance.has(key)) {
+      byInstance.set(key, []);
+    }
+    byInstance.get(key)!.push(mod);
+  }
+  // Sort by instance_index so Pizza 1 comes before Pizza 2
+  const sortedKeys = Array.from(byInstance.keys()).sort((a, b) => a - b);
+  return sortedKeys.map((idx) => ({
+    instanceLabel: `PIZZA ${idx + 1}`,
+    groups: groupModifiers(byInstance.get(idx)!),
+  }));
+};
+
+export const getItemSizeLabel = (item: any): string | null => {
+  const directSize = [item?.size, item?.item_size, item?.variant, item?.variant_name]
+    .find((v) => typeof v === 'string' && v.trim().length > 0);
+  if (typeof directSize === 'string') return directSize.trim();
+
+  const modifiers = Array.isArray(item?.modifiers) ? item.modifiers : [];
+  const sizeMods = modifiers.filter((mod: any) => {
+    const groupName = String(mod?.group_name ?? mod?.groupName ?? '').toLowerCase();
+    return groupName.includes('size');
+  });
+
+  if (sizeMods.length > 0) {
+    const labels = sizeMods
+      .map((mod: any) => String(mod?.name ?? '').trim())
+      .filter(Boolean);
+    if (labels.length > 0) return labels.join(', ');
+  }
+
+  return null;
+};
+
+/**
+ * Short order number for call-outs (last 5 digits)
+ */
+export const getShortOrderNumber = (order: Order): string => {
+  const fullOrderNum = order.order_number || '';
+  return fullOrderNum.replace(/\D/g, '').slice(-5) || fullOrderNum.slice(-5);
+};
+
+/**
+ * 📅 Scheduled order detection
+ * Uses the order's scheduled_for when it has one; otherwise checks the notes.
+ * (estimated_ready_time is the ready time quoted on Accept, not a schedule.)
+ * fromNotes is true when the notes carry a "Scheduled for:" marker, which
+ * should then be stripped from the printed notes.
+ */
+export const getScheduledTime = (order: Order): { time: string | null; fromNotes: boolean } => {
+  if (order.scheduled_for) {
+    return { time: formatScheduledTime(order.scheduled_for), fromNotes: SCHEDULED_NOTE_PATTERN.test(order.notes || '') };
+  }
+
+  let time: string | null = null;
+  let fromNotes = false;
+
+  // Check notes for "Scheduled for:" pattern (from Replit API)
+  const scheduledMatch = order.notes?.match(SCHEDULED_NOTE_PATTERN);
+  if (scheduledMatch && scheduledMatch[1]) {
+    const matchedTime = formatScheduledTime(scheduledMatch[1]);
+    if (matchedTime) {
+      time = matchedTime;
+      fromNotes = true;
+    }
+  }
+
+  return { time, fromNotes };
+};
+
+/**
+ * ⏱ "Ready by" line for the ready time quoted on Accept, with how long the
+ * kitchen was given - the printed ticket can't count down, so it shows both.
+ * Null when nothing was quoted.
+ */
+export const getQuotedReadyLine = (order: Order): string | null => {
+  if (!order.estimated_ready_time) return null;
+  const ready = new Date(order.estimated_ready_time).getTime();
+  if (Number.isNaN(ready)) return null;
+  const quotedAt = new Date(order.acknowledged_at || order.created_at).getTime();
+  const minutes = Math.round((ready - quotedAt) / (60 * 1000));
+  const readyBy = `Ready by: ${formatTimeOnly(order.estimated_ready_time)}`;
+  return minutes > 0 ? `${readyBy} (${minutes} min)` : readyBy;
+};
+
+/**
+ * Order notes as they should be printed: Twilio logs removed, and the
+ * "Scheduled for: ..." marker removed when it was shown in its own section.
+ */
+export const getPrintableNotes = (order: Order, stripScheduled: boolean): string => {
+  let notes = stripTwilioLogs(order.notes || '');
+  if (stripScheduled) {
+    // Remove "Scheduled for: ..." and any surrounding pipes/separators
+    notes = notes
+      .replace(/\|\s*Scheduled\s*for:\s*\d{4}-\d{2}-\d{2}T[\d:\.]+Z?\s*/gi, '')
+      .replace(/Scheduled\s*for:\s*\d{4}-\d{2}-\d{2}T[\d:\.]+Z?\s*\|?\s*/gi, '')
+      .trim();
+  }
+  return notes;
+};
+
+/**
+ * Delivery orders often repeat the delivery instructions in the order notes -
+ * skip the notes section when that happens to avoid printing them twice.
+ */
+export const notesDuplicateDeliveryInstructions = (order: Order): boolean => {
+  const deliveryInstructions = order.delivery_address?.instructions ||
+                               order.delivery_address?.delivery_instructions || '';
+  return !!(
+    order.order_type === 'delivery' &&
+    deliveryInstructions &&
+    order.notes?.toLowerCase().includes(deliveryInstructions.toLowerCase().substring(0, 20))
+  );
+};
+
+/**
+ * Append an item's modifiers - grouped by instance_index (if present) then by
+ * group_name - with placement, bold quantity and optional price. A modifier
+ * too long for the paper wraps its name, keeping quantity and price on the
+ * last line.
+ */
+export const appendModifierLines = (
+  builder: TicketBuilder,
+  modifiers: OrderModifier[],
+  options: { placementLabels: { left: string; right: string }; showPrices: boolean }
+): void => {
+  const appendGroups = (groups: ReturnType<typeof groupModifiers>, indent: string) => {
+    groups.forEach((group) => {
+      // Print group header if it has a name
+      if (group.groupName) {
+        builder.line(['   ', boldSpan(sanitizeForPrinter(group.groupName).toUpperCase() + ':')]);
+      }
+      group.modifiers.forEach((mod) => {
+        let placementText = '';
+        if (mod.placement && mod.placement !== 'whole') {
+          placementText = mod.placement === 'left' ? options.placementLabels.left : options.placementLabels.right;
+        }
+        const modName = sanitizeForPrinter(mod.name);
+        const hasQuantity = mod.quantity && mod.quantity > 1;
+        const suffix = options.showPrices
+          ? placementText + ' ' + (mod.price > 0 ? `+$${mod.price.toFixed(2)}` : '')
+          : placementText;
+
+        const quantityText = hasQuantity ? ` x${mod.quantity}` : '';
+        const nameWidth = builder.layout.width - indent.length - 2 - quantityText.length - suffix.length;
+        let nameLines = [modName];
+        if (indent.length + 2 + modName.length + quantityText.length + suffix.length > builder.layout.width && nameWidth >= 10) {
+          nameLines = wrapText(modName, nameWidth);
+        }
+        nameLines.slice(0, -1).forEach((nameLine, index) => {
+          builder.line(`${indent}${index === 0 ? '- ' : '  '}${nameLine}`);
+        });
+
+        builder.line([
+          `${indent}${nameLines.length === 1 ? '- ' : '  '}${nameLines[nameLines.length - 1]}`,
+          ...(hasQuantity ? [boldSpan(quantityText)] : []),
+          suffix,
+        ]);
+      });
+    });
+  };
+
+  const hasInstanceIndex = modifiers.some((m) => m.instance_index != null);
+  if (hasInstanceIndex) {
+    groupModifiersByInstance(modifiers).forEach((instance) => {
+      builder.line(['  ', boldSpan(instance.instanceLabel + ':')]);
+      appendGroups(instance.groups, '    ');
+    });
+  } else {
+    appendGroups(groupModifiers(modifiers), '   ');
+  }
+};
@@ -0,0 +1,13 @@
+export * from './paperProfiles';
+export * from './formatting';
+export * from './alertRules';
+export * from './kitchenTicket';
+export * from './orderUpdateTicket';
+export * from './itemLabels';
+export * from './driverSlip';
+export * from './cancellationSlip';
+export * from './prepSummary';
+export * from './zReport';
+export * from './customerReceipt';
+export * from './receiptData';
+export * from './testTickets';
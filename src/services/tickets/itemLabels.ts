@@ -0,0 +1,81 @@
+// ============================================
+// 🏷️ ITEM LABELS - One sticker per item for bagging
+// Big orders get mixed up in bags; each unit gets its own "3 of 7" label
+// ============================================
+
+import { Order, OrderItem, PaperProfile, PrinterCodepage } from '../../types';
+import { renderEscPos, TicketBuilder, TicketDocument } from '../escpos';
+import { getItemSizeLabel, getShortOrderNumber, sanitizeForPrinter, wrapText } from './formatting';
+import { DEFAULT_LABEL_PAPER_PROFILE, paperLayout } from './paperProfiles';
+
+const MAX_DETAIL_LINES = 2;
+
+// Size (unless it came from a size modifier) and the rest of the modifiers, on one wrapped line
+const labelDetails = (item: OrderItem, width: number): string[] => {
+  const size = getItemSizeLabel(item);
+  const modifiers = (item.modifiers || [])
+    .filter((mod) => !(mod.group_name || '').toLowerCase().includes('size'))
+    .map((mod) => (mod.quantity && mod.quantity > 1 ? `${mod.quantity}x ${mod.name.trim()}` : mod.name.trim()));
+  const text = sanitizeForPrinter([size, ...modifiers].filter(Boolean).join(', '));
+  if (!text) return [];
+
+  const lines = wrapText(text, width);
+  if (lines.length <= MAX_DETAIL_LINES) return lines;
+  const last = lines[MAX_DETAIL_LINES - 1];
+  return [...lines.slice(0, MAX_DETAIL_LINES - 1), `${last.substring(0, width - 3)}...`];
+};
+
+/**
+ * Build the labels for an order - one per item unit, so 2x Burger gets two
+ * On label stock each label is padded to the label's height; on roll paper
+ * they print one after another with a tear line between them.
+ */
+export const buildItemLabels = (order: Order, paper: PaperProfile = DEFAULT_LABEL_PAPER_PROFILE): TicketDocument => {
+  const b = new TicketBuilder(paperLayout(paper));
+  b.init();
+
+  const units = (order.items || []).flatMap((item) => Array.from({ length: item.quantity || 1 }, () => item));
+  const orderNumber = `#${getShortOrderNumber(order)}`;
+  const name = sanitizeForPrinter(order.customer?.name || '');
+  const orderType = (order.order_type || 'PICKUP').toUpperCase();
+
+  units.forEach((item, index) => {
+    const count = `${index + 1} of ${units.length}`;
+    const details = labelDetails(item, paper.width);
+
+    // Order number and count - DOUBLE_SIZE so the bagger can read it at a glance
+    b.block({ size: 'double', bold: true }, (block) => {
+      block.columns(orderNumber, count, paper.doubleWidth);
+    });
+    b.bold((block) => block.columns(name.substring(0, paper.width - orderType.length - 1), orderType));
+    b.block({ size: 'doubleHeight', bold: true }, (block) => {
+      block.line(sanitizeForPrinter(item.name || 'Unknown Item').substring(0, paper.width));
+    });
+    details.forEach((line) => b.line(line));
+
+    if (paper.labelLines) {
+      // Double-size lines take two rows each
+      const used = 2 + 1 + 2 + details.length;
+      if (used < paper.labelLines) {
+        b.blank(paper.labelLines - used);
+      }
+    } else if (index < units.length - 1) {
+      b.divider('-');
+    }
+  });
+
+  if (paper.feedLines > 0) {
+    b.feed(paper.feedLines);
+  }
+  if (paper.cut) {
+    b.cut();
+  }
+
+  return b.build();
+};
+
+/**
+ * Item labels as the ESC/POS string sent to the printer
+ */
+export const generateItemLabels = (order: Order, paper?: PaperProfile, codepage?: PrinterCodepage): string =>
+  renderEscPos(buildItemLabels(order, paper), codepage);
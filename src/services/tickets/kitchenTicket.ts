@@ -0,0 +1,344 @@
+// ============================================
+// 🍳 KITCHEN TICKET - For the cook board
+// ============================================
+
+import { AlertKeywordRule, AlertKeywordRules, Order, PaperProfile, PrinterCodepage } from '../../types';
+import { renderEscPos, TicketBuilder, TicketDocument } from '../escpos';
+import {
+  appendModifierLines,
+  formatTimeOnly,
+  getItemSizeLabel,
+  getPrintableNotes,
+  getQuotedReadyLine,
+  getScheduledTime,
+  getShortOrderNumber,
+  notesDuplicateDeliveryInstructions,
+  sanitizeForPrinter,
+  wrapText,
+} from './formatting';
+import { DEFAULT_ALERT_RULES, matchesAlertRule } from './alertRules';
+import { DEFAULT_PAPER_PROFILE, paperLayout } from './paperProfiles';
+
+// Helper: Collect matching notes from items
+const collectItemNotes = (order: Order, rule: AlertKeywordRule): string[] => {
+  const matches: string[] = [];
+  (order.items || []).forEach((item) => {
+    if (matchesAlertRule(item.notes, rule)) {
+      matches.push(`${item.name}: ${item.notes}`);
+    }
+  });
+  return matches;
+};
+
+/**
+ * Alert section: big header, then the matching notes in DOUBLE_HEIGHT so the
+ * kitchen can judge the reason. DOUBLE_HEIGHT text is twice as wide per char,
+ * so wrap at half the width.
+ */
+const appendAlertSection = (builder: TicketBuilder, paper: PaperProfile, header: string, notes: string[]): void => {
+  const alertWidth = paper.doubleWidth - 2; // Account for margin
+  builder.blank();
+  builder.block({ size: 'double', bold: true }, (b) => b.line(header));
+  builder.block({ size: 'doubleHeight' }, (b) => {
+    notes.forEach((note) => {
+      wrapText(note, alertWidth).forEach((line) => b.line(line));
+    });
+  });
+  builder.divider('-');
+};
+
+/**
+ * Build a KITCHEN TICKET (KOT) for the cook
+ * Clean, simple format optimized for readability
+ * - No prices (cook doesn't need them)
+ * - Large item names with ESC/POS formatting
+ * - Clear modifiers
+ * - Allergy alerts prominent with DOUBLE_SIZE
+ *
+ * ESC/POS Formatting Used:
+ * - Customer Name: DOUBLE_SIZE + BOLD (~24 chars wide)
+ * - Item Names: DOUBLE_HEIGHT + BOLD (~48 chars wide)
+ * - Allergy Header: DOUBLE_SIZE + BOLD (~24 chars wide)
+ * - Allergy Text: DOUBLE_HEIGHT (~48 chars wide)
+ * - Everything else: Normal size (~48 chars wide)
+ * (widths are for 80mm - everything is laid out against the paper profile)
+ *
+ * Alert sections (URGENT / ALLERGY / DIETARY / IMPORTANT) come from the
+ * restaurant's keyword rules (see alertRules.ts).
+ */
+export const buildKitchenTicket = (
+  order: Order,
+  stationName?: string,
+  paper: PaperProfile = DEFAULT_PAPER_PROFILE,
+  alertRules: AlertKeywordRules = DEFAULT_ALERT_RULES,
+  reprint: boolean = false
+): TicketDocument => {
+  // DEBUG: Log what notes we're receiving
+  console.log('[KitchenTicket] Order notes:', order.notes || 'NONE');
+  console.log('[KitchenTicket] Items with notes:', (order.items || []).filter(i => i.notes).map(i => `${i.name}: ${i.notes}`));
+
+  const b = new TicketBuilder(paperLayout(paper));
+
+  // Initialize printer to reset any previous formatting
+  b.init();
+
+  // Printed before - say so, so the kitchen doesn't cook it twice
+  if (reprint) {
+    b.block({ size: 'double', bold: true }, (block) => block.center('** REPRINT **', paper.doubleWidth, ''));
+  }
+
+  // Station tickets say where they belong before anything else
+  if (stationName) {
+    b.bold((block) => block.center(`[ ${sanitizeForPrinter(stationName).toUpperCase()} ]`));
+  }
+
+  // Header with BIG short order number for call-outs
+  // DOUBLE_SIZE = half width, so center within the double-size width (no margin)
+  b.divider('=');
+  b.block({ size: 'double', bold: true }, (block) => {
+    block.center(`#${getShortOrderNumber(order)}`, paper.doubleWidth, '');
+  });
+  b.divider('=');
+
+  // Order info - Normal size
+  b.line(`Type: ${(order.order_type || 'PICKUP').toUpperCase()}`);
+  b.line(`Time: ${formatTimeOnly(order.created_at)}`);
+  // A scheduled order's due time gets its own section below
+  const scheduled = getScheduledTime(order);
+  const readyLine = scheduled.time ? null : getQuotedReadyLine(order);
+  if (readyLine) {
+    b.bold((block) => block.line(readyLine));
+  }
+
+  // Customer phone - Normal size, shown above name for quick contact
+  const customerPhone = sanitizeForPrinter(order.customer?.phone || '');
+  b.blank();
+  if (customerPhone) {
+    b.line(`Phone: ${customerPhone}`);
+  }
+
+  // Customer name - DOUBLE_SIZE + BOLD for maximum visibility
+  // If no real name, use order number for identification
+  const rawName = sanitizeForPrinter(order.customer?.name || '');
+  const isValidName = rawName && rawName.toLowerCase() !== 'guest' && rawName.toLowerCase() !== 'customer' && rawName.trim() !== '';
+  const displayName = isValidName ? rawName : `#${order.order_number.slice(-6)}`;
+  b.block({ size: 'double', bold: true }, (block) => {
+    block.line(displayName.substring(0, paper.doubleWidth));
+  });
+
+  // 📅 Display scheduled time prominently if found
+  if (scheduled.time) {
+    b.blank();
+    // Use normal size for asterisks (not double) so they're not too wide
+    b.divider('*');
+    b.block({ size: 'double', bold: true }, (block) => {
+      block.center('SCHEDULED ORDER', paper.doubleWidth);
+    });
+    b.bold((block) => {
+      // Sanitize scheduled time to remove any non-ASCII characters
+      block.center(sanitizeForPrinter(scheduled.time!), paper.width);
+    });
+    b.divider('*'); // Normal width after reset
+  }
+
+  // Items header with count (FOOD FIRST - most important for kitchen!)
+  const itemCount = (order.items || []).reduce((sum, item) => sum + (item.quantity || 1), 0);
+  b.blank();
+  b.divider('-');
+  b.bold((block) => block.line(`ITEMS: (${itemCount} item${itemCount !== 1 ? 's' : ''})`));
+  b.divider('-');
+
+  // Items - DOUBLE_HEIGHT + BOLD for easy scanning
+  const items = order.items || [];
+  items.forEach((item, index) => {
+    const qty = item.quantity || 1;
+    const itemName = sanitizeForPrinter(item.name || 'Unknown Item').substring(0, paper.width - 4); // Leave room for "Nx "
+
+    // Quantity and item name in DOUBLE_HEIGHT + BOLD + wider spacing (~15% wider)
+    b.block({ size: 'doubleHeight', bold: true, charSpacing: 2 }, (block) => {
+      block.line(`${qty}x ${itemName}`);
+    });
+
+    const kitchenItemSize = getItemSizeLabel(item);
+    if (kitchenItemSize) {
+      b.line('   (' + sanitizeForPrinter(kitchenItemSize) + ')');
+    }
+
+    // Modifiers - with placement and quantity, no prices
+    if (item.modifiers && item.modifiers.length > 0) {
+      appendModifierLines(b, item.modifiers, {
+        placementLabels: { left: ' (LEFT)', right: ' (RIGHT)' },
+        showPrices: false,
+      });
+    }
+
+    // Item-specific notes - Normal size, indented, with word wrap
+    if (item.notes) {
+      const noteLines = wrapText(item.notes, paper.width - 6); // Account for "   >> " prefix
+      noteLines.forEach((line, idx) => {
+        b.line(idx === 0 ? `   >> ${line}` : `      ${line}`);
+      });
+    }
+
+    // Blank line between items for readability (but not after the last item)
+    if (index < items.length - 1) {
+      b.blank();
+    }
+  });
+
+  b.blank();
+  b.divider('-');
+
+  // ----------------------------------------
+  // 🚨 URGENT / RUSH ORDER DETECTION
+  // ----------------------------------------
+  const orderHasUrgent = matchesAlertRule(order.notes, alertRules.urgent);
+  const itemUrgentNotes = collectItemNotes(order, alertRules.urgent);
+  if (orderHasUrgent || itemUrgentNotes.length > 0) {
+    // Show the reason so kitchen can judge if it's legit
+    appendAlertSection(b, paper, '>>> URGENT <<<', [
+      ...(orderHasUrgent && order.notes ? [order.notes] : []),
+      ...itemUrgentNotes,
+    ]);
+  }
+
+  // ----------------------------------------
+  // 🚨 ALLERGY ALERT DETECTION (TRUE ALLERGIES ONLY)
+  // ----------------------------------------
+  const orderHasAllergy = matchesAlertRule(order.notes, alertRules.allergy);
+  const itemAllergyNotes = collectItemNotes(order, alertRules.allergy);
+  if (orderHasAllergy || itemAllergyNotes.length > 0) {
+    appendAlertSection(b, paper, '!! ALLERGY !!', [
+      ...(orderHasAllergy && order.notes ? [order.notes] : []),
+      ...itemAllergyNotes,
+    ]);
+  }
+
+  // ----------------------------------------
+  // 🌿 DIETARY RESTRICTION DETECTION
+  // Shown independently (each category shows its own matching items)
+  // ----------------------------------------
+  const orderHasDietary = matchesAlertRule(order.notes, alertRules.dietary);
+  const itemDietaryNotes = collectItemNotes(order, alertRules.dietary);
+  if (orderHasDietary || itemDietaryNotes.length > 0) {
+    // Only show order notes if they contain dietary keywords (not allergy keywords)
+    appendAlertSection(b, paper, '** DIETARY **', [
+      ...(orderHasDietary && order.notes && !orderHasAllergy ? [order.notes] : []),
+      ...itemDietaryNotes,
+    ]);
+  }
+
+  // ----------------------------------------
+  // ⚠️ IMPORTANT - Health conditions & special requests
+  // ----------------------------------------
+  const orderHasImportant = matchesAlertRule(order.notes, alertRules.important);
+  const itemImportantNotes = collectItemNotes(order, alertRules.important);
+  if (orderHasImportant || itemImportantNotes.length > 0) {
+    // Only show order notes if they contain important keywords (not already shown)
+    appendAlertSection(b, paper, '* IMPORTANT *', [
+      ...(orderHasImportant && order.notes && !orderHasAllergy && !orderHasDietary ? [order.notes] : []),
+      ...itemImportantNotes,
+    ]);
+  }
+
+  // General notes (if order notes exist but are not allergy-related) - Normal size
+  // SKIP if this is a delivery order AND the notes are the same as delivery instructions (avoid duplicates)
+  if (order.notes && !orderHasAllergy && !notesDuplicateDeliveryInstructions(order)) {
+    const notesToDisplay = getPrintableNotes(order, scheduled.fromNotes);
+
+    // Only show NOTES section if there's content left after stripping
+    if (notesToDisplay) {
+      b.bold((block) => block.line('NOTES:'));
+      wrapText(notesToDisplay, paper.width - 2).forEach((line) => b.line(line));
+      b.divider('-');
+    }
+  }
+
+  // ============================================
+  // 🚚 DELIVERY INFO (for delivery orders only)
+  // Grouped together at bottom - address + instructions
+  // ============================================
+  if (order.order_type === 'delivery' && order.delivery_address) {
+    const address = order.delivery_address as any;
+    b.blank();
+    b.bold((block) => block.line('DELIVER TO:'));
+
+    // Street address (check multiple possible field names)
+    const street = address.street || address.address || address.street_address || address.line1 || '';
+    if (street) {
+      b.line(sanitizeForPrinter(street));
+    }
+
+    // Unit/Apt (if separate field)
+    const unit = address.unit || address.apt || address.suite || address.line2 || '';
+    if (unit) {
+      b.line(sanitizeForPrinter(`Unit ${unit}`));
+    }
+
+    // City, Province, Postal Code
+    const city = address.city || '';
+    const province = address.province || address.state || address.region || '';
+    const postalCode = address.postal_code || address.postalCode || address.zip || address.zipcode || '';
+    const cityLine = [city, province, postalCode].filter(Boolean).join(', ');
+    if (cityLine) {
+      b.line(sanitizeForPrinter(cityLine));
+    }
+
+    b.divider('-');
+
+    // Delivery instructions as separate section
+    const instructions = address.instructions || address.delivery_instructions || address.notes || '';
+    if (instructions) {
+      b.bold((block) => block.line('DELIVERY NOTE:'));
+      wrapText(instructions, paper.width - 2).forEach((line) => b.line(sanitizeForPrinter(line)));
+      b.divider('-');
+    }
+  }
+
+  // Pack checklist for takeout/delivery - Normal size
+  // ('takeout' isn't in OrderType but some APIs still send it)
+  const orderType: string = order.order_type;
+  if (orderType === 'pickup' || orderType === 'delivery' || orderType === 'takeout') {
+    b.blank();
+    b.line('PACK / CHECK:');
+    b.line('[ ] Utensils');
+    b.line('[ ] Napkins');
+    b.line('[ ] Condiments');
+  }
+
+  // Payment status
+  b.blank();
+  if (order.payment_status === 'paid') {
+    b.center('--- PAID ---');
+  } else {
+    b.bold((block) => block.center('*** PAYMENT DUE ***'));
+  }
+
+  // Footer - Reset to normal, feed past the cutter / tear bar and cut
+  b.size('normal');
+  b.blank();
+  b.divider('=');
+  b.feed(paper.feedLines);
+  if (paper.cut) {
+    b.cut();
+  }
+
+  return b.build();
+};
+
+/**
+ * Kitchen ticket as the ESC/POS string sent to the printer
+ * @param stationName - Station header for routed tickets (omit for the main printer)
+ * @param paper - The printer's paper profile
+ * @param codepage - The printer's character set
+ * @param alertRules - The restaurant's alert keyword rules
+ * @param reprint - The order's kitchen ticket printed before (adds a REPRINT banner)
+ */
+export const generateKitchenTicket = (
+  order: Order,
+  stationName?: string,
+  paper?: PaperProfile,
+  codepage?: PrinterCodepage,
+  alertRules?: AlertKeywordRules,
+  reprint?: boolean
+): string => renderEscPos(buildKitchenTicket(order, stationName, paper, alertRules, reprint), codepage);
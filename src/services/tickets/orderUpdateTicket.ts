@@ -0,0 +1,109 @@
+// ============================================
+// 📝 ORDER UPDATED TICKET - Changes after the kitchen ticket printed
+// Only what changed, so cooks don't remake the whole order
+// ============================================
+
+import { Order, OrderItemChange, PaperProfile, PrinterCodepage, PrintedOrderItem } from '../../types';
+import { renderEscPos, TicketBuilder, TicketDocument } from '../escpos';
+import { formatTimeOnly, getShortOrderNumber, sanitizeForPrinter, wrapText } from './formatting';
+import { DEFAULT_PAPER_PROFILE, paperLayout } from './paperProfiles';
+
+const CHANGE_LABELS: Record<OrderItemChange['type'], string> = {
+  added: '+ ADD',
+  removed: '- REMOVE',
+  changed: '* CHANGE',
+};
+
+const appendDetails = (b: TicketBuilder, paper: PaperProfile, lines: string[]) => {
+  lines.forEach((text) => {
+    wrapText(sanitizeForPrinter(text), paper.width - 5).forEach((line, index) => {
+      b.line(index === 0 ? `   ${line}` : `     ${line}`);
+    });
+  });
+};
+
+const itemDetails = (item: PrintedOrderItem): string[] => [
+  ...(item.size ? [`(${item.size})`] : []),
+  ...item.modifiers.map((mod) => `- ${mod}`),
+  ...(item.notes ? [`>> ${item.notes}`] : []),
+];
+
+// What's different on a changed item, old value in brackets
+const changedDetails = (item: PrintedOrderItem, previous: PrintedOrderItem): string[] => {
+  const lines: string[] = [];
+  if (previous.quantity !== item.quantity) {
+    lines.push(`QTY ${item.quantity} (was ${previous.quantity})`);
+  }
+  if (previous.size !== item.size) {
+    lines.push(`SIZE ${item.size || 'none'} (was ${previous.size || 'none'})`);
+  }
+  item.modifiers.filter((mod) => !previous.modifiers.includes(mod)).forEach((mod) => lines.push(`ADD ${mod}`));
+  previous.modifiers.filter((mod) => !item.modifiers.includes(mod)).forEach((mod) => lines.push(`NO ${mod}`));
+  if (previous.notes !== item.notes) {
+    lines.push(item.notes ? `>> ${item.notes}` : 'Note removed');
+  }
+  return lines;
+};
+
+/**
+ * Build an ORDER UPDATED ticket - a banner the cooks can't mistake for the
+ * original, then one block per added / removed / changed item
+ */
+export const buildOrderUpdateTicket = (
+  order: Order,
+  changes: OrderItemChange[],
+  paper: PaperProfile = DEFAULT_PAPER_PROFILE
+): TicketDocument => {
+  const b = new TicketBuilder(paperLayout(paper));
+  b.init();
+
+  b.divider('=');
+  b.block({ size: 'double', bold: true }, (block) => {
+    block.center('ORDER UPDATED', paper.doubleWidth, '');
+    block.center(`#${getShortOrderNumber(order)}`, paper.doubleWidth, '');
+  });
+  b.divider('=');
+
+  b.line(`Type: ${(order.order_type || 'PICKUP').toUpperCase()}`);
+  b.line(`Updated: ${formatTimeOnly(order.updated_at || order.created_at)}`);
+  const name = sanitizeForPrinter(order.customer?.name || '');
+  if (name) {
+    b.bold((block) => block.line(name.substring(0, paper.width)));
+  }
+
+  b.blank();
+  b.divider('-');
+  b.bold((block) => block.line(`CHANGES: (${changes.length})`));
+  b.divider('-');
+
+  changes.forEach((change, index) => {
+    const { item, previous } = change;
+    const itemName = sanitizeForPrinter(item.name).substring(0, paper.width - 14);
+    b.block({ size: 'doubleHeight', bold: true }, (block) => {
+      block.line(`${CHANGE_LABELS[change.type]} ${item.quantity}x ${itemName}`);
+    });
+    appendDetails(b, paper, change.type === 'changed' && previous ? changedDetails(item, previous) : itemDetails(item));
+    if (index < changes.length - 1) {
+      b.blank();
+    }
+  });
+
+  b.blank();
+  b.divider('=');
+  b.feed(paper.feedLines);
+  if (paper.cut) {
+    b.cut();
+  }
+
+  return b.build();
+};
+
+/**
+ * Order update ticket as the ESC/POS string sent to the printer
+ */
+export const generateOrderUpdateTicket = (
+  order: Order,
+  changes: OrderItemChange[],
+  paper?: PaperProfile,
+  codepage?: PrinterCodepage
+): string => renderEscPos(buildOrderUpdateTicket(order, changes, paper), codepage);
@@ -0,0 +1,75 @@
+/**
+ * Paper profiles - how wide a printer's paper is and how it finishes a ticket
+ *
+ * Every ticket generator lays out against a profile, so a 58mm printer gets
+ * 58mm tickets instead of 80mm lines wrapping all over the place.
+ */
+
+import { PaperProfile, PaperProfileId } from '../../types';
+import { PageLayout } from '../escpos';
+
+export const PAPER_PROFILES: Record<PaperProfileId, PaperProfile> = {
+  '80mm': {
+    id: '80mm',
+    label: '80mm',
+    columns: 48,     // 576 dots / 12-dot Font A
+    dots: 576,
+    width: 42,       // Reduced from 46 to leave right margin
+    doubleWidth: 21, // Half of 42 for double-size text
+    marginLeft: 2,   // 2 spaces to prevent left edge clipping
+    feedLines: 8,
+    cut: true,
+  },
+  '58mm': {
+    id: '58mm',
+    label: '58mm',
+    columns: 32,     // 384 dots / 12-dot Font A
+    dots: 384,
+    width: 30,
+    doubleWidth: 15,
+    marginLeft: 1,
+    feedLines: 4,    // Most 58mm printers have a tear bar, not a cutter
+    cut: false,
+  },
+  label: {
+    id: 'label',
+    label: 'Label 2.25"',
+    columns: 32,     // 2.25" x 1.25" die-cut stickers on a 58mm-class label printer
+    dots: 384,
+    width: 30,
+    doubleWidth: 15,
+    marginLeft: 1,
+    feedLines: 0,    // Each label is padded to its height instead
+    cut: false,
+    labelLines: 7,   // 1.25" at the default 1/6" line spacing
+  },
+};
+
+// Roll paper for receipt / kitchen printers (label stock only suits item labels)
+export const ROLL_PAPER_PROFILES = [PAPER_PROFILES['80mm'], PAPER_PROFILES['58mm']];
+
+export const DEFAULT_LABEL_PAPER_PROFILE = PAPER_PROFILES.label;
+
+export const DEFAULT_PAPER_PROFILE = PAPER_PROFILES['80mm'];
+
+/**
+ * Look up a profile by id (unknown or missing ids fall back to 80mm)
+ */
+export const getPaperProfile = (id?: PaperProfileId | null): PaperProfile =>
+  (id && PAPER_PROFILES[id]) || DEFAULT_PAPER_PROFILE;
+
+/**
+ * Builder layout for tickets with the profile's left margin
+ */
+export const paperLayout = (paper: PaperProfile): PageLayout => ({
+  width: paper.width,
+  indent: ' '.repeat(paper.marginLeft),
+});
+
+/**
+ * Builder layout using every column, no margin (receipt data, test receipt)
+ */
+export const fullWidthLayout = (paper: PaperProfile): PageLayout => ({
+  width: paper.columns,
+  indent: '',
+});
@@ -0,0 +1,156 @@
+// ============================================
+// 🍕 ALL DAY - Open item counts across orders
+// "How many large pepperonis are open?" without opening every card
+// ============================================
+
+import { AllDayItem, AllDaySummary, Order, OrderItem, OrderStatus, PaperProfile, PrinterCodepage } from '../../types';
+import { renderEscPos, TicketBuilder, TicketDocument } from '../escpos';
+import { formatDateTime, getItemSizeLabel, groupModifiers, groupModifiersByInstance, sanitizeForPrinter, wrapText } from './formatting';
+import { DEFAULT_PAPER_PROFILE, paperLayout } from './paperProfiles';
+
+// Still to be made - ready and later are off the line
+export const ALL_DAY_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'preparing'];
+
+const isSizeGroup = (groupName: string | null) => (groupName || '').toLowerCase().includes('size');
+
+/**
+ * An item's modifiers the way the kitchen ticket groups them
+ * (size modifiers are left out - they're the item's size)
+ */
+const itemModifierLabels = (item: OrderItem): string[] => {
+  const modifiers = item.modifiers || [];
+  const label = (mod: ReturnType<typeof groupModifiers>[number]['modifiers'][number]) => {
+    const placement = mod.placement === 'left' ? ' (LEFT)' : mod.placement === 'right' ? ' (RIGHT)' : '';
+    const quantity = mod.quantity && mod.quantity > 1 ? ` x${mod.quantity}` : '';
+    return `${mod.name.trim()}${placement}${quantity}`;
+  };
+  const fromGroups = (groups: ReturnType<typeof groupModifiers>, prefix: string) =>
+    groups
+      .filter((group) => !isSizeGroup(group.groupName))
+      .flatMap((group) => group.modifiers.map((mod) => `${prefix}${label(mod)}`));
+
+  if (modifiers.some((mod) => mod.instance_index != null)) {
+    return groupModifiersByInstance(modifiers).flatMap((instance) => {
+      const prefix = `${instance.instanceLabel.charAt(0)}${instance.instanceLabel.slice(1).toLowerCase()}: `;
+      return fromGroups(instance.groups, prefix);
+    });
+  }
+  return fromGroups(groupModifiers(modifiers), '');
+};
+
+/**
+ * Add up every item / size / modifier combination on the open orders
+ */
+export const buildAllDaySummary = (orders: Order[]): AllDaySummary => {
+  const openOrders = orders.filter((order) => ALL_DAY_STATUSES.includes(order.status));
+  const items = new Map<string, AllDayItem & { orders: Set<string> }>();
+
+  openOrders.forEach((order) => {
+    (order.items || []).forEach((orderItem) => {
+      const name = (orderItem.name || 'Unknown Item').trim();
+      const size = getItemSizeLabel(orderItem);
+      const key = `${name.toLowerCase()}|${(size || '').toLowerCase()}`;
+      const quantity = orderItem.quantity || 1;
+
+      const item = items.get(key) ?? { key, name, size, quantity: 0, order_count: 0, variants: [], orders: new Set<string>() };
+      item.quantity += quantity;
+      item.orders.add(order.id);
+
+      const modifiers = itemModifierLabels(orderItem);
+      const variantKey = [...modifiers].sort().join('|').toLowerCase();
+      const variant = item.variants.find((v) => [...v.modifiers].sort().join('|').toLowerCase() === variantKey);
+      if (variant) {
+        variant.quantity += quantity;
+      } else {
+        item.variants.push({ modifiers, quantity });
+      }
+      items.set(key, item);
+    });
+  });
+
+  const sorted = Array.from(items.values())
+    .map(({ orders: orderIds, ...item }) => ({
+      ...item,
+      order_count: orderIds.size,
+      variants: [...item.variants].sort((a, b) => b.quantity - a.quantity),
+    }))
+    .sort((a, b) => b.quantity - a.quantity || a.name.localeCompare(b.name));
+
+  return {
+    items: sorted,
+    order_count: openOrders.length,
+    item_count: sorted.reduce((sum, item) => sum + item.quantity, 0),
+  };
+};
+
+/**
+ * "Large Pepperoni Pizza" / "Fries"
+ */
+export const getAllDayItemLabel = (item: Pick<AllDayItem, 'name' | 'size'>): string =>
+  item.size ? `${item.size} ${item.name}` : item.name;
+
+/**
+ * Build the ALL DAY prep summary ticket
+ */
+export const buildPrepSummary = (
+  summary: AllDaySummary,
+  paper: PaperProfile = DEFAULT_PAPER_PROFILE,
+  printedAt: string = new Date().toISOString()
+): TicketDocument => {
+  const b = new TicketBuilder(paperLayout(paper));
+  b.init();
+
+  // ========== HEADER ==========
+  b.divider('=');
+  b.block({ size: 'double', bold: true }, (block) => block.center('ALL DAY', paper.doubleWidth, ''));
+  b.divider('=');
+  b.line(formatDateTime(printedAt));
+  b.line(`Open orders: ${summary.order_count}   Items: ${summary.item_count}`);
+  b.divider('-');
+
+  if (summary.items.length === 0) {
+    b.line('Nothing open');
+  }
+
+  // ========== ITEMS ==========
+  summary.items.forEach((item, index) => {
+    // Count and item DOUBLE_HEIGHT - the cook reads it from the line
+    const label = sanitizeForPrinter(getAllDayItemLabel(item)).toUpperCase();
+    const count = `${item.quantity}x `;
+    b.block({ size: 'doubleHeight', bold: true }, (block) => {
+      wrapText(label, paper.width - count.length).forEach((line, lineIndex) => {
+        block.line(`${lineIndex === 0 ? count : ' '.repeat(count.length)}${line}`);
+      });
+    });
+
+    // Only break it down when there's more than the plain item
+    const plainOnly = item.variants.length === 1 && item.variants[0].modifiers.length === 0;
+    if (!plainOnly) {
+      item.variants.forEach((variant) => {
+        const variantCount = `  ${variant.quantity}x `;
+        const text = sanitizeForPrinter(variant.modifiers.length > 0 ? variant.modifiers.join(', ') : 'As is');
+        wrapText(text, paper.width - variantCount.length).forEach((line, lineIndex) => {
+          b.line(`${lineIndex === 0 ? variantCount : ' '.repeat(variantCount.length)}${line}`);
+        });
+      });
+    }
+
+    if (index < summary.items.length - 1) {
+      b.divider('-');
+    }
+  });
+
+  b.divider('=');
+  b.feed(paper.feedLines);
+  if (paper.cut) {
+    b.cut();
+  }
+
+  return b.build();
+};
+
+/**
+ * Prep summary as the ESC/POS string sent to the printer
+ */
+export const generatePrepSummary = (summary: AllDaySummary, paper?: PaperProfile, codepage?: PrinterCodepage): string =>
+  renderEscPos(buildPrepSummary(summary, paper), codepage);
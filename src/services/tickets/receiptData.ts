@@ -0,0 +1,177 @@
+// ============================================
+// 🧾 FULL-WIDTH RECEIPT (generateReceiptData)
+// Original 48-column receipt layout, no left margin
+// ============================================
+
+import { Order, PaperProfile, PrinterCodepage } from '../../types';
+import { boldSpan, renderEscPos, TicketBuilder, TicketDocument } from '../escpos';
+import {
+  formatCurrency,
+  formatDateTime,
+  getItemSizeLabel,
+  groupModifiers,
+  groupModifiersByInstance,
+  stripTwilioLogs,
+} from './formatting';
+import { DEFAULT_PAPER_PROFILE, fullWidthLayout } from './paperProfiles';
+
+// Order type labels
+const orderTypeLabels: Record<string, string> = {
+  pickup: 'PICKUP',
+  delivery: 'DELIVERY',
+  dine_in: 'DINE IN',
+};
+
+const formatModifier = (mod: { name: string; price: number; placement?: string | null }): string => {
+  const modPrice = mod.price > 0 ? ` +${formatCurrency(mod.price)}` : '';
+  let placementText = '';
+  if (mod.placement && mod.placement !== 'whole') {
+    placementText = mod.placement === 'left' ? ' (LEFT)' : ' (RIGHT)';
+  }
+  return `${mod.name}${placementText}${modPrice}`;
+};
+
+/**
+ * Build the full-width ESC/POS receipt for an order
+ */
+export const buildReceiptData = (order: Order, paper: PaperProfile = DEFAULT_PAPER_PROFILE): TicketDocument => {
+  const b = new TicketBuilder(fullWidthLayout(paper));
+
+  b.init();
+
+  // Header - order number
+  b.align('center');
+  b.block({ size: 'double', bold: true }, (block) => block.line(`ORDER #${order.order_number}`));
+  b.blank();
+
+  // Order Type - Big and Bold
+  b.block({ size: 'doubleHeight', bold: true }, (block) => {
+    block.line(`*** ${orderTypeLabels[order.order_type] || order.order_type.toUpperCase()} ***`);
+  });
+  b.blank();
+
+  // Date/Time
+  b.line(formatDateTime(order.created_at));
+  b.divider('=');
+
+  // Customer Info
+  b.align('left');
+  b.bold((block) => block.line('CUSTOMER:'));
+  b.line(`${order.customer.name}`);
+  b.line(`${order.customer.phone}`);
+
+  // Delivery Address (if applicable)
+  if (order.delivery_address) {
+    const address = order.delivery_address;
+    b.blank();
+    b.bold((block) => block.line('DELIVERY ADDRESS:'));
+    b.line(`${address.street}${address.unit ? `, Unit ${address.unit}` : ''}`);
+    b.line(`${address.city}, ${address.postalCode}`);
+    if (address.instructions) {
+      b.line([boldSpan('INSTRUCTIONS: '), `${address.instructions}`]);
+    }
+  }
+
+  b.blank();
+  b.divider('-');
+
+  // Items Header
+  b.bold((block) => block.columns('ITEM', 'PRICE'));
+  b.divider('-');
+
+  // Order Items
+  order.items.forEach((item) => {
+    const itemTotal = item.price * item.quantity;
+
+    // Item name with quantity
+    b.bold((block) => block.columns(`${item.quantity}x ${item.name}`, formatCurrency(itemTotal)));
+
+    const escItemSize = getItemSizeLabel(item);
+    if (escItemSize) {
+      b.line(`   (${escItemSize})`);
+    }
+
+    // Modifiers - grouped by instance_index (if present) then by group_name
+    if (item.modifiers && item.modifiers.length > 0) {
+      const hasInstanceIndex = item.modifiers.some((m) => m.instance_index != null);
+      if (hasInstanceIndex) {
+        groupModifiersByInstance(item.modifiers).forEach((instance) => {
+          b.line(`  ${instance.instanceLabel}:`);
+          instance.groups.forEach((group) => {
+            if (group.groupName) {
+              b.line(`   ${group.groupName.toUpperCase()}:`);
+            }
+            group.modifiers.forEach((mod) => b.line(`    - ${formatModifier(mod)}`));
+          });
+        });
+      } else {
+        groupModifiers(item.modifiers).forEach((group) => {
+          if (group.groupName) {
+            b.line(`   ${group.groupName.toUpperCase()}:`);
+          }
+          group.modifiers.forEach((mod) => b.line(`   - ${formatModifier(mod)}`));
+        });
+      }
+    }
+
+    // Item notes
+    if (item.notes) {
+      b.line(`   NOTE: ${item.notes}`);
+    }
+  });
+
+  b.divider('-');
+
+  // Totals
+  b.columns('Subtotal:', formatCurrency(order.subtotal));
+  b.columns('Tax:', formatCurrency(order.tax));
+
+  if (order.tip && order.tip > 0) {
+    b.columns('Tip:', formatCurrency(order.tip));
+  }
+
+  if (order.delivery_fee && order.delivery_fee > 0) {
+    b.columns('Delivery Fee:', formatCurrency(order.delivery_fee));
+  }
+
+  b.divider('=');
+
+  // Grand Total
+  b.block({ size: 'double', bold: true }, (block) => block.columns('TOTAL:', formatCurrency(order.total)));
+
+  // Order Notes (strip Twilio call logs)
+  const cleanedNotes = order.notes ? stripTwilioLogs(order.notes) : '';
+  if (cleanedNotes) {
+    b.blank();
+    b.divider('-');
+    b.bold((block) => block.line('ORDER NOTES:'));
+    b.line(cleanedNotes);
+  }
+
+  // Estimated Ready Time
+  if (order.estimated_ready_time) {
+    b.blank();
+    b.align('center');
+    b.bold((block) => block.line(`Est. Ready: ${formatDateTime(order.estimated_ready_time!)}`));
+  }
+
+  // Footer
+  b.blank();
+  b.align('center');
+  b.divider('-');
+  b.line('Thank you for your order!');
+  b.blank(3);
+
+  // Cut paper
+  if (paper.cut) {
+    b.cut();
+  }
+
+  return b.build();
+};
+
+/**
+ * Generate ESC/POS formatted receipt data for an order
+ */
+export const generateReceiptData = (order: Order, paper?: PaperProfile, codepage?: PrinterCodepage): string =>
+  renderEscPos(buildReceiptData(order, paper), codepage);
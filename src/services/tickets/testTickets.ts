@@ -0,0 +1,73 @@
+// ============================================
+// 🧪 TEST PRINTS - Settings "Test Print" and printer checks
+// ============================================
+
+import { PaperProfile, PrinterCodepage } from '../../types';
+import { renderEscPos, TicketBuilder, TicketDocument } from '../escpos';
+import { DEFAULT_PAPER_PROFILE, fullWidthLayout, paperLayout } from './paperProfiles';
+
+/**
+ * Build the styled test receipt (sizes, bold, alignment)
+ */
+export const buildTestReceipt = (paper: PaperProfile = DEFAULT_PAPER_PROFILE): TicketDocument => {
+  const b = new TicketBuilder(fullWidthLayout(paper));
+
+  b.init();
+  b.align('center');
+  b.block({ size: 'double', bold: true }, (block) => block.line('PRINTER TEST'));
+  b.blank();
+  b.line('If you can read this,');
+  b.line('your printer is working!');
+  b.blank();
+  b.divider('-');
+  b.blank();
+  b.line('Normal text');
+  b.bold((block) => block.line('Bold text'));
+  b.block({ size: 'doubleHeight' }, (block) => block.line('Double height'));
+  b.block({ size: 'doubleWidth' }, (block) => block.line('Double width'));
+  b.blank();
+  b.divider('-');
+  b.blank();
+  b.line(new Date().toLocaleString());
+  b.blank(3);
+  if (paper.cut) {
+    b.cut();
+  }
+
+  return b.build();
+};
+
+/**
+ * Generate a simple test receipt
+ */
+export const generateTestReceipt = (paper?: PaperProfile, codepage?: PrinterCodepage): string =>
+  renderEscPos(buildTestReceipt(paper), codepage);
+
+/**
+ * Build the plain test page - no styling, just text and dividers
+ */
+export const buildTestPage = (paper: PaperProfile = DEFAULT_PAPER_PROFILE): TicketDocument => {
+  const b = new TicketBuilder(paperLayout(paper));
+
+  b.blank();
+  b.divider('=');
+  b.center('PRINTER TEST');
+  b.divider('=');
+  b.blank();
+  b.center('If you can read this,');
+  b.center('your printer is working!');
+  b.blank();
+  b.center('Accents: crème brûlée, Québec'); // Folded to ASCII unless a codepage is set
+  b.center(new Date().toLocaleString());
+  b.blank();
+  b.divider('=');
+  b.blank(3);
+
+  return b.build();
+};
+
+/**
+ * Test page text sent by printTestPage()
+ */
+export const generateTestPage = (paper?: PaperProfile, codepage?: PrinterCodepage): string =>
+  renderEscPos(buildTestPage(paper), codepage);
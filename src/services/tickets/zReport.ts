@@ -0,0 +1,137 @@
+// ============================================
+// 📊 Z REPORT - End-of-day sales summary
+// Printed at close: the day's sales, how they were paid and kitchen times
+// ============================================
+
+import { CancelReasonCode, OrderStatus, OrderType, PaperProfile, PrinterCodepage, SalesBucket, SalesReport } from '../../types';
+import { renderEscPos, TicketBuilder, TicketDocument } from '../escpos';
+import { formatCurrency, formatDateTime, sanitizeForPrinter, wrapText } from './formatting';
+import { DEFAULT_PAPER_PROFILE, paperLayout } from './paperProfiles';
+import { getCancelReasonLabel } from '../../utils/cancelReasons';
+
+const ORDER_TYPE_LABELS: Record<OrderType, string> = {
+  pickup: 'Pickup',
+  delivery: 'Delivery',
+  dine_in: 'Dine In',
+};
+
+const STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  preparing: 'Preparing',
+  ready: 'Ready',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * "12.5 min" / "--" when no order has a timing yet
+ */
+export const formatReportMinutes = (minutes: number | null): string =>
+  minutes === null ? '--' : `${minutes.toFixed(1)} min`;
+
+const titleCase = (value: string): string =>
+  value.replace(/_/g, ' ').replace(/\b\w/g, (char) => char.toUpperCase());
+
+/**
+ * Build the Z REPORT for a business day
+ */
+export const buildZReport = (
+  report: SalesReport,
+  restaurantName: string = '',
+  paper: PaperProfile = DEFAULT_PAPER_PROFILE
+): TicketDocument => {
+  const b = new TicketBuilder(paperLayout(paper));
+  b.init();
+
+  // ========== HEADER ==========
+  b.divider('=');
+  b.block({ size: 'double', bold: true }, (block) => block.center('Z REPORT', paper.doubleWidth, ''));
+  const name = sanitizeForPrinter(restaurantName);
+  if (name) {
+    b.bold((block) => block.center(name.substring(0, paper.width)));
+  }
+  b.divider('=');
+  b.line(`From: ${formatDateTime(report.range_start)}`);
+  b.line(`To:   ${formatDateTime(report.range_end)}`);
+  b.line(`Printed: ${formatDateTime(report.generated_at)}`);
+  if (report.incomplete) {
+    b.divider('-');
+    b.bold((block) => wrapText('INCOMPLETE - some orders not loaded', paper.width).forEach((line) => block.line(line)));
+  }
+
+  // ========== SALES ==========
+  b.divider('-');
+  b.bold((block) => block.line('SALES'));
+  b.columns('Orders:', String(report.sale_count));
+  b.columns('Subtotal:', formatCurrency(report.sales.subtotal));
+  b.columns('Tax:', formatCurrency(report.sales.tax));
+  b.columns('Delivery fees:', formatCurrency(report.sales.delivery_fees));
+  b.columns('Tips:', formatCurrency(report.sales.tips));
+  b.divider('-');
+  b.block({ size: 'doubleHeight', bold: true }, (block) => block.columns('TOTAL:', formatCurrency(report.sales.total)));
+  b.columns('Average order:', formatCurrency(report.average_order_value));
+
+  // ========== ORDER TYPE ==========
+  const orderTypes = Object.entries(report.by_order_type) as Array<[OrderType, { count: number; total: number }]>;
+  if (orderTypes.length > 0) {
+    b.divider('-');
+    b.bold((block) => block.line('BY ORDER TYPE'));
+    orderTypes.forEach(([type, bucket]) => {
+      b.columns(`${ORDER_TYPE_LABELS[type] ?? titleCase(type)} (${bucket.count})`, formatCurrency(bucket.total));
+    });
+  }
+
+  // ========== PAYMENT ==========
+  const payments = Object.entries(report.by_payment_status);
+  if (payments.length > 0) {
+    b.divider('-');
+    b.bold((block) => block.line('BY PAYMENT'));
+    payments.forEach(([status, bucket]) => {
+      b.columns(`${sanitizeForPrinter(titleCase(status))} (${bucket.count})`, formatCurrency(bucket.total));
+    });
+  }
+
+  // ========== CANCELLATIONS ==========
+  b.divider('-');
+  b.bold((block) => block.line('CANCELLED'));
+  b.columns(`Orders (${report.cancelled.count})`, formatCurrency(report.cancelled.total));
+  const reasons = Object.entries(report.by_cancel_reason) as Array<[CancelReasonCode | 'none', SalesBucket]>;
+  reasons.forEach(([reason, bucket]) => {
+    b.columns(`  ${getCancelReasonLabel(reason)} (${bucket.count})`, formatCurrency(bucket.total));
+  });
+
+  // ========== STATUS ==========
+  const statuses = Object.entries(report.by_status) as Array<[OrderStatus, number]>;
+  if (statuses.length > 0) {
+    b.divider('-');
+    b.bold((block) => block.line(`BY STATUS (${report.order_count} orders)`));
+    statuses.forEach(([status, count]) => b.columns(STATUS_LABELS[status] ?? titleCase(status), String(count)));
+  }
+
+  // ========== KITCHEN TIMES ==========
+  b.divider('-');
+  b.bold((block) => block.line('KITCHEN TIMES'));
+  b.columns('Avg time to accept:', formatReportMinutes(report.average_accept_minutes));
+  b.columns('Avg time to ready:', formatReportMinutes(report.average_ready_minutes));
+  b.divider('=');
+
+  b.feed(paper.feedLines);
+  if (paper.cut) {
+    b.cut();
+  }
+
+  return b.build();
+};
+
+/**
+ * Z report as the ESC/POS string sent to the printer
+ */
+export const generateZReport = (
+  report: SalesReport,
+  restaurantName?: string,
+  paper?: PaperProfile,
+  codepage?: PrinterCodepage
+): string => renderEscPos(buildZReport(report, restaurantName, paper), codepage);
@@ -1,8 +1,26 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Order, DeviceConfig, QueuedAction, OrderStatus } from '../types';
+import { Order, CancelReason, DeviceConfig, QueuedAction, DeadLetterAction, OrderStatus, PrinterTransportType, KitchenStation, LabelPrinter, PaperProfileId, PrinterCodepage, AlertKeywordRules, OrderUpdate, PrintedOrderRecord, OrderTimes, RealtimeOrderEvent } from '../types';
 import { apiClient } from '../api/client';
+import { createPrintedOrderRecord, detectOrderUpdates } from '../utils/orderChanges';
+import { DEFAULT_BUSINESS_DAY_START_HOUR, isReadyOrLater, markOrderTime, trackOrderTimes } from '../utils/salesReport';
+import { DEFAULT_SCHEDULED_LEAD_MINUTES } from '../utils/scheduledOrders';
+import { mergeOrders, needsFullSync, nextSyncCursor } from '../utils/orderSync';
+import {
+  applyQueueFailure,
+  createIdempotencyKey,
+  createQueuedAction,
+  getDueActions,
+  getNextAttemptDelayMs,
+  hasQueuedActions,
+  markQueueConflict,
+  NewQueuedAction,
+  normalizeQueuedAction,
+  resolveQueueConflict,
+  resolveQueuedAction,
+  restoreDeadLetter,
+} from '../utils/offlineQueue';
 
 const addBreadcrumb = (_msg: string, _cat?: string, _data?: Record<string, unknown>) => {};
 
@@ -21,6 +39,8 @@ interface OrdersState {
   isLoading: boolean;
   lastFetchTime: string | null;
   error: string | null;
+  syncCursor: string | null; // Server cursor - polls only ask for orders updated since
+  lastFullSyncAt: string | null; // Last full list fetch (catches orders the server dropped)
 }
 
 interface SettingsState {
@@ -30,14 +50,27 @@ interface SettingsState {
   pollIntervalMs: number;
   printerConnected: boolean;
   printerName: string | null;
-  printerMacAddress: string | null;
-  defaultPrintType: 'kitchen' | 'receipt' | 'both';
+  printerMacAddress: string | null; // Saved printer address: MAC, host:port or vendorId:productId
+  printerType: PrinterTransportType; // How the saved printer is connected
+  paperProfile: PaperProfileId; // Paper width of the main printer - tickets are laid out for it
+  printerCodepage: PrinterCodepage; // Character set of the main printer (ascii = accents folded)
+  kitchenStations: KitchenStation[]; // Kitchen ticket routing (empty = whole order to the main printer)
+  alertKeywordRules: AlertKeywordRules | null; // Kitchen ticket alert keywords (null = built-in defaults)
+  labelPrinter: LabelPrinter; // Where per-item bag labels print (no address = main printer)
+  defaultPrintType: 'kitchen' | 'receipt' | 'both' | 'labels';
+  receiptLogo: boolean; // Restaurant logo printed as the customer receipt header
+  receiptQrCode: boolean; // Order status QR code at the bottom of customer receipts
+  receiptQrUrl: string; // Order status page the QR links to - {order_id} / {order_number} filled in ('' = no QR)
+  receiptBarcode: boolean; // Order number barcode on customer receipts
+  driverSlips: boolean; // Driver slip prints when a delivery goes out / a driver is dispatched
+  businessDayStartHour: number; // Hour (0-23) the sales report day rolls over - after closing
   printerAlertsEnabled: boolean; // Sound + vibration alerts for unprinted orders
   ringUntilAccepted: boolean; // Repeat new order alerts until accepted
   orderAgingEnabled: boolean; // Color-coded order aging (green → yellow → red)
   orderAgingYellowMin: number; // Minutes before yellow warning
   orderAgingRedMin: number; // Minutes before red critical
   completedArchiveLimit: number; // Max completed orders shown before archiving
+  scheduledLeadMinutes: number; // Minutes before a scheduled order is due that it moves to New
   completedColumnClearedAt: string | null;
   completedColumnHiddenOrderIds: string[];
   viewMode: 'two' | 'three' | 'four'; // Kanban view mode
@@ -48,8 +81,13 @@ interface SettingsState {
 interface OfflineState {
   isOnline: boolean;
   queuedActions: QueuedAction[];
+  deadLetters: DeadLetterAction[];
 }
 
+// One replay run at a time (keeps per-order order), plus the wake-up for the next backoff
+let queueRun: Promise<void> | null = null;
+let queueTimer: ReturnType<typeof setTimeout> | null = null;
+
 interface AppStore {
   // Auth
   auth: AuthState;
@@ -63,10 +101,14 @@ interface AppStore {
   // Orders
   orders: OrdersState;
   setOrders: (orders: Partial<OrdersState>) => void;
-  fetchOrders: () => Promise<void>;
+  fetchOrders: (options?: { full?: boolean }) => Promise<void>;
+  receiveOrders: (orders: Order[], options: { full: boolean; deletedIds?: string[] }) => void;
+  applyRealtimeEvent: (event: RealtimeOrderEvent) => void;
   fetchOrder: (orderId: string) => Promise<Order | null>;
-  acknowledgeOrder: (orderId: string) => Promise<boolean>;
+  acknowledgeOrder: (orderId: string, estimatedReadyTime?: string) => Promise<boolean>;
   updateOrderStatus: (orderId: string, status: OrderStatus) => Promise<boolean>;
+  reopenOrder: (order: Order, status?: OrderStatus) => Promise<boolean>;
+  cancelOrder: (order: Order, reason: CancelReason) => Promise<boolean>;
   selectOrder: (order: Order | null) => void;
 
   // Settings
@@ -78,12 +120,24 @@ interface AppStore {
   // Local Accept state (client-side only)
   acceptedOrderMap: Record<string, string>;
 
+  // Order changes after the kitchen ticket printed
+  printedOrders: Record<string, PrintedOrderRecord>; // order_id -> items as printed
+  orderUpdates: OrderUpdate[]; // Detected changes waiting to be announced
+  recordPrintedOrder: (order: Order) => void;
+  dismissOrderUpdate: (orderId: string) => void;
+
+  // Accept / ready times for the sales report's averages
+  orderTimes: Record<string, OrderTimes>;
+
   // Offline
   offline: OfflineState;
   setOnlineStatus: (isOnline: boolean) => void;
-  addToQueue: (action: Omit<QueuedAction, 'id' | 'created_at' | 'retry_count'>) => void;
+  addToQueue: (action: NewQueuedAction) => void;
   processQueue: () => Promise<void>;
   removeFromQueue: (actionId: string) => void;
+  retryDeadLetter: (actionId: string) => void;
+  resolveConflict: (actionId: string, choice: 'mine' | 'server') => void;
+  discardDeadLetter: (actionId: string) => void;
   clearQueue: () => void;
 }
 
@@ -149,8 +203,13 @@ export const useStore = create<AppStore>()(
             isLoading: false,
             lastFetchTime: null,
             error: null,
+            syncCursor: null,
+            lastFullSyncAt: null,
           },
           acceptedOrderMap: {},
+          printedOrders: {},
+          orderUpdates: [],
+          orderTimes: {},
           settings: {
             ...get().settings,
             completedColumnClearedAt: null,
@@ -182,12 +241,14 @@ export const useStore = create<AppStore>()(
         isLoading: false,
         lastFetchTime: null,
         error: null,
+        syncCursor: null,
+        lastFullSyncAt: null,
       },
 
       setOrders: (orders) =>
         set((state) => ({ orders: { ...state.orders, ...orders } })),
 
-      fetchOrders: async () => {
+      fetchOrders: async (options) => {
         const { orders: currentState, offline } = get();
         const hydrated = get().hasHydrated;
         if (!hydrated) {
@@ -207,60 +268,36 @@ export const useStore = create<AppStore>()(
           orders: { ...state.orders, isLoading: true, error: null },
         }));
 
-        console.log('[Store] Fetching orders from API...');
-        const result = await apiClient.getOrders({});
+        // Delta poll unless a full reconcile is due
+        let full = needsFullSync(
+          { cursor: currentState.syncCursor, lastFullSyncAt: currentState.lastFullSyncAt },
+          Date.now(),
+          options?.full
+        );
+        console.log(`[Store] Fetching orders from API (${full ? 'full' : `since ${currentState.syncCursor}`})...`);
+        let result = await apiClient.getOrders(full ? {} : { since: currentState.syncCursor! });
+        if (!full && result.success && result.data?.has_more) {
+          // Too much changed for one page - cheaper to take the whole list
+          console.log('[Store] Delta has more pages - running a full sync');
+          full = true;
+          result = await apiClient.getOrders({});
+        }
         console.log('[Store] API result:', result.success, 'orders:', result.data?.orders?.length || 0);
 
         if (result.success && result.data) {
-          const { acceptedOrderMap } = get();
-          const newOrders = result.data.orders;
-
-          const isNewishStatus = (status: string) =>
-            status === 'pending' || status === 'confirmed' || status === 'preparing';
-
-          // Keep local accept state only for orders still in "new-ish" statuses
-          const newishIds = new Set(
-            newOrders.filter(o => isNewishStatus(o.status)).map(o => o.id)
-          );
-          const cleanedAcceptedMap = hydrated
-            ? Object.fromEntries(
-                Object.entries(acceptedOrderMap).filter(([id]) => newishIds.has(id))
-              )
-            : {};
-
-          // Override acknowledged_at locally for new-ish orders based on local accept state
-          // NOTE: We intentionally ignore server acknowledged_at because backend auto-acks on fetch.
-          const normalizedOrders = hydrated
-            ? newOrders.map((order) => {
-                if (isNewishStatus(order.status)) {
-                  const acceptedAt = cleanedAcceptedMap[order.id] || null;
-                  return { ...order, acknowledged_at: acceptedAt };
-                }
-                return order;
-              })
-            : newOrders;
-
-          // Use server response as source of truth - removes deleted orders
-          // Sort by created_at descending (newest first)
-          const mergedOrders = normalizedOrders.sort(
-            (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
-          );
-
-          // Clear selectedOrder if it no longer exists in the fetched data
-          const selectedStillExists = currentState.selectedOrder
-            ? mergedOrders.some(o => o.id === currentState.selectedOrder?.id)
-            : false;
+          get().receiveOrders(result.data.orders, { full, deletedIds: result.data.deleted_ids });
 
-          set({
-            acceptedOrderMap: hydrated ? cleanedAcceptedMap : acceptedOrderMap,
+          const fetchedAt = new Date().toISOString();
+          set((state) => ({
             orders: {
-              orders: mergedOrders,
-              selectedOrder: selectedStillExists ? currentState.selectedOrder : null,
+              ...state.orders,
               isLoading: false,
-              lastFetchTime: new Date().toISOString(),
+              lastFetchTime: fetchedAt,
               error: null,
+              syncCursor: nextSyncCursor(full ? null : currentState.syncCursor, result.data!.orders, result.data!.cursor),
+              lastFullSyncAt: full ? fetchedAt : currentState.lastFullSyncAt,
             },
-          });
+          }));
         } else {
           // Check if this is an auth error - if so, re-check auth state
           if (result.error?.includes('401') || result.error?.includes('session') || result.error?.includes('expired')) {
@@ -289,6 +326,90 @@ export const useStore = create<AppStore>()(
         }
       },
 
+      receiveOrders: (incoming, options) => {
+        const hydrated = get().hasHydrated;
+        const { acceptedOrderMap, orderTimes, orders: currentState } = get();
+
+        const isNewishStatus = (status: string) =>
+          status === 'pending' || status === 'confirmed' || status === 'preparing';
+
+        // Override acknowledged_at locally for new-ish orders based on local accept state
+        // (and keep the ready time quoted on this tablet)
+        // NOTE: We intentionally ignore server acknowledged_at because backend auto-acks on fetch.
+        const normalizedOrders = hydrated
+          ? incoming.map((order) => {
+              if (isNewishStatus(order.status)) {
+                const acceptedAt = acceptedOrderMap[order.id] || null;
+                const promisedAt = orderTimes[order.id]?.promised_at;
+                return {
+                  ...order,
+                  acknowledged_at: acceptedAt,
+                  ...(promisedAt && { estimated_ready_time: promisedAt }),
+                } as Order;
+              }
+              return order;
+            })
+          : incoming;
+
+        // Full: server list is the source of truth - removes deleted orders
+        // Delta / push: merge the changed orders in by id (sorted newest first either way)
+        const merge = mergeOrders(currentState.orders, normalizedOrders, options);
+        if (merge.stale.length > 0) {
+          console.log('[Store] Ignored older copies of orders:', merge.stale.join(', '));
+        }
+        if (!merge.changed) {
+          return;
+        }
+        const mergedOrders = merge.orders;
+
+        // Keep local accept state only for orders still in "new-ish" statuses
+        const newishIds = new Set(
+          mergedOrders.filter(o => isNewishStatus(o.status)).map(o => o.id)
+        );
+        const cleanedAcceptedMap = hydrated
+          ? Object.fromEntries(
+              Object.entries(acceptedOrderMap).filter(([id]) => newishIds.has(id))
+            )
+          : {};
+
+        // Orders edited after their kitchen ticket printed (web dashboard changes)
+        const changeCheck = hydrated
+          ? detectOrderUpdates(mergedOrders, get().printedOrders)
+          : { records: get().printedOrders, updates: [] };
+        if (changeCheck.updates.length > 0) {
+          console.log('[Store] 📝 Orders changed after printing:', changeCheck.updates.map(u => u.order_number).join(', '));
+        }
+        const updatedIds = new Set(changeCheck.updates.map(u => u.order_id));
+
+        // Clear selectedOrder if it no longer exists in the fetched data
+        const selectedStillExists = currentState.selectedOrder
+          ? mergedOrders.some(o => o.id === currentState.selectedOrder?.id)
+          : false;
+
+        set((state) => ({
+          acceptedOrderMap: hydrated ? cleanedAcceptedMap : acceptedOrderMap,
+          printedOrders: changeCheck.records,
+          orderTimes: trackOrderTimes(state.orderTimes, currentState.orders, mergedOrders),
+          orderUpdates: changeCheck.updates.length > 0
+            ? [...state.orderUpdates.filter(u => !updatedIds.has(u.order_id)), ...changeCheck.updates]
+            : state.orderUpdates,
+          orders: {
+            ...state.orders,
+            orders: mergedOrders,
+            selectedOrder: selectedStillExists ? currentState.selectedOrder : null,
+          },
+        }));
+      },
+
+      applyRealtimeEvent: (event) => {
+        console.log(`[Store] ⚡ Realtime ${event.type}:`, event.type === 'order.deleted' ? event.order_id : event.order.order_number);
+        if (event.type === 'order.deleted') {
+          get().receiveOrders([], { full: false, deletedIds: [event.order_id] });
+        } else {
+          get().receiveOrders([event.order], { full: false });
+        }
+      },
+
       fetchOrder: async (orderId) => {
         const result = await apiClient.getOrder(orderId);
         if (result.success && result.data) {
@@ -313,44 +434,60 @@ export const useStore = create<AppStore>()(
         return null;
       },
 
-      acknowledgeOrder: async (orderId) => {
+      acknowledgeOrder: async (orderId, estimatedReadyTime) => {
         const { offline, acceptedOrderMap, orders: currentOrdersState } = get();
         const targetOrder = currentOrdersState.orders.find(o => o.id === orderId);
         const numericId = targetOrder?.numeric_id;
 
         const acknowledgedAt = new Date().toISOString();
+        const quote = estimatedReadyTime ? { estimated_ready_time: estimatedReadyTime } : {};
         // Optimistically mark as acknowledged so alerts stop immediately
-        set((state) => ({
-          acceptedOrderMap: { ...acceptedOrderMap, [orderId]: acknowledgedAt },
-          orders: {
-            ...state.orders,
-            orders: state.orders.orders.map((o) =>
-              o.id === orderId
-                ? { ...o, acknowledged_at: o.acknowledged_at || acknowledgedAt }
-                : o
-            ),
-            selectedOrder:
-              state.orders.selectedOrder?.id === orderId
-                ? {
-                    ...state.orders.selectedOrder,
-                    acknowledged_at:
-                      state.orders.selectedOrder.acknowledged_at || acknowledgedAt,
-                  }
-                : state.orders.selectedOrder,
-          },
-        }));
+        set((state) => {
+          const orderTimes = markOrderTime(state.orderTimes, orderId, 'accepted_at', acknowledgedAt);
+          return {
+            acceptedOrderMap: { ...acceptedOrderMap, [orderId]: acknowledgedAt },
+            // The quote is kept locally too, so polls don't drop it before the server has it
+            orderTimes: estimatedReadyTime
+              ? { ...orderTimes, [orderId]: { ...orderTimes[orderId], promised_at: estimatedReadyTime } }
+              : orderTimes,
+            orders: {
+              ...state.orders,
+              orders: state.orders.orders.map((o) =>
+                o.id === orderId
+                  ? { ...o, ...quote, acknowledged_at: o.acknowledged_at || acknowledgedAt }
+                  : o
+              ),
+              selectedOrder:
+                state.orders.selectedOrder?.id === orderId
+                  ? {
+                      ...state.orders.selectedOrder,
+                      ...quote,
+                      acknowledged_at:
+                        state.orders.selectedOrder.acknowledged_at || acknowledgedAt,
+                    }
+                  : state.orders.selectedOrder,
+            },
+          };
+        });
 
-        if (!offline.isOnline) {
+        // Offline, or earlier actions for this order still waiting - queue behind them
+        const idempotencyKey = createIdempotencyKey({ type: 'acknowledge', order_id: orderId });
+        const queueAck = (lastError?: string) =>
           get().addToQueue({
             type: 'acknowledge',
             order_id: orderId,
-            payload: { numeric_id: numericId },
+            payload: { numeric_id: numericId, estimated_ready_time: estimatedReadyTime },
+            idempotency_key: idempotencyKey,
+            base: targetOrder && { status: targetOrder.status, updated_at: targetOrder.updated_at },
+            last_error: lastError,
           });
+        if (!offline.isOnline || hasQueuedActions(offline.queuedActions, orderId)) {
+          queueAck();
           return true;
         }
 
         const ackId = numericId ? String(numericId) : orderId;
-        const result = await apiClient.acknowledgeOrder(ackId, acknowledgedAt);
+        const result = await apiClient.acknowledgeOrder(ackId, acknowledgedAt, idempotencyKey, estimatedReadyTime);
         if (result.success && result.data) {
           set((state) => ({
             orders: {
@@ -378,6 +515,11 @@ export const useStore = create<AppStore>()(
           }));
           return true;
         }
+        if (result.status === undefined) {
+          // Never reached the server (Wi-Fi blip) - replay it rather than lose it
+          queueAck(result.error);
+          return true;
+        }
         return false;
       },
 
@@ -395,6 +537,7 @@ export const useStore = create<AppStore>()(
 
         // Optimistic update
         set((state) => ({
+          orderTimes: isReadyOrLater(status) ? markOrderTime(state.orderTimes, orderId, 'ready_at') : state.orderTimes,
           orders: {
             ...state.orders,
             orders: state.orders.orders.map((o) =>
@@ -408,13 +551,32 @@ export const useStore = create<AppStore>()(
         }));
         console.log(`[Store] ✓ Local state updated to ${status}`);
 
-        if (!offline.isOnline) {
-          console.log(`[Store] Offline - queuing status update`);
-          get().addToQueue({
-            type: 'status_update',
-            order_id: orderId,
-            payload: { status },
-          });
+        // Build status sequence for multi-step transitions
+        const statusSequence: OrderStatus[] =
+          previousStatus === 'ready' && status === 'preparing'
+            ? ['pending', 'preparing']
+            : [status];
+
+        // Each step gets its own key so a replay of one can't be mistaken for the other
+        const idempotencyKey = createIdempotencyKey({ type: 'status_update', order_id: orderId });
+        const stepKey = (step: OrderStatus) => `${idempotencyKey}:${step}`;
+        // Base version for the conflict check: the status each step moves the order from
+        const stepBase = (step: OrderStatus): OrderStatus => statusSequence[statusSequence.indexOf(step) - 1] ?? previousStatus;
+        const queueSteps = (steps: OrderStatus[], lastError?: string) =>
+          steps.forEach((step) =>
+            get().addToQueue({
+              type: 'status_update',
+              order_id: orderId,
+              payload: { status: step, numeric_id: targetOrder.numeric_id },
+              idempotency_key: stepKey(step),
+              base: { status: stepBase(step), updated_at: targetOrder.updated_at },
+              last_error: lastError,
+            })
+          );
+
+        if (!offline.isOnline || hasQueuedActions(offline.queuedActions, orderId)) {
+          console.log(`[Store] Offline or actions pending for ${orderId} - queuing status update`);
+          queueSteps(statusSequence);
           return true;
         }
 
@@ -424,7 +586,7 @@ export const useStore = create<AppStore>()(
             : null;
 
         const runStatusUpdate = async (nextStatus: OrderStatus) => {
-          let result = await apiClient.updateOrderStatus(orderId, nextStatus);
+          let result = await apiClient.updateOrderStatus(orderId, nextStatus, false, stepKey(nextStatus));
           const shouldRetryWithNumericId =
             !result.success &&
             !!fallbackOrderId &&
@@ -437,23 +599,25 @@ export const useStore = create<AppStore>()(
             console.warn(
               `[Store] Primary status update failed for ${orderId}; retrying with numeric_id ${fallbackOrderId}`
             );
-            result = await apiClient.updateOrderStatus(fallbackOrderId!, nextStatus);
+            result = await apiClient.updateOrderStatus(fallbackOrderId!, nextStatus, false, stepKey(nextStatus));
           }
           return result;
         };
 
-        // Build status sequence for multi-step transitions
-        const statusSequence: OrderStatus[] =
-          previousStatus === 'ready' && status === 'preparing'
-            ? ['pending', 'preparing']
-            : [status];
-
-        let result: { success: boolean; error?: string } = { success: false };
-        for (const nextStatus of statusSequence) {
-          result = await runStatusUpdate(nextStatus);
+        let result: { success: boolean; error?: string; status?: number } = { success: false };
+        let step = 0;
+        for (; step < statusSequence.length; step++) {
+          result = await runStatusUpdate(statusSequence[step]);
           if (!result.success) break;
         }
 
+        if (!result.success && result.status === undefined) {
+          // Never reached the server (Wi-Fi blip) - keep the change and replay what's left
+          console.warn(`[Store] Status update for ${orderId} didn't reach the server - queuing`);
+          queueSteps(statusSequence.slice(step), result.error);
+          return true;
+        }
+
         console.log(`[Store] API result:`, result.success, result.error || 'OK');
         
         if (result.success) {
@@ -484,6 +648,90 @@ export const useStore = create<AppStore>()(
         }
       },
 
+      reopenOrder: async (order, status = 'preparing') => {
+        // Past orders (history) are no longer on the board - put it back so there's something to update
+        if (!get().orders.orders.some((o) => o.id === order.id)) {
+          console.log(`[Store] Reopening past order #${order.order_number}`);
+          get().receiveOrders([order], { full: false });
+        }
+        return get().updateOrderStatus(order.id, status);
+      },
+
+      cancelOrder: async (order, reason) => {
+        console.log(`[Store] Cancelling order ${order.id} (${reason.code})`);
+        addBreadcrumb('Cancelling order', 'store', { orderId: order.id, reason: reason.code });
+        if (!get().orders.orders.some((o) => o.id === order.id)) {
+          get().receiveOrders([order], { full: false });
+        }
+        const { offline, orders: currentOrdersState } = get();
+        const targetOrder = currentOrdersState.orders.find((o) => o.id === order.id) ?? order;
+
+        const setOrderFields = (fields: Pick<Order, 'status' | 'cancel_reason' | 'cancel_note'>) =>
+          set((state) => ({
+            orders: {
+              ...state.orders,
+              orders: state.orders.orders.map((o) => (o.id === order.id ? { ...o, ...fields } : o)),
+              selectedOrder:
+                state.orders.selectedOrder?.id === order.id
+                  ? { ...state.orders.selectedOrder, ...fields }
+                  : state.orders.selectedOrder,
+            },
+          }));
+        // Optimistic - the reason shows (and prints) right away
+        setOrderFields({ status: 'cancelled', cancel_reason: reason.code, cancel_note: reason.note });
+
+        // Queued as a status change to cancelled, so it's checked against the server's version like one
+        const idempotencyKey = createIdempotencyKey({ type: 'status_update', order_id: order.id });
+        const queueCancel = (lastError?: string) =>
+          get().addToQueue({
+            type: 'status_update',
+            order_id: order.id,
+            payload: {
+              status: 'cancelled',
+              numeric_id: targetOrder.numeric_id,
+              cancel_reason: reason.code,
+              cancel_note: reason.note,
+            },
+            idempotency_key: idempotencyKey,
+            base: { status: targetOrder.status, updated_at: targetOrder.updated_at },
+            last_error: lastError,
+          });
+        if (!offline.isOnline || hasQueuedActions(offline.queuedActions, order.id)) {
+          console.log(`[Store] Offline or actions pending for ${order.id} - queuing cancellation`);
+          queueCancel();
+          return true;
+        }
+
+        const cancelId = targetOrder.numeric_id ? String(targetOrder.numeric_id) : order.id;
+        const result = await apiClient.cancelOrder(cancelId, reason, idempotencyKey);
+        if (result.success) {
+          console.log(`[Store] ✓ Order ${order.id} cancelled`);
+          // The server's copy has the reason and times it stored
+          const serverOrder = result.data;
+          if (serverOrder) {
+            get().receiveOrders([serverOrder], { full: false });
+            const merged = get().orders.orders.find((o) => o.id === order.id);
+            if (merged && get().orders.selectedOrder?.id === order.id) {
+              get().selectOrder(merged);
+            }
+          }
+          return true;
+        }
+        if (result.status === undefined) {
+          console.warn(`[Store] Cancellation for ${order.id} didn't reach the server - queuing`);
+          queueCancel(result.error);
+          return true;
+        }
+
+        console.error(`[Store] ✗ Cancellation failed: ${result.error}`);
+        setOrderFields({
+          status: targetOrder.status,
+          cancel_reason: targetOrder.cancel_reason ?? null,
+          cancel_note: targetOrder.cancel_note ?? null,
+        });
+        return false;
+      },
+
       selectOrder: (order) =>
         set((state) => ({
           orders: { ...state.orders, selectedOrder: order },
@@ -498,13 +746,26 @@ export const useStore = create<AppStore>()(
         printerConnected: false,
         printerName: null,
         printerMacAddress: null,
+        printerType: 'bluetooth', // Bluetooth unless a LAN/USB printer is saved
+        paperProfile: '80mm', // Standard 80mm roll
+        printerCodepage: 'ascii', // Fold accents until a codepage is picked for the printer
+        kitchenStations: [], // No stations - kitchen tickets go to the main printer
+        alertKeywordRules: null, // Built-in URGENT / ALLERGY / DIETARY / IMPORTANT keywords
+        labelPrinter: { printerType: 'network', printerAddress: null }, // Labels on the main printer until one is set up
         defaultPrintType: 'kitchen', // Default to kitchen tickets
+        receiptLogo: true,
+        receiptQrCode: true,
+        receiptQrUrl: '',
+        receiptBarcode: true,
+        driverSlips: true,
+        businessDayStartHour: DEFAULT_BUSINESS_DAY_START_HOUR, // 4 AM - late closes stay on the same day
         printerAlertsEnabled: true, // Alert when orders can't print
         ringUntilAccepted: false, // Repeat alert until accepted (off by default)
         orderAgingEnabled: false, // Color-coded aging OFF by default
         orderAgingYellowMin: 5, // Yellow after 5 minutes
         orderAgingRedMin: 10, // Red after 10 minutes
         completedArchiveLimit: 50, // Show last 50 completed orders before archive
+        scheduledLeadMinutes: DEFAULT_SCHEDULED_LEAD_MINUTES,
         completedColumnClearedAt: null,
         completedColumnHiddenOrderIds: [],
         viewMode: 'three', // Default to 3-column view (New / Active / Completed)
@@ -538,10 +799,30 @@ export const useStore = create<AppStore>()(
       // Local Accept state
       acceptedOrderMap: {},
 
+      // ==================== Order Changes ====================
+      printedOrders: {},
+      orderUpdates: [],
+
+      recordPrintedOrder: (order) =>
+        set((state) => ({
+          printedOrders: { ...state.printedOrders, [order.id]: createPrintedOrderRecord(order) },
+          // The kitchen has the latest items on paper now
+          orderUpdates: state.orderUpdates.filter((u) => u.order_id !== order.id),
+        })),
+
+      dismissOrderUpdate: (orderId) =>
+        set((state) => ({
+          orderUpdates: state.orderUpdates.filter((u) => u.order_id !== orderId),
+        })),
+
+      // ==================== Order Times ====================
+      orderTimes: {},
+
       // ==================== Offline State ====================
       offline: {
         isOnline: true,
         queuedActions: [],
+        deadLetters: [],
       },
 
       setOnlineStatus: (isOnline) => {
@@ -556,12 +837,7 @@ export const useStore = create<AppStore>()(
       },
 
       addToQueue: (action) => {
-        const queuedAction: QueuedAction = {
-          ...action,
-          id: Math.random().toString(36).substring(7),
-          created_at: new Date().toISOString(),
-          retry_count: 0,
-        };
+        const queuedAction = createQueuedAction(action);
         set((state) => ({
           offline: {
             ...state.offline,
@@ -570,59 +846,137 @@ export const useStore = create<AppStore>()(
         }));
       },
 
-      processQueue: async () => {
-        const { offline } = get();
-
-        if (!offline.isOnline || offline.queuedActions.length === 0) {
-          return;
-        }
-
-        for (const action of offline.queuedActions) {
-          let success = false;
+      processQueue: () => {
+        if (queueRun) return queueRun;
 
+        const sendAction = async (
+          action: QueuedAction
+        ): Promise<{ success: boolean; error?: string; status?: number; conflict?: Order }> => {
           try {
+            // Compare with the server's copy first - the dashboard may have changed the order meanwhile
+            if (!action.payload?.force) {
+              let current = await apiClient.getOrder(action.order_id);
+              const lookupNumericId = action.payload?.numeric_id
+                || get().orders.orders.find(o => o.id === action.order_id)?.numeric_id;
+              if (!current.success && current.status === 404 && lookupNumericId) {
+                console.warn(`[Store] processQueue: order ${action.order_id} not found; retrying lookup with numeric_id ${lookupNumericId}`);
+                current = await apiClient.getOrder(String(lookupNumericId));
+              }
+              if (current.status === 404) {
+                // The lookup missing the order isn't a refusal of the action - back off and try again
+                console.warn(`[Store] processQueue: order ${action.order_id} not found on the server - will retry`);
+                return { success: false, error: 'Order not found on the server' };
+              }
+              if (!current.success || !current.data) {
+                return { success: false, error: current.error, status: current.status };
+              }
+              const resolution = resolveQueuedAction(action, current.data);
+              if (resolution !== 'apply') {
+                get().receiveOrders([current.data], { full: false });
+              }
+              if (resolution === 'skip') {
+                console.log(`[Store] processQueue: ${action.type} for order ${action.order_id} not needed - server has ${current.data.status}`);
+                return { success: true };
+              }
+              if (resolution === 'conflict') {
+                return { success: false, conflict: current.data };
+              }
+            }
+
             if (action.type === 'acknowledge') {
               const ackId = action.payload?.numeric_id
                 ? String(action.payload.numeric_id)
                 : action.order_id;
-              const result = await apiClient.acknowledgeOrder(ackId);
-              success = result.success;
-            } else if (action.type === 'status_update') {
-              // Use stored numeric_id, or look it up from current orders
-              const numericId = action.payload.numeric_id 
-                || get().orders.orders.find(o => o.id === action.order_id)?.numeric_id;
-              if (numericId) {
-                const result = await apiClient.updateOrderStatus(
-                  String(numericId),
-                  action.payload.status
-                );
-                success = result.success;
-              } else {
-                console.error(`[Store] processQueue: No numeric_id for order ${action.order_id}`);
-              }
+              return await apiClient.acknowledgeOrder(
+                ackId,
+                undefined,
+                action.idempotency_key,
+                action.payload?.estimated_ready_time
+              );
             }
-          } catch (error) {
+            // Use stored numeric_id, or look it up from current orders
+            const numericId = action.payload.numeric_id
+              || get().orders.orders.find(o => o.id === action.order_id)?.numeric_id;
+            if (!numericId) {
+              console.error(`[Store] processQueue: No numeric_id for order ${action.order_id}`);
+              return { success: false, error: 'Order not loaded yet' };
+            }
+            if (action.payload.cancel_reason) {
+              return await apiClient.cancelOrder(
+                String(numericId),
+                { code: action.payload.cancel_reason, note: action.payload.cancel_note ?? null },
+                action.idempotency_key
+              );
+            }
+            return await apiClient.updateOrderStatus(
+              String(numericId),
+              action.payload.status,
+              !!action.payload.force,
+              action.idempotency_key
+            );
+          } catch (error: any) {
             console.error('Failed to process queued action:', error);
+            return { success: false, error: error?.message || 'Failed to send' };
           }
+        };
 
-          if (success) {
-            get().removeFromQueue(action.id);
-          } else if (action.retry_count >= 5) {
-            // Max retries reached - drop the action to prevent infinite loops
-            console.error(`[Store] processQueue: Dropping action ${action.id} after ${action.retry_count} retries (order ${action.order_id})`);
-            get().removeFromQueue(action.id);
-          } else {
-            // Increment retry count
-            set((state) => ({
-              offline: {
-                ...state.offline,
-                queuedActions: state.offline.queuedActions.map((a) =>
-                  a.id === action.id ? { ...a, retry_count: a.retry_count + 1 } : a
-                ),
-              },
-            }));
+        queueRun = (async () => {
+          if (queueTimer) clearTimeout(queueTimer);
+          queueTimer = null;
+          set((state) => ({
+            offline: {
+              ...state.offline,
+              queuedActions: state.offline.queuedActions.map(normalizeQueuedAction),
+              deadLetters: state.offline.deadLetters || [],
+            },
+          }));
+
+          // Keep going while actions are due - a success can free the next action for that order
+          let due = get().offline.isOnline ? getDueActions(get().offline) : [];
+          while (due.length > 0) {
+            for (const action of due) {
+              const result = await sendAction(action);
+              if (result.success) {
+                get().removeFromQueue(action.id);
+                continue;
+              }
+              if (result.conflict) {
+                const server = result.conflict;
+                console.warn(`[Store] processQueue: order ${action.order_id} is ${server.status} on the server - ${action.payload?.status || action.type} needs a decision`);
+                set((state) => ({
+                  offline: {
+                    ...state.offline,
+                    queuedActions: markQueueConflict(state.offline.queuedActions, action.id, server),
+                  },
+                }));
+                continue;
+              }
+              set((state) => ({
+                offline: {
+                  ...state.offline,
+                  ...applyQueueFailure(state.offline, action.id, result.error || 'Unknown error', result.status),
+                },
+              }));
+              const deadLetter = get().offline.deadLetters.find((a) => a.id === action.id);
+              if (deadLetter) {
+                console.error(`[Store] processQueue: ${action.type} for order ${action.order_id} failed ${deadLetter.retry_count}x - moved to Pending sync (${deadLetter.last_error})`);
+              }
+            }
+            due = get().offline.isOnline ? getDueActions(get().offline) : [];
           }
-        }
+
+          // Wake up when the next backoff is over
+          const delay = getNextAttemptDelayMs(get().offline);
+          if (delay !== null && get().offline.isOnline) {
+            queueTimer = setTimeout(() => {
+              queueTimer = null;
+              get().processQueue();
+            }, delay);
+          }
+        })().finally(() => {
+          queueRun = null;
+        });
+        return queueRun;
       },
 
       removeFromQueue: (actionId) =>
@@ -635,6 +989,42 @@ export const useStore = create<AppStore>()(
           },
         })),
 
+      retryDeadLetter: (actionId) => {
+        set((state) => ({
+          offline: {
+            ...state.offline,
+            ...restoreDeadLetter(
+              { queuedActions: state.offline.queuedActions, deadLetters: state.offline.deadLetters || [] },
+              actionId
+            ),
+          },
+        }));
+        get().processQueue();
+      },
+
+      resolveConflict: (actionId, choice) => {
+        const action = get().offline.queuedActions.find((a) => a.id === actionId);
+        set((state) => ({
+          offline: {
+            ...state.offline,
+            queuedActions: resolveQueueConflict(state.offline.queuedActions, actionId, choice),
+          },
+        }));
+        if (choice === 'server' && action) {
+          // Put the local copy back to the server's version
+          get().fetchOrder(action.order_id);
+        }
+        get().processQueue();
+      },
+
+      discardDeadLetter: (actionId) =>
+        set((state) => ({
+          offline: {
+            ...state.offline,
+            deadLetters: (state.offline.deadLetters || []).filter((a) => a.id !== actionId),
+          },
+        })),
+
       clearQueue: () =>
         set((state) => ({
           offline: {
@@ -663,7 +1053,9 @@ export const useStore = create<AppStore>()(
       partialize: (state) => ({
         settings: state.settings,
         acceptedOrderMap: state.acceptedOrderMap,
-        offline: { queuedActions: state.offline.queuedActions, isOnline: true },
+        printedOrders: state.printedOrders,
+        orderTimes: state.orderTimes,
+        offline: { queuedActions: state.offline.queuedActions, deadLetters: state.offline.deadLetters, isOnline: true },
       }),
     }
   )
@@ -48,6 +48,19 @@ export type OrderStatus =
 
 export type OrderType = 'pickup' | 'delivery' | 'dine_in';
 
+// Why an order was cancelled or rejected
+export type CancelReasonCode =
+  | 'too_busy'
+  | 'item_unavailable'
+  | 'closed'
+  | 'customer_request'
+  | 'suspected_fraud';
+
+export interface CancelReason {
+  code: CancelReasonCode;
+  note: string | null;   // Free text from staff
+}
+
 export type NotificationTone =
   | 'default'
   | 'chime'
@@ -74,6 +87,9 @@ export interface Order {
   total: number;
   notes?: string;
   estimated_ready_time?: string;
+  scheduled_for?: string | null;  // Due time of a future order (from the API or a "Scheduled for:" note)
+  cancel_reason?: CancelReasonCode | null;
+  cancel_note?: string | null;
   created_at: string;
   updated_at: string;
   acknowledged_at?: string;
@@ -101,6 +117,7 @@ export interface DeviceConfig {
   sound_enabled: boolean;
   notification_tone: NotificationTone;
   printer_connected: boolean;
+  alert_keywords?: AlertKeywordRuleUpdates;
 }
 
 // Stuck Order Detection Types
@@ -116,7 +133,7 @@ export interface StuckOrderInfo {
 export interface HeartbeatPayload {
   battery_level?: number;
   wifi_strength?: number;
-  printer_status?: 'connected' | 'disconnected' | 'error';
+  printer_status?: 'connected' | 'disconnected' | 'error' | 'paper_low' | 'paper_out' | 'cover_open' | 'cutter_error';
   app_version: string;
   last_order_received?: string;
   last_successful_fetch?: string;
@@ -165,12 +182,241 @@ export interface ApiResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  status?: number; // HTTP status of a failed request (missing = never reached the server)
 }
 
 export interface OrdersListResponse {
   orders: Order[];
   total: number;
   has_more: boolean;
+  cursor?: string | null;   // Pass back as `since` for the next delta (server time of this response)
+  next_cursor?: string | null;  // Pass back as `cursor` for the next page of a long list (null = last page)
+  deleted_ids?: string[];   // Orders removed since `since` (delta responses only)
+}
+
+// Realtime Types - orders pushed over a WebSocket as they change
+// off = not started (logged out / offline), reconnecting = down, polling covers it
+export type RealtimeState = 'off' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface RealtimeStatus {
+  state: RealtimeState;
+  connected_at: string | null;
+  retry_at: string | null;    // Next reconnect attempt while reconnecting
+  attempts: number;           // Failed attempts since the last good connection
+  last_error: string | null;
+}
+
+export type RealtimeOrderEvent =
+  | { type: 'order.created' | 'order.updated'; order: Order }
+  | { type: 'order.deleted'; order_id: string };
+
+// Printer Types
+export type PrinterTransportType = 'bluetooth' | 'network' | 'usb';
+
+export interface DiscoveredPrinter {
+  type: PrinterTransportType;
+  device_name: string;
+  address: string;        // MAC, host:port or vendorId:productId depending on type
+}
+
+// Printer condition from status polling - 'unknown' when the printer can't report it
+export type PrinterState =
+  | 'offline'
+  | 'paper_out'
+  | 'cover_open'
+  | 'cutter_error'
+  | 'error'
+  | 'paper_low'
+  | 'ok'
+  | 'unknown';
+
+export interface PrinterStatus {
+  state: PrinterState;
+  checked_at: string | null;
+}
+
+// Paper Profile Types
+export type PaperProfileId = '80mm' | '58mm' | 'label';
+
+export interface PaperProfile {
+  id: PaperProfileId;
+  label: string;
+  columns: number;     // Characters the printer fits on a line (normal size)
+  dots: number;        // Printable width in dots (QR codes, barcodes, images)
+  width: number;       // Characters tickets use per line (leaves a right margin)
+  doubleWidth: number; // Characters per line in double-size text
+  marginLeft: number;  // Spaces before indented lines
+  feedLines: number;   // Lines fed after a ticket so it clears the cutter / tear bar
+  cut: boolean;        // Send the cut command
+  labelLines?: number; // Die-cut label stock: lines per label (roll paper leaves this out)
+}
+
+// Printer character set - 'ascii' folds accents, the others are selected with ESC t
+export type PrinterCodepage = 'ascii' | 'cp850' | 'cp863' | 'cp1252';
+
+// Kitchen Station Types
+export type StationRuleField = 'item_name' | 'size' | 'modifier_group';
+
+export interface StationRule {
+  field: StationRuleField;
+  value: string; // Case-insensitive "contains" match
+}
+
+export interface KitchenStation {
+  id: string;
+  name: string;                       // Printed at the top of the station's ticket
+  isExpo: boolean;                    // Expo gets every item on the order
+  rules: StationRule[];               // An item goes to the station if ANY rule matches
+  printerType: PrinterTransportType;
+  printerAddress: string | null;      // null = print on the main printer
+  paperProfile?: PaperProfileId;      // Station printer's paper (defaults to 80mm)
+  codepage?: PrinterCodepage;         // Station printer's character set (defaults to ASCII)
+}
+
+// Label Printer Types - per-item stickers for bagging
+export interface LabelPrinter {
+  printerType: PrinterTransportType;
+  printerAddress: string | null;      // null = print on the main printer
+  paperProfile?: PaperProfileId;      // Label stock (defaults to the 2.25" label)
+  codepage?: PrinterCodepage;         // Label printer's character set (defaults to ASCII)
+}
+
+// Kitchen Ticket Alert Types
+export type AlertCategory = 'urgent' | 'allergy' | 'dietary' | 'important';
+
+export interface AlertKeywordRule {
+  keywords: string[];   // Case-insensitive words/phrases that raise the alert
+  exclusions: string[]; // Phrases ignored before matching (e.g. "no rush")
+  wholeWord: boolean;   // Only match whole words ("gf" won't match "bigfoot")
+}
+
+export type AlertKeywordRules = Record<AlertCategory, AlertKeywordRule>;
+
+// Server-pushed rules (heartbeat config_updates) - categories/fields left out are kept
+export type AlertKeywordRuleUpdates = Partial<Record<AlertCategory, {
+  keywords?: string[];
+  exclusions?: string[];
+  whole_word?: boolean;
+}>>;
+
+// Order Change Types - items edited after the kitchen ticket printed
+export interface PrintedOrderItem {
+  key: string;            // Item id (name + size if the server sent none)
+  name: string;
+  size: string | null;
+  quantity: number;
+  modifiers: string[];    // As printed, e.g. "2x Extra Cheese (LEFT)"
+  notes: string | null;
+}
+
+export interface PrintedOrderRecord {
+  fingerprint: string;       // Items the kitchen has on paper
+  items: PrintedOrderItem[];
+  printed_at: string;
+  seen_fingerprint: string;  // Items on the latest poll - each change is reported once
+}
+
+export type OrderItemChangeType = 'added' | 'removed' | 'changed';
+
+export interface OrderItemChange {
+  type: OrderItemChangeType;
+  item: PrintedOrderItem;       // The item now (as printed, for removed items)
+  previous?: PrintedOrderItem;  // As printed, for changed items
+}
+
+export interface OrderUpdate {
+  order_id: string;
+  order_number: string;
+  changes: OrderItemChange[];
+  detected_at: string;
+}
+
+// All Day Types - open item counts across orders (prep summary)
+export interface AllDayVariant {
+  modifiers: string[];   // As on the kitchen ticket, e.g. "Pepperoni (LEFT)" - empty = as is
+  quantity: number;
+}
+
+export interface AllDayItem {
+  key: string;           // Name + size, lowercased
+  name: string;
+  size: string | null;
+  quantity: number;
+  order_count: number;
+  variants: AllDayVariant[]; // Most made first
+}
+
+export interface AllDaySummary {
+  items: AllDayItem[];   // Most made first
+  order_count: number;
+  item_count: number;
+}
+
+// Sales Report Types - end-of-day (Z report) summary
+export interface OrderTimes {
+  accepted_at?: string;  // Tapped Accept on this tablet (server acknowledged_at is set on fetch)
+  ready_at?: string;     // First seen ready (or later) - marked here or on a poll
+  promised_at?: string;  // Ready time quoted on Accept
+}
+
+export interface SalesBucket {
+  count: number;
+  total: number;
+}
+
+export interface SalesTotals {
+  subtotal: number;
+  tax: number;
+  tips: number;
+  delivery_fees: number;
+  total: number;
+}
+
+export interface SalesReport {
+  range_start: string;            // Business day start (ISO)
+  range_end: string;              // Next business day start (ISO)
+  generated_at: string;
+  order_count: number;            // Orders placed in the business day, cancelled included
+  sales: SalesTotals;             // Every order except cancelled ones
+  sale_count: number;
+  cancelled: SalesBucket;
+  by_cancel_reason: Partial<Record<CancelReasonCode | 'none', SalesBucket>>; // 'none' = cancelled without a reason
+  by_status: Partial<Record<OrderStatus, number>>;
+  by_order_type: Partial<Record<OrderType, SalesBucket>>;
+  by_payment_status: Record<string, SalesBucket>; // 'unknown' when the server sent none
+  average_order_value: number;
+  average_accept_minutes: number | null; // Placed → accepted (null = no timings yet)
+  average_ready_minutes: number | null;  // Placed → ready
+  incomplete?: boolean;                  // The server had more orders than the tablet could fetch
+}
+
+// Print Queue Types
+// update = changes since the kitchen ticket, driver = slip for a delivery going out,
+// cancel = slip telling the kitchen an order was cancelled and why
+export type PrintJobType = 'kitchen' | 'receipt' | 'both' | 'labels' | 'update' | 'driver' | 'cancel';
+
+export type PrintJobState =
+  | 'queued'    // Waiting for its turn
+  | 'printing'  // Being sent to the printer right now
+  | 'retrying'  // Failed, will retry after next_attempt_at (or when the printer reconnects)
+  | 'held'      // Backlog - arrived while the printer was offline, needs a manual print
+  | 'failed'    // Out of automatic retries, needs a manual retry
+  | 'printed'
+  | 'cancelled';
+
+export interface PrintJob {
+  id: string;
+  order_id: string;
+  order: Order;                   // Snapshot at enqueue time (the live order is preferred when printing)
+  type: PrintJobType;
+  copies: number;
+  source: 'auto' | 'manual';
+  state: PrintJobState;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 // Offline Queue Types
@@ -179,8 +425,26 @@ export interface QueuedAction {
   type: 'acknowledge' | 'status_update';
   order_id: string;
   payload: any;
+  idempotency_key: string;        // Sent with every attempt so a replay is applied once
+  base_status: OrderStatus | null;      // The order as staff saw it when they made the change
+  base_updated_at: string | null;
   created_at: string;
   retry_count: number;
+  next_attempt_at: string | null; // Backoff - not retried before this
+  last_error: string | null;
+  conflict: QueueConflict | null; // Server changed the order too - waiting for staff to pick
+}
+
+// The server's version of an order that changed under a queued action
+export interface QueueConflict {
+  server_status: OrderStatus;
+  server_updated_at: string;
+  detected_at: string;
+}
+
+// An action the server kept refusing - waits in "Pending sync" for staff to retry or discard
+export interface DeadLetterAction extends QueuedAction {
+  failed_at: string;
 }
 
 // Dispatch Types (Delivery Provider Integration)
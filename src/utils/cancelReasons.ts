@@ -0,0 +1,33 @@
+import { CancelReasonCode } from '../types';
+
+/**
+ * Reasons staff pick when cancelling or rejecting an order.
+ * Listed in the order they're offered.
+ */
+export const CANCEL_REASONS: Array<{ code: CancelReasonCode; label: string }> = [
+  { code: 'too_busy', label: 'Too busy' },
+  { code: 'item_unavailable', label: 'Item unavailable' },
+  { code: 'closed', label: 'Closed' },
+  { code: 'customer_request', label: 'Customer request' },
+  { code: 'suspected_fraud', label: 'Suspected fraud' },
+];
+
+// Longest note sent with a cancellation
+export const MAX_CANCEL_NOTE_LENGTH = 200;
+
+/**
+ * A reason code from the API - null when missing or one this app doesn't know
+ */
+export const parseCancelReason = (value: unknown): CancelReasonCode | null =>
+  CANCEL_REASONS.find((reason) => reason.code === value)?.code ?? null;
+
+export const getCancelReasonLabel = (code: CancelReasonCode | 'none' | null | undefined): string =>
+  CANCEL_REASONS.find((reason) => reason.code === code)?.label ?? 'No reason given';
+
+/**
+ * Staff's note as it's sent: trimmed and capped, null when blank
+ */
+export const normalizeCancelNote = (note: string | null | undefined): string | null => {
+  const trimmed = (note || '').trim();
+  return trimmed ? trimmed.slice(0, MAX_CANCEL_NOTE_LENGTH) : null;
+};
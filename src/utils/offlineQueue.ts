@@ -0,0 +1,260 @@
+import { DeadLetterAction, Order, OrderStatus, QueueConflict, QueuedAction } from '../types';
+
+/**
+ * Offline action queue.
+ *
+ * Accepts and status changes that couldn't reach the server are queued and
+ * replayed with an idempotency key, so a request that did get through before
+ * the connection dropped isn't applied twice. Actions for the same order are
+ * replayed strictly in the order they were made (an accept always lands
+ * before the "ready" that followed it). Failures back off exponentially; an
+ * action the server keeps refusing moves to the dead-letter list instead of
+ * being dropped, and waits there for staff to retry or discard it.
+ *
+ * Before a replay the order is re-read from the server and compared with the
+ * version staff were looking at. Safe cases sort themselves out (the server
+ * already has the change, or only moved the order along the way we were
+ * going); anything else is parked as a conflict for staff to decide.
+ */
+
+export const MAX_QUEUE_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 2000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+export type NewQueuedAction = Pick<QueuedAction, 'type' | 'order_id' | 'payload'> & {
+  idempotency_key?: string;
+  base?: Pick<Order, 'status' | 'updated_at'>;
+  last_error?: string;  // Set when the first attempt already failed
+};
+
+export type QueueResolution = 'apply' | 'skip' | 'conflict';
+
+// Forward flow of an order - cancelled is off the end of it
+const STATUS_FLOW: OrderStatus[] = ['pending', 'confirmed', 'preparing', 'ready', 'out_for_delivery', 'delivered', 'completed'];
+const statusRank = (status: OrderStatus | null): number => (status ? STATUS_FLOW.indexOf(status) : -1);
+
+export interface QueueLists {
+  queuedActions: QueuedAction[];
+  deadLetters: DeadLetterAction[];
+}
+
+/**
+ * Key the server uses to recognise a replay of the same action
+ */
+export const createIdempotencyKey = (action: Pick<QueuedAction, 'type' | 'order_id'>, now: number = Date.now()): string =>
+  `${action.type}:${action.order_id}:${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Backoff before retry N: 2s, 4s, 8s... capped at 5 minutes
+ */
+export const getQueueRetryDelayMs = (retryCount: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, retryCount - 1), RETRY_MAX_DELAY_MS);
+
+/**
+ * Worth retrying? Network errors, timeouts, rate limits, expired sessions and
+ * server errors are; any other refusal (404, 409, 422...) won't change on retry
+ */
+export const isRetryableFailure = (status?: number): boolean =>
+  status === undefined || status === 401 || status === 408 || status === 429 || status >= 500;
+
+export const createQueuedAction = (action: NewQueuedAction, now: Date = new Date()): QueuedAction => {
+  const { idempotency_key, base, last_error, ...rest } = action;
+  return {
+    ...rest,
+    id: Math.random().toString(36).substring(7),
+    idempotency_key: idempotency_key || createIdempotencyKey(action, now.getTime()),
+    base_status: base?.status ?? null,
+    base_updated_at: base?.updated_at ?? null,
+    created_at: now.toISOString(),
+    retry_count: last_error ? 1 : 0,
+    next_attempt_at: last_error ? new Date(now.getTime() + getQueueRetryDelayMs(1)).toISOString() : null,
+    last_error: last_error || null,
+    conflict: null,
+  };
+};
+
+/**
+ * Fill in the fields actions queued by older app versions don't have
+ */
+export const normalizeQueuedAction = (action: QueuedAction): QueuedAction => ({
+  ...action,
+  idempotency_key: action.idempotency_key || `${action.type}:${action.order_id}:${action.id}`,
+  base_status: action.base_status ?? null,
+  base_updated_at: action.base_updated_at ?? null,
+  retry_count: action.retry_count || 0,
+  next_attempt_at: action.next_attempt_at ?? null,
+  last_error: action.last_error ?? null,
+  conflict: action.conflict ?? null,
+});
+
+export const hasQueuedActions = (actions: QueuedAction[], orderId: string): boolean =>
+  actions.some((action) => action.order_id === orderId);
+
+/**
+ * Orders whose actions are on hold: the head action is a conflict waiting for
+ * staff, or an earlier action was dead-lettered and hasn't been retried or discarded
+ */
+const getBlockedOrderIds = ({ queuedActions, deadLetters }: QueueLists): Set<string> => {
+  const blocked = new Set(deadLetters.map((action) => action.order_id));
+  const seen = new Set<string>();
+  queuedActions.forEach((action) => {
+    if (seen.has(action.order_id)) return;
+    seen.add(action.order_id);
+    if (action.conflict) blocked.add(action.order_id);
+  });
+  return blocked;
+};
+
+/**
+ * Actions to send now: the oldest action of each order, if its backoff is over.
+ * Later actions for an order wait until the one ahead of them is done - or,
+ * for a conflict or a dead letter, until staff have decided.
+ */
+export const getDueActions = (lists: QueueLists, now: number = Date.now()): QueuedAction[] => {
+  const blocked = getBlockedOrderIds(lists);
+  const seen = new Set<string>();
+  return lists.queuedActions.filter((action) => {
+    if (seen.has(action.order_id)) return false;
+    seen.add(action.order_id);
+    if (blocked.has(action.order_id)) return false;
+    return !action.next_attempt_at || new Date(action.next_attempt_at).getTime() <= now;
+  });
+};
+
+/**
+ * Milliseconds until the next waiting action is due (null = nothing waiting)
+ */
+export const getNextAttemptDelayMs = (lists: QueueLists, now: number = Date.now()): number | null => {
+  const blocked = getBlockedOrderIds(lists);
+  const actions = lists.queuedActions;
+  const heads = actions.filter(
+    (action, index) =>
+      !blocked.has(action.order_id) && actions.findIndex((other) => other.order_id === action.order_id) === index
+  );
+  if (heads.length === 0) return null;
+  return Math.max(
+    0,
+    Math.min(...heads.map((action) => (action.next_attempt_at ? new Date(action.next_attempt_at).getTime() - now : 0)))
+  );
+};
+
+/**
+ * What to do with a queued action now that we've seen the server's copy
+ * - skip: the server already has it, or has moved past it (nothing to send)
+ * - apply: the server hasn't touched the order, or only moved it partway
+ *   along the direction staff were taking it
+ * - conflict: anything else - cancelled, moved back, or staff were moving it back
+ */
+export const resolveQueuedAction = (
+  action: QueuedAction,
+  server: Pick<Order, 'status' | 'updated_at'>
+): QueueResolution => {
+  if (action.payload?.force) return 'apply';
+  if (action.type === 'acknowledge') {
+    // Nothing left to accept
+    return server.status === 'cancelled' || server.status === 'completed' ? 'skip' : 'apply';
+  }
+
+  const target = action.payload?.status as OrderStatus;
+  if (server.status === target) return 'skip';
+  if (!action.base_status || !action.base_updated_at) return 'apply'; // Queued before versions were kept
+
+  const untouched =
+    server.status === action.base_status ||
+    new Date(server.updated_at).getTime() <= new Date(action.base_updated_at).getTime();
+  if (untouched) return 'apply';
+  if (server.status === 'cancelled') return 'conflict';
+
+  const baseRank = statusRank(action.base_status);
+  if (statusRank(target) <= baseRank || statusRank(server.status) < baseRank) return 'conflict';
+  return statusRank(server.status) > statusRank(target) ? 'skip' : 'apply';
+};
+
+/**
+ * Park an action until staff pick a version - it holds back the rest of its order
+ */
+export const markQueueConflict = (
+  actions: QueuedAction[],
+  actionId: string,
+  server: Pick<Order, 'status' | 'updated_at'>,
+  now: Date = new Date()
+): QueuedAction[] => {
+  const conflict: QueueConflict = {
+    server_status: server.status,
+    server_updated_at: server.updated_at,
+    detected_at: now.toISOString(),
+  };
+  return actions.map((a) => (a.id === actionId ? { ...a, conflict, next_attempt_at: null } : a));
+};
+
+/**
+ * Staff's answer to a conflict
+ * - mine: send it anyway (forced past the server's status rules)
+ * - server: drop it and keep what the server has
+ */
+export const resolveQueueConflict = (
+  actions: QueuedAction[],
+  actionId: string,
+  choice: 'mine' | 'server'
+): QueuedAction[] => {
+  if (choice === 'server') return actions.filter((a) => a.id !== actionId);
+  return actions.map((a) =>
+    a.id === actionId
+      ? { ...a, conflict: null, payload: { ...a.payload, force: true }, retry_count: 0, next_attempt_at: null, last_error: null }
+      : a
+  );
+};
+
+/**
+ * Record a failed attempt - back off, or dead-letter it when the refusal is
+ * permanent or it has used up its attempts. The rest of a dead-lettered
+ * action's order waits until staff retry or discard it.
+ */
+export const applyQueueFailure = (
+  lists: QueueLists,
+  actionId: string,
+  error: string,
+  status?: number,
+  now: Date = new Date()
+): QueueLists => {
+  const action = lists.queuedActions.find((a) => a.id === actionId);
+  if (!action) return lists;
+
+  const retryCount = action.retry_count + 1;
+  const failed: QueuedAction = { ...action, retry_count: retryCount, last_error: error };
+  if (!isRetryableFailure(status) || retryCount >= MAX_QUEUE_ATTEMPTS) {
+    return {
+      queuedActions: lists.queuedActions.filter((a) => a.id !== actionId),
+      deadLetters: [...lists.deadLetters, { ...failed, next_attempt_at: null, failed_at: now.toISOString() }],
+    };
+  }
+
+  const nextAttemptAt = new Date(now.getTime() + getQueueRetryDelayMs(retryCount)).toISOString();
+  return {
+    ...lists,
+    queuedActions: lists.queuedActions.map((a) => (a.id === actionId ? { ...failed, next_attempt_at: nextAttemptAt } : a)),
+  };
+};
+
+/**
+ * Put a dead letter back in the queue for another round of attempts, ahead of
+ * anything queued for its order after it (same idempotency key)
+ */
+export const restoreDeadLetter = (lists: QueueLists, actionId: string): QueueLists => {
+  const dead = lists.deadLetters.find((a) => a.id === actionId);
+  if (!dead) return lists;
+
+  const { failed_at: _failedAt, ...action } = dead;
+  const restored: QueuedAction = { ...action, retry_count: 0, next_attempt_at: null, conflict: null };
+  const createdMs = new Date(restored.created_at).getTime();
+  const insertAt = lists.queuedActions.findIndex(
+    (a) => a.order_id === restored.order_id && new Date(a.created_at).getTime() > createdMs
+  );
+  const queuedActions = [...lists.queuedActions];
+  queuedActions.splice(insertAt === -1 ? queuedActions.length : insertAt, 0, restored);
+
+  return {
+    queuedActions,
+    deadLetters: lists.deadLetters.filter((a) => a.id !== actionId),
+  };
+};
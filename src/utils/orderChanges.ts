@@ -0,0 +1,141 @@
+import { Order, OrderItem, OrderItemChange, OrderModifier, OrderUpdate, PrintedOrderItem, PrintedOrderRecord } from '../types';
+
+/**
+ * Order change detection.
+ *
+ * When a kitchen ticket prints we keep what was on it (items, sizes,
+ * modifiers, notes) for that order. Each poll compares the server's order
+ * against it, so edits made on the web dashboard after printing turn into
+ * an "ORDER UPDATED" ticket listing what was added, removed or changed.
+ */
+
+const modifierLabel = (mod: OrderModifier): string => {
+  const quantity = mod.quantity && mod.quantity > 1 ? `${mod.quantity}x ` : '';
+  const placement = mod.placement === 'left' ? ' (LEFT)' : mod.placement === 'right' ? ' (RIGHT)' : '';
+  const instance = typeof mod.instance_index === 'number' ? `Pizza ${mod.instance_index + 1}: ` : '';
+  return `${instance}${quantity}${mod.name.trim()}${placement}`;
+};
+
+const itemKey = (item: OrderItem): string =>
+  item.id ? String(item.id) : `${item.name.trim().toLowerCase()}|${(item.size || '').trim().toLowerCase()}`;
+
+/**
+ * The order's items the way the kitchen ticket shows them
+ */
+export const snapshotOrderItems = (order: Pick<Order, 'items'>): PrintedOrderItem[] => {
+  const seen = new Map<string, number>();
+  return (order.items || []).map((item) => {
+    // Two lines with the same key (no ids, same name) are told apart by position
+    const base = itemKey(item);
+    const occurrence = (seen.get(base) ?? 0) + 1;
+    seen.set(base, occurrence);
+    return {
+      key: occurrence > 1 ? `${base}#${occurrence}` : base,
+      name: item.name.trim(),
+      size: item.size?.trim() || null,
+      quantity: item.quantity || 1,
+      modifiers: (item.modifiers || []).map(modifierLabel),
+      notes: item.notes?.trim() || null,
+    };
+  });
+};
+
+/**
+ * Short stable hash of the items - FNV-1a over their JSON
+ */
+export const fingerprintItems = (items: PrintedOrderItem[]): string => {
+  const text = JSON.stringify(items);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const sameItem = (a: PrintedOrderItem, b: PrintedOrderItem): boolean =>
+  a.name === b.name &&
+  a.size === b.size &&
+  a.quantity === b.quantity &&
+  a.notes === b.notes &&
+  a.modifiers.length === b.modifiers.length &&
+  a.modifiers.every((mod, index) => mod === b.modifiers[index]);
+
+/**
+ * What changed between the printed items and the current ones
+ * Changed and added items keep the current order; removed items come last.
+ */
+export const diffOrderItems = (printed: PrintedOrderItem[], current: PrintedOrderItem[]): OrderItemChange[] => {
+  const printedByKey = new Map(printed.map((item) => [item.key, item]));
+  const currentKeys = new Set(current.map((item) => item.key));
+  const changes: OrderItemChange[] = [];
+
+  current.forEach((item) => {
+    const previous = printedByKey.get(item.key);
+    if (!previous) {
+      changes.push({ type: 'added', item });
+    } else if (!sameItem(previous, item)) {
+      changes.push({ type: 'changed', item, previous });
+    }
+  });
+  printed
+    .filter((item) => !currentKeys.has(item.key))
+    .forEach((item) => changes.push({ type: 'removed', item }));
+
+  return changes;
+};
+
+/**
+ * Record of what a kitchen ticket just printed for an order
+ */
+export const createPrintedOrderRecord = (order: Order, printedAt: string = new Date().toISOString()): PrintedOrderRecord => {
+  const items = snapshotOrderItems(order);
+  const fingerprint = fingerprintItems(items);
+  return { fingerprint, items, printed_at: printedAt, seen_fingerprint: fingerprint };
+};
+
+/**
+ * Compare freshly fetched orders with what the kitchen has on paper
+ * Records of orders the server no longer returns are dropped. An update is
+ * reported once per change - polling the same edit again stays quiet, and
+ * editing an order back to what printed raises nothing.
+ */
+export const detectOrderUpdates = (
+  orders: Array<Pick<Order, 'id' | 'order_number' | 'items'>>,
+  records: Record<string, PrintedOrderRecord>,
+  now: string = new Date().toISOString()
+): { records: Record<string, PrintedOrderRecord>; updates: OrderUpdate[] } => {
+  const nextRecords: Record<string, PrintedOrderRecord> = {};
+  const updates: OrderUpdate[] = [];
+
+  orders.forEach((order) => {
+    const record = records[order.id];
+    if (!record) return;
+
+    const items = snapshotOrderItems(order);
+    const fingerprint = fingerprintItems(items);
+    nextRecords[order.id] = fingerprint === record.seen_fingerprint ? record : { ...record, seen_fingerprint: fingerprint };
+
+    if (fingerprint !== record.seen_fingerprint && fingerprint !== record.fingerprint) {
+      updates.push({
+        order_id: order.id,
+        order_number: order.order_number,
+        changes: diffOrderItems(record.items, items),
+        detected_at: now,
+      });
+    }
+  });
+
+  return { records: nextRecords, updates };
+};
+
+/**
+ * One line per change for alerts, e.g. "+ 2x Fries", "~ Burger (1x → 2x)"
+ */
+export const describeOrderChange = (change: OrderItemChange): string => {
+  const { item, previous } = change;
+  if (change.type === 'added') return `+ ${item.quantity}x ${item.name}`;
+  if (change.type === 'removed') return `- ${item.quantity}x ${item.name}`;
+  const quantity = previous && previous.quantity !== item.quantity ? ` (${previous.quantity}x → ${item.quantity}x)` : '';
+  return `~ ${item.name}${quantity}`;
+};
@@ -0,0 +1,80 @@
+import { Order, OrderStatus, OrderType } from '../types';
+import { BusinessDayRange, DEFAULT_BUSINESS_DAY_START_HOUR, getBusinessDayRange } from './salesReport';
+
+/**
+ * Order history browser filters.
+ *
+ * Ranges are whole business days (the same boundary the sales report uses),
+ * so "Yesterday" here and yesterday's Z report cover the same orders.
+ */
+
+export type HistoryRangePreset = 'today' | 'yesterday' | 'week' | 'two_weeks' | 'month';
+export type HistoryStatusFilter = 'all' | 'open' | 'completed' | 'cancelled';
+export type HistoryTypeFilter = OrderType | 'all';
+
+export interface HistoryFilters {
+  range: BusinessDayRange;
+  status: HistoryStatusFilter;
+  type: HistoryTypeFilter;
+}
+
+// [first day offset, last day offset] relative to the current business day
+const RANGE_DAYS: Record<HistoryRangePreset, [number, number]> = {
+  today: [0, 0],
+  yesterday: [-1, -1],
+  week: [-6, 0],
+  two_weeks: [-13, 0],
+  month: [-29, 0],
+};
+
+const STATUS_GROUPS: Record<Exclude<HistoryStatusFilter, 'all'>, OrderStatus[]> = {
+  open: ['pending', 'confirmed', 'preparing', 'ready', 'out_for_delivery'],
+  completed: ['delivered', 'completed'],
+  cancelled: ['cancelled'],
+};
+
+export const getHistoryRange = (
+  preset: HistoryRangePreset,
+  now: Date = new Date(),
+  startHour: number = DEFAULT_BUSINESS_DAY_START_HOUR
+): BusinessDayRange => {
+  const [first, last] = RANGE_DAYS[preset];
+  return {
+    start: getBusinessDayRange(now, startHour, first).start,
+    end: getBusinessDayRange(now, startHour, last).end,
+  };
+};
+
+/**
+ * The `status` to ask the server for - only when the filter is a single status,
+ * otherwise the server sends everything and the filter is applied here
+ */
+export const getServerStatusFilter = (filter: HistoryStatusFilter): OrderStatus | undefined => {
+  if (filter === 'all') return undefined;
+  const statuses = STATUS_GROUPS[filter];
+  return statuses.length === 1 ? statuses[0] : undefined;
+};
+
+export const matchesHistoryFilters = (order: Order, filters: HistoryFilters): boolean => {
+  const created = new Date(order.created_at).getTime();
+  if (!(created >= filters.range.start.getTime() && created < filters.range.end.getTime())) return false;
+  if (filters.status !== 'all' && !STATUS_GROUPS[filters.status].includes(order.status)) return false;
+  return filters.type === 'all' || order.order_type === filters.type;
+};
+
+/**
+ * Orders to list, newest first. An order in more than one list (live board,
+ * server pages, local cache) is taken from the first - the freshest copy.
+ */
+export const collectHistoryOrders = (sources: Order[][], filters: HistoryFilters): Order[] => {
+  const seen = new Set<string>();
+  const orders: Order[] = [];
+  sources.forEach((list) =>
+    list.forEach((order) => {
+      if (seen.has(order.id)) return;
+      seen.add(order.id);
+      if (matchesHistoryFilters(order, filters)) orders.push(order);
+    })
+  );
+  return orders.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+};
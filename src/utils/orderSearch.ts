@@ -0,0 +1,185 @@
+import { Order } from '../types';
+
+/**
+ * Order search.
+ *
+ * Every word of the query has to match somewhere on the order - order number,
+ * customer name, phone (by digits, so "613 555" finds "(613) 555-0199"),
+ * item names, notes or the time it came in - so "sarah 6:40" finds Sarah's
+ * 6:40 order. Results carry the matched ranges for highlighting.
+ */
+
+export const MIN_QUERY_LENGTH = 2;
+const MIN_PHONE_DIGITS = 3;
+
+export type SearchField = 'order_number' | 'customer' | 'phone' | 'item' | 'notes' | 'time';
+export type SearchSource = 'live' | 'history' | 'server';
+
+export interface SearchMatch {
+  field: SearchField;
+  text: string;
+  ranges: Array<[number, number]>;  // [start, end) in text
+}
+
+export interface OrderSearchResult {
+  order: Order;
+  source: SearchSource;
+  matches: SearchMatch[];
+  score: number;
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  order_number: 40,
+  customer: 30,
+  phone: 30,
+  time: 15,
+  item: 10,
+  notes: 5,
+};
+
+export const formatSearchTime = (dateString: string): string =>
+  new Date(dateString).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
+
+export const tokenizeQuery = (query: string): string[] =>
+  query.toLowerCase().split(/\s+/).map((token) => token.trim()).filter(Boolean);
+
+/**
+ * Where a token appears in a string (case-insensitive)
+ */
+export const findRanges = (text: string, token: string): Array<[number, number]> => {
+  const ranges: Array<[number, number]> = [];
+  const haystack = text.toLowerCase();
+  let index = haystack.indexOf(token);
+  while (token && index !== -1) {
+    ranges.push([index, index + token.length]);
+    index = haystack.indexOf(token, index + token.length);
+  }
+  return ranges;
+};
+
+// Digit-only match, mapped back onto the formatted phone number
+const findPhoneRanges = (phone: string, digits: string): Array<[number, number]> => {
+  const positions: number[] = [];
+  let phoneDigits = '';
+  for (let i = 0; i < phone.length; i++) {
+    if (/\d/.test(phone[i])) {
+      positions.push(i);
+      phoneDigits += phone[i];
+    }
+  }
+  const start = phoneDigits.indexOf(digits);
+  if (start === -1) return [];
+  return [[positions[start], positions[start + digits.length - 1] + 1]];
+};
+
+// "18:40" → "6:40" so 24h times match the 12h clock on screen
+const toTwelveHour = (token: string): string => {
+  const match = token.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || Number(match[1]) <= 12) return token;
+  return `${Number(match[1]) - 12}:${match[2]}`;
+};
+
+const searchableFields = (order: Order): Array<{ field: SearchField; text: string }> => [
+  { field: 'order_number', text: order.order_number || '' },
+  { field: 'customer', text: order.customer?.name || '' },
+  { field: 'phone', text: order.customer?.phone || '' },
+  { field: 'time', text: formatSearchTime(order.created_at) },
+  ...order.items.map((item) => ({ field: 'item' as const, text: item.name })),
+  ...order.items.filter((item) => item.notes).map((item) => ({ field: 'notes' as const, text: item.notes! })),
+  ...(order.notes ? [{ field: 'notes' as const, text: order.notes }] : []),
+];
+
+/**
+ * Match one order against the query - null unless every word matches somewhere
+ */
+export const matchOrder = (order: Order, tokens: string[]): { matches: SearchMatch[]; score: number } | null => {
+  const fields = searchableFields(order);
+  const found = new Map<number, SearchMatch>();
+  let score = 0;
+
+  for (const token of tokens) {
+    const digits = token.replace(/\D/g, '');
+    const isPhoneLike = digits.length >= MIN_PHONE_DIGITS && /^[\d()+\-.]+$/.test(token);
+    let best = 0;
+
+    fields.forEach((field, index) => {
+      let ranges: Array<[number, number]>;
+      if (field.field === 'phone') {
+        ranges = isPhoneLike ? findPhoneRanges(field.text, digits) : [];
+      } else if (field.field === 'time') {
+        // Times match from the start - "1:40" shouldn't find 11:40
+        ranges = field.text.startsWith(toTwelveHour(token)) ? [[0, toTwelveHour(token).length]] : [];
+      } else {
+        ranges = findRanges(field.text, token);
+      }
+      if (ranges.length === 0) return;
+
+      const existing = found.get(index);
+      found.set(index, {
+        field: field.field,
+        text: field.text,
+        ranges: existing ? [...existing.ranges, ...ranges].sort((a, b) => a[0] - b[0]) : ranges,
+      });
+      const exact = field.text.toLowerCase() === token;
+      const prefix = ranges[0][0] === 0;
+      best = Math.max(best, FIELD_WEIGHTS[field.field] * (exact ? 3 : prefix ? 2 : 1));
+    });
+
+    if (best === 0) return null;
+    score += best;
+  }
+
+  return { matches: Array.from(found.values()), score };
+};
+
+/**
+ * Search several order lists at once - an order in more than one (live
+ * board, local history, server) is only matched in the first, the freshest copy
+ */
+export const searchOrders = (
+  sources: Array<{ source: SearchSource; orders: Order[] }>,
+  query: string,
+  limit = 50
+): OrderSearchResult[] => {
+  const tokens = tokenizeQuery(query);
+  if (query.trim().length < MIN_QUERY_LENGTH || tokens.length === 0) return [];
+
+  const seen = new Set<string>();
+  const results: OrderSearchResult[] = [];
+  sources.forEach(({ source, orders }) => {
+    orders.forEach((order) => {
+      if (seen.has(order.id)) return;
+      seen.add(order.id);
+      const match = matchOrder(order, tokens);
+      if (!match) return;
+      results.push({ order, source, ...match });
+    });
+  });
+
+  return results
+    .sort(
+      (a, b) =>
+        b.score - a.score || new Date(b.order.created_at).getTime() - new Date(a.order.created_at).getTime()
+    )
+    .slice(0, limit);
+};
+
+/**
+ * Split text into plain and highlighted parts for rendering
+ */
+export const splitHighlights = (
+  text: string,
+  ranges: Array<[number, number]>
+): Array<{ text: string; highlighted: boolean }> => {
+  const parts: Array<{ text: string; highlighted: boolean }> = [];
+  let cursor = 0;
+  ranges.forEach(([start, end]) => {
+    if (end <= cursor) return;
+    const from = Math.max(start, cursor);
+    if (from > cursor) parts.push({ text: text.slice(cursor, from), highlighted: false });
+    parts.push({ text: text.slice(from, end), highlighted: true });
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push({ text: text.slice(cursor), highlighted: false });
+  return parts;
+};
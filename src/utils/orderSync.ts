@@ -0,0 +1,100 @@
+import { Order } from '../types';
+
+/**
+ * Incremental order sync.
+ *
+ * Polls ask the server only for orders updated since the last cursor and
+ * merge them into the list by id, so a busy day's hundreds of completed
+ * orders aren't downloaded (and re-rendered) every few seconds. A full fetch
+ * still runs every few minutes - it's the only way to notice orders the
+ * server dropped without telling us.
+ */
+
+export const FULL_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface OrderSyncState {
+  cursor: string | null;          // Server cursor for the next delta
+  lastFullSyncAt: string | null;
+}
+
+export interface OrderMergeResult {
+  orders: Order[];
+  changed: boolean;      // false = same list, same objects - nothing to re-render
+  stale: string[];       // Ids where the server sent an older copy than we have
+}
+
+const updatedAtMs = (order: Order): number => {
+  const ms = new Date(order.updated_at).getTime();
+  return Number.isFinite(ms) ? ms : 0;
+};
+
+const byNewest = (a: Order, b: Order) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+
+/**
+ * Full sync when there's no cursor yet, one was asked for, or the last one is too old
+ */
+export const needsFullSync = (sync: OrderSyncState, now: number = Date.now(), force = false): boolean => {
+  if (force || !sync.cursor || !sync.lastFullSyncAt) return true;
+  return now - new Date(sync.lastFullSyncAt).getTime() >= FULL_SYNC_INTERVAL_MS;
+};
+
+/**
+ * Cursor for the next delta - the server's when it sends one, otherwise the
+ * newest updated_at it returned (server clock, not the tablet's)
+ */
+export const nextSyncCursor = (previous: string | null, incoming: Order[], serverCursor?: string | null): string | null => {
+  if (serverCursor) return serverCursor;
+  const newest = incoming.reduce<Order | null>(
+    (latest, order) => (!latest || updatedAtMs(order) > updatedAtMs(latest) ? order : latest),
+    null
+  );
+  if (!newest) return previous;
+  if (previous && new Date(previous).getTime() >= updatedAtMs(newest)) return previous;
+  return newest.updated_at;
+};
+
+/**
+ * Merge server orders into the list by id
+ * - full: the server list is the whole truth - orders it no longer has are dropped
+ * - delta: only the orders sent (and `deletedIds`) change, everything else stays
+ * On a delta, a copy older than the one we have is ignored, so a slow response
+ * can't undo a newer status (e.g. put a completed order back to preparing).
+ * A full sync is taken as-is - it's how the board recovers from a bad local copy.
+ * Orders that didn't change keep their object so memoized cards don't re-render.
+ */
+export const mergeOrders = (
+  current: Order[],
+  incoming: Order[],
+  options: { full: boolean; deletedIds?: string[] }
+): OrderMergeResult => {
+  const existing = new Map(current.map((order) => [order.id, order]));
+  const deleted = new Set(options.deletedIds || []);
+  const stale: string[] = [];
+  let changed = false;
+
+  const next = new Map<string, Order>(options.full ? [] : current.map((order) => [order.id, order]));
+  incoming.forEach((order) => {
+    if (deleted.has(order.id)) return;
+    const local = existing.get(order.id);
+    if (local && !options.full && updatedAtMs(order) < updatedAtMs(local)) {
+      stale.push(order.id);
+      next.set(order.id, local);
+      return;
+    }
+    if (local && JSON.stringify(local) === JSON.stringify(order)) {
+      next.set(order.id, local);
+      return;
+    }
+    changed = true;
+    next.set(order.id, order);
+  });
+
+  deleted.forEach((id) => {
+    if (next.delete(id)) changed = true;
+  });
+  if (options.full && current.some((order) => !next.has(order.id))) {
+    changed = true;
+  }
+
+  return { orders: changed ? Array.from(next.values()).sort(byNewest) : current, changed, stale };
+};
@@ -0,0 +1,86 @@
+import { Order, TabletServiceConfig } from '../types';
+import { getBoardTime } from './scheduledOrders';
+
+/**
+ * Quoted ready times.
+ *
+ * Accepting an order quotes the customer a ready time. It's sent with the
+ * acknowledgement and kept as the order's estimated_ready_time; cards count
+ * down to it and aging colors measure against it instead of the order's age.
+ */
+
+// When the restaurant hasn't set a takeout time
+export const DEFAULT_PREP_MINUTES = 20;
+
+// Quick choices around the default, in minutes
+const ETA_OFFSETS = [-5, 0, 5, 10, 20];
+
+export type AgingLevel = 'yellow' | 'red';
+
+/**
+ * Minutes to quote by default - the busy takeout time while busy mode is on
+ */
+export const getDefaultPrepMinutes = (
+  config: Pick<TabletServiceConfig, 'takeout_time_minutes' | 'busy_takeout_time_minutes' | 'busy_mode_enabled'> | null
+): number => {
+  const minutes = config?.busy_mode_enabled
+    ? config.busy_takeout_time_minutes ?? config.takeout_time_minutes
+    : config?.takeout_time_minutes;
+  return minutes && minutes > 0 ? minutes : DEFAULT_PREP_MINUTES;
+};
+
+export const getEtaChoices = (defaultMinutes: number): number[] =>
+  Array.from(new Set(ETA_OFFSETS.map((offset) => defaultMinutes + offset).filter((minutes) => minutes > 0)));
+
+export const getQuotedReadyTime = (minutes: number, now: number = Date.now()): string =>
+  new Date(now + minutes * 60 * 1000).toISOString();
+
+/**
+ * What the customer was promised (ms): the due time of a scheduled order,
+ * otherwise the quoted ready time. Null when nothing was promised.
+ */
+export const getPromisedTime = (order: Order): number | null => {
+  const promised = order.scheduled_for || order.estimated_ready_time;
+  if (!promised) return null;
+  const time = new Date(promised).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Whole minutes left until the promised time - 0 in the minute it's due,
+ * negative once it's late
+ */
+export const getMinutesUntilPromised = (order: Order, now: number = Date.now()): number | null => {
+  const promised = getPromisedTime(order);
+  return promised === null ? null : Math.ceil((promised - now) / (60 * 1000));
+};
+
+export const formatCountdown = (minutes: number): string => {
+  if (minutes > 0) return `${minutes} min`;
+  if (minutes === 0) return 'Due now';
+  return `${-minutes} min late`;
+};
+
+/**
+ * Aging color for an open order. With a promised time it goes red once the
+ * promise is missed and yellow the same stretch before that as an unquoted
+ * order spends between yellow and red; without one it counts from when the
+ * order reached the board.
+ */
+export const getAgingLevel = (
+  order: Order,
+  yellowMin: number,
+  redMin: number,
+  scheduledLeadMinutes: number,
+  now: number = Date.now()
+): AgingLevel | null => {
+  const promised = getPromisedTime(order);
+  if (promised !== null) {
+    if (now >= promised) return 'red';
+    return now >= promised - (redMin - yellowMin) * 60 * 1000 ? 'yellow' : null;
+  }
+
+  const ageMinutes = Math.floor((now - getBoardTime(order, scheduledLeadMinutes)) / (60 * 1000));
+  if (ageMinutes >= redMin) return 'red';
+  return ageMinutes >= yellowMin ? 'yellow' : null;
+};
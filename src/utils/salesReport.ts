@@ -0,0 +1,180 @@
+import { CancelReasonCode, Order, OrderStatus, OrderTimes, OrderType, SalesBucket, SalesReport, SalesTotals } from '../types';
+
+/**
+ * End-of-day sales summary (Z report).
+ *
+ * Restaurants close after midnight, so a "day" runs from the business day
+ * start hour (4 AM by default) to the same hour the next morning. Orders are
+ * counted by when they were placed; cancelled orders are reported on their
+ * own (by reason) and left out of the sales totals.
+ */
+
+export const DEFAULT_BUSINESS_DAY_START_HOUR = 4;
+
+// Kept long enough for yesterday's report, then pruned
+const ORDER_TIMES_TTL_MS = 48 * 60 * 60 * 1000;
+
+const READY_OR_LATER: OrderStatus[] = ['ready', 'out_for_delivery', 'delivered', 'completed'];
+
+export interface BusinessDayRange {
+  start: Date;
+  end: Date;
+}
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+const minutesBetween = (from: string, to?: string): number | null => {
+  if (!to) return null;
+  const minutes = (new Date(to).getTime() - new Date(from).getTime()) / 60000;
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes : null;
+};
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10 : null;
+
+const addToBucket = <K extends string>(buckets: Partial<Record<K, SalesBucket>>, key: K, total: number) => {
+  const bucket = buckets[key] ?? { count: 0, total: 0 };
+  buckets[key] = { count: bucket.count + 1, total: roundMoney(bucket.total + total) };
+};
+
+export const isReadyOrLater = (status: OrderStatus): boolean => READY_OR_LATER.includes(status);
+
+/**
+ * The business day containing `date` (device local time), shifted by `offsetDays`
+ * e.g. 1:30 AM with a 4 AM start belongs to the previous day.
+ */
+export const getBusinessDayRange = (
+  date: Date = new Date(),
+  startHour: number = DEFAULT_BUSINESS_DAY_START_HOUR,
+  offsetDays: number = 0
+): BusinessDayRange => {
+  const start = new Date(date);
+  start.setHours(startHour, 0, 0, 0);
+  if (date.getTime() < start.getTime()) {
+    start.setDate(start.getDate() - 1);
+  }
+  start.setDate(start.getDate() + offsetDays);
+
+  // setDate (not +24h) so a DST change doesn't move the boundary
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start, end };
+};
+
+/**
+ * Summarise the orders placed in `range`
+ */
+export const buildSalesReport = (
+  orders: Order[],
+  range: BusinessDayRange,
+  orderTimes: Record<string, OrderTimes> = {},
+  now: Date = new Date()
+): SalesReport => {
+  const startMs = range.start.getTime();
+  const endMs = range.end.getTime();
+  const dayOrders = orders.filter((order) => {
+    const placed = new Date(order.created_at).getTime();
+    return placed >= startMs && placed < endMs;
+  });
+
+  const sales: SalesTotals = { subtotal: 0, tax: 0, tips: 0, delivery_fees: 0, total: 0 };
+  const cancelled: SalesBucket = { count: 0, total: 0 };
+  const byCancelReason: Partial<Record<CancelReasonCode | 'none', SalesBucket>> = {};
+  const byStatus: Partial<Record<OrderStatus, number>> = {};
+  const byOrderType: Partial<Record<OrderType, SalesBucket>> = {};
+  const byPaymentStatus: Record<string, SalesBucket> = {};
+  const acceptMinutes: number[] = [];
+  const readyMinutes: number[] = [];
+
+  dayOrders.forEach((order) => {
+    byStatus[order.status] = (byStatus[order.status] ?? 0) + 1;
+    const total = order.total || 0;
+
+    if (order.status === 'cancelled') {
+      cancelled.count += 1;
+      cancelled.total = roundMoney(cancelled.total + total);
+      addToBucket(byCancelReason, order.cancel_reason || 'none', total);
+      return;
+    }
+
+    sales.subtotal += order.subtotal || 0;
+    sales.tax += order.tax || 0;
+    sales.tips += order.tip || 0;
+    sales.delivery_fees += order.delivery_fee || 0;
+    sales.total += total;
+    addToBucket(byOrderType, order.order_type || 'pickup', total);
+    addToBucket(byPaymentStatus, order.payment_status || 'unknown', total);
+
+    const times = orderTimes[order.id];
+    const accept = minutesBetween(order.created_at, times?.accepted_at);
+    if (accept !== null) acceptMinutes.push(accept);
+    const ready = minutesBetween(order.created_at, times?.ready_at);
+    if (ready !== null) readyMinutes.push(ready);
+  });
+
+  const saleCount = dayOrders.length - cancelled.count;
+  return {
+    range_start: range.start.toISOString(),
+    range_end: range.end.toISOString(),
+    generated_at: now.toISOString(),
+    order_count: dayOrders.length,
+    sales: {
+      subtotal: roundMoney(sales.subtotal),
+      tax: roundMoney(sales.tax),
+      tips: roundMoney(sales.tips),
+      delivery_fees: roundMoney(sales.delivery_fees),
+      total: roundMoney(sales.total),
+    },
+    sale_count: saleCount,
+    cancelled,
+    by_cancel_reason: byCancelReason,
+    by_status: byStatus,
+    by_order_type: byOrderType,
+    by_payment_status: byPaymentStatus,
+    average_order_value: saleCount > 0 ? roundMoney(sales.total / saleCount) : 0,
+    average_accept_minutes: average(acceptMinutes),
+    average_ready_minutes: average(readyMinutes),
+  };
+};
+
+/**
+ * Set a timestamp once - the first accept / ready is the one that counts
+ */
+export const markOrderTime = (
+  times: Record<string, OrderTimes>,
+  orderId: string,
+  field: keyof OrderTimes,
+  at: string = new Date().toISOString()
+): Record<string, OrderTimes> =>
+  times[orderId]?.[field] ? times : { ...times, [orderId]: { ...times[orderId], [field]: at } };
+
+/**
+ * Mark orders a poll shows moving to ready (or later) and drop old entries
+ * Only transitions seen here count - an order that was already done when
+ * first fetched has no ready time. Ready set on another device is only as
+ * accurate as the poll interval.
+ */
+export const trackOrderTimes = (
+  times: Record<string, OrderTimes>,
+  previousOrders: Array<Pick<Order, 'id' | 'status'>>,
+  orders: Array<Pick<Order, 'id' | 'status'>>,
+  now: Date = new Date()
+): Record<string, OrderTimes> => {
+  const at = now.toISOString();
+  const previousStatus = new Map(previousOrders.map((order) => [order.id, order.status]));
+  let next = times;
+  orders.forEach((order) => {
+    const before = previousStatus.get(order.id);
+    if (before && !isReadyOrLater(before) && before !== 'cancelled' && isReadyOrLater(order.status)) {
+      next = markOrderTime(next, order.id, 'ready_at', at);
+    }
+  });
+
+  const cutoff = now.getTime() - ORDER_TIMES_TTL_MS;
+  const expired = Object.keys(next).filter((id) => {
+    const stamps = [next[id].accepted_at, next[id].ready_at, next[id].promised_at].filter(Boolean) as string[];
+    return stamps.every((stamp) => new Date(stamp).getTime() < cutoff);
+  });
+  if (expired.length === 0) return next;
+  return Object.fromEntries(Object.entries(next).filter(([id]) => !expired.includes(id)));
+};
@@ -0,0 +1,79 @@
+import { Order } from '../types';
+
+/**
+ * Scheduled (future) orders.
+ *
+ * An order placed for later is held in the Scheduled lane until it's within
+ * the lead time of when it's due, then it lands in New like any other order -
+ * alert, auto-print and all. "Fire time" is that moment: due time minus lead.
+ */
+
+export const DEFAULT_SCHEDULED_LEAD_MINUTES = 30;
+
+export const SCHEDULED_NOTE_PATTERN = /Scheduled\s*for:\s*(\d{4}-\d{2}-\d{2}T[\d:\.]+Z?)/i;
+
+const toIso = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+};
+
+/**
+ * Due time of an order as sent by the API, falling back to the
+ * "Scheduled for: <ISO time>" note some order sources add instead
+ */
+export const parseScheduledFor = (scheduledFor: unknown, notes?: string | null): string | null =>
+  toIso(scheduledFor) ?? toIso(notes?.match(SCHEDULED_NOTE_PATTERN)?.[1]);
+
+/**
+ * When a scheduled order moves to New (ms), or null for a regular order
+ */
+export const getFireTime = (order: Order, leadMinutes: number): number | null => {
+  if (!order.scheduled_for) return null;
+  const due = new Date(order.scheduled_for).getTime();
+  return Number.isNaN(due) ? null : due - leadMinutes * 60 * 1000;
+};
+
+/**
+ * Still waiting in the Scheduled lane? Only untouched (pending) orders are
+ * held - one staff accepted early is already being worked on.
+ */
+export const isScheduledHold = (order: Order, leadMinutes: number, now: number = Date.now()): boolean => {
+  const fireTime = getFireTime(order, leadMinutes);
+  return fireTime !== null && order.status === 'pending' && now < fireTime;
+};
+
+/**
+ * When the order reached the board: its fire time for a scheduled order,
+ * otherwise when it was placed. Ages and "new order" checks count from here.
+ */
+export const getBoardTime = (order: Order, leadMinutes: number): number => {
+  const created = new Date(order.created_at).getTime();
+  const fireTime = getFireTime(order, leadMinutes);
+  return fireTime !== null ? Math.max(created, fireTime) : created;
+};
+
+/**
+ * Held orders (soonest due first) and everything else, in its original order
+ */
+export const splitScheduledOrders = (
+  orders: Order[],
+  leadMinutes: number,
+  now: number = Date.now()
+): { scheduled: Order[]; board: Order[] } => {
+  const scheduled: Order[] = [];
+  const board: Order[] = [];
+  orders.forEach((order) => (isScheduledHold(order, leadMinutes, now) ? scheduled : board).push(order));
+  scheduled.sort((a, b) => new Date(a.scheduled_for!).getTime() - new Date(b.scheduled_for!).getTime());
+  return { scheduled, board };
+};
+
+/**
+ * Milliseconds until the next held order fires (null = none held)
+ */
+export const getNextFireDelayMs = (orders: Order[], leadMinutes: number, now: number = Date.now()): number | null => {
+  const fireTimes = orders
+    .filter((order) => isScheduledHold(order, leadMinutes, now))
+    .map((order) => getFireTime(order, leadMinutes)! - now);
+  return fireTimes.length > 0 ? Math.max(0, Math.min(...fireTimes)) : null;
+};
@@ -1,4 +1,5 @@
 import { Order, OrderStatus, StuckOrderInfo } from '../types';
+import { DEFAULT_SCHEDULED_LEAD_MINUTES, getFireTime, isScheduledHold } from './scheduledOrders';
 
 /**
  * Thresholds for detecting stuck orders (in minutes).
@@ -32,9 +33,13 @@ const IGNORED_STATUSES: OrderStatus[] = [
  * Returns an array of stuck orders sorted by how long they've been stuck.
  * 
  * @param orders - Current list of orders from the store
+ * @param scheduledLeadMinutes - How long before due scheduled orders move to New
  * @returns Array of StuckOrderInfo for orders exceeding their threshold
  */
-export const detectStuckOrders = (orders: Order[]): StuckOrderInfo[] => {
+export const detectStuckOrders = (
+  orders: Order[],
+  scheduledLeadMinutes: number = DEFAULT_SCHEDULED_LEAD_MINUTES
+): StuckOrderInfo[] => {
   const now = Date.now();
   const stuckOrders: StuckOrderInfo[] = [];
 
@@ -44,6 +49,11 @@ export const detectStuckOrders = (orders: Order[]): StuckOrderInfo[] => {
       continue;
     }
 
+    // Scheduled orders are meant to sit untouched until they fire
+    if (isScheduledHold(order, scheduledLeadMinutes, now)) {
+      continue;
+    }
+
     const threshold = STUCK_THRESHOLDS[order.status];
     
     // Skip statuses we don't have a threshold for
@@ -52,8 +62,12 @@ export const detectStuckOrders = (orders: Order[]): StuckOrderInfo[] => {
     }
     
     // Calculate time in current status
-    // Use updated_at if available (when status changed), otherwise created_at
-    const statusTime = new Date(order.updated_at || order.created_at).getTime();
+    // Use updated_at if available (when status changed), otherwise created_at -
+    // and not before a scheduled order fired
+    const statusTime = Math.max(
+      new Date(order.updated_at || order.created_at).getTime(),
+      getFireTime(order, scheduledLeadMinutes) ?? 0
+    );
     const minutesInStatus = Math.floor((now - statusTime) / 60000);
     
     // Only include if exceeds threshold